@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { useRoleStore } from "~/lib/stores/roleStore";
 import { cn } from "~/lib/utils/cn";
 import { useT } from "~/lib/utils/i18n";
+import { StepUsageBadge } from "./StepUsageBadge";
 
 export function AgentStatusIndicator() {
   const t = useT();
@@ -11,6 +12,9 @@ export function AgentStatusIndicator() {
     currentModel,
     currentProvider,
     stepStartTime,
+    lastStepUsage,
+    continuation,
+    queue,
     error,
   } = useRoleStore();
 
@@ -63,8 +67,20 @@ export function AgentStatusIndicator() {
           <span className="text-text-muted">
             {currentModel}@{currentProvider}
           </span>
-          {elapsed > 0 && (
+          {continuation && continuation.roleName === currentRoleName && (
+            <span className="text-gold-pure" title={continuation.filePath}>
+              ↪ {t("continuation.label")} {continuation.attempt}/{continuation.maxAttempts}
+            </span>
+          )}
+          {queue && queue.roleName === currentRoleName && (
+            <span className="text-gold-pure" title={`${queue.model}@${queue.provider}`}>
+              ⏳ {t("queue.label")} #{queue.position} · ~{Math.ceil(queue.estimatedWaitMs / 1000)}с
+            </span>
+          )}
+          {elapsed > 0 ? (
             <span className="text-text-muted ml-auto">⏱ {elapsed.toFixed(1)}с</span>
+          ) : lastStepUsage && (
+            <StepUsageBadge usage={lastStepUsage} className="text-text-muted ml-auto" />
           )}
         </div>
       </div>
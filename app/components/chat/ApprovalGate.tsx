@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import type { ApprovalDecision } from "@shared/types/agentRole";
+import { useRoleStore, type PendingApproval } from "~/lib/stores/roleStore";
+import { NeonButton } from "~/components/ui/NeonButton";
+import { useT } from "~/lib/utils/i18n";
+
+function ApprovalEditor({ approval }: { approval: PendingApproval }) {
+  const t = useT();
+  const { submitApproval } = useRoleStore();
+  const [output, setOutput] = useState(approval.output);
+  const [feedback, setFeedback] = useState("");
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOutput(approval.output);
+    setFeedback("");
+  }, [approval.output]);
+
+  const edited = output !== approval.output;
+
+  const submit = async (decision: ApprovalDecision) => {
+    setSending(true);
+    setError(null);
+    try {
+      await submitApproval(approval.stepId, decision);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Не удалось отправить решение");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="mx-4 mb-2 glass rounded-lg px-3 py-2 border border-gold-pure/30 space-y-2">
+      <div className="flex items-center gap-2 text-[10px] text-text-muted">
+        <span>✋</span>
+        <span>{t("approval.title")}: {approval.roleName}</span>
+      </div>
+      <textarea
+        value={output}
+        onChange={(e) => setOutput(e.target.value)}
+        rows={8}
+        spellCheck={approval.outputFormat !== "json"}
+        className="w-full bg-deep-space border border-border-subtle rounded px-3 py-2 text-xs text-text-primary font-mono outline-none focus:border-gold-pure/40"
+      />
+      <textarea
+        value={feedback}
+        onChange={(e) => setFeedback(e.target.value)}
+        rows={2}
+        placeholder={t("approval.feedback_placeholder")}
+        className="w-full bg-deep-space border border-border-subtle rounded px-3 py-2 text-xs text-text-primary outline-none focus:border-gold-pure/40"
+      />
+      <div className="flex items-center gap-2 justify-end">
+        {error && <span className="text-red-400 text-xs mr-auto">{error}</span>}
+        <NeonButton
+          variant="ghost"
+          size="sm"
+          disabled={sending || !feedback.trim()}
+          onClick={() => submit({ action: "reject", feedback: feedback.trim() })}
+        >
+          {t("approval.reject")}
+        </NeonButton>
+        <NeonButton
+          variant="primary"
+          size="sm"
+          disabled={sending || !output.trim()}
+          onClick={() => submit(edited ? { action: "edit", output } : { action: "approve" })}
+        >
+          {edited ? t("approval.save_continue") : t("approval.approve")}
+        </NeonButton>
+      </div>
+    </div>
+  );
+}
+
+/** Chain steps paused at an approval gate — one editor per waiting step. */
+export function ApprovalGate() {
+  const { pendingApprovals } = useRoleStore();
+  if (pendingApprovals.length === 0) return null;
+
+  return (
+    <>
+      {pendingApprovals.map((approval) => (
+        <ApprovalEditor key={approval.stepId} approval={approval} />
+      ))}
+    </>
+  );
+}
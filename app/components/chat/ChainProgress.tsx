@@ -1,10 +1,27 @@
+import { useState } from "react";
+import type { ChainCommand } from "@shared/types/agentRole";
 import { useRoleStore } from "~/lib/stores/roleStore";
 import { cn } from "~/lib/utils/cn";
 import { useT } from "~/lib/utils/i18n";
+import { StepUsageBadge } from "./StepUsageBadge";
+
+function StepAction({ label, onClick }: { label: string; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      className="px-1.5 py-0.5 text-[10px] rounded border border-border-subtle text-text-secondary hover:border-gold-pure/40 hover:text-gold-pure"
+    >
+      {label}
+    </button>
+  );
+}
 
 export function ChainProgress() {
   const t = useT();
-  const { pipelineStatus, isChainMode, chainSteps, chainCurrent, chainTotal } = useRoleStore();
+  const { pipelineStatus, isChainMode, chainSteps, chainCurrent, chainTotal, roles, sendChainCommand } = useRoleStore();
+  const [insertRoleId, setInsertRoleId] = useState("");
+  const [error, setError] = useState<string | null>(null);
 
   // Show when in chain mode and we have steps, regardless of exact pipelineStatus
   const isActive = isChainMode && chainSteps.length > 0 &&
@@ -12,6 +29,14 @@ export function ChainProgress() {
 
   if (!isActive) return null;
 
+  // Commands only reach a chain that is still running
+  const canControl = pipelineStatus === "chain_running";
+
+  const send = (command: ChainCommand) => {
+    setError(null);
+    sendChainCommand(command).catch((e) => setError(e instanceof Error ? e.message : String(e)));
+  };
+
   return (
     <div className="mx-4 mb-2 glass rounded-lg px-3 py-2 border border-gold-pure/10">
       <div className="flex items-center gap-2 text-[10px] text-text-muted mb-2">
@@ -25,26 +50,62 @@ export function ChainProgress() {
               {step.status === "done" && "✅"}
               {step.status === "running" && <span className="animate-spin inline-block">🔄</span>}
               {step.status === "pending" && "⏳"}
+              {step.status === "awaiting_approval" && "✋"}
+              {step.status === "failed" && "⚠️"}
+              {step.status === "skipped" && "⏭️"}
               {step.status === "error" && "❌"}
             </span>
             <span
               className={cn(
                 step.status === "done" && "text-text-secondary",
-                step.status === "running" && "text-text-primary",
-                step.status === "pending" && "text-text-muted",
+                (step.status === "running" || step.status === "awaiting_approval") && "text-text-primary",
+                (step.status === "pending" || step.status === "skipped") && "text-text-muted",
+                step.status === "failed" && "text-amber-400",
                 step.status === "error" && "text-red-400",
               )}
             >
               {step.roleName}
             </span>
+            {canControl && step.stepId && (step.status === "running" || step.status === "failed") && (
+              <div className="ml-auto flex gap-1">
+                {step.status === "failed" && (
+                  <StepAction label={t("chain.retry")} onClick={() => send({ action: "retry", stepId: step.stepId! })} />
+                )}
+                <StepAction label={t("chain.skip")} onClick={() => send({ action: "skip", stepId: step.stepId! })} />
+              </div>
+            )}
             {step.durationMs != null && (
               <span className="text-text-muted ml-auto">
+                {step.usage && <StepUsageBadge usage={step.usage} className="mr-2" />}
                 {(step.durationMs / 1000).toFixed(1)}с
               </span>
             )}
           </div>
         ))}
       </div>
+      {canControl && (
+        <div className="flex items-center gap-1 mt-2">
+          <select
+            value={insertRoleId}
+            onChange={(e) => setInsertRoleId(e.target.value)}
+            className="flex-1 min-w-0 bg-deep-space border border-border-subtle rounded px-2 py-0.5 text-[10px] text-text-secondary outline-none focus:border-gold-pure/40"
+          >
+            <option value="">{t("chain.insert_placeholder")}</option>
+            {roles.filter((r) => r.isActive).map((role) => (
+              <option key={role.id} value={role.id}>{role.name}</option>
+            ))}
+          </select>
+          <StepAction
+            label={`➕ ${t("chain.insert")}`}
+            onClick={() => {
+              if (!insertRoleId) return;
+              send({ action: "insert", roleId: insertRoleId });
+              setInsertRoleId("");
+            }}
+          />
+        </div>
+      )}
+      {error && <p className="text-red-400 text-[10px] mt-1">{error}</p>}
     </div>
   );
 }
@@ -3,28 +3,40 @@ import { useChatStore } from "~/lib/stores/chatStore";
 import { useAgentStore } from "~/lib/stores/agentStore";
 import { useProjectStore } from "~/lib/stores/projectStore";
 import { useSettingsStore } from "~/lib/stores/settingsStore";
-import { useRoleStore } from "~/lib/stores/roleStore";
+import { useRoleStore, type PlanPreview as PlanPreviewState } from "~/lib/stores/roleStore";
 import { usePipelineStreaming } from "~/lib/hooks/usePipelineStreaming";
 import { useProjects } from "~/features/projects/hooks/useProjects";
 import { useVersionHistory } from "~/features/projects/hooks/useVersionHistory";
+import { useBranches } from "~/features/chat/hooks/useBranches";
 import { sanitizeVersionCode } from "~/lib/utils/codeParser";
 import { MessageList } from "./MessageList";
 import { PromptInput } from "./PromptInput";
 import { RoleDropdown } from "./RoleDropdown";
+import { PipelineDropdown } from "./PipelineDropdown";
 import { LocalContextInput } from "./LocalContextInput";
 import { AgentStatusIndicator } from "./AgentStatusIndicator";
 import { ChainProgress } from "./ChainProgress";
+import { TesterChecklist } from "./TesterChecklist";
+import { CodeDiagnosticsList } from "./CodeDiagnosticsList";
+import { ApprovalGate } from "./ApprovalGate";
+import { ClarifyingQuestionsForm } from "./ClarifyingQuestionsForm";
+import { PlanPreview } from "./PlanPreview";
+import { JobList } from "./JobList";
 import { GlowText } from "~/components/ui/GlowText";
 import { NeonButton } from "~/components/ui/NeonButton";
 import { useT } from "~/lib/utils/i18n";
+import { CHAIN_ROLE_ID } from "@shared/types/agentRole";
+import type { ConfirmedPlan } from "@shared/types/agentRole";
+import type { PipelineJobSummary } from "@shared/types/pipelineJob";
 
 export function ChatPanel() {
   const { messages, streaming, isChatLoading } = useChatStore();
   const { currentProject } = useProjectStore();
-  const { roles, selection, clearLocalContext, pipelineStatus } = useRoleStore();
-  const { generate, stop } = usePipelineStreaming();
+  const { roles, selection, clearLocalContext, pipelineStatus, isPlanning } = useRoleStore();
+  const { generate, attach, stop } = usePipelineStreaming();
   const { create: createProject } = useProjects();
   const { saveVersion } = useVersionHistory();
+  const { forkAt } = useBranches();
 
   const wasStreamingRef = useRef(false);
   const lastPromptRef = useRef("");
@@ -41,9 +53,10 @@ export function ChatPanel() {
   const hasRoles = roles.length > 0;
   const canGenerate = hasOnlineProvider && hasRoles;
 
-  // Load roles on mount
+  // Load roles and stored pipelines on mount
   useEffect(() => {
     useRoleStore.getState().loadRoles();
+    useRoleStore.getState().loadPipelines();
   }, []);
 
   const handleSeedRoles = useCallback(async () => {
@@ -52,7 +65,7 @@ export function ChatPanel() {
     try {
       const providerId = agentSelection.agentId || settings.defaultAgentId;
       const modelName = agentSelection.modelId || settings.defaultModelId;
-      const body: Record<string, string> = {};
+      const body: Record<string, string> = { locale: settings.language };
       if (providerId && modelName) {
         body.providerId = providerId;
         body.modelName = modelName;
@@ -145,12 +158,19 @@ export function ChatPanel() {
         projectId = created.id;
       }
 
+      // Chain mode: show the plan first, the user launches it from the preview
+      if (roleStore.selection.roleId === CHAIN_ROLE_ID) {
+        await roleStore.requestPlan(projectId, prompt, useChatStore.getState().currentBranchId);
+        return;
+      }
+
       generate(prompt, {
         projectId: projectId!,
         roleId: roleStore.selection.roleId,
         localContext: roleStore.selection.localContext,
         projectType: currentProject?.type ?? defaultProjectType,
         sessionId: roleStore.pipelineSessionId ?? undefined,
+        branchId: useChatStore.getState().currentBranchId,
       });
 
       // Clear local context after sending
@@ -161,6 +181,84 @@ export function ChatPanel() {
     }
   };
 
+  const handleLaunchPlan = (preview: PlanPreviewState, plan: ConfirmedPlan) => {
+    const { defaultProjectType } = useSettingsStore.getState();
+    const roleStore = useRoleStore.getState();
+
+    lastPromptRef.current = preview.prompt;
+    roleStore.clearPlanPreview();
+    generate(preview.prompt, {
+      projectId: preview.projectId,
+      roleId: CHAIN_ROLE_ID,
+      localContext: roleStore.selection.localContext,
+      projectType: currentProject?.type ?? defaultProjectType,
+      sessionId: preview.sessionId,
+      branchId: useChatStore.getState().currentBranchId,
+      plan,
+      pipelineId: preview.pipelineId,
+    });
+    clearLocalContext();
+  };
+
+  /** Re-run an earlier prompt with new text: later messages and agent steps are dropped. */
+  const handleEdit = async (messageId: string, content: string, keepOriginal: boolean) => {
+    const project = useProjectStore.getState().currentProject;
+    const chat = useChatStore.getState();
+    const roleStore = useRoleStore.getState();
+    const original = chat.messages.find((m) => m.id === messageId);
+    const last = chat.messages[chat.messages.length - 1];
+    if (!project || !original || !last) return;
+
+    try {
+      // The untouched conversation lives on in a branch
+      if (keepOriginal) {
+        await chat.forkBranch(project.id, last.id, roleStore.pipelineSessionId);
+      }
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : "Не удалось создать ветку";
+      chat.setStreaming({ error: msg });
+      return;
+    }
+
+    // Code as it was when the message was first sent
+    const before = useProjectStore.getState().versions.find(
+      (v) => new Date(v.createdAt).getTime() <= original.timestamp,
+    );
+    chat.setGeneratedCode(before ? sanitizeVersionCode(before.code) : {});
+    const dropped = chat.messages
+      .slice(chat.messages.indexOf(original))
+      .filter((m) => m.role === "user")
+      .map((m) => m.id);
+    chat.truncateFrom(messageId);
+
+    lastPromptRef.current = content;
+    roleStore.clearPlanPreview();
+    generate(content, {
+      projectId: project.id,
+      roleId: original.agentRoleId ?? roleStore.selection.roleId,
+      localContext: roleStore.selection.localContext,
+      projectType: project.type,
+      sessionId: roleStore.pipelineSessionId ?? undefined,
+      branchId: chat.currentBranchId,
+      rewindMessageIds: dropped,
+      pipelineId: roleStore.selectedPipelineId || undefined,
+    });
+  };
+
+  const handleFork = (messageId: string) => {
+    forkAt(messageId).catch((err) => {
+      const msg = err instanceof Error ? err.message : "Не удалось создать ветку";
+      useChatStore.getState().setStreaming({ error: msg });
+    });
+  };
+
+  // Reattach to a job still running on the server, or replay one that finished
+  // while the tab was closed — the replay saves its messages and version
+  const handleAttach = (job: PipelineJobSummary) => {
+    lastPromptRef.current = job.message;
+    attach(job);
+  };
+
   return (
     <div className="flex flex-col h-full min-h-0 overflow-hidden">
       {isChatLoading ? (
@@ -202,11 +300,25 @@ export function ChatPanel() {
           </div>
         </div>
       ) : (
-        <MessageList messages={messages} isStreaming={streaming.isStreaming} />
+        <MessageList
+          messages={messages}
+          isStreaming={streaming.isStreaming}
+          onFork={currentProject ? handleFork : undefined}
+          onEdit={currentProject ? handleEdit : undefined}
+        />
       )}
 
       {/* Pipeline status indicators */}
       <ChainProgress />
+      <ApprovalGate />
+      <ClarifyingQuestionsForm onSubmit={handleSubmit} disabled={streaming.isStreaming || !canGenerate} />
+      <PlanPreview onLaunch={handleLaunchPlan} disabled={streaming.isStreaming || !canGenerate} />
+      {isPlanning && (
+        <div className="flex-shrink-0 mx-4 mb-2 text-[10px] text-text-muted animate-pulse">{t("plan.loading")}</div>
+      )}
+      <CodeDiagnosticsList />
+      <TesterChecklist />
+      <JobList onAttach={handleAttach} disabled={streaming.isStreaming} />
       <AgentStatusIndicator />
 
       {/* Show streaming error only when pipeline indicator isn't showing it */}
@@ -220,6 +332,7 @@ export function ChatPanel() {
         {/* Role controls */}
         <div className="px-4 pt-3 pb-1 flex items-end gap-3">
           <RoleDropdown />
+          <PipelineDropdown />
           <div className="flex-1" />
           <LocalContextInput />
         </div>
@@ -230,7 +343,7 @@ export function ChatPanel() {
             onSubmit={handleSubmit}
             onStop={stop}
             isStreaming={streaming.isStreaming}
-            disabled={!canGenerate}
+            disabled={!canGenerate || isPlanning}
           />
         </div>
       </div>
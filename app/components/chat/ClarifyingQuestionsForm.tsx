@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import type { ClarifyingQuestion } from "@shared/types/agentRole";
+import { useRoleStore } from "~/lib/stores/roleStore";
+import { NeonButton } from "~/components/ui/NeonButton";
+import { cn } from "~/lib/utils/cn";
+import { useT } from "~/lib/utils/i18n";
+
+type Answer = { selected: string[]; text: string };
+
+function initialAnswers(questions: ClarifyingQuestion[]): Record<string, Answer> {
+  const answers: Record<string, Answer> = {};
+  for (const q of questions) {
+    const selected = q.kind === "free-text" || q.default === undefined
+      ? []
+      : Array.isArray(q.default) ? q.default : [q.default];
+    const text = q.kind === "free-text" && typeof q.default === "string" ? q.default : "";
+    answers[q.id] = { selected, text };
+  }
+  return answers;
+}
+
+function answerText(answer: Answer | undefined): string {
+  if (!answer) return "";
+  return [...answer.selected, answer.text.trim()].filter(Boolean).join(", ");
+}
+
+/** The next user message — one "question — answer" line per answered question. */
+function formatAnswers(title: string, questions: ClarifyingQuestion[], answers: Record<string, Answer>): string {
+  const lines = questions
+    .map((q) => ({ q, value: answerText(answers[q.id]) }))
+    .filter(({ value }) => value)
+    .map(({ q, value }, i) => `${i + 1}. ${q.question} — ${value}`);
+  return `${title}:\n${lines.join("\n")}`;
+}
+
+function QuestionField({
+  question,
+  answer,
+  onChange,
+}: {
+  question: ClarifyingQuestion;
+  answer: Answer;
+  onChange: (answer: Answer) => void;
+}) {
+  const t = useT();
+
+  const toggle = (option: string) => {
+    if (question.kind === "single") {
+      onChange({ selected: answer.selected[0] === option ? [] : [option], text: "" });
+      return;
+    }
+    const selected = answer.selected.includes(option)
+      ? answer.selected.filter((o) => o !== option)
+      : [...answer.selected, option];
+    onChange({ ...answer, selected });
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <p className="text-xs text-text-primary">{question.question}</p>
+      {question.options.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {question.options.map((option) => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => toggle(option)}
+              className={cn(
+                "px-2 py-1 text-[11px] rounded border transition-colors",
+                answer.selected.includes(option)
+                  ? "bg-gold-pure/15 border-gold-pure/40 text-gold-pure"
+                  : "border-border-subtle text-text-secondary hover:border-gold-pure/30",
+              )}
+            >
+              {question.kind === "multi" && (answer.selected.includes(option) ? "☑ " : "☐ ")}
+              {option}
+            </button>
+          ))}
+        </div>
+      )}
+      <input
+        value={answer.text}
+        onChange={(e) =>
+          onChange({
+            // A custom answer replaces the single choice
+            selected: question.kind === "single" && e.target.value ? [] : answer.selected,
+            text: e.target.value,
+          })
+        }
+        placeholder={question.kind === "free-text" ? t("questions.placeholder") : t("questions.other")}
+        className="w-full bg-deep-space border border-border-subtle rounded px-3 py-1.5 text-xs text-text-primary outline-none focus:border-gold-pure/40"
+      />
+    </div>
+  );
+}
+
+/** Structured clarifying questions — the submitted answers are sent as the next message. */
+export function ClarifyingQuestionsForm({
+  onSubmit,
+  disabled,
+}: {
+  onSubmit: (message: string) => void;
+  disabled: boolean;
+}) {
+  const t = useT();
+  const { pendingQuestions, dismissQuestions } = useRoleStore();
+  const [answers, setAnswers] = useState<Record<string, Answer>>({});
+
+  useEffect(() => {
+    setAnswers(pendingQuestions ? initialAnswers(pendingQuestions.questions) : {});
+  }, [pendingQuestions]);
+
+  if (!pendingQuestions) return null;
+
+  const { questions, roleName } = pendingQuestions;
+  const hasAnswer = questions.some((q) => answerText(answers[q.id]));
+
+  return (
+    <div className="mx-4 mb-2 glass rounded-lg px-3 py-2 border border-gold-pure/30 space-y-3 max-h-[40vh] overflow-y-auto">
+      <div className="flex items-center gap-2 text-[10px] text-text-muted">
+        <span>❓</span>
+        <span>{t("questions.title")}: {roleName}</span>
+      </div>
+      {questions.map((q) => (
+        <QuestionField
+          key={q.id}
+          question={q}
+          answer={answers[q.id] ?? { selected: [], text: "" }}
+          onChange={(answer) => setAnswers((prev) => ({ ...prev, [q.id]: answer }))}
+        />
+      ))}
+      <div className="flex items-center gap-2 justify-end">
+        <NeonButton variant="ghost" size="sm" onClick={dismissQuestions}>
+          {t("questions.dismiss")}
+        </NeonButton>
+        <NeonButton
+          variant="primary"
+          size="sm"
+          disabled={disabled || !hasAnswer}
+          onClick={() => onSubmit(formatAnswers(t("questions.title"), questions, answers))}
+        >
+          {t("questions.submit")}
+        </NeonButton>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import type { CodeDiagnosticKind } from "@shared/types/agentRole";
+import { useRoleStore } from "~/lib/stores/roleStore";
+import { useT } from "~/lib/utils/i18n";
+
+const KIND_ICON: Record<CodeDiagnosticKind, string> = {
+  syntax: "❌",
+  unresolved_import: "🔗",
+  forbidden_import: "🚫",
+};
+
+/** Issues the headless check found in the Coder's files — shown until a later check passes. */
+export function CodeDiagnosticsList() {
+  const t = useT();
+  const { codeDiagnostics: diagnostics } = useRoleStore();
+
+  if (!diagnostics || diagnostics.length === 0) return null;
+
+  return (
+    <div className="mx-4 mb-2 glass rounded-lg px-3 py-2 border border-gold-pure/10">
+      <div className="flex items-center gap-2 text-[10px] text-text-muted mb-2">
+        <span>🔍</span>
+        <span>{t("diagnostics.title")}</span>
+        <span className="ml-auto font-semibold text-red-400">{diagnostics.length}</span>
+      </div>
+      <ul className="space-y-1 max-h-40 overflow-y-auto">
+        {diagnostics.map((diagnostic, i) => (
+          <li key={i} className="flex items-start gap-2 text-xs">
+            <span className="w-4 text-center shrink-0">{KIND_ICON[diagnostic.kind]}</span>
+            <div className="min-w-0">
+              <span className="text-text-primary">{diagnostic.message}</span>
+              <span className="ml-1 text-text-muted font-mono">
+                {diagnostic.line ? `${diagnostic.file}:${diagnostic.line}` : diagnostic.file}
+              </span>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
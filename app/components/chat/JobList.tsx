@@ -0,0 +1,106 @@
+import { useEffect } from "react";
+import { format } from "date-fns";
+import { MAIN_BRANCH_ID } from "@shared/types/branch";
+import type { PipelineJobStatus, PipelineJobSummary } from "@shared/types/pipelineJob";
+import { useChatStore } from "~/lib/stores/chatStore";
+import { useJobStore } from "~/lib/stores/jobStore";
+import { useProjectStore } from "~/lib/stores/projectStore";
+import { cn } from "~/lib/utils/cn";
+import { useT } from "~/lib/utils/i18n";
+
+const JOBS_POLL_MS = 5_000;
+const JOBS_SHOWN = 5;
+
+const STATUS_ICON: Record<PipelineJobStatus, string> = {
+  running: "🔄",
+  done: "✅",
+  error: "❌",
+  cancelled: "⏹️",
+};
+
+export function JobList({ onAttach, disabled }: { onAttach: (job: PipelineJobSummary) => void; disabled?: boolean }) {
+  const t = useT();
+  const { jobs, activeJobId, loadJobs, cancelJob } = useJobStore();
+  const projectId = useProjectStore((s) => s.currentProject?.id);
+  const currentBranchId = useChatStore((s) => s.currentBranchId);
+  const messages = useChatStore((s) => s.messages);
+
+  const hasRunning = jobs.some((job) => job.status === "running");
+
+  useEffect(() => {
+    if (projectId) loadJobs(projectId);
+  }, [projectId, loadJobs]);
+
+  // Running jobs change on the server — keep their status fresh
+  useEffect(() => {
+    if (!projectId || !hasRunning) return;
+    const timer = setInterval(() => loadJobs(projectId), JOBS_POLL_MS);
+    return () => clearInterval(timer);
+  }, [projectId, hasRunning, loadJobs]);
+
+  const shown = jobs
+    .filter((job) => job.projectId === projectId && (job.branchId ?? MAIN_BRANCH_ID) === currentBranchId)
+    .filter((job) => job.id !== activeJobId)
+    .slice(0, JOBS_SHOWN);
+
+  if (shown.length === 0) return null;
+
+  // A job that finished while no tab followed it is not in the chat yet — its replay restores it
+  const inChat = new Set(messages.map((m) => m.jobId).filter(Boolean));
+
+  return (
+    <div className="mx-4 mb-2 glass rounded-lg px-3 py-2 border border-gold-pure/10">
+      <div className="flex items-center gap-2 text-[10px] text-text-muted mb-2">
+        <span>🗂️</span>
+        <span>{t("job.title")}</span>
+      </div>
+      <div className="space-y-1">
+        {shown.map((job) => (
+          <div key={job.id} className="flex items-center gap-2 text-xs">
+            <span className="w-4 text-center">{STATUS_ICON[job.status]}</span>
+            <span className="text-text-muted flex-shrink-0">{format(new Date(job.createdAt), "HH:mm")}</span>
+            <span className="flex-1 min-w-0 truncate text-text-secondary" title={job.message}>{job.message}</span>
+            <span
+              className={cn(
+                "flex-shrink-0 text-[10px]",
+                job.status === "error" ? "text-red-400" : "text-text-muted",
+              )}
+              title={job.error ?? undefined}
+            >
+              {t(`job.${job.status}`)}
+            </span>
+            {job.status !== "running" && !inChat.has(job.id) && (
+              <button
+                type="button"
+                onClick={() => onAttach(job)}
+                disabled={disabled}
+                className="flex-shrink-0 px-1.5 py-0.5 text-[10px] rounded border border-border-subtle text-text-secondary hover:border-gold-pure/40 hover:text-gold-pure disabled:opacity-40"
+              >
+                {t("job.restore")}
+              </button>
+            )}
+            {job.status === "running" && (
+              <div className="flex gap-1 flex-shrink-0">
+                <button
+                  type="button"
+                  onClick={() => onAttach(job)}
+                  disabled={disabled}
+                  className="px-1.5 py-0.5 text-[10px] rounded border border-border-subtle text-text-secondary hover:border-gold-pure/40 hover:text-gold-pure disabled:opacity-40"
+                >
+                  {t("job.attach")}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => cancelJob(job.id).catch(() => {})}
+                  className="px-1.5 py-0.5 text-[10px] rounded border border-border-subtle text-text-secondary hover:border-red-400/40 hover:text-red-400"
+                >
+                  {t("job.cancel")}
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
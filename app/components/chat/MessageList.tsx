@@ -1,13 +1,16 @@
-import { useEffect, useMemo, useRef } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { cn } from "~/lib/utils/cn";
 import { extractChatText, extractGeneratedFileNames } from "~/lib/utils/codeParser";
 import { useT } from "~/lib/utils/i18n";
+import { NeonButton } from "~/components/ui/NeonButton";
 import { AgentBadge } from "./AgentBadge";
 import type { ChatMessage } from "@shared/types/message";
 
 interface MessageListProps {
   messages: ChatMessage[];
   isStreaming: boolean;
+  onFork?: (messageId: string) => void;
+  onEdit?: (messageId: string, content: string, keepOriginal: boolean) => void;
 }
 
 function StreamingStatus({ content }: { content: string }) {
@@ -60,9 +63,88 @@ function FileSummary({ content }: { content: string }) {
   );
 }
 
-function MessageBubble({ message, isStreaming }: { message: ChatMessage; isStreaming: boolean }) {
+function EditForm({
+  message,
+  canBranch,
+  onSave,
+  onCancel,
+}: {
+  message: ChatMessage;
+  canBranch: boolean;
+  onSave: (content: string, keepOriginal: boolean) => void;
+  onCancel: () => void;
+}) {
+  const t = useT();
+  const [draft, setDraft] = useState(message.content);
+  const [keepOriginal, setKeepOriginal] = useState(false);
+  const changed = draft.trim() !== "" && draft !== message.content;
+
+  return (
+    <div className="w-[90%] space-y-2">
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={Math.min(8, draft.split("\n").length + 1)}
+        autoFocus
+        className="w-full bg-deep-space border border-border-subtle rounded px-3 py-2 text-xs text-text-primary outline-none focus:border-gold-pure/40"
+      />
+      <div className="flex items-center gap-2">
+        {canBranch && (
+          <label className="flex items-center gap-1.5 text-[10px] text-text-muted">
+            <input
+              type="checkbox"
+              checked={keepOriginal}
+              onChange={(e) => setKeepOriginal(e.target.checked)}
+              className="accent-gold-pure"
+            />
+            {t("edit.keep_original")}
+          </label>
+        )}
+        <div className="flex-1" />
+        <NeonButton variant="ghost" size="sm" onClick={onCancel}>
+          {t("edit.cancel")}
+        </NeonButton>
+        <NeonButton variant="primary" size="sm" disabled={!changed} onClick={() => onSave(draft, keepOriginal)}>
+          {t("edit.rerun")}
+        </NeonButton>
+      </div>
+    </div>
+  );
+}
+
+/** The model's <think> text — collapsed, kept apart from the answer. */
+function ReasoningSection({ message }: { message: ChatMessage }) {
+  const t = useT();
+  if (!message.reasoning) return null;
+
+  return (
+    <details className="rounded border border-border-subtle bg-deep-space/40">
+      <summary className="cursor-pointer select-none px-2 py-1 text-[10px] text-text-muted hover:text-text-secondary">
+        💭 {message.reasoningMs != null
+          ? `${t("reasoning.title")} · ${(message.reasoningMs / 1000).toFixed(1)}${t("reasoning.seconds")}`
+          : t("reasoning.thinking")}
+      </summary>
+      <div className="px-2 pb-2 text-[11px] italic text-text-muted whitespace-pre-wrap break-words max-h-[30vh] overflow-y-auto">
+        {message.reasoning}
+      </div>
+    </details>
+  );
+}
+
+function MessageBubble({
+  message,
+  isStreaming,
+  onFork,
+  onEdit,
+}: {
+  message: ChatMessage;
+  isStreaming: boolean;
+  onFork?: (messageId: string) => void;
+  onEdit?: (messageId: string, content: string, keepOriginal: boolean) => void;
+}) {
   const isUser = message.role === "user";
   const t = useT();
+  const [editing, setEditing] = useState(false);
 
   const displayText = useMemo(() => {
     if (isUser) return message.content;
@@ -72,13 +154,39 @@ function MessageBubble({ message, isStreaming }: { message: ChatMessage; isStrea
   const isThinking = isStreaming && !displayText;
   const isCodeOnly = !isStreaming && !displayText && message.content.length > 0;
 
+  if (editing && onEdit) {
+    return (
+      <div className="flex justify-end">
+        <EditForm
+          message={message}
+          canBranch={!!onFork}
+          onCancel={() => setEditing(false)}
+          onSave={(content, keepOriginal) => {
+            setEditing(false);
+            onEdit(message.id, content, keepOriginal);
+          }}
+        />
+      </div>
+    );
+  }
+
   return (
     <div
       className={cn(
-        "animate-fade-in-up",
-        isUser ? "flex justify-end" : "flex justify-start",
+        "group animate-fade-in-up flex items-start gap-1",
+        isUser ? "justify-end" : "justify-start",
       )}
     >
+      {isUser && (onEdit || onFork) && (
+        <div className="flex flex-col">
+          {onEdit && (
+            <ActionButton icon="✎" title={t("edit.title")} onClick={() => setEditing(true)} />
+          )}
+          {onFork && (
+            <ActionButton icon="⑂" title={t("branch.fork")} onClick={() => onFork(message.id)} />
+          )}
+        </div>
+      )}
       <div
         className={cn(
           "max-w-[90%] rounded-lg px-4 py-3 text-sm leading-relaxed",
@@ -92,16 +200,19 @@ function MessageBubble({ message, isStreaming }: { message: ChatMessage; isStrea
         ) : isStreaming && isThinking ? (
           <>
             <AgentBadge message={message} />
+            <ReasoningSection message={message} />
             <StreamingStatus content={message.content} />
           </>
         ) : isCodeOnly ? (
           <>
             <AgentBadge message={message} />
+            <ReasoningSection message={message} />
             <FileSummary content={message.content} />
           </>
         ) : (
           <div className="space-y-2">
             <AgentBadge message={message} />
+            <ReasoningSection message={message} />
             {displayText && (
               <div className="text-xs leading-relaxed whitespace-pre-wrap break-words max-h-[40vh] overflow-y-auto overflow-x-hidden">
                 {displayText}
@@ -122,11 +233,26 @@ function MessageBubble({ message, isStreaming }: { message: ChatMessage; isStrea
           </div>
         )}
       </div>
+      {!isUser && onFork && !isStreaming && (
+        <ActionButton icon="⑂" title={t("branch.fork")} onClick={() => onFork(message.id)} />
+      )}
     </div>
   );
 }
 
-export function MessageList({ messages, isStreaming }: MessageListProps) {
+function ActionButton({ icon, title, onClick }: { icon: string; title: string; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      title={title}
+      className="mt-2 px-1 text-xs text-text-muted hover:text-gold-pure opacity-0 group-hover:opacity-100 transition-opacity"
+    >
+      {icon}
+    </button>
+  );
+}
+
+export function MessageList({ messages, isStreaming, onFork, onEdit }: MessageListProps) {
   const containerRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -155,6 +281,9 @@ export function MessageList({ messages, isStreaming }: MessageListProps) {
           key={msg.id}
           message={msg}
           isStreaming={isStreaming && idx === messages.length - 1 && msg.role === "assistant"}
+          // No forking while a run is still writing the branch
+          onFork={isStreaming ? undefined : onFork}
+          onEdit={isStreaming ? undefined : onEdit}
         />
       ))}
     </div>
@@ -0,0 +1,43 @@
+import { useRoleStore } from "~/lib/stores/roleStore";
+import { CHAIN_ROLE_ID } from "@shared/types/agentRole";
+import { cn } from "~/lib/utils/cn";
+import { useT } from "~/lib/utils/i18n";
+
+/** Chain mode: which stored pipeline definition the plan and the run use. */
+export function PipelineDropdown() {
+  const t = useT();
+  const { pipelines, selectedPipelineId, selection, pipelineStatus, setSelectedPipeline } = useRoleStore();
+
+  if (selection.roleId !== CHAIN_ROLE_ID || pipelines.length === 0) return null;
+
+  const isRunning = pipelineStatus === "running" || pipelineStatus === "chain_running";
+
+  return (
+    <div className="flex flex-col gap-0.5">
+      <label
+        htmlFor="pipeline-dropdown"
+        className="text-[8px] font-heading uppercase tracking-[0.2em] text-text-muted cursor-pointer"
+      >
+        {t("pipeline.label")}
+      </label>
+      <select
+        id="pipeline-dropdown"
+        value={selectedPipelineId}
+        onChange={(e) => setSelectedPipeline(e.target.value)}
+        disabled={isRunning}
+        className={cn(
+          "bg-deep-space border border-border-subtle rounded px-2 py-1 text-[11px] text-text-primary outline-none cursor-pointer",
+          "focus:border-gold-pure/40",
+          isRunning && "opacity-50 cursor-not-allowed",
+        )}
+      >
+        <option value="">{t("pipeline.default")}</option>
+        {pipelines.map((pipeline) => (
+          <option key={pipeline.id} value={pipeline.id}>
+            {pipeline.isDefault ? "★ " : ""}{pipeline.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import type { AgentRole, ConfirmedPlan } from "@shared/types/agentRole";
+import { useRoleStore, type PlanPreview as PlanPreviewState } from "~/lib/stores/roleStore";
+import { NeonButton } from "~/components/ui/NeonButton";
+import { cn } from "~/lib/utils/cn";
+import { useT } from "~/lib/utils/i18n";
+
+type PlanItem = { role: AgentRole; checked: boolean };
+
+/** Planned roles first in plan order, then the other active roles unchecked. */
+function initialItems(preview: PlanPreviewState, roles: AgentRole[]): PlanItem[] {
+  const planned = preview.plan.steps.map((role) => ({ role, checked: true }));
+  const plannedIds = new Set(preview.plan.steps.map((r) => r.id));
+  const others = roles
+    .filter((r) => r.isActive && !plannedIds.has(r.id))
+    .sort((a, b) => a.order - b.order)
+    .map((role) => ({ role, checked: false }));
+  return [...planned, ...others];
+}
+
+/** Chain mode: the orchestrator's plan for the prompt — edit and launch, or cancel. */
+export function PlanPreview({
+  onLaunch,
+  disabled,
+}: {
+  onLaunch: (preview: PlanPreviewState, plan: ConfirmedPlan) => void;
+  disabled: boolean;
+}) {
+  const t = useT();
+  const { planPreview, clearPlanPreview } = useRoleStore();
+  const [items, setItems] = useState<PlanItem[]>([]);
+
+  // Only a new plan resets the list — a roles refresh must not wipe the user's edits
+  useEffect(() => {
+    setItems(planPreview ? initialItems(planPreview, useRoleStore.getState().roles) : []);
+  }, [planPreview]);
+
+  if (!planPreview) return null;
+
+  const move = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= items.length) return;
+    const next = [...items];
+    [next[index], next[target]] = [next[target]!, next[index]!];
+    setItems(next);
+  };
+
+  const toggle = (index: number) =>
+    setItems(items.map((item, i) => (i === index ? { ...item, checked: !item.checked } : item)));
+
+  const selected = items.filter((item) => item.checked).map((item) => item.role.id);
+  const { plan } = planPreview;
+  // The orchestrator's reasoning no longer describes an edited plan
+  const edited = selected.join() !== plan.steps.map((r) => r.id).join();
+
+  return (
+    <div className="mx-4 mb-2 glass rounded-lg px-3 py-2 border border-gold-pure/30 space-y-2">
+      <div className="flex items-center gap-2 text-[10px] text-text-muted">
+        <span>🗺️</span>
+        <span>{t("plan.title")}</span>
+      </div>
+      <p className="text-xs text-text-secondary">{plan.reasoning}</p>
+      <ul className="space-y-1">
+        {items.map((item, i) => (
+          <li key={item.role.id} className="flex items-center gap-2 text-xs">
+            <input
+              type="checkbox"
+              checked={item.checked}
+              onChange={() => toggle(i)}
+              className="accent-gold-pure"
+            />
+            <span className={cn(item.checked ? "text-text-primary" : "text-text-muted")}>{item.role.name}</span>
+            {!item.checked && plan.skipReasons[item.role.id] && (
+              <span className="text-[10px] text-text-muted truncate">— {plan.skipReasons[item.role.id]}</span>
+            )}
+            <div className="ml-auto flex gap-1">
+              <button
+                type="button"
+                onClick={() => move(i, -1)}
+                disabled={i === 0}
+                title={t("plan.move_up")}
+                className="px-1 text-text-muted hover:text-text-primary disabled:opacity-30"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => move(i, 1)}
+                disabled={i === items.length - 1}
+                title={t("plan.move_down")}
+                className="px-1 text-text-muted hover:text-text-primary disabled:opacity-30"
+              >
+                ↓
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+      <div className="flex items-center gap-2 justify-end">
+        <NeonButton variant="ghost" size="sm" onClick={clearPlanPreview}>
+          {t("plan.cancel")}
+        </NeonButton>
+        <NeonButton
+          variant="primary"
+          size="sm"
+          disabled={disabled || selected.length === 0}
+          onClick={() => onLaunch(planPreview, { roleIds: selected, reasoning: edited ? "" : plan.reasoning })}
+        >
+          {t("plan.launch")} ({selected.length})
+        </NeonButton>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import type { StepUsage } from "@shared/types/agentRole";
+import { useT } from "~/lib/utils/i18n";
+
+interface StepUsageBadgeProps {
+  usage: StepUsage;
+  className?: string;
+}
+
+/** "1234 tok · 42.5 tok/s" with prompt size and time-to-first-token in the tooltip. */
+export function StepUsageBadge({ usage, className }: StepUsageBadgeProps) {
+  const t = useT();
+  const prefix = usage.estimated ? "~" : "";
+  const title = [
+    `${t("usage.prompt")}: ${prefix}${usage.promptTokens} ${t("usage.tokens")}`,
+    `${t("usage.first_token")} ${(usage.timeToFirstTokenMs / 1000).toFixed(1)}с`,
+    usage.estimated ? t("usage.estimated") : "",
+  ].filter(Boolean).join("\n");
+
+  return (
+    <span className={className} title={title}>
+      {prefix}{usage.completionTokens} {t("usage.tokens")} · {usage.tokensPerSecond} {t("usage.tokens_per_sec")}
+    </span>
+  );
+}
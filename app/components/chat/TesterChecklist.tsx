@@ -0,0 +1,72 @@
+import type { TesterIssueSeverity } from "@shared/types/agentRole";
+import { useRoleStore } from "~/lib/stores/roleStore";
+import { cn } from "~/lib/utils/cn";
+import { useT } from "~/lib/utils/i18n";
+
+const SEVERITY_ORDER: Record<TesterIssueSeverity, number> = { critical: 0, warning: 1, info: 2 };
+
+const SEVERITY_ICON: Record<TesterIssueSeverity, string> = {
+  critical: "❌",
+  warning: "⚠️",
+  info: "💡",
+};
+
+export function TesterChecklist() {
+  const t = useT();
+  const { testerVerdict: verdict } = useRoleStore();
+
+  if (!verdict) return null;
+
+  const isPass = verdict.verdict === "pass";
+  const issues = [...verdict.issues].sort(
+    (a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity],
+  );
+
+  return (
+    <div className="mx-4 mb-2 glass rounded-lg px-3 py-2 border border-gold-pure/10">
+      <div className="flex items-center gap-2 text-[10px] text-text-muted mb-2">
+        <span>🧪</span>
+        <span>{t("tester.title")}</span>
+        <span className={cn("ml-auto font-semibold", isPass ? "text-green-400" : "text-red-400")}>
+          {isPass ? t("tester.pass") : t("tester.fail")}
+        </span>
+      </div>
+      {verdict.summary && (
+        <p className="text-xs text-text-secondary mb-1">{verdict.summary}</p>
+      )}
+      {issues.length === 0 ? (
+        <div className="flex items-center gap-2 text-xs text-text-secondary">
+          <span className="w-4 text-center">✅</span>
+          <span>{t("tester.noIssues")}</span>
+        </div>
+      ) : (
+        <ul className="space-y-1 max-h-40 overflow-y-auto">
+          {issues.map((issue, i) => (
+            <li key={i} className="flex items-start gap-2 text-xs">
+              <span className="w-4 text-center shrink-0">{SEVERITY_ICON[issue.severity]}</span>
+              <div className="min-w-0">
+                <span
+                  className={cn(
+                    issue.severity === "critical" && "text-red-400",
+                    issue.severity === "warning" && "text-text-primary",
+                    issue.severity === "info" && "text-text-muted",
+                  )}
+                >
+                  {issue.message}
+                </span>
+                {issue.file && (
+                  <span className="ml-1 text-text-muted font-mono">
+                    {issue.line ? `${issue.file}:${issue.line}` : issue.file}
+                  </span>
+                )}
+                {issue.suggestedFix && (
+                  <div className="text-text-muted">→ {issue.suggestedFix}</div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
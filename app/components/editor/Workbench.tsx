@@ -2,7 +2,7 @@ import { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import { useChatStore } from "~/lib/stores/chatStore";
 import { useProjectStore } from "~/lib/stores/projectStore";
 import { useSettingsStore } from "~/lib/stores/settingsStore";
-import { parseGeneratedCode, detectLanguage, sanitizeVersionCode } from "~/lib/utils/codeParser";
+import { parseGeneratedCode, detectLanguage, mergeRunCode } from "~/lib/utils/codeParser";
 import { formatAllFiles } from "~/lib/utils/formatCode";
 import { exportProjectAsZip, downloadBlob } from "~/features/projects/service/exportService";
 import { CodeEditor } from "./CodeEditor";
@@ -24,6 +24,7 @@ export function Workbench() {
   const [viewMode, setViewMode] = useState<ViewMode>("split");
   const [isFormatting, setIsFormatting] = useState(false);
   const wasStreamingRef = useRef(false);
+  const runStartRef = useRef<Record<string, string> | null>(null);
 
   const files = useMemo(() => {
     if (Object.keys(generatedCode).length > 0) {
@@ -46,15 +47,21 @@ export function Workbench() {
   }, [fileList.length]);
 
   useEffect(() => {
+    if (!wasStreamingRef.current && streaming.isStreaming) {
+      // Patches of this run apply to the code as it was before the stream —
+      // the live parser has already patched generatedCode
+      runStartRef.current = useChatStore.getState().generatedCode;
+    }
     if (wasStreamingRef.current && !streaming.isStreaming) {
-      const lastAssistant = [...messages].reverse().find((m) => m.role === "assistant" && m.content);
-      if (lastAssistant?.content) {
-        const parsed = parseGeneratedCode(lastAssistant.content);
-        const clean = sanitizeVersionCode(parsed);
-        if (Object.keys(clean).length > 0) {
-          setGeneratedCode(clean);
-        }
-      }
+      // The run's replies are everything after its user message — already
+      // in the list by the time streaming is flagged
+      const start = messages.findIndex((m) => m.id === streaming.runMessageId);
+      const code = mergeRunCode(
+        start === -1 ? [] : messages.slice(start + 1),
+        runStartRef.current ?? useChatStore.getState().generatedCode,
+      );
+      if (code) setGeneratedCode(code);
+      runStartRef.current = null;
     }
     wasStreamingRef.current = streaming.isStreaming;
   }, [streaming.isStreaming]);
@@ -79,6 +79,11 @@ export function AgentRoleCard({
               💻 {t("role.code_mode")}
             </span>
           )}
+          {role.requiresApproval && (
+            <span className="text-[9px] px-1.5 py-0.5 bg-gold-pure/10 text-gold-pure rounded border border-gold-pure/20">
+              ✋ {t("role.approval")}
+            </span>
+          )}
         </div>
         <div className="flex items-center gap-2">
           <span className="text-[10px] text-text-muted">#{role.order}</span>
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
-import type { AgentRole } from "@shared/types/agentRole";
+import type { AgentRole, RoleModelFallback } from "@shared/types/agentRole";
+import { STEP_TOTAL_TIMEOUT_FACTOR } from "@shared/types/agentRole";
 import type { AIAgent } from "@shared/types/agent";
 import { NeonModal } from "~/components/ui/NeonModal";
 import { NeonButton } from "~/components/ui/NeonButton";
@@ -27,8 +28,10 @@ const EMPTY_FORM = {
   isActive: true,
   timeoutMs: 60000,
   maxRetries: 2,
+  fallbacks: [] as RoleModelFallback[],
   outputFormat: "freetext" as AgentRole["outputFormat"],
   includeNitPrompt: false,
+  requiresApproval: false,
   temperature: 0.7,
 };
 
@@ -53,8 +56,10 @@ export function AgentRoleForm({ open, onClose, onSave, role, providers, promptOv
         isActive: role.isActive,
         timeoutMs: role.timeoutMs,
         maxRetries: role.maxRetries,
+        fallbacks: role.fallbacks ?? [],
         outputFormat: role.outputFormat,
         includeNitPrompt: role.includeNitPrompt,
+        requiresApproval: role.requiresApproval ?? false,
         temperature: role.temperature,
       });
     } else {
@@ -94,6 +99,7 @@ export function AgentRoleForm({ open, onClose, onSave, role, providers, promptOv
     if (!form.modelName.trim()) return "Укажите модель";
     if (form.timeoutMs < 5000 || form.timeoutMs > 300000) return "Таймаут: 5-300 секунд";
     if (form.maxRetries < 0 || form.maxRetries > 5) return "Ретраи: 0-5";
+    if (form.fallbacks.some((f) => !f.providerId || !f.modelName.trim())) return "Резервная модель: укажите провайдера и модель";
     return null;
   };
 
@@ -240,6 +246,87 @@ export function AgentRoleForm({ open, onClose, onSave, role, providers, promptOv
           </div>
         </div>
 
+        <p className="text-[9px] text-text-muted -mt-2">
+          Таймаут — ожидание первого токена и пауз между токенами; весь ответ — до {STEP_TOTAL_TIMEOUT_FACTOR}× таймаута
+        </p>
+
+        {/* Fallback models */}
+        <div>
+          <label className="text-xs font-heading uppercase tracking-[0.15em] text-text-secondary mb-1 block">
+            Резервные модели
+          </label>
+          <div className="space-y-2">
+            {form.fallbacks.map((fallback, index) => {
+              const fallbackModels = providers.find((p) => p.id === fallback.providerId)?.models ?? [];
+              const updateFallback = (patch: Partial<RoleModelFallback>) =>
+                setForm((f) => ({
+                  ...f,
+                  fallbacks: f.fallbacks.map((item, i) => (i === index ? { ...item, ...patch } : item)),
+                }));
+              return (
+                <div key={index} className="flex gap-2 items-center">
+                  <span className="text-[10px] text-text-muted w-4">{index + 1}.</span>
+                  <select
+                    value={fallback.providerId}
+                    onChange={(e) => updateFallback({ providerId: e.target.value, modelName: "" })}
+                    className="w-40 bg-deep-space border border-border-subtle rounded px-2 py-1.5 text-xs text-text-primary outline-none focus:border-gold-pure/40"
+                  >
+                    {providers.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.status === "online" ? "✓" : "✗"} {p.name}
+                      </option>
+                    ))}
+                  </select>
+                  {fallbackModels.length > 0 ? (
+                    <select
+                      value={fallback.modelName}
+                      onChange={(e) => updateFallback({ modelName: e.target.value })}
+                      className="flex-1 bg-deep-space border border-border-subtle rounded px-2 py-1.5 text-xs text-text-primary outline-none focus:border-gold-pure/40"
+                    >
+                      <option value="">— выберите —</option>
+                      {fallback.modelName && !fallbackModels.some((m) => m.id === fallback.modelName) && (
+                        <option value={fallback.modelName}>{fallback.modelName} (сохранённая)</option>
+                      )}
+                      {fallbackModels.map((m) => (
+                        <option key={m.id} value={m.id}>{m.name}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      value={fallback.modelName}
+                      onChange={(e) => updateFallback({ modelName: e.target.value })}
+                      placeholder="mistral"
+                      className="flex-1 bg-deep-space border border-border-subtle rounded px-2 py-1.5 text-xs text-text-primary outline-none focus:border-gold-pure/40 placeholder:text-text-muted/50"
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setForm((f) => ({ ...f, fallbacks: f.fallbacks.filter((_, i) => i !== index) }))}
+                    className="text-text-muted hover:text-red-400 text-xs px-1"
+                    title="Удалить"
+                  >
+                    ✕
+                  </button>
+                </div>
+              );
+            })}
+            {form.fallbacks.length < 5 && (
+              <NeonButton
+                variant="ghost"
+                size="sm"
+                onClick={() =>
+                  setForm((f) => ({
+                    ...f,
+                    fallbacks: [...f.fallbacks, { providerId: providers[0]?.id ?? "ollama", modelName: "" }],
+                  }))
+                }
+              >
+                + Добавить резервную модель
+              </NeonButton>
+            )}
+          </div>
+        </div>
+
         {/* Output Format */}
         <div>
           <label className="text-xs font-heading uppercase tracking-[0.15em] text-text-secondary mb-1 block">
@@ -291,6 +378,22 @@ export function AgentRoleForm({ open, onClose, onSave, role, providers, promptOv
           </div>
         </label>
 
+        {/* Approval gate toggle */}
+        <label className="flex items-center gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={form.requiresApproval}
+            onChange={(e) => setForm((f) => ({ ...f, requiresApproval: e.target.checked }))}
+            className="accent-gold-pure"
+          />
+          <div>
+            <span className="text-xs text-text-secondary">Требует подтверждения</span>
+            <p className="text-[10px] text-text-muted mt-0.5">
+              В режиме цепочки пауза после этого шага: ответ можно принять, отредактировать или вернуть с замечаниями.
+            </p>
+          </div>
+        </label>
+
         {/* System Prompt */}
         <div>
           <label className="text-xs font-heading uppercase tracking-[0.15em] text-text-secondary mb-1 block">
@@ -0,0 +1,209 @@
+import { useState, useEffect, useCallback } from "react";
+import type { CustomEndpointView } from "@shared/types/customEndpoint";
+import { NeonButton } from "~/components/ui/NeonButton";
+import { NeonInput } from "~/components/ui/NeonInput";
+import { SettingsSection } from "~/components/settings/SettingsSection";
+import { useT } from "~/lib/utils/i18n";
+
+interface CustomEndpointsSectionProps {
+  /** Called after any change so the provider list can be rediscovered */
+  onChange: () => void;
+}
+
+type EndpointForm = {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  headers: string;
+  modelFilter: string;
+};
+
+const EMPTY_FORM: EndpointForm = { name: "", baseUrl: "", apiKey: "", headers: "", modelFilter: "" };
+
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const line of text.split("\n")) {
+    const idx = line.indexOf(":");
+    if (idx <= 0) continue;
+    headers[line.slice(0, idx).trim()] = line.slice(idx + 1).trim();
+  }
+  return headers;
+}
+
+/** Stored values are not sent back — "Name:" with no value keeps the stored one. */
+function formatHeaderNames(names: string[]): string {
+  return names.map((name) => `${name}: `).join("\n");
+}
+
+export function CustomEndpointsSection({ onChange }: CustomEndpointsSectionProps) {
+  const t = useT();
+  const [endpoints, setEndpoints] = useState<CustomEndpointView[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [form, setForm] = useState<EndpointForm>(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/endpoints");
+      const data = (await res.json().catch(() => ({}))) as { endpoints?: CustomEndpointView[]; error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Ошибка загрузки эндпоинтов");
+      setEndpoints(data.endpoints ?? []);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Ошибка загрузки эндпоинтов");
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormOpen(true);
+    setError(null);
+  };
+
+  const openEdit = (endpoint: CustomEndpointView) => {
+    setEditingId(endpoint.id);
+    setForm({
+      name: endpoint.name,
+      baseUrl: endpoint.baseUrl,
+      apiKey: "",
+      headers: formatHeaderNames(endpoint.headerNames),
+      modelFilter: endpoint.modelFilter.join(", "),
+    });
+    setFormOpen(true);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    const body: Record<string, unknown> = {
+      name: form.name.trim(),
+      baseUrl: form.baseUrl.trim(),
+      headers: parseHeaders(form.headers),
+      modelFilter: form.modelFilter.split(",").map((s) => s.trim()).filter(Boolean),
+    };
+    // On edit an empty key field keeps the stored key
+    if (form.apiKey || !editingId) body.apiKey = form.apiKey;
+
+    try {
+      const res = await fetch(editingId ? `/api/endpoints/${editingId}` : "/api/endpoints", {
+        method: editingId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) throw new Error(data.error ?? "Ошибка сохранения");
+      setFormOpen(false);
+      await load();
+      onChange();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Ошибка сохранения");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (endpoint: CustomEndpointView) => {
+    if (!confirm(`Удалить эндпоинт "${endpoint.name}"?`)) return;
+    try {
+      const res = await fetch(`/api/endpoints/${endpoint.id}`, { method: "DELETE" });
+      if (!res.ok) throw new Error("Ошибка удаления");
+      await load();
+      onChange();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Ошибка удаления");
+    }
+  };
+
+  return (
+    <SettingsSection title={t("settings.section_endpoints")} className="mb-6 animate-fade-in-up">
+      {endpoints.length === 0 && !formOpen && (
+        <p className="text-text-muted text-xs">{t("endpoints.empty")}</p>
+      )}
+
+      {endpoints.map((endpoint) => (
+        <div key={endpoint.id} className="flex items-center justify-between gap-3 text-xs">
+          <div className="min-w-0">
+            <span className="text-text-primary">{endpoint.name}</span>
+            <span className="text-text-muted"> — {endpoint.baseUrl}</span>
+            {endpoint.hasApiKey && <span className="text-text-muted"> 🔑</span>}
+            {endpoint.modelFilter.length > 0 && (
+              <span className="text-text-muted"> [{endpoint.modelFilter.join(", ")}]</span>
+            )}
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <NeonButton variant="ghost" size="sm" onClick={() => openEdit(endpoint)}>
+              {t("role.edit")}
+            </NeonButton>
+            <NeonButton variant="ghost" size="sm" onClick={() => handleDelete(endpoint)}>
+              {t("common.delete")}
+            </NeonButton>
+          </div>
+        </div>
+      ))}
+
+      {formOpen ? (
+        <div className="space-y-3 border-t border-border-subtle pt-4">
+          <NeonInput
+            label={t("endpoints.name")}
+            value={form.name}
+            onChange={(e) => setForm((f) => ({ ...f, name: e.target.value }))}
+            placeholder="vLLM"
+          />
+          <NeonInput
+            label={t("endpoints.base_url")}
+            value={form.baseUrl}
+            onChange={(e) => setForm((f) => ({ ...f, baseUrl: e.target.value }))}
+            placeholder="http://192.168.1.20:8000"
+          />
+          <NeonInput
+            label={t("endpoints.api_key")}
+            type="password"
+            value={form.apiKey}
+            onChange={(e) => setForm((f) => ({ ...f, apiKey: e.target.value }))}
+            placeholder={editingId ? t("endpoints.api_key_keep") : ""}
+          />
+          <div>
+            <label className="text-xs font-heading uppercase tracking-[0.15em] text-text-secondary mb-1 block">
+              {t("endpoints.headers")}
+            </label>
+            {editingId && <p className="text-[10px] text-text-muted mb-1">{t("endpoints.headers_keep")}</p>}
+            <textarea
+              value={form.headers}
+              onChange={(e) => setForm((f) => ({ ...f, headers: e.target.value }))}
+              rows={3}
+              placeholder="X-Team: web"
+              className="w-full bg-deep-space border border-border-subtle rounded px-3 py-2 text-sm text-text-primary font-mono outline-none focus:border-gold-pure/40"
+            />
+          </div>
+          <NeonInput
+            label={t("endpoints.model_filter")}
+            value={form.modelFilter}
+            onChange={(e) => setForm((f) => ({ ...f, modelFilter: e.target.value }))}
+            placeholder="qwen*, *coder*"
+          />
+          <div className="flex gap-2 justify-end">
+            <NeonButton variant="ghost" size="sm" onClick={() => setFormOpen(false)}>
+              {t("common.cancel")}
+            </NeonButton>
+            <NeonButton variant="primary" size="sm" onClick={handleSave} disabled={saving}>
+              {saving ? "..." : editingId ? t("common.done") : t("common.create")}
+            </NeonButton>
+          </div>
+        </div>
+      ) : (
+        <NeonButton variant="ghost" size="sm" onClick={openCreate}>
+          + {t("endpoints.add")}
+        </NeonButton>
+      )}
+
+      {error && <p className="text-red-400 text-xs">{error}</p>}
+    </SettingsSection>
+  );
+}
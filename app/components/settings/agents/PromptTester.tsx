@@ -3,6 +3,7 @@ import type { AgentRole } from "@shared/types/agentRole";
 import { NeonModal } from "~/components/ui/NeonModal";
 import { NeonButton } from "~/components/ui/NeonButton";
 import { cn } from "~/lib/utils/cn";
+import { useSettingsStore } from "~/lib/stores/settingsStore";
 
 interface PromptTesterProps {
   open: boolean;
@@ -36,6 +37,7 @@ export function PromptTester({ open, onClose, role }: PromptTesterProps) {
           message: testInput,
           localContext: "",
           projectType: "react",
+          language: useSettingsStore.getState().language,
         }),
       });
 
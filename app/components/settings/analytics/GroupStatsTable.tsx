@@ -0,0 +1,57 @@
+import type { PipelineGroupStats } from "@shared/types/pipelineAnalytics";
+import { useT } from "~/lib/utils/i18n";
+
+interface GroupStatsTableProps {
+  groups: PipelineGroupStats[];
+}
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function seconds(ms: number | null): string {
+  return ms === null ? "—" : `${(ms / 1000).toFixed(1)}с`;
+}
+
+export function GroupStatsTable({ groups }: GroupStatsTableProps) {
+  const t = useT();
+
+  if (groups.length === 0) {
+    return <p className="text-text-muted text-xs">{t("analytics.empty")}</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-text-muted text-left">
+            <th className="font-normal py-1 pr-3">{t("analytics.name")}</th>
+            <th className="font-normal py-1 px-2 text-right">{t("analytics.runs")}</th>
+            <th className="font-normal py-1 px-2 text-right">{t("analytics.success")}</th>
+            <th className="font-normal py-1 px-2 text-right">{t("analytics.errors")}</th>
+            <th className="font-normal py-1 px-2 text-right">{t("analytics.timeouts")}</th>
+            <th className="font-normal py-1 px-2 text-right">{t("analytics.retries")}</th>
+            <th className="font-normal py-1 px-2 text-right">p50</th>
+            <th className="font-normal py-1 px-2 text-right">p95</th>
+            <th className="font-normal py-1 pl-2 text-right">{t("usage.tokens_per_sec")}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.map((g) => (
+            <tr key={g.key} className="border-t border-border-subtle">
+              <td className="py-1 pr-3 text-text-primary break-all">{g.label}</td>
+              <td className="py-1 px-2 text-right text-text-secondary">{g.total}</td>
+              <td className="py-1 px-2 text-right text-green-400">{percent(g.successRate)}</td>
+              <td className="py-1 px-2 text-right text-red-400">{percent(g.errorRate)}</td>
+              <td className="py-1 px-2 text-right text-yellow-400">{percent(g.timeoutRate)}</td>
+              <td className="py-1 px-2 text-right text-text-secondary">{g.retries}</td>
+              <td className="py-1 px-2 text-right text-text-secondary">{seconds(g.p50DurationMs)}</td>
+              <td className="py-1 px-2 text-right text-text-secondary">{seconds(g.p95DurationMs)}</td>
+              <td className="py-1 pl-2 text-right text-text-secondary">{g.avgTokensPerSecond ?? "—"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
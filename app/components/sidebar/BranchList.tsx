@@ -0,0 +1,55 @@
+import { format } from "date-fns";
+import { cn } from "~/lib/utils/cn";
+import { MAIN_BRANCH_ID } from "@shared/types/branch";
+import { useBranches } from "~/features/chat/hooks/useBranches";
+import { useT } from "~/lib/utils/i18n";
+
+export function BranchList() {
+  const t = useT();
+  const { branches, currentBranchId, switchBranch, removeBranch } = useBranches();
+
+  // Only main — nothing to switch between
+  if (branches.length < 2) return null;
+
+  return (
+    <div className="py-1">
+      {branches.map((branch) => {
+        const isActive = branch.id === currentBranchId;
+        const isMain = branch.id === MAIN_BRANCH_ID;
+
+        return (
+          <div
+            key={branch.id}
+            className={cn(
+              "group flex items-center gap-2 px-3 py-1.5 border-l-2 transition-colors hover:bg-surface",
+              isActive ? "bg-gold-pure/10 border-l-gold-pure" : "border-l-transparent",
+            )}
+          >
+            <button
+              onClick={() => !isActive && switchBranch(branch.id)}
+              className="flex-1 min-w-0 text-left"
+            >
+              <span className={cn("block text-[11px] truncate", isActive ? "text-gold-pure" : "text-text-secondary")}>
+                {isMain ? t("branch.main") : branch.name}
+              </span>
+              {!isMain && branch.createdAt && (
+                <span className="text-[8px] text-text-muted">
+                  {format(new Date(branch.createdAt), "dd.MM HH:mm")}
+                </span>
+              )}
+            </button>
+            {!isMain && (
+              <button
+                onClick={() => removeBranch(branch.id).catch(() => {})}
+                title={t("branch.delete")}
+                className="opacity-0 group-hover:opacity-100 text-[10px] text-text-muted hover:text-red-400 transition-opacity"
+              >
+                ✕
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
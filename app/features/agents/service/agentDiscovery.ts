@@ -1,4 +1,11 @@
-import type { AIAgent, AIModel } from "@shared/types/agent";
+import type { AIAgent, AIModel, AgentType } from "@shared/types/agent";
+import type { BaseProvider } from "~/lib/llm/base-provider";
+import { AnthropicProvider } from "~/lib/llm/providers/anthropic";
+import { OpenAIProvider } from "~/lib/llm/providers/openai";
+import { GeminiProvider } from "~/lib/llm/providers/gemini";
+import { OpenRouterProvider } from "~/lib/llm/providers/openrouter";
+import { matchesModelFilter } from "~/lib/llm/providers/openai-like";
+import { CUSTOM_ENDPOINT_PREFIX, type CustomEndpoint } from "@shared/types/customEndpoint";
 
 const DISCOVERY_TIMEOUT = 5000;
 
@@ -90,11 +97,23 @@ async function discoverLMStudio(baseUrl: string): Promise<AIAgent | null> {
   }
 }
 
-async function discoverCustom(baseUrl: string, name: string, apiKey: string): Promise<AIAgent | null> {
+type CustomTarget = {
+  id: string;
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  headers?: Record<string, string>;
+  modelFilter?: string[];
+};
+
+async function discoverCustom(target: CustomTarget): Promise<AIAgent | null> {
+  const { id, baseUrl, apiKey } = target;
   if (!baseUrl) return null;
 
+  const name = target.name || "Custom LLM";
+
   try {
-    const headers: Record<string, string> = {};
+    const headers: Record<string, string> = { ...target.headers };
     if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
 
     const response = await fetch(`${baseUrl}/v1/models`, {
@@ -105,17 +124,20 @@ async function discoverCustom(baseUrl: string, name: string, apiKey: string): Pr
     if (!response.ok) return null;
 
     const data = (await response.json()) as {
-      data: Array<{ id: string }>;
+      data: Array<{ id: string; context_length?: number; max_model_len?: number }>;
     };
 
-    const models: AIModel[] = data.data.map((m) => ({
-      id: m.id,
-      name: m.id,
-    }));
+    const models: AIModel[] = data.data
+      .filter((m) => matchesModelFilter(m.id, target.modelFilter ?? []))
+      .map((m) => ({
+        id: m.id,
+        name: m.id,
+        contextLength: m.context_length ?? m.max_model_len,
+      }));
 
     return {
-      id: "custom",
-      name: name || "Custom LLM",
+      id,
+      name,
       type: "openai_compatible",
       url: baseUrl,
       status: "online",
@@ -124,8 +146,8 @@ async function discoverCustom(baseUrl: string, name: string, apiKey: string): Pr
     };
   } catch {
     return {
-      id: "custom",
-      name: name || "Custom LLM",
+      id,
+      name,
       type: "openai_compatible",
       url: baseUrl,
       status: "offline",
@@ -135,17 +157,110 @@ async function discoverCustom(baseUrl: string, name: string, apiKey: string): Pr
   }
 }
 
+// ─── Cloud providers ─────────────────────────────────────
+// Listed only when an API key is configured; the key is checked against the
+// provider's /models endpoint. Hosted catalogues are huge, so the curated
+// static list of the provider class is shown — except for OpenRouter, whose
+// catalogue is the point of using it.
+
+export type CloudProviderId = "anthropic" | "openai" | "gemini" | "openrouter";
+export type CloudProviderConfig = { apiKey?: string; baseUrl?: string };
+
+type CloudSpec = {
+  name: string;
+  type: AgentType;
+  provider: BaseProvider;
+  authHeaders: (apiKey: string) => Record<string, string>;
+};
+
+const CLOUD_SPECS: Record<CloudProviderId, CloudSpec> = {
+  anthropic: {
+    name: "Anthropic",
+    type: "anthropic",
+    provider: new AnthropicProvider(),
+    authHeaders: (apiKey) => ({ "x-api-key": apiKey, "anthropic-version": "2023-06-01" }),
+  },
+  openai: {
+    name: "OpenAI",
+    type: "openai",
+    provider: new OpenAIProvider(),
+    authHeaders: (apiKey) => ({ Authorization: `Bearer ${apiKey}` }),
+  },
+  gemini: {
+    name: "Gemini",
+    type: "gemini",
+    provider: new GeminiProvider(),
+    authHeaders: (apiKey) => ({ "x-goog-api-key": apiKey }),
+  },
+  openrouter: {
+    name: "OpenRouter",
+    type: "openrouter",
+    provider: new OpenRouterProvider(),
+    authHeaders: (apiKey) => ({ Authorization: `Bearer ${apiKey}` }),
+  },
+};
+
+async function discoverCloud(id: CloudProviderId, config: CloudProviderConfig): Promise<AIAgent | null> {
+  if (!config.apiKey) return null;
+
+  const spec = CLOUD_SPECS[id];
+  const baseUrl = config.baseUrl || spec.provider.config.baseUrl || "";
+  const agent: AIAgent = {
+    id,
+    name: spec.name,
+    type: spec.type,
+    url: baseUrl,
+    status: "offline",
+    models: [],
+    lastChecked: Date.now(),
+  };
+
+  try {
+    const response = await fetch(`${baseUrl}/models`, {
+      headers: spec.authHeaders(config.apiKey),
+      signal: AbortSignal.timeout(DISCOVERY_TIMEOUT),
+    });
+    if (!response.ok) return agent;
+
+    if (id === "openrouter") {
+      const data = (await response.json()) as {
+        data: Array<{ id: string; name?: string; context_length?: number }>;
+      };
+      agent.models = data.data.map((m) => ({ id: m.id, name: m.name ?? m.id, contextLength: m.context_length }));
+    } else {
+      agent.models = spec.provider.staticModels.map((m) => ({ id: m.name, name: m.label, contextLength: m.contextWindow }));
+    }
+
+    agent.status = "online";
+    return agent;
+  } catch {
+    return agent;
+  }
+}
+
 export async function discoverAgents(env: {
   ollamaUrl?: string;
   lmStudioUrl?: string;
   customUrl?: string;
   customName?: string;
   customApiKey?: string;
+  cloud?: Partial<Record<CloudProviderId, CloudProviderConfig>>;
+  /** User-managed endpoints, each reported as its own agent */
+  endpoints?: CustomEndpoint[];
 }): Promise<AIAgent[]> {
+  const cloud = Object.entries(env.cloud ?? {}) as Array<[CloudProviderId, CloudProviderConfig]>;
+
   const discoveries = await Promise.allSettled([
     discoverOllama(env.ollamaUrl ?? "http://localhost:11434"),
     discoverLMStudio(env.lmStudioUrl ?? "http://localhost:1234"),
-    discoverCustom(env.customUrl ?? "", env.customName ?? "", env.customApiKey ?? ""),
+    discoverCustom({
+      id: "custom",
+      name: env.customName ?? "",
+      baseUrl: env.customUrl ?? "",
+      apiKey: env.customApiKey ?? "",
+    }),
+    ...(env.endpoints ?? []).map((e) => discoverCustom({ ...e, id: `${CUSTOM_ENDPOINT_PREFIX}${e.id}` })),
+    ...cloud.map(([id, config]) => discoverCloud(id, config)),
   ]);
 
   const agents: AIAgent[] = [];
@@ -0,0 +1,70 @@
+import { useCallback } from "react";
+import { useChatStore } from "~/lib/stores/chatStore";
+import { useProjectStore } from "~/lib/stores/projectStore";
+import { useRoleStore } from "~/lib/stores/roleStore";
+import { useVersionHistory } from "~/features/projects/hooks/useVersionHistory";
+import { abortActivePipeline } from "~/lib/hooks/usePipelineStreaming";
+import { sanitizeVersionCode } from "~/lib/utils/codeParser";
+
+export function useBranches() {
+  const { currentProject } = useProjectStore();
+  const { branches, currentBranchId, forkBranch, deleteBranch } = useChatStore();
+  const { loadVersions } = useVersionHistory();
+
+  /** Show another branch: its messages, its latest code and its agent memory. */
+  const switchBranch = useCallback(
+    async (branchId: string) => {
+      if (!currentProject) return;
+      const chat = useChatStore.getState();
+      const roleStore = useRoleStore.getState();
+      const target = chat.branches.find((b) => b.id === branchId);
+      if (!target) return;
+
+      if (chat.streaming.isStreaming) {
+        abortActivePipeline();
+        chat.setStreaming({ isStreaming: false, currentContent: "", error: null });
+      }
+      chat.saveProjectChat(currentProject.id);
+      // Coming back to this branch continues the same agent session
+      chat.setBranchSession(currentProject.id, chat.currentBranchId, roleStore.pipelineSessionId);
+
+      roleStore.resetPipeline();
+      roleStore.clearPlanPreview();
+      roleStore.setPipelineSessionId(target.sessionId);
+
+      await useChatStore.getState().loadProjectChat(currentProject.id, branchId);
+
+      const loaded = await loadVersions();
+      const latest = loaded[0] ?? null;
+      const { generatedCode } = useChatStore.getState();
+      if (latest && Object.keys(generatedCode).length === 0) {
+        useChatStore.getState().setGeneratedCode(sanitizeVersionCode(latest.code));
+      }
+      useProjectStore.getState().setCurrentVersion(latest);
+    },
+    [currentProject, loadVersions],
+  );
+
+  /** Fork the current branch at a message and switch to the new branch. */
+  const forkAt = useCallback(
+    async (messageId: string) => {
+      if (!currentProject) return;
+      const branch = await forkBranch(currentProject.id, messageId, useRoleStore.getState().pipelineSessionId);
+      await switchBranch(branch.id);
+    },
+    [currentProject, forkBranch, switchBranch],
+  );
+
+  const removeBranch = useCallback(
+    async (branchId: string) => {
+      if (!currentProject) return;
+      if (branchId === useChatStore.getState().currentBranchId) {
+        await switchBranch(branches[0]?.id ?? branchId);
+      }
+      await deleteBranch(currentProject.id, branchId);
+    },
+    [currentProject, branches, deleteBranch, switchBranch],
+  );
+
+  return { branches, currentBranchId, switchBranch, forkAt, removeBranch };
+}
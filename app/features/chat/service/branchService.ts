@@ -0,0 +1,114 @@
+import { getDb, COLLECTIONS, ID, Query, ensureProjectBranchesSchema } from "~/lib/db/appwrite";
+import { MAIN_BRANCH_ID, type ConversationBranch } from "@shared/types/branch";
+
+interface BranchDoc {
+  $id: string;
+  $createdAt: string;
+  name: string;
+  parent_branch_id: string | null;
+  fork_message_id: string | null;
+  session_id: string | null;
+  created_at: string;
+}
+
+function mapDoc(doc: BranchDoc): ConversationBranch {
+  return {
+    id: doc.$id,
+    name: doc.name,
+    parentBranchId: doc.parent_branch_id || MAIN_BRANCH_ID,
+    forkMessageId: doc.fork_message_id || null,
+    sessionId: doc.session_id || null,
+    createdAt: doc.created_at ?? doc.$createdAt,
+  };
+}
+
+// The main branch is implicit: messages without a branch_id belong to it.
+// A document with its id exists only to keep its pipeline session.
+function mainBranch(doc?: BranchDoc): ConversationBranch {
+  return {
+    id: MAIN_BRANCH_ID,
+    name: "main",
+    parentBranchId: null,
+    forkMessageId: null,
+    sessionId: doc?.session_id || null,
+    createdAt: "",
+  };
+}
+
+export async function listBranches(databaseId: string): Promise<ConversationBranch[]> {
+  await ensureProjectBranchesSchema(databaseId);
+  const db = getDb();
+  const result = await db.listDocuments(
+    databaseId,
+    COLLECTIONS.BRANCHES,
+    [Query.orderAsc("created_at"), Query.limit(500)],
+  );
+  const docs = result.documents as unknown as BranchDoc[];
+  return [
+    mainBranch(docs.find((d) => d.$id === MAIN_BRANCH_ID)),
+    ...docs.filter((d) => d.$id !== MAIN_BRANCH_ID).map(mapDoc),
+  ];
+}
+
+export async function getBranch(
+  databaseId: string,
+  branchId: string,
+): Promise<ConversationBranch | null> {
+  await ensureProjectBranchesSchema(databaseId);
+  const db = getDb();
+  try {
+    const doc = await db.getDocument(databaseId, COLLECTIONS.BRANCHES, branchId) as unknown as BranchDoc;
+    return branchId === MAIN_BRANCH_ID ? mainBranch(doc) : mapDoc(doc);
+  } catch {
+    return branchId === MAIN_BRANCH_ID ? mainBranch() : null;
+  }
+}
+
+export async function createBranch(
+  databaseId: string,
+  data: {
+    name: string;
+    parentBranchId: string;
+    forkMessageId: string;
+    sessionId: string | null;
+  },
+): Promise<ConversationBranch> {
+  await ensureProjectBranchesSchema(databaseId);
+  const db = getDb();
+  const doc = await db.createDocument(databaseId, COLLECTIONS.BRANCHES, ID.unique(), {
+    name: data.name,
+    parent_branch_id: data.parentBranchId,
+    fork_message_id: data.forkMessageId,
+    session_id: data.sessionId ?? "",
+    created_at: new Date().toISOString(),
+  });
+  return mapDoc(doc as unknown as BranchDoc);
+}
+
+/** Remembers the pipeline session a branch continues with. */
+export async function setBranchSession(
+  databaseId: string,
+  branchId: string,
+  sessionId: string | null,
+): Promise<void> {
+  await ensureProjectBranchesSchema(databaseId);
+  const db = getDb();
+  try {
+    await db.updateDocument(databaseId, COLLECTIONS.BRANCHES, branchId, { session_id: sessionId ?? "" });
+  } catch (err) {
+    if (branchId !== MAIN_BRANCH_ID) throw err;
+    // First session of the main branch — create its document
+    await db.createDocument(databaseId, COLLECTIONS.BRANCHES, MAIN_BRANCH_ID, {
+      name: "main",
+      parent_branch_id: "",
+      fork_message_id: "",
+      session_id: sessionId ?? "",
+      created_at: new Date().toISOString(),
+    });
+  }
+}
+
+export async function deleteBranch(databaseId: string, branchId: string): Promise<void> {
+  const db = getDb();
+  await db.deleteDocument(databaseId, COLLECTIONS.BRANCHES, branchId);
+}
@@ -1,5 +1,6 @@
-import { getDb, COLLECTIONS, ID, Query } from "~/lib/db/appwrite";
+import { getDb, COLLECTIONS, ID, Query, ensureProjectBranchesSchema, ensureMessageReasoningSchema, ensureMessageJobSchema, branchQuery } from "~/lib/db/appwrite";
 import type { ChatMessage } from "@shared/types/message";
+import { MAIN_BRANCH_ID } from "@shared/types/branch";
 import { logger } from "~/lib/utils/logger";
 
 interface ChatMessageDoc {
@@ -13,6 +14,10 @@ interface ChatMessageDoc {
   agent_role_name: string | null;
   selected_by: string | null;
   duration_ms: number | null;
+  reasoning?: string | null;
+  reasoning_ms?: number | null;
+  job_id?: string | null;
+  branch_id?: string | null; // missing/empty → main branch
 }
 
 function mapDoc(doc: ChatMessageDoc): ChatMessage {
@@ -27,25 +32,30 @@ function mapDoc(doc: ChatMessageDoc): ChatMessage {
     agentRoleName: doc.agent_role_name ?? undefined,
     selectedBy: doc.selected_by ?? undefined,
     durationMs: doc.duration_ms ?? undefined,
+    reasoning: doc.reasoning || undefined,
+    reasoningMs: doc.reasoning_ms ?? undefined,
+    jobId: doc.job_id || undefined,
   };
 }
 
 export async function getProjectMessages(
   databaseId: string,
+  branchId: string = MAIN_BRANCH_ID,
 ): Promise<ChatMessage[]> {
   const db = getDb();
+  await ensureProjectBranchesSchema(databaseId);
   try {
     const result = await db.listDocuments(
       databaseId,
       COLLECTIONS.CHAT_MESSAGES,
-      [Query.orderAsc("timestamp"), Query.limit(5000)],
+      [branchQuery(branchId), Query.orderAsc("timestamp"), Query.limit(5000)],
     );
     return (result.documents as unknown as ChatMessageDoc[]).map(mapDoc);
   } catch (e) {
     const result = await db.listDocuments(
       databaseId,
       COLLECTIONS.CHAT_MESSAGES,
-      [Query.limit(5000)],
+      [branchQuery(branchId), Query.limit(5000)],
     );
     return (result.documents as unknown as ChatMessageDoc[]).map(mapDoc);
   }
@@ -54,17 +64,23 @@ export async function getProjectMessages(
 export async function saveProjectMessages(
   databaseId: string,
   messages: ChatMessage[],
+  branchId: string = MAIN_BRANCH_ID,
 ): Promise<void> {
   const db = getDb();
 
   try {
+    await ensureProjectBranchesSchema(databaseId);
+    await ensureMessageReasoningSchema(databaseId);
+    await ensureMessageJobSchema(databaseId);
+
+    // Only this branch is replaced — the others keep their messages
     const existing = await db.listDocuments(
       databaseId,
       COLLECTIONS.CHAT_MESSAGES,
-      [Query.limit(5000)],
+      [branchQuery(branchId), Query.limit(5000)],
     );
 
-    for (const doc of existing.documents) {
+    for (const doc of existing.documents as unknown as ChatMessageDoc[]) {
       await db.deleteDocument(databaseId, COLLECTIONS.CHAT_MESSAGES, doc.$id);
     }
 
@@ -79,6 +95,10 @@ export async function saveProjectMessages(
           agent_role_name: msg.agentRoleName ?? null,
           selected_by: msg.selectedBy ?? null,
           duration_ms: msg.durationMs ?? null,
+          reasoning: msg.reasoning ?? null,
+          reasoning_ms: msg.reasoningMs ?? null,
+          job_id: msg.jobId ?? null,
+          branch_id: branchId,
         };
       await db.createDocument(
         databaseId,
@@ -93,17 +113,20 @@ export async function saveProjectMessages(
   }
 }
 
+/** Deletes the messages of one branch, or of every branch when none is given. */
 export async function deleteProjectMessages(
   databaseId: string,
+  branchId?: string,
 ): Promise<void> {
   const db = getDb();
+  if (branchId) await ensureProjectBranchesSchema(databaseId);
   const existing = await db.listDocuments(
     databaseId,
     COLLECTIONS.CHAT_MESSAGES,
-    [Query.limit(5000)],
+    branchId ? [branchQuery(branchId), Query.limit(5000)] : [Query.limit(5000)],
   );
 
-  for (const doc of existing.documents) {
+  for (const doc of existing.documents as unknown as ChatMessageDoc[]) {
     await db.deleteDocument(databaseId, COLLECTIONS.CHAT_MESSAGES, doc.$id);
   }
 }
@@ -10,9 +10,10 @@ async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
   return json.data;
 }
 
-export function listVersions(projectId: string): Promise<ProjectVersion[]> {
+export function listVersions(projectId: string, branchId?: string): Promise<ProjectVersion[]> {
+  const branch = branchId ? `&branchId=${encodeURIComponent(branchId)}` : "";
   return fetchJson<ProjectVersion[]>(
-    `/api/versions?projectId=${encodeURIComponent(projectId)}`,
+    `/api/versions?projectId=${encodeURIComponent(projectId)}${branch}`,
   );
 }
 
@@ -23,6 +24,7 @@ export function createVersion(data: {
   model: string;
   agentId: string;
   temperature: number;
+  branchId?: string;
 }): Promise<ProjectVersion> {
   return fetchJson<ProjectVersion>("/api/versions", {
     method: "POST",
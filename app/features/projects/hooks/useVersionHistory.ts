@@ -17,7 +17,7 @@ export function useVersionHistory() {
   const loadVersions = useCallback(async () => {
     if (!currentProject) return [];
     try {
-      const data = await versionApi.listVersions(currentProject.id);
+      const data = await versionApi.listVersions(currentProject.id, useChatStore.getState().currentBranchId);
       setVersions(data);
       return data;
     } catch (err) {
@@ -38,6 +38,7 @@ export function useVersionHistory() {
       try {
         const version = await versionApi.createVersion({
           projectId: currentProject.id,
+          branchId: useChatStore.getState().currentBranchId,
           ...data,
         });
         addVersion(version);
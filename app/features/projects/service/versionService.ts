@@ -1,5 +1,6 @@
-import { getDb, COLLECTIONS, ID, Query } from "~/lib/db/appwrite";
+import { getDb, COLLECTIONS, ID, Query, ensureProjectBranchesSchema, branchQuery } from "~/lib/db/appwrite";
 import type { ProjectVersion } from "@shared/types/project";
+import { MAIN_BRANCH_ID } from "@shared/types/branch";
 import { logger } from "~/lib/utils/logger";
 
 interface VersionDoc {
@@ -11,8 +12,11 @@ interface VersionDoc {
   temperature: number;
   version_number: number;
   created_at: string;
+  branch_id?: string | null; // missing/empty → main branch
 }
 
+const VERSIONS_LIMIT = 50;
+
 function mapDoc(doc: VersionDoc, databaseId: string): ProjectVersion {
   let code: Record<string, string> = {};
   try {
@@ -36,31 +40,30 @@ function mapDoc(doc: VersionDoc, databaseId: string): ProjectVersion {
     temperature: doc.temperature,
     versionNumber: doc.version_number,
     createdAt: doc.created_at,
+    branchId: doc.branch_id || MAIN_BRANCH_ID,
   };
 }
 
 export async function listVersions(
   databaseId: string,
+  branchId: string = MAIN_BRANCH_ID,
 ): Promise<ProjectVersion[]> {
   const db = getDb();
+  await ensureProjectBranchesSchema(databaseId);
   try {
     const result = await db.listDocuments(
       databaseId,
       COLLECTIONS.VERSIONS,
-      [Query.orderDesc("version_number"), Query.limit(50)],
-    );
-    return (result.documents as unknown as VersionDoc[]).map((d) =>
-      mapDoc(d, databaseId),
+      [branchQuery(branchId), Query.orderDesc("version_number"), Query.limit(VERSIONS_LIMIT)],
     );
+    return (result.documents as unknown as VersionDoc[]).map((d) => mapDoc(d, databaseId));
   } catch (e) {
     const result = await db.listDocuments(
       databaseId,
       COLLECTIONS.VERSIONS,
-      [Query.limit(50)],
-    );
-    return (result.documents as unknown as VersionDoc[]).map((d) =>
-      mapDoc(d, databaseId),
+      [branchQuery(branchId), Query.limit(VERSIONS_LIMIT)],
     );
+    return (result.documents as unknown as VersionDoc[]).map((d) => mapDoc(d, databaseId));
   }
 }
 
@@ -71,9 +74,11 @@ export async function createVersion(data: {
   model: string;
   agentId: string;
   temperature: number;
+  branchId?: string;
 }): Promise<ProjectVersion> {
   const db = getDb();
   const now = new Date().toISOString();
+  await ensureProjectBranchesSchema(data.databaseId);
 
   const existing = await db.listDocuments(
     data.databaseId,
@@ -96,6 +101,7 @@ export async function createVersion(data: {
       temperature: data.temperature,
       version_number: nextNumber,
       created_at: now,
+      branch_id: data.branchId ?? MAIN_BRANCH_ID,
     },
   );
 
@@ -1,5 +1,8 @@
 import { Client, Databases, ID, Query, Permission, Role } from "node-appwrite";
 import { logger } from "~/lib/utils/logger";
+import { DEFAULT_PROMPT_LOCALE, type PromptLocale } from "@shared/types/promptLocale";
+import { MAIN_BRANCH_ID } from "@shared/types/branch";
+import { getPromptPack, SEED_ROLE_IDS, type SeedRoleId } from "~/lib/server/llm/promptPacks";
 
 const SCOPE = "appwrite";
 
@@ -40,9 +43,13 @@ export const COLLECTIONS = {
   PROJECTS: "projects",
   CHAT_MESSAGES: "chat_messages",
   VERSIONS: "versions",
+  BRANCHES: "branches",
   AGENT_ROLES: "agent_roles",
   PROMPT_HISTORY: "prompt_history",
   PIPELINE_LOGS: "pipeline_logs",
+  PIPELINE_SESSIONS: "pipeline_sessions",
+  PIPELINE_DEFINITIONS: "pipeline_definitions",
+  CUSTOM_ENDPOINTS: "custom_endpoints",
 } as const;
 
 // Appwrite 1.7.4: "create" не допускается для документов. Используем read, update, delete (без write — он может включать create).
@@ -52,6 +59,9 @@ const PERMISSIONS_ANY = [
   Permission.delete(Role.any()),
 ];
 
+// No client roles at all — only the server's API key reaches these documents
+const PERMISSIONS_SERVER_ONLY: string[] = [];
+
 async function collectionExists(
   db: Databases,
   databaseId: string,
@@ -77,7 +87,12 @@ async function databaseExists(
   }
 }
 
-export async function ensureMasterSchema(): Promise<void> {
+/**
+ * Creates or upgrades the master DB collections. Default roles are seeded only
+ * when the caller passes the user's language, so they are never installed in
+ * a language nobody picked.
+ */
+export async function ensureMasterSchema(seedLocale?: PromptLocale): Promise<void> {
   const db = getDb();
   const masterDbId = getMasterDbId();
 
@@ -120,6 +135,10 @@ export async function ensureMasterSchema(): Promise<void> {
 
   await ensureAgentRolesSchema();
   await ensurePipelineLogsSchema();
+  await ensurePipelineSessionsSchema();
+  await ensurePipelineDefinitionsSchema();
+  await ensureCustomEndpointsSchema();
+  if (seedLocale) await seedDefaultRoles(seedLocale);
 }
 
 export async function ensureAgentRolesSchema(): Promise<void> {
@@ -141,14 +160,20 @@ export async function ensureAgentRolesSchema(): Promise<void> {
     await db.createBooleanAttribute(dbId, collId, "is_locked", false, false);
     await db.createIntegerAttribute(dbId, collId, "timeout_ms", false);
     await db.createIntegerAttribute(dbId, collId, "max_retries", false);
+    // RoleModelFallback[] serialized as JSON
+    await db.createStringAttribute(dbId, collId, "fallbacks", 4096, false, "[]");
     await db.createStringAttribute(dbId, collId, "output_format", 32, false, "freetext");
     await db.createBooleanAttribute(dbId, collId, "include_nit_prompt", false, false);
+    await db.createBooleanAttribute(dbId, collId, "requires_approval", false, false);
     await db.createFloatAttribute(dbId, collId, "temperature", false);
     await db.createStringAttribute(dbId, collId, "created_at", 64, false, "");
     await db.createStringAttribute(dbId, collId, "updated_at", 64, false, "");
 
     await new Promise(resolve => setTimeout(resolve, 3000));
     logger.info(SCOPE, "Created agent_roles collection in master DB");
+  } else {
+    try { await db.createStringAttribute(masterDbId, COLLECTIONS.AGENT_ROLES, "fallbacks", 4096, false, "[]"); } catch { /* ignore if exists */ }
+    try { await db.createBooleanAttribute(masterDbId, COLLECTIONS.AGENT_ROLES, "requires_approval", false, false); } catch { /* ignore if exists */ }
   }
 
   if (!(await collectionExists(db, masterDbId, COLLECTIONS.PROMPT_HISTORY))) {
@@ -164,8 +189,6 @@ export async function ensureAgentRolesSchema(): Promise<void> {
     await new Promise(resolve => setTimeout(resolve, 3000));
     logger.info(SCOPE, "Created prompt_history collection in master DB");
   }
-
-  await seedDefaultRoles();
 }
 
 export async function ensurePipelineLogsSchema(): Promise<void> {
@@ -191,12 +214,107 @@ export async function ensurePipelineLogsSchema(): Promise<void> {
     await db.createStringAttribute(dbId, collId, "error_message", 4096, false, "");
     await db.createIntegerAttribute(dbId, collId, "retry_count", false);
     await db.createStringAttribute(dbId, collId, "timestamp", 64, false, "");
+    await db.createIntegerAttribute(dbId, collId, "prompt_tokens", false);
+    await db.createIntegerAttribute(dbId, collId, "completion_tokens", false);
+    await db.createBooleanAttribute(dbId, collId, "tokens_estimated", false, false);
+    await db.createIntegerAttribute(dbId, collId, "time_to_first_token_ms", false);
+    await db.createFloatAttribute(dbId, collId, "tokens_per_second", false);
 
     await new Promise(resolve => setTimeout(resolve, 3000));
     logger.info(SCOPE, "Created pipeline_logs collection in master DB");
+  } else {
+    const collId = COLLECTIONS.PIPELINE_LOGS;
+    try { await db.createIntegerAttribute(masterDbId, collId, "prompt_tokens", false); } catch { /* ignore if exists */ }
+    try { await db.createIntegerAttribute(masterDbId, collId, "completion_tokens", false); } catch { /* ignore if exists */ }
+    try { await db.createBooleanAttribute(masterDbId, collId, "tokens_estimated", false, false); } catch { /* ignore if exists */ }
+    try { await db.createIntegerAttribute(masterDbId, collId, "time_to_first_token_ms", false); } catch { /* ignore if exists */ }
+    try { await db.createFloatAttribute(masterDbId, collId, "tokens_per_second", false); } catch { /* ignore if exists */ }
   }
 }
 
+export async function ensurePipelineSessionsSchema(): Promise<void> {
+  const db = getDb();
+  const masterDbId = getMasterDbId();
+
+  if (!(await collectionExists(db, masterDbId, COLLECTIONS.PIPELINE_SESSIONS))) {
+    await db.createCollection(masterDbId, COLLECTIONS.PIPELINE_SESSIONS, "Pipeline Sessions", PERMISSIONS_ANY);
+
+    const dbId = masterDbId;
+    const collId = COLLECTIONS.PIPELINE_SESSIONS;
+    await db.createStringAttribute(dbId, collId, "project_id", 128, false, "");
+    // AgentStep[] serialized as JSON — agent outputs can be large
+    await db.createStringAttribute(dbId, collId, "steps", 1048576, false, "[]");
+    // ChainCheckpoint serialized as JSON, empty when no chain is paused
+    await db.createStringAttribute(dbId, collId, "chain_checkpoint", 131072, false, "");
+    await db.createStringAttribute(dbId, collId, "created_at", 64, false, "");
+    await db.createStringAttribute(dbId, collId, "last_activity", 64, false, "");
+
+    await new Promise(resolve => setTimeout(resolve, 3000));
+    logger.info(SCOPE, "Created pipeline_sessions collection in master DB");
+  } else {
+    try { await db.createStringAttribute(masterDbId, COLLECTIONS.PIPELINE_SESSIONS, "chain_checkpoint", 131072, false, ""); } catch { /* ignore if exists */ }
+  }
+}
+
+export async function ensurePipelineDefinitionsSchema(): Promise<void> {
+  const db = getDb();
+  const masterDbId = getMasterDbId();
+
+  if (!(await collectionExists(db, masterDbId, COLLECTIONS.PIPELINE_DEFINITIONS))) {
+    await db.createCollection(masterDbId, COLLECTIONS.PIPELINE_DEFINITIONS, "Pipeline Definitions", PERMISSIONS_ANY);
+
+    const dbId = masterDbId;
+    const collId = COLLECTIONS.PIPELINE_DEFINITIONS;
+    await db.createStringAttribute(dbId, collId, "name", 256, true);
+    await db.createStringAttribute(dbId, collId, "description", 4096, false, "");
+    // PipelineNode[] / PipelineEdge[] serialized as JSON
+    await db.createStringAttribute(dbId, collId, "nodes", 65536, false, "[]");
+    await db.createStringAttribute(dbId, collId, "edges", 65536, false, "[]");
+    await db.createBooleanAttribute(dbId, collId, "is_default", false, false);
+    await db.createStringAttribute(dbId, collId, "created_at", 64, false, "");
+    await db.createStringAttribute(dbId, collId, "updated_at", 64, false, "");
+
+    await new Promise(resolve => setTimeout(resolve, 3000));
+    logger.info(SCOPE, "Created pipeline_definitions collection in master DB");
+  }
+}
+
+let endpointPermissionsLocked = false;
+
+/** Endpoints hold API keys and auth headers — the collection is server-only. */
+export async function ensureCustomEndpointsSchema(): Promise<void> {
+  const db = getDb();
+  const masterDbId = getMasterDbId();
+
+  if (!(await collectionExists(db, masterDbId, COLLECTIONS.CUSTOM_ENDPOINTS))) {
+    await db.createCollection(masterDbId, COLLECTIONS.CUSTOM_ENDPOINTS, "Custom Endpoints", PERMISSIONS_SERVER_ONLY);
+
+    const dbId = masterDbId;
+    const collId = COLLECTIONS.CUSTOM_ENDPOINTS;
+    await db.createStringAttribute(dbId, collId, "name", 128, true);
+    await db.createStringAttribute(dbId, collId, "base_url", 1024, true);
+    // api_key and headers (Record<string, string> as JSON) are encrypted, see customEndpointService
+    await db.createStringAttribute(dbId, collId, "api_key", 1024, false, "");
+    await db.createStringAttribute(dbId, collId, "headers", 8192, false, "{}");
+    // string[] serialized as JSON
+    await db.createStringAttribute(dbId, collId, "model_filter", 4096, false, "[]");
+    await db.createStringAttribute(dbId, collId, "created_at", 64, false, "");
+    await db.createStringAttribute(dbId, collId, "updated_at", 64, false, "");
+
+    await new Promise(resolve => setTimeout(resolve, 3000));
+    logger.info(SCOPE, "Created custom_endpoints collection in master DB");
+  } else if (!endpointPermissionsLocked) {
+    // Created readable by anyone before — take the client roles away
+    try {
+      await db.updateCollection(masterDbId, COLLECTIONS.CUSTOM_ENDPOINTS, "Custom Endpoints", PERMISSIONS_SERVER_ONLY);
+    } catch (err) {
+      logger.error(SCOPE, "Failed to restrict custom_endpoints permissions", err);
+      return;
+    }
+  }
+  endpointPermissionsLocked = true;
+}
+
 export type SeedLlmOptions = {
   providerId?: string;
   modelName?: string;
@@ -204,6 +322,7 @@ export type SeedLlmOptions = {
 
 export async function seedOrCreateDefaultRoles(
   llmOptions?: SeedLlmOptions,
+  locale: PromptLocale = DEFAULT_PROMPT_LOCALE,
 ): Promise<{ seeded: boolean; message: string }> {
   const db = getDb();
   const masterDbId = getMasterDbId();
@@ -236,246 +355,25 @@ export async function seedOrCreateDefaultRoles(
     updated_at: now,
   };
 
-  const ROLE_IDS = [
-    "role_analyst",
-    "role_architect",
-    "role_designer",
-    "role_copywriter",
-    "role_coder",
-    "role_tester",
-  ] as const;
-
-  const seeds: Array<Record<string, unknown> & { name: string; role_id: string }> = [
-    {
-      ...defaults,
-      role_id: ROLE_IDS[0],
-      name: "Аналитик",
-      description: "Уточнение требований, анализ запроса пользователя",
-      order: 1,
-      is_locked: false,
-      output_format: "freetext",
-      include_nit_prompt: false,
-      temperature: 0.4,
-      system_prompt: `Ты Аналитик веб-студии — эксперт по сбору и структурированию требований. Твоя задача — превратить размытый запрос пользователя в чёткий, приоритизированный бриф для команды агентов.
-
-ИДЕНТИЧНОСТЬ:
-Ты первый в цепочке агентов. От качества твоего брифа зависит успех всего проекта. Ты задаёшь вопросы, выявляешь неочевидные потребности и формулируешь измеримые критерии успеха.
-
-ПРОТОКОЛ РАБОТЫ:
-1. Проанализируй запрос: что пользователь хочет получить, какие проблемы решить.
-2. Выяви целевую аудиторию: демография, потребности, контекст использования.
-3. Определи ключевые страницы и функциональность с приоритизацией (must-have / nice-to-have).
-4. Сформулируй user stories для ключевых сценариев (формат: «Как [роль], я хочу [действие], чтобы [результат]»).
-5. Укажи ограничения: технические, временные, бюджетные (если применимо).
-6. Добавь рекомендации для Архитектора: что учесть в структуре, навигации, UX.
-
-ФОРМАТ ОТВЕТА (строго структурированный текст):
-- ЦЕЛИ: [1–3 измеримые цели проекта]
-- АУДИТОРИЯ: [описание ЦА, ключевые потребности]
-- КЛЮЧЕВЫЕ СТРАНИЦЫ: [список с приоритетами]
-- USER STORIES: [2–5 ключевых сценариев]
-- ОГРАНИЧЕНИЯ: [если есть]
-- РЕКОМЕНДАЦИИ ДЛЯ АРХИТЕКТОРА: [что учесть]`,
-    },
-    {
-      ...defaults,
-      role_id: ROLE_IDS[1],
-      name: "Архитектор",
-      description: "Создаёт структуру, навигацию, UX, цвета",
-      order: 2,
-      is_locked: true,
-      output_format: "json",
-      include_nit_prompt: false,
-      temperature: 0.3,
-      system_prompt: `Ты Архитектор веб-студии — эксперт по информационной архитектуре и UX. Твоя задача — превратить бриф Аналитика в детальную техническую спецификацию для Кодера.
-
-ИДЕНТИЧНОСТЬ:
-Ты создаёшь структуру проекта: страницы, секции, навигацию, дизайн-токены. Твой вывод — единственный источник правды для Дизайнера, Копирайтера и Кодера.
-
-ПРОТОКОЛ:
-1. Изучи бриф от Аналитика (цели, аудитория, ключевые страницы).
-2. Определи иерархию страниц и их назначение.
-3. Для каждой страницы спроектируй секции: hero, features, cta, content, gallery, form, footer, header, testimonials, pricing, faq.
-4. Задай навигацию: top | sidebar | burger и пункты меню.
-5. Предложи design tokens: primary_color, secondary_color, accent_color, font_heading, font_body, style (minimal | corporate | creative | bold).
-
-ФОРМАТ ВЫВОДА — СТРОГО JSON (без markdown, без пояснений):
-{
-  "project_name": "string",
-  "pages": [{"slug": "string", "title": "string", "purpose": "string", "sections": [{"id": "string", "type": "hero|features|cta|content|gallery|form|footer|header|testimonials|pricing|faq", "description": "string", "notes": "string"}]}],
-  "navigation": {"type": "top|sidebar|burger", "items": [{"label": "string", "href": "string"}]},
-  "design": {"style": "string", "primary_color": "#hex", "secondary_color": "#hex", "accent_color": "#hex", "font_heading": "string", "font_body": "string"},
-  "tech_notes": "string"
-}
+  // Behaviour of each default role; names and prompts come from the locale's pack
+  const ROLE_SETTINGS: Record<SeedRoleId, Record<string, unknown>> = {
+    role_analyst: { order: 1, is_locked: false, output_format: "freetext", include_nit_prompt: false, temperature: 0.4 },
+    role_architect: { order: 2, is_locked: true, output_format: "json", include_nit_prompt: false, temperature: 0.3 },
+    role_designer: { order: 3, is_locked: false, output_format: "freetext", include_nit_prompt: false, temperature: 0.5 },
+    role_copywriter: { order: 4, is_locked: false, output_format: "freetext", include_nit_prompt: false, temperature: 0.7 },
+    role_coder: { order: 5, is_locked: false, output_format: "freetext", include_nit_prompt: true, temperature: 0.3 },
+    role_tester: { order: 6, is_locked: false, output_format: "json", include_nit_prompt: false, temperature: 0.2 },
+  };
 
-ПРАВИЛА:
-- Один valid JSON объект. Никакого текста до или после.
-- Учитывай responsive: секции должны работать на mobile и desktop.
-- SEO: slug — человекопонятный, title — для meta.
-- Accessibility: предусмотри логичную структуру заголовков (h1→h2→h3).`,
-    },
-    {
-      ...defaults,
-      role_id: ROLE_IDS[2],
-      name: "Дизайнер",
-      description: "Визуальный стиль, цвета, типографика, компоненты",
-      order: 3,
-      is_locked: false,
-      output_format: "freetext",
-      include_nit_prompt: false,
-      temperature: 0.5,
-      system_prompt: `Ты Дизайнер веб-студии с экспертизой в UI/UX и дизайн-системах. Ты получаешь JSON-структуру от Архитектора и создаёшь полную визуальную спецификацию для Кодера.
-
-ИДЕНТИЧНОСТЬ:
-Ты превращаешь абстрактную структуру в конкретную дизайн-систему: цвета, типографика, spacing, компоненты, анимации. Твоя спецификация должна позволить Кодеру реализовать интерфейс без догадок.
-
-ПРОТОКОЛ РАБОТЫ:
-1. Изучи структуру Архитектора: project_name, pages, design.style, tech_notes.
-2. Определи палитру: primary (основной бренд), secondary (фоны, акценты), accent (CTA, ссылки). Всегда указывай hex-коды.
-3. Подбери шрифты: font_heading (заголовки), font_body (текст). Используй Google Fonts или системные (Inter, Roboto, system-ui).
-4. Опиши spacing: базовый unit (4px/8px), отступы секций, padding компонентов.
-5. Специфицируй компоненты: кнопки (размеры, скругления, тени), карточки, формы, инпуты.
-6. Рекомендации по анимациям: hover (transform, opacity), transitions (duration, easing), микро-взаимодействия.
-7. Если в структуре указан dark mode — опиши цветовую схему для тёмной темы.
-
-ФОРМАТ ОТВЕТА (структурированный текст):
-- ПАЛИТРА: primary #hex, secondary #hex, accent #hex [, dark mode варианты]
-- ШРИФТЫ: heading (название, fallback), body (название, fallback)
-- SPACING: unit, section-gap, component-padding
-- КОМПОНЕНТЫ: [кнопки, карточки, формы — размеры, скругления, тени]
-- АНИМАЦИИ: [hover, transitions, рекомендации]
-- ОСОБЕННОСТИ: [если нужны кастомные элементы]`,
-    },
-    {
-      ...defaults,
-      role_id: ROLE_IDS[3],
-      name: "Копирайтер",
-      description: "Наполняет страницы текстовым контентом",
-      order: 4,
-      is_locked: false,
-      output_format: "freetext",
-      include_nit_prompt: false,
-      temperature: 0.7,
-      system_prompt: `Ты Копирайтер веб-студии. Эксперт по контенту и конверсии. Ты получаешь структуру от Архитектора и визуальную спецификацию от Дизайнера. Твоя задача — наполнить каждую секцию продающим, SEO-оптимизированным контентом.
-
-ИДЕНТИЧНОСТЬ:
-Ты пишешь для веб-проектов: лендинги, корпоративные сайты, портфолио. Тексты должны продавать, информировать и вовлекать. Никакого lorem ipsum — только реальный, осмысленный контент.
-
-ПРОТОКОЛ РАБОТЫ:
-1. Изучи структуру Архитектора: страницы, секции, цели каждой секции.
-2. Учти визуальный стиль Дизайнера: tone of voice должен соответствовать (премиум — сдержанно, стартап — энергично, корпорация — надёжно).
-3. Для каждой секции напиши контент с учётом её цели: hero — цепляющий заголовок + подзаголовок, features — 3–5 преимуществ с заголовками, cta — призыв к действию, testimonials — отзывы.
-4. SEO: заголовки H1–H3 с ключевыми словами, meta-описания для страниц.
-5. CTA-формулы: глагол + выгода (например: «Получить консультацию», «Заказать демо»).
-
-ФОРМАТ ОТВЕТА:
-Для каждой страницы и секции укажи:
-- page_slug: [slug страницы]
-- section_id: [id секции]
-- heading: [заголовок]
-- body: [основной текст]
-- cta_text: [если применимо]
-
-ПРАВИЛА КАЧЕСТВА:
-- Единый tone of voice на всём сайте.
-- Короткие абзацы (2–3 предложения).
-- Конкретика вместо общих фраз.
-- Учёт целевой аудитории из брифа Аналитика.`,
-    },
-    {
-      ...defaults,
-      role_id: ROLE_IDS[4],
-      name: "Кодер",
-      description: "Генерирует рабочий код сайта на основе структуры и контента",
-      order: 5,
-      is_locked: false,
-      output_format: "freetext",
-      include_nit_prompt: true,
-      temperature: 0.3,
-      system_prompt: `Ты Кодер веб-студии — эксперт по генерации production-ready кода. Твоя задача — превратить структуру, дизайн и контент в полностью рабочий сайт.
-
-ИДЕНТИЧНОСТЬ:
-Ты senior-разработчик с опытом React, Tailwind CSS, семантичного HTML. Ты пишешь чистый, читаемый код без лишних зависимостей. Ты строго следуешь инструкциям NIT (nitArtifact, nitAction) для вывода файлов.
-
-ВХОДНЫЕ ДАННЫЕ (от предыдущих агентов):
-- Архитектор: JSON со страницами, секциями, навигацией, design (primary_color, font_heading и т.д.)
-- Дизайнер: палитра, шрифты, стиль компонентов, анимации
-- Копирайтер: реальные тексты для каждой секции (page slug, section id, текст)
-
-ПРОТОКОЛ РАБОТЫ:
-1. Собери все данные из контекста. Если чего-то нет — создай разумные значения по запросу пользователя.
-2. Используй ТОЛЬКО реальные тексты от Копирайтера. Запрещено: lorem ipsum, placeholder, "текст здесь".
-3. Применяй цвета и шрифты из design. Используй Tailwind: text-[#hex], font-[name], rounded-lg, shadow-lg.
-4. Реализуй ВСЕ секции из структуры: hero, features, cta, footer, header и т.д.
-5. Добавь hover-эффекты (hover:scale-105, hover:bg-opacity-90), transitions (transition-all duration-300).
-6. Адаптивность: mobile-first, sm:, md:, lg: breakpoints. Навигация: burger на мобильных, top на десктопе.
-7. Доступность: alt у img, aria-label у кнопок, семантика (header, main, footer, nav).
-8. Вывод СТРОГО в формате nitArtifact. Каждый файл — отдельный nitAction type="file".
-
-КАЧЕСТВО:
-- Код должен запускаться без доработок. Никаких TODO, FIXME, заглушек.
-- Один h1 на страницу. Логичная иерархия заголовков (h2, h3).
-- Консистентность: единый стиль кнопок, карточек, отступов (p-4, gap-4, space-y-6).`,
-    },
-    {
-      ...defaults,
-      role_id: ROLE_IDS[5],
-      name: "Тестировщик",
-      description: "Проверяет HTML/CSS/JS синтаксис и логику",
-      order: 6,
-      is_locked: false,
-      output_format: "freetext",
-      include_nit_prompt: false,
-      temperature: 0.2,
-      system_prompt: `Ты Тестировщик веб-студии — QA-эксперт по фронтенду. Твоя задача — провести полную проверку результата работы предыдущих агентов и вынести вердикт: PASS или FAIL.
-
-ИДЕНТИЧНОСТЬ:
-Ты — последнее звено в цепочке агентов. От твоей проверки зависит, попадёт ли сайт в production. Ты строг, но справедлив. Ты ищешь реальные проблемы, а не придираешься к мелочам.
-
-ПРОТОКОЛ ПРОВЕРКИ (выполняй по порядку):
-
-1. HTML/CSS валидность
-   - Незакрытые теги, непарные скобки
-   - Невалидные CSS-свойства, устаревшие префиксы
-   - Синтаксические ошибки в JS (если есть inline-скрипты)
-
-2. Семантика
-   - Один h1 на страницу
-   - Корректная иерархия h2–h6
-   - alt у всех img
-   - Семантические теги: header, main, footer, nav, section, article
-
-3. Доступность (a11y)
-   - Контраст текста и фона (минимум 4.5:1 для обычного текста)
-   - aria-label / aria-labelledby где нужно
-   - Фокус на интерактивных элементах
-   - Формы: label, placeholder, error states
-
-4. SEO
-   - meta title и description на каждой странице
-   - og:title, og:description для соцсетей
-   - Структура заголовков (h1 → h2 → h3)
-   - Canonical URL при необходимости
-
-5. Консистентность
-   - Соответствие контента структуре Архитектора
-   - Использование текстов Копирайтера (не placeholder)
-   - Соответствие дизайну (цвета, шрифты)
-
-6. Производительность и качество
-   - Нет тяжёлых блокирующих операций
-   - Адаптивность (mobile-first)
-   - Hover-состояния у кнопок и ссылок
-
-ФОРМАТ ОТВЕТА (строго):
-- КРИТИЧЕСКИЕ: [список или «нет»]
-- ПРЕДУПРЕЖДЕНИЯ: [список или «нет»]
-- РЕКОМЕНДАЦИИ: [список или «нет»]
-- ИТОГО: PASS / FAIL
-
-Вердикт FAIL — только если есть критические ошибки, блокирующие запуск или нарушающие доступность.`,
-    },
-  ];
+  const pack = getPromptPack(locale);
+  const seeds: Array<Record<string, unknown> & { name: string; role_id: string }> = SEED_ROLE_IDS.map((roleId) => ({
+    ...defaults,
+    ...ROLE_SETTINGS[roleId],
+    role_id: roleId,
+    name: pack.roles[roleId].name,
+    description: pack.roles[roleId].description,
+    system_prompt: pack.roles[roleId].systemPrompt,
+  }));
 
   let created = 0;
   let lastError: string | null = null;
@@ -507,6 +405,7 @@ export async function seedOrCreateDefaultRoles(
 
 export async function seedOrCreateDefaultRolesForce(
   llmOptions?: SeedLlmOptions,
+  locale: PromptLocale = DEFAULT_PROMPT_LOCALE,
 ): Promise<{ seeded: boolean; message: string }> {
   const db = getDb();
   const masterDbId = getMasterDbId();
@@ -521,11 +420,11 @@ export async function seedOrCreateDefaultRolesForce(
     return { seeded: false, message: "Ошибка при удалении ролей" };
   }
 
-  return seedOrCreateDefaultRoles(llmOptions);
+  return seedOrCreateDefaultRoles(llmOptions, locale);
 }
 
-async function seedDefaultRoles(): Promise<void> {
-  await seedOrCreateDefaultRoles();
+async function seedDefaultRoles(locale: PromptLocale): Promise<void> {
+  await seedOrCreateDefaultRoles(undefined, locale);
 }
 
 export async function createProjectDatabase(projectName: string): Promise<string> {
@@ -553,6 +452,10 @@ async function createProjectCollections(db: Databases, dbId: string): Promise<vo
   await db.createStringAttribute(dbId, msgColl, "agent_role_name", 256, false);
   await db.createStringAttribute(dbId, msgColl, "selected_by", 64, false);
   await db.createIntegerAttribute(dbId, msgColl, "duration_ms", false);
+  await db.createStringAttribute(dbId, msgColl, "branch_id", 64, false, "");
+  await db.createStringAttribute(dbId, msgColl, "reasoning", 1048576, false);
+  await db.createIntegerAttribute(dbId, msgColl, "reasoning_ms", false);
+  await db.createStringAttribute(dbId, msgColl, "job_id", 64, false);
 
   await db.createCollection(dbId, COLLECTIONS.VERSIONS, "Versions", PERMISSIONS_ANY);
 
@@ -564,11 +467,93 @@ async function createProjectCollections(db: Databases, dbId: string): Promise<vo
   await db.createFloatAttribute(dbId, verColl, "temperature", true);
   await db.createIntegerAttribute(dbId, verColl, "version_number", true);
   await db.createStringAttribute(dbId, verColl, "created_at", 64, true);
+  await db.createStringAttribute(dbId, verColl, "branch_id", 64, false, "");
+
+  await createBranchesCollection(db, dbId);
 
   // Wait for attributes to be created
   await new Promise(resolve => setTimeout(resolve, 3000));
 }
 
+async function createBranchesCollection(db: Databases, dbId: string): Promise<void> {
+  await db.createCollection(dbId, COLLECTIONS.BRANCHES, "Branches", PERMISSIONS_ANY);
+
+  const collId = COLLECTIONS.BRANCHES;
+  await db.createStringAttribute(dbId, collId, "name", 256, true);
+  await db.createStringAttribute(dbId, collId, "parent_branch_id", 64, false, "");
+  await db.createStringAttribute(dbId, collId, "fork_message_id", 64, false, "");
+  await db.createStringAttribute(dbId, collId, "session_id", 64, false, "");
+  await db.createStringAttribute(dbId, collId, "created_at", 64, true);
+}
+
+const branchSchemaReady = new Set<string>();
+
+/** Project databases created before branches existed get them on first use. */
+export async function ensureProjectBranchesSchema(dbId: string): Promise<void> {
+  if (branchSchemaReady.has(dbId)) return;
+  const db = getDb();
+
+  if (!(await collectionExists(db, dbId, COLLECTIONS.BRANCHES))) {
+    await createBranchesCollection(db, dbId);
+    try { await db.createStringAttribute(dbId, COLLECTIONS.CHAT_MESSAGES, "branch_id", 64, false, ""); } catch { /* ignore if exists */ }
+    try { await db.createStringAttribute(dbId, COLLECTIONS.VERSIONS, "branch_id", 64, false, ""); } catch { /* ignore if exists */ }
+
+    await new Promise(resolve => setTimeout(resolve, 3000));
+    logger.info(SCOPE, `Added conversation branches to project database: ${dbId}`);
+  }
+  branchSchemaReady.add(dbId);
+}
+
+/**
+ * Filter on one conversation branch. Main also matches documents saved
+ * before branches existed (no or empty branch_id) — call
+ * ensureProjectBranchesSchema first so the attribute is there to query.
+ */
+export function branchQuery(branchId: string): string {
+  return branchId === MAIN_BRANCH_ID
+    ? Query.or([Query.equal("branch_id", [MAIN_BRANCH_ID, ""]), Query.isNull("branch_id")])
+    : Query.equal("branch_id", branchId);
+}
+
+const reasoningSchemaReady = new Set<string>();
+
+/** Message reasoning (<think> text) came later — older project databases get the attributes on first save. */
+export async function ensureMessageReasoningSchema(dbId: string): Promise<void> {
+  if (reasoningSchemaReady.has(dbId)) return;
+  const db = getDb();
+
+  let added = false;
+  try {
+    await db.createStringAttribute(dbId, COLLECTIONS.CHAT_MESSAGES, "reasoning", 1048576, false);
+    added = true;
+  } catch { /* ignore if exists */ }
+  try {
+    await db.createIntegerAttribute(dbId, COLLECTIONS.CHAT_MESSAGES, "reasoning_ms", false);
+    added = true;
+  } catch { /* ignore if exists */ }
+
+  if (added) {
+    await new Promise(resolve => setTimeout(resolve, 3000));
+    logger.info(SCOPE, `Added message reasoning to project database: ${dbId}`);
+  }
+  reasoningSchemaReady.add(dbId);
+}
+
+const jobSchemaReady = new Set<string>();
+
+/** The pipeline job of a message lets a reattach after reload replace it — older databases get it on first save. */
+export async function ensureMessageJobSchema(dbId: string): Promise<void> {
+  if (jobSchemaReady.has(dbId)) return;
+  const db = getDb();
+
+  try {
+    await db.createStringAttribute(dbId, COLLECTIONS.CHAT_MESSAGES, "job_id", 64, false);
+    await new Promise(resolve => setTimeout(resolve, 3000));
+    logger.info(SCOPE, `Added message job ids to project database: ${dbId}`);
+  } catch { /* ignore if exists */ }
+  jobSchemaReady.add(dbId);
+}
+
 export async function deleteProjectDatabase(dbId: string): Promise<void> {
   const db = getDb();
   await db.delete(dbId);
@@ -4,26 +4,52 @@ import { useRoleStore } from "~/lib/stores/roleStore";
 import { useProjectStore } from "~/lib/stores/projectStore";
 import { useSettingsStore } from "~/lib/stores/settingsStore";
 import { useAgentStore } from "~/lib/stores/agentStore";
+import { useJobStore } from "~/lib/stores/jobStore";
 import { IncrementalArtifactParser } from "~/lib/utils/codeParser";
-import type { PipelineEvent } from "@shared/types/agentRole";
+import type { ConfirmedPlan, PipelineEvent } from "@shared/types/agentRole";
 import { CHAIN_ROLE_ID } from "@shared/types/agentRole";
+import type { PipelineJobSummary } from "@shared/types/pipelineJob";
+import { t } from "~/lib/utils/i18n";
 import { logger } from "~/lib/utils/logger";
 
+// What a file held before the current attempt of a step first wrote it
+type PreviousFile = { code?: string; run?: string };
+
+type StepStream = {
+  messageId: string;
+  accumulated: string;
+  reasoning?: string; // <think> text — kept out of accumulated and the parser
+  parser: IncrementalArtifactParser;
+  written: Map<string, PreviousFile>; // files of the current attempt — rolled back when it is discarded
+  roleId?: string;
+  roleName?: string;
+  selectedBy?: string;
+  durationMs?: number;
+  model?: string;
+  provider?: string;
+};
+
 type PipelineStreamOptions = {
   projectId: string;
   roleId: string;
   localContext: string;
   projectType: string;
   sessionId?: string;
+  branchId?: string;    // conversation branch — history is resumed from its messages
+  rewindMessageIds?: string[]; // re-run of an edited message: user messages whose agent steps are dropped
+  plan?: ConfirmedPlan; // chain mode: the plan the user confirmed in the preview
+  pipelineId?: string;  // chain mode: stored pipeline definition, the default one if omitted
 };
 
 function parsePipelineSSE(
   buffer: string,
   onEvent: (event: PipelineEvent) => void,
-): { remaining: string; done: boolean; pipelineError: string | null } {
+): { remaining: string; done: boolean; pipelineError: string | null; lastEventId: string | null } {
   let remaining = buffer;
   let done = false;
   let pipelineError: string | null = null;
+  let pendingId: string | null = null;
+  let lastEventId: string | null = null;
 
   while (true) {
     const newlineIdx = remaining.indexOf("\n");
@@ -33,6 +59,10 @@ function parsePipelineSSE(
     remaining = remaining.slice(newlineIdx + 1);
 
     const trimmed = line.trim();
+    if (trimmed.startsWith("id: ")) {
+      pendingId = trimmed.slice(4).trim();
+      continue;
+    }
     if (!trimmed.startsWith("data: ")) continue;
 
     const payload = trimmed.slice(6).trim();
@@ -41,6 +71,10 @@ function parsePipelineSSE(
       break;
     }
 
+    // The id belongs to this event even when it is malformed — it is not replayed either way
+    if (pendingId !== null) lastEventId = pendingId;
+    pendingId = null;
+
     try {
       const parsed = JSON.parse(payload) as PipelineEvent;
       if (parsed.type === "error") {
@@ -54,35 +88,61 @@ function parsePipelineSSE(
     }
   }
 
-  return { remaining, done, pipelineError };
+  return { remaining, done, pipelineError, lastEventId };
 }
 
 let generationCounter = 0;
 
+/** Reconnect attempts after the stream drops while its job keeps running */
+const MAX_RECONNECTS = 5;
+const RECONNECT_DELAY_MS = 1_000;
+
+// Aborting with this reason only stops listening — the server-side job goes on
+const DETACH = "detach";
+
 /** Abort any active pipeline stream. Called from project switch. */
 let activeAbortController: AbortController | null = null;
 export function abortActivePipeline() {
   if (activeAbortController) {
-    activeAbortController.abort();
+    activeAbortController.abort(DETACH);
     activeAbortController = null;
   }
 }
 
+function openJobEvents(jobId: string, lastEventId: string, signal: AbortSignal): Promise<Response> {
+  return fetch(`/api/pipeline/jobs/${encodeURIComponent(jobId)}/events`, {
+    headers: { "Last-Event-ID": lastEventId },
+    signal,
+  });
+}
+
 export function usePipelineStreaming() {
   const abortRef = useRef<AbortController | null>(null);
   const genIdRef = useRef(0);
 
   const {
     addMessage,
-    updateLastAssistantMessage,
+    updateMessage,
     setStreaming,
     updateGeneratedFile,
+    setGeneratedCode,
     persistToDb,
   } = useChatStore();
 
-  const generate = useCallback(
-    async (prompt: string, options: PipelineStreamOptions) => {
-      if (abortRef.current) abortRef.current.abort();
+  /**
+   * Streams one pipeline job into the chat: a new run (connect posts to
+   * /api/pipeline/execute) or a reattach (jobId known, events replayed from
+   * the start). A dropped connection is resumed from the last event id.
+   */
+  const run = useCallback(
+    async (
+      prompt: string,
+      roleId: string,
+      connect: (signal: AbortSignal, messageId: string) => Promise<Response>,
+      knownJobId?: string,
+      knownMessageId?: string,
+    ) => {
+      if (abortRef.current) abortRef.current.abort(DETACH);
 
       const controller = new AbortController();
       abortRef.current = controller;
@@ -91,165 +151,297 @@ export function usePipelineStreaming() {
       const thisGenId = ++generationCounter;
       genIdRef.current = thisGenId;
 
-      const isChainMode = options.roleId === CHAIN_ROLE_ID;
+      const isChainMode = roleId === CHAIN_ROLE_ID;
       useRoleStore.getState().resetPipeline();
       if (isChainMode) useRoleStore.getState().setChainMode(true);
 
+      let jobId: string | null = knownJobId ?? null;
+      useJobStore.getState().setActiveJobId(jobId);
+
       // User message
-      addMessage({ id: crypto.randomUUID(), role: "user", content: prompt, timestamp: Date.now() });
+      const userMessageId = knownMessageId ?? crypto.randomUUID();
+      addMessage({
+        id: userMessageId,
+        role: "user",
+        content: prompt,
+        timestamp: Date.now(),
+        agentRoleId: roleId, // the selection it was sent with — an edit re-runs with it
+        jobId: knownJobId,
+      });
 
       // First assistant placeholder
-      addMessage({ id: crypto.randomUUID(), role: "assistant", content: "", timestamp: Date.now() });
+      const firstMessageId = crypto.randomUUID();
+      addMessage({ id: firstMessageId, role: "assistant", content: "", timestamp: Date.now(), jobId: knownJobId });
+
+      setStreaming({ isStreaming: true, currentContent: "", error: null, runMessageId: userMessageId });
+
+      // Patches apply to the code as it was before this run plus what the run wrote
+      const baseCode = useChatStore.getState().generatedCode;
+      const runFiles: Record<string, string> = {};
+      const createParser = (written: Map<string, PreviousFile>) => new IncrementalArtifactParser(
+        (filePath, content) => {
+          if (!written.has(filePath)) {
+            written.set(filePath, { code: useChatStore.getState().generatedCode[filePath], run: runFiles[filePath] });
+          }
+          runFiles[filePath] = content;
+          updateGeneratedFile(filePath, content);
+        },
+        {
+          getBaseFile: (filePath) => runFiles[filePath] ?? baseCode[filePath],
+          onPatchError: ({ filePath, message }) => {
+            logger.warn("pipeline", `Patch failed for ${filePath}: ${message}`);
+            setStreaming({ error: `${t("patch.failed")} ${filePath}: ${message}` });
+          },
+        },
+      );
+
+      const newStep = (messageId: string): StepStream => {
+        const written = new Map<string, PreviousFile>();
+        return { messageId, accumulated: "", parser: createParser(written), written };
+      };
 
-      setStreaming({ isStreaming: true, currentContent: "", error: null });
+      /** A retried or replaced attempt leaves nothing behind: its files go back to what they were. */
+      const discardAttempt = (step: StepStream) => {
+        if (step.written.size > 0) {
+          const code = { ...useChatStore.getState().generatedCode };
+          for (const [filePath, previous] of step.written) {
+            if (previous.code === undefined) delete code[filePath];
+            else code[filePath] = previous.code;
+            if (previous.run === undefined) delete runFiles[filePath];
+            else runFiles[filePath] = previous.run;
+          }
+          setGeneratedCode(code);
+        }
+        step.written = new Map();
+        step.parser = createParser(step.written);
+      };
 
-      // Track per-step state
-      let accumulated = "";      // text for CURRENT step
-      let currentRoleName: string | undefined;
-      let currentSelectedBy: string | undefined;
-      let currentDuration: number | undefined;
-      let currentModel: string | undefined;
-      let currentProvider: string | undefined;
+      // Per-step state — parallel chain steps stream into their own messages,
+      // events are routed by stepId (events without one go to the latest step)
+      const steps = new Map<string, StepStream>();
+      let lastStep = newStep(firstMessageId);
       let stepCount = 0;         // how many role_selected we've seen
       let pipelineError: string | null = null;
+      let lastEventId = "0";
+
+      const stepFor = (stepId?: string): StepStream =>
+        (stepId ? steps.get(stepId) : undefined) ?? lastStep;
+
+      // Helper: write step metadata onto its assistant message
+      const finalizeStepMessage = (step: StepStream) => {
+        updateMessage(step.messageId, {
+          agentRoleId: step.roleId,
+          agentRoleName: step.roleName,
+          selectedBy: step.selectedBy,
+          durationMs: step.durationMs,
+          model: step.model,
+          agentId: step.provider,
+        });
+      };
 
-      const parser = new IncrementalArtifactParser((filePath, content) => {
-        updateGeneratedFile(filePath, content);
-      });
-
-      // Helper: finalize current assistant message with metadata
-      const finalizeCurrentMessage = () => {
-        const chatStore = useChatStore.getState();
-        const msgs = [...chatStore.messages];
-        const lastIdx = msgs.findLastIndex((m) => m.role === "assistant");
-        if (lastIdx >= 0) {
-          msgs[lastIdx] = {
-            ...msgs[lastIdx]!,
-            agentRoleName: currentRoleName,
-            selectedBy: currentSelectedBy,
-            durationMs: currentDuration,
-            model: currentModel,
-            agentId: currentProvider,
-          };
-          useChatStore.setState({ messages: msgs });
-        }
+      const flushAll = () => {
+        for (const step of new Set([...steps.values(), lastStep])) step.parser.flush();
       };
 
-      try {
-        const response = await fetch("/api/pipeline/execute", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            projectId: options.projectId,
-            sessionId: options.sessionId,
-            roleId: options.roleId,
-            message: prompt,
-            localContext: options.localContext,
-            projectType: options.projectType,
-          }),
-          signal: controller.signal,
-        });
+      const handleEvent = (event: PipelineEvent) => {
+        useRoleStore.getState().handlePipelineEvent(event);
+
+        switch (event.type) {
+          case "session_init": {
+            useRoleStore.getState().setPipelineSessionId(event.sessionId);
+            // A reload or a branch switch continues the branch with this session
+            const pid = useProjectStore.getState().currentProject?.id;
+            const chat = useChatStore.getState();
+            if (pid) chat.setBranchSession(pid, chat.currentBranchId, event.sessionId);
+            if (event.jobId && !jobId) {
+              jobId = event.jobId;
+              useJobStore.getState().setActiveJobId(jobId);
+              updateMessage(userMessageId, { jobId });
+              updateMessage(firstMessageId, { jobId });
+            }
+            break;
+          }
+
+          case "role_selected": {
+            // In chain mode every step gets its own assistant message
+            let step = lastStep;
+            if (isChainMode && stepCount > 0) {
+              step = newStep(crypto.randomUUID());
+              addMessage({ id: step.messageId, role: "assistant", content: "", timestamp: Date.now(), jobId: jobId ?? undefined });
+            }
+            stepCount++;
+            step.roleId = event.roleId;
+            step.roleName = event.roleName;
+            step.selectedBy = event.selectedBy;
+            step.durationMs = undefined;
+            step.model = undefined;
+            step.provider = undefined;
+            step.reasoning = undefined;
+            if (event.stepId) steps.set(event.stepId, step);
+            lastStep = step;
+            break;
+          }
+
+          case "step_start": {
+            const step = stepFor(event.stepId);
+            step.model = event.model;
+            step.provider = event.provider;
+            break;
+          }
+
+          case "text": {
+            const step = stepFor(event.stepId);
+            step.accumulated += event.text;
+            step.parser.push(event.text);
+            updateMessage(step.messageId, { content: step.accumulated });
+            setStreaming({ currentContent: step.accumulated });
+            break;
+          }
+
+          case "reasoning": {
+            const step = stepFor(event.stepId);
+            step.reasoning = (step.reasoning ?? "") + event.text;
+            updateMessage(step.messageId, { reasoning: step.reasoning, reasoningMs: event.durationMs });
+            break;
+          }
+
+          case "retry_reset": {
+            const step = stepFor(event.stepId);
+            step.accumulated = "";
+            step.reasoning = undefined;
+            discardAttempt(step);
+            updateMessage(step.messageId, { content: "", reasoning: undefined, reasoningMs: undefined });
+            setStreaming({ currentContent: "" });
+            logger.warn("pipeline", "Retry: discarding partial text and files");
+            break;
+          }
+
+          case "queued":
+            logger.info("pipeline", `${event.roleName}: queued #${event.position} for ${event.model}@${event.provider}`);
+            break;
 
-        if (!response.ok) {
-          const err = await response.json().catch(() => ({ error: "Request failed" }));
-          throw new Error((err as { error?: string }).error ?? `HTTP ${response.status}`);
+          case "continuation":
+            // The text that follows is appended to the same step and parser
+            logger.warn("pipeline", `${event.roleName}: output cut off, continuation ${event.attempt}/${event.maxAttempts}`);
+            break;
+
+          case "step_complete": {
+            const step = stepFor(event.stepId);
+            step.durationMs = event.durationMs;
+            finalizeStepMessage(step);
+            break;
+          }
+
+          case "warning":
+            logger.warn("pipeline", event.message);
+            break;
+
+          case "approval_resolved": {
+            // Edited output replaces what was streamed, files included
+            if (event.action !== "edit" || event.output === undefined) break;
+            const step = stepFor(event.stepId);
+            step.accumulated = event.output;
+            discardAttempt(step);
+            step.parser.push(event.output);
+            updateMessage(step.messageId, { content: step.accumulated });
+            break;
+          }
+
+          case "diagnostics":
+            if (event.diagnostics.length > 0) {
+              logger.warn("pipeline", `${event.roleName}: ${event.diagnostics.length} code issue(s) found by diagnostics`);
+            }
+            break;
+
+          case "clarifying_questions":
+            logger.info("pipeline", `${event.roleName}: ${event.questions.length} clarifying question(s)`);
+            break;
+
+          case "awaiting_user":
+            logger.info("pipeline", `${event.roleName}: ${event.message}`);
+            break;
+
+          case "step_failed":
+            logger.warn("pipeline", `${event.roleName}: ${event.message} — waiting for retry or skip`);
+            break;
+
+          case "step_skipped":
+            logger.info("pipeline", `${event.roleName}: skipped`);
+            break;
+
+          case "done":
+            break;
         }
+      };
 
+      /** Reads one connection; true once the stream reached [DONE] or an error event. */
+      const readEvents = async (response: Response): Promise<boolean> => {
         const reader = response.body?.getReader();
         if (!reader) throw new Error("No response body");
 
         const decoder = new TextDecoder();
         let sseBuffer = "";
 
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          sseBuffer += decoder.decode(value, { stream: true });
-
-          const result = parsePipelineSSE(sseBuffer, (event) => {
-            useRoleStore.getState().handlePipelineEvent(event);
-
-            switch (event.type) {
-              case "session_init":
-                useRoleStore.getState().setPipelineSessionId(
-                  (event as Extract<PipelineEvent, { type: "session_init" }>).sessionId,
-                );
-                break;
-
-              case "role_selected":
-                // In chain mode: finalize previous message and start new one
-                if (isChainMode && stepCount > 0) {
-                  finalizeCurrentMessage();
-                  // Add new assistant message for next agent
-                  addMessage({
-                    id: crypto.randomUUID(),
-                    role: "assistant",
-                    content: "",
-                    timestamp: Date.now(),
-                  });
-                  accumulated = "";
-                }
-                stepCount++;
-                currentRoleName = event.roleName;
-                currentSelectedBy = event.selectedBy;
-                currentDuration = undefined;
-                currentModel = undefined;
-                currentProvider = undefined;
-                break;
-
-              case "step_start":
-                currentModel = event.model;
-                currentProvider = event.provider;
-                break;
-
-              case "text":
-                accumulated += event.text;
-                parser.push(event.text);
-                updateLastAssistantMessage(accumulated);
-                setStreaming({ currentContent: accumulated });
-                break;
-
-              case "retry_reset":
-                accumulated = "";
-                updateLastAssistantMessage("");
-                setStreaming({ currentContent: "" });
-                logger.warn("pipeline", "Retry: discarding partial text");
-                break;
-
-              case "step_complete":
-                currentDuration = event.durationMs;
-                break;
-
-              case "warning":
-                logger.warn("pipeline", event.message);
-                break;
-
-              case "awaiting_user":
-                logger.info("pipeline", `${event.roleName}: ${event.message}`);
-                break;
-
-              case "done":
-                break;
+        try {
+          while (true) {
+            const { done, value } = await reader.read();
+            if (done) return false;
+
+            sseBuffer += decoder.decode(value, { stream: true });
+
+            const result = parsePipelineSSE(sseBuffer, handleEvent);
+            sseBuffer = result.remaining;
+            if (result.lastEventId !== null) lastEventId = result.lastEventId;
+            if (result.pipelineError) {
+              pipelineError = result.pipelineError;
+              return true;
             }
+            if (result.done) return true;
+          }
+        } catch (err) {
+          // A network drop is resumed from lastEventId; aborts end the run
+          if ((err as Error).name === "AbortError" || !jobId) throw err;
+          logger.warn("pipeline", `Stream interrupted: ${err instanceof Error ? err.message : err}`);
+          return false;
+        }
+      };
+
+      try {
+        let open = connect;
+        let reconnects = 0;
+
+        while (true) {
+          const response = await open(controller.signal, userMessageId).catch((err: unknown) => {
+            if ((err as Error).name === "AbortError" || !jobId) throw err;
+            return null;
           });
 
-          sseBuffer = result.remaining;
-          if (result.pipelineError) {
-            pipelineError = result.pipelineError;
-            break;
+          if (response && !response.ok) {
+            const err = await response.json().catch(() => ({ error: "Request failed" }));
+            throw new Error((err as { error?: string }).error ?? `HTTP ${response.status}`);
           }
-          if (result.done) break;
+
+          if (response && await readEvents(response)) break;
+
+          // The connection dropped while the job runs on — reattach after the last event seen
+          if (!jobId || reconnects >= MAX_RECONNECTS) throw new Error("Соединение с сервером потеряно");
+          reconnects++;
+          logger.warn("pipeline", `Reconnecting to job ${jobId} (${reconnects}/${MAX_RECONNECTS}) after event ${lastEventId}`);
+          await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY_MS * reconnects));
+          if (controller.signal.aborted) throw new DOMException("Aborted", "AbortError");
+
+          const resumeJobId = jobId;
+          open = (signal) => openJobEvents(resumeJobId, lastEventId, signal);
         }
 
-        parser.flush();
+        flushAll();
 
         // Finalize the last (or only) assistant message
-        finalizeCurrentMessage();
+        finalizeStepMessage(lastStep);
 
         if (pipelineError) {
           setStreaming({ isStreaming: false, error: pipelineError });
-        } else if (!accumulated.trim() && !isChainMode) {
+        } else if (!lastStep.accumulated.trim() && !isChainMode) {
           setStreaming({
             isStreaming: false,
             error: "Агент не сгенерировал ответ. Проверьте модель и провайдер.",
@@ -263,15 +455,17 @@ export function usePipelineStreaming() {
         if (pid) persistToDb(pid);
       } catch (err) {
         if ((err as Error).name === "AbortError") {
-          parser.flush();
+          flushAll();
           setStreaming({ isStreaming: false });
           useRoleStore.getState().resetPipeline();
+          // Detached from a job that goes on — attaching again replays it into these messages
+          if (controller.signal.reason === DETACH) return;
           const pid = useProjectStore.getState().currentProject?.id;
           if (pid) persistToDb(pid);
           return;
         }
 
-        parser.flush();
+        flushAll();
         const errorMessage = err instanceof Error ? err.message : "Pipeline failed";
         setStreaming({ isStreaming: false, error: errorMessage });
         useRoleStore.getState().handlePipelineEvent({ type: "error", message: errorMessage });
@@ -281,14 +475,60 @@ export function usePipelineStreaming() {
         if (genIdRef.current === thisGenId) {
           abortRef.current = null;
           activeAbortController = null;
+          useJobStore.getState().setActiveJobId(null);
         }
+        const pid = useProjectStore.getState().currentProject?.id;
+        if (pid) useJobStore.getState().loadJobs(pid);
       }
     },
-    [addMessage, updateLastAssistantMessage, setStreaming, updateGeneratedFile, persistToDb],
+    [addMessage, updateMessage, setStreaming, updateGeneratedFile, setGeneratedCode, persistToDb],
+  );
+
+  const generate = useCallback(
+    (prompt: string, options: PipelineStreamOptions) =>
+      run(prompt, options.roleId, (signal, messageId) => fetch("/api/pipeline/execute", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          projectId: options.projectId,
+          sessionId: options.sessionId,
+          branchId: options.branchId,
+          messageId,
+          rewindMessageIds: options.rewindMessageIds,
+          roleId: options.roleId,
+          message: prompt,
+          localContext: options.localContext,
+          projectType: options.projectType,
+          language: useSettingsStore.getState().language,
+          plan: options.plan,
+          pipelineId: options.pipelineId,
+          chainControl: options.roleId === CHAIN_ROLE_ID, // ChainProgress sends skip / retry / insert
+        }),
+        signal,
+      })),
+    [run],
+  );
+
+  /**
+   * Replays a job from its first event — running, or finished within the
+   * server's TTL — replacing what the chat already shows of it.
+   */
+  const attach = useCallback(
+    (job: PipelineJobSummary) => {
+      const shown = useChatStore.getState().messages.find((m) => m.jobId === job.id);
+      if (shown) useChatStore.getState().truncateFrom(shown.id);
+      // The prompt keeps its id — the job's agent steps are tagged with it
+      const messageId = shown?.role === "user" ? shown.id : undefined;
+      return run(job.message, job.roleId, (signal) => openJobEvents(job.id, "0", signal), job.id, messageId);
+    },
+    [run],
   );
 
   const stop = useCallback(() => {
     if (abortRef.current) {
+      // Stop means stop — the server-side job is cancelled, not just left behind
+      const jobId = useJobStore.getState().activeJobId;
+      if (jobId) useJobStore.getState().cancelJob(jobId).catch(() => {});
       abortRef.current.abort();
       abortRef.current = null;
       activeAbortController = null;
@@ -297,5 +537,5 @@ export function usePipelineStreaming() {
     }
   }, [setStreaming]);
 
-  return { generate, stop };
+  return { generate, attach, stop };
 }
@@ -7,6 +7,10 @@ import type {
 } from "./types";
 import type { LanguageModelV1 } from "ai";
 
+// Used when a model's context length is unknown — matches the Ollama num_ctx
+// override and the 32K minimum assumed for LM Studio models.
+export const DEFAULT_CONTEXT_WINDOW = 32768;
+
 export abstract class BaseProvider implements ProviderInfo {
   abstract name: string;
   abstract staticModels: ModelInfo[];
@@ -14,6 +18,10 @@ export abstract class BaseProvider implements ProviderInfo {
 
   abstract getModelInstance(options: GetModelOptions): LanguageModelV1;
 
+  getContextWindow(model: string): number {
+    return this.staticModels.find((m) => m.name === model)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+  }
+
   getDynamicModels?(
     apiKeys?: Record<string, string>,
     settings?: IProviderSetting,
@@ -6,6 +6,7 @@ let instance: LLMManager | null = null;
 
 export class LLMManager {
   private providers: Map<string, BaseProvider>;
+  private runtimeProviderNames = new Set<string>();
   private modelList: ModelInfo[] = [];
   private env: Record<string, string>;
 
@@ -29,6 +30,23 @@ export class LLMManager {
     instance = null;
   }
 
+  /**
+   * Replace the providers registered at runtime (user-managed custom endpoints).
+   * Built-in providers from the registry are never touched.
+   */
+  setRuntimeProviders(providers: BaseProvider[]): void {
+    for (const name of this.runtimeProviderNames) {
+      this.providers.delete(name);
+    }
+    this.runtimeProviderNames.clear();
+
+    for (const provider of providers) {
+      if (this.providers.has(provider.name)) continue;
+      this.providers.set(provider.name, provider);
+      this.runtimeProviderNames.add(provider.name);
+    }
+  }
+
   getProvider(name: string): BaseProvider | undefined {
     return this.providers.get(name);
   }
@@ -0,0 +1,28 @@
+import { createAnthropic } from "@ai-sdk/anthropic";
+import { BaseProvider } from "../base-provider";
+import type { ModelInfo, GetModelOptions } from "../types";
+
+export class AnthropicProvider extends BaseProvider {
+  name = "anthropic";
+  staticModels: ModelInfo[] = [
+    { name: "claude-sonnet-4-20250514", label: "Claude Sonnet 4", provider: "anthropic", maxTokenAllowed: 8192, maxCompletionTokens: 64000, contextWindow: 200000 },
+    { name: "claude-opus-4-1-20250805", label: "Claude Opus 4.1", provider: "anthropic", maxTokenAllowed: 8192, maxCompletionTokens: 32000, contextWindow: 200000 },
+    { name: "claude-3-5-haiku-20241022", label: "Claude 3.5 Haiku", provider: "anthropic", maxTokenAllowed: 8192, maxCompletionTokens: 8192, contextWindow: 200000 },
+  ];
+  config = {
+    baseUrlKey: "ANTHROPIC_BASE_URL",
+    baseUrl: "https://api.anthropic.com/v1",
+    apiTokenKey: "ANTHROPIC_API_KEY",
+  };
+
+  getModelInstance(options: GetModelOptions) {
+    const { baseUrl, apiKey } = this.getProviderBaseUrlAndKey(options);
+
+    if (!apiKey) {
+      throw new Error("ANTHROPIC_API_KEY is not configured");
+    }
+
+    const anthropic = createAnthropic({ baseURL: baseUrl || this.config.baseUrl, apiKey });
+    return anthropic(options.model);
+  }
+}
@@ -0,0 +1,28 @@
+import { createGoogleGenerativeAI } from "@ai-sdk/google";
+import { BaseProvider } from "../base-provider";
+import type { ModelInfo, GetModelOptions } from "../types";
+
+export class GeminiProvider extends BaseProvider {
+  name = "gemini";
+  staticModels: ModelInfo[] = [
+    { name: "gemini-2.5-pro", label: "Gemini 2.5 Pro", provider: "gemini", maxTokenAllowed: 8192, maxCompletionTokens: 65536, contextWindow: 1048576 },
+    { name: "gemini-2.5-flash", label: "Gemini 2.5 Flash", provider: "gemini", maxTokenAllowed: 8192, maxCompletionTokens: 65536, contextWindow: 1048576 },
+    { name: "gemini-2.0-flash", label: "Gemini 2.0 Flash", provider: "gemini", maxTokenAllowed: 8192, maxCompletionTokens: 8192, contextWindow: 1048576 },
+  ];
+  config = {
+    baseUrlKey: "GEMINI_BASE_URL",
+    baseUrl: "https://generativelanguage.googleapis.com/v1beta",
+    apiTokenKey: "GEMINI_API_KEY",
+  };
+
+  getModelInstance(options: GetModelOptions) {
+    const { baseUrl, apiKey } = this.getProviderBaseUrlAndKey(options);
+
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY is not configured");
+    }
+
+    const google = createGoogleGenerativeAI({ baseURL: baseUrl || this.config.baseUrl, apiKey });
+    return google(options.model);
+  }
+}
@@ -3,6 +3,9 @@ import { BaseProvider } from "../base-provider";
 import type { ModelInfo, GetModelOptions, IProviderSetting } from "../types";
 import { logger } from "~/lib/utils/logger";
 
+// Ollama defaults num_ctx to 2048 — every model instance is created with this instead
+const OLLAMA_NUM_CTX = 32768;
+
 export class OllamaProvider extends BaseProvider {
   name = "ollama";
   staticModels: ModelInfo[] = [];
@@ -50,6 +53,10 @@ export class OllamaProvider extends BaseProvider {
     const effectiveBaseUrl = baseUrl || "http://localhost:11434";
     const provider = createOllama({ baseURL: `${effectiveBaseUrl}/api` });
 
-    return provider(options.model, { numCtx: 32768 });
+    return provider(options.model, { numCtx: OLLAMA_NUM_CTX });
+  }
+
+  getContextWindow(): number {
+    return OLLAMA_NUM_CTX;
   }
 }
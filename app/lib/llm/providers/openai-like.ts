@@ -3,6 +3,24 @@ import { BaseProvider } from "../base-provider";
 import type { ModelInfo, GetModelOptions, IProviderSetting } from "../types";
 import { logger } from "~/lib/utils/logger";
 
+/** A user-registered endpoint; without one the provider reads CUSTOM_LLM_* env. */
+export type OpenAILikeEndpoint = {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  headers: Record<string, string>;
+  modelFilter: string[];
+};
+
+/** Model id patterns with `*` as wildcard, case-insensitive; empty list matches everything. */
+export function matchesModelFilter(modelId: string, filter: string[]): boolean {
+  if (filter.length === 0) return true;
+  return filter.some((pattern) => {
+    const source = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+    return new RegExp(`^${source}$`, "i").test(modelId);
+  });
+}
+
 export class OpenAILikeProvider extends BaseProvider {
   name = "custom";
   staticModels: ModelInfo[] = [];
@@ -11,19 +29,37 @@ export class OpenAILikeProvider extends BaseProvider {
     apiTokenKey: "CUSTOM_LLM_API_KEY",
   };
 
+  constructor(private endpoint?: OpenAILikeEndpoint) {
+    super();
+    if (endpoint) this.name = endpoint.name;
+  }
+
+  private resolveConnection(
+    apiKeys?: Record<string, string>,
+    settings?: IProviderSetting,
+    serverEnv?: Record<string, string>,
+  ): { baseUrl: string; apiKey: string; headers: Record<string, string> } {
+    if (this.endpoint) {
+      return { baseUrl: this.endpoint.baseUrl, apiKey: this.endpoint.apiKey, headers: this.endpoint.headers };
+    }
+    return {
+      baseUrl: settings?.baseUrl ?? serverEnv?.CUSTOM_LLM_URL ?? "",
+      apiKey: apiKeys?.CUSTOM_LLM_API_KEY ?? serverEnv?.CUSTOM_LLM_API_KEY ?? "",
+      headers: {},
+    };
+  }
+
   async getDynamicModels(
     apiKeys?: Record<string, string>,
     settings?: IProviderSetting,
     serverEnv?: Record<string, string>,
   ): Promise<ModelInfo[]> {
-    const baseUrl =
-      settings?.baseUrl ?? serverEnv?.CUSTOM_LLM_URL ?? "";
+    const { baseUrl, apiKey, headers: extraHeaders } = this.resolveConnection(apiKeys, settings, serverEnv);
 
     if (!baseUrl) return [];
 
     try {
-      const apiKey = apiKeys?.CUSTOM_LLM_API_KEY ?? serverEnv?.CUSTOM_LLM_API_KEY ?? "";
-      const headers: Record<string, string> = {};
+      const headers: Record<string, string> = { ...extraHeaders };
 
       if (apiKey) {
         headers["Authorization"] = `Bearer ${apiKey}`;
@@ -40,12 +76,14 @@ export class OpenAILikeProvider extends BaseProvider {
         data: Array<{ id: string }>;
       };
 
-      return data.data.map((m) => ({
-        name: m.id,
-        label: m.id,
-        provider: this.name,
-        maxTokenAllowed: 8192,
-      }));
+      return data.data
+        .filter((m) => matchesModelFilter(m.id, this.endpoint?.modelFilter ?? []))
+        .map((m) => ({
+          name: m.id,
+          label: m.id,
+          provider: this.name,
+          maxTokenAllowed: 8192,
+        }));
     } catch (err) {
       logger.warn("OpenAILike", "Model discovery failed", err);
       return [];
@@ -53,7 +91,9 @@ export class OpenAILikeProvider extends BaseProvider {
   }
 
   getModelInstance(options: GetModelOptions) {
-    const { baseUrl, apiKey } = this.getProviderBaseUrlAndKey(options);
+    const { baseUrl, apiKey } = this.endpoint
+      ? this.resolveConnection()
+      : this.getProviderBaseUrlAndKey(options);
 
     if (!baseUrl) {
       throw new Error("Custom LLM base URL is not configured");
@@ -62,6 +102,7 @@ export class OpenAILikeProvider extends BaseProvider {
     const openai = createOpenAI({
       baseURL: `${baseUrl}/v1`,
       apiKey: apiKey || "no-key",
+      headers: this.endpoint?.headers,
     });
 
     return openai(options.model);
@@ -0,0 +1,29 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { BaseProvider } from "../base-provider";
+import type { ModelInfo, GetModelOptions } from "../types";
+
+export class OpenAIProvider extends BaseProvider {
+  name = "openai";
+  staticModels: ModelInfo[] = [
+    { name: "gpt-4.1", label: "GPT-4.1", provider: "openai", maxTokenAllowed: 8192, maxCompletionTokens: 32768, contextWindow: 1047576 },
+    { name: "gpt-4.1-mini", label: "GPT-4.1 mini", provider: "openai", maxTokenAllowed: 8192, maxCompletionTokens: 32768, contextWindow: 1047576 },
+    { name: "gpt-4o", label: "GPT-4o", provider: "openai", maxTokenAllowed: 8192, maxCompletionTokens: 16384, contextWindow: 128000 },
+    { name: "o4-mini", label: "o4-mini", provider: "openai", maxTokenAllowed: 8192, maxCompletionTokens: 100000, contextWindow: 200000 },
+  ];
+  config = {
+    baseUrlKey: "OPENAI_BASE_URL",
+    baseUrl: "https://api.openai.com/v1",
+    apiTokenKey: "OPENAI_API_KEY",
+  };
+
+  getModelInstance(options: GetModelOptions) {
+    const { baseUrl, apiKey } = this.getProviderBaseUrlAndKey(options);
+
+    if (!apiKey) {
+      throw new Error("OPENAI_API_KEY is not configured");
+    }
+
+    const openai = createOpenAI({ baseURL: baseUrl || this.config.baseUrl, apiKey, compatibility: "strict" });
+    return openai(options.model);
+  }
+}
@@ -0,0 +1,68 @@
+import { createOpenAI } from "@ai-sdk/openai";
+import { BaseProvider, DEFAULT_CONTEXT_WINDOW } from "../base-provider";
+import type { ModelInfo, GetModelOptions, IProviderSetting } from "../types";
+import { logger } from "~/lib/utils/logger";
+
+export class OpenRouterProvider extends BaseProvider {
+  name = "openrouter";
+  staticModels: ModelInfo[] = [];
+  config = {
+    baseUrlKey: "OPENROUTER_BASE_URL",
+    baseUrl: "https://openrouter.ai/api/v1",
+    apiTokenKey: "OPENROUTER_API_KEY",
+  };
+
+  // OpenRouter has no fixed catalogue — context lengths come from the last discovery
+  private discoveredModels: ModelInfo[] = [];
+
+  async getDynamicModels(
+    apiKeys?: Record<string, string>,
+    settings?: IProviderSetting,
+    serverEnv?: Record<string, string>,
+  ): Promise<ModelInfo[]> {
+    const baseUrl = settings?.baseUrl || serverEnv?.OPENROUTER_BASE_URL || this.config.baseUrl;
+    const apiKey = apiKeys?.OPENROUTER_API_KEY ?? serverEnv?.OPENROUTER_API_KEY ?? "";
+
+    if (!apiKey) return [];
+
+    try {
+      const response = await fetch(`${baseUrl}/models`, {
+        headers: { Authorization: `Bearer ${apiKey}` },
+        signal: AbortSignal.timeout(5000),
+      });
+
+      if (!response.ok) return [];
+
+      const data = (await response.json()) as {
+        data: Array<{ id: string; name?: string; context_length?: number }>;
+      };
+
+      this.discoveredModels = data.data.map((m) => ({
+        name: m.id,
+        label: m.name ?? m.id,
+        provider: this.name,
+        maxTokenAllowed: 8192,
+        contextWindow: m.context_length,
+      }));
+      return this.discoveredModels;
+    } catch (err) {
+      logger.warn("OpenRouter", "Model discovery failed", err);
+      return [];
+    }
+  }
+
+  getContextWindow(model: string): number {
+    return this.discoveredModels.find((m) => m.name === model)?.contextWindow ?? DEFAULT_CONTEXT_WINDOW;
+  }
+
+  getModelInstance(options: GetModelOptions) {
+    const { baseUrl, apiKey } = this.getProviderBaseUrlAndKey(options);
+
+    if (!apiKey) {
+      throw new Error("OPENROUTER_API_KEY is not configured");
+    }
+
+    const openrouter = createOpenAI({ baseURL: baseUrl || this.config.baseUrl, apiKey, name: "openrouter" });
+    return openrouter(options.model);
+  }
+}
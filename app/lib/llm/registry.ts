@@ -2,11 +2,19 @@ import type { BaseProvider } from "./base-provider";
 import { OllamaProvider } from "./providers/ollama";
 import { LMStudioProvider } from "./providers/lmstudio";
 import { OpenAILikeProvider } from "./providers/openai-like";
+import { AnthropicProvider } from "./providers/anthropic";
+import { OpenAIProvider } from "./providers/openai";
+import { GeminiProvider } from "./providers/gemini";
+import { OpenRouterProvider } from "./providers/openrouter";
 
 export function createProviderRegistry(): BaseProvider[] {
   return [
     new OllamaProvider(),
     new LMStudioProvider(),
     new OpenAILikeProvider(),
+    new AnthropicProvider(),
+    new OpenAIProvider(),
+    new GeminiProvider(),
+    new OpenRouterProvider(),
   ];
 }
@@ -0,0 +1,216 @@
+/**
+ * LLM request scheduler — concurrency limits per provider and per model.
+ *
+ * A local server (Ollama, LM Studio) swaps models when two requests for
+ * different models arrive at once; limiting it to one request at a time keeps
+ * the model in memory. Requests over the limit wait in one FIFO queue: a
+ * request only overtakes earlier ones that wait for other providers/models.
+ *
+ * Limits come from LLM_MAX_CONCURRENCY, e.g. "ollama=1,openai/gpt-4o=4":
+ * "provider=N" limits the provider, "provider/model=N" one model. No entry —
+ * no limit.
+ */
+
+export type ConcurrencyLimits = {
+  providers: Record<string, number>;
+  models: Record<string, number>; // keyed by "provider/model"
+};
+
+/** Estimate used until a model has finished a request */
+const DEFAULT_REQUEST_MS = 30_000;
+/** Weight of the newest duration in the running average */
+const DURATION_SMOOTHING = 0.3;
+
+export function parseConcurrencyLimits(spec: string | undefined): ConcurrencyLimits {
+  const limits: ConcurrencyLimits = { providers: {}, models: {} };
+
+  for (const entry of (spec ?? "").split(",")) {
+    const [key, value] = entry.split("=").map((part) => part.trim());
+    const limit = Number(value);
+    if (!key || !Number.isInteger(limit) || limit < 1) continue;
+
+    if (key.includes("/")) limits.models[key] = limit;
+    else limits.providers[key] = limit;
+  }
+  return limits;
+}
+
+export type QueueTicket = {
+  granted: boolean;
+  /** 1-based place among requests waiting for the same provider; 0 once granted */
+  position: number;
+  estimatedWaitMs: number;
+  /** Resolves once granted or moved from seenPosition, or when abortSignal fires */
+  changed: (seenPosition: number, abortSignal?: AbortSignal) => Promise<void>;
+  /** Frees the slot (or leaves the queue). Safe to call twice. */
+  release: () => void;
+};
+
+type Waiter = {
+  providerId: string;
+  modelKey: string;
+  ticket: QueueTicket;
+  wake: () => void;
+};
+
+let instance: LLMScheduler | null = null;
+
+export class LLMScheduler {
+  private limits: ConcurrencyLimits;
+  private active = new Map<string, number>();            // "provider" and "provider/model" → running requests
+  private queue: Waiter[] = [];
+  private avgDurationMs = new Map<string, number>();     // "provider/model" → smoothed request duration
+
+  constructor(limits: ConcurrencyLimits) {
+    this.limits = limits;
+  }
+
+  static getInstance(): LLMScheduler {
+    if (!instance) {
+      instance = new LLMScheduler(parseConcurrencyLimits(process.env.LLM_MAX_CONCURRENCY));
+    }
+    return instance;
+  }
+
+  static resetInstance(): void {
+    instance = null;
+  }
+
+  /** Joins the queue; the ticket is granted at once when both limits allow. */
+  enqueue(providerId: string, modelName: string): QueueTicket {
+    const modelKey = `${providerId}/${modelName}`;
+    let listeners: Array<() => void> = [];
+    let done = false;
+    let startedAt = 0;
+
+    const ticket: QueueTicket = {
+      granted: false,
+      position: 0,
+      estimatedWaitMs: 0,
+      changed: (seenPosition, abortSignal) => new Promise<void>((resolve) => {
+        if (abortSignal?.aborted || ticket.granted || ticket.position !== seenPosition) return resolve();
+        const wake = () => {
+          abortSignal?.removeEventListener("abort", wake);
+          resolve();
+        };
+        listeners.push(wake);
+        abortSignal?.addEventListener("abort", wake);
+      }),
+      release: () => {
+        if (done) return;
+        done = true;
+        if (ticket.granted) {
+          this.take(providerId, modelKey, -1);
+          this.recordDuration(modelKey, Date.now() - startedAt);
+        } else {
+          this.queue = this.queue.filter((w) => w.ticket !== ticket);
+        }
+        this.dispatch();
+      },
+    };
+
+    const waiter: Waiter = {
+      providerId,
+      modelKey,
+      ticket,
+      wake: () => {
+        if (ticket.granted) startedAt = Date.now();
+        const pending = listeners;
+        listeners = [];
+        for (const wake of pending) wake();
+      },
+    };
+
+    this.queue.push(waiter);
+    this.dispatch();
+    return ticket;
+  }
+
+  /** Requests running and waiting, for diagnostics. */
+  stats(): { active: Record<string, number>; queued: number } {
+    return { active: Object.fromEntries(this.active), queued: this.queue.length };
+  }
+
+  // ─── Internals ─────────────────────────────────────────
+
+  private limitOf(key: string, isModel: boolean): number {
+    return (isModel ? this.limits.models[key] : this.limits.providers[key]) ?? Infinity;
+  }
+
+  private hasRoom(key: string, isModel: boolean): boolean {
+    return (this.active.get(key) ?? 0) < this.limitOf(key, isModel);
+  }
+
+  private take(providerId: string, modelKey: string, delta: 1 | -1): void {
+    for (const key of [providerId, modelKey]) {
+      const next = (this.active.get(key) ?? 0) + delta;
+      if (next > 0) this.active.set(key, next);
+      else this.active.delete(key);
+    }
+  }
+
+  private recordDuration(modelKey: string, durationMs: number): void {
+    const prev = this.avgDurationMs.get(modelKey);
+    this.avgDurationMs.set(
+      modelKey,
+      prev === undefined ? durationMs : prev + DURATION_SMOOTHING * (durationMs - prev),
+    );
+  }
+
+  /**
+   * Grants waiters in queue order. A waiter blocked on a provider or model
+   * also blocks later waiters for it, so nobody is overtaken for the same slot.
+   */
+  private dispatch(): void {
+    const blocked = new Set<string>();
+    const remaining: Waiter[] = [];
+    const granted: Waiter[] = [];
+
+    for (const waiter of this.queue) {
+      const { providerId, modelKey } = waiter;
+      const providerFree = !blocked.has(providerId) && this.hasRoom(providerId, false);
+      const modelFree = !blocked.has(modelKey) && this.hasRoom(modelKey, true);
+      if (providerFree && modelFree) {
+        this.take(providerId, modelKey, 1);
+        waiter.ticket.granted = true;
+        waiter.ticket.position = 0;
+        waiter.ticket.estimatedWaitMs = 0;
+        granted.push(waiter);
+        continue;
+      }
+      blocked.add(modelKey);
+      if (!providerFree) blocked.add(providerId);
+      remaining.push(waiter);
+    }
+    this.queue = remaining;
+
+    // Position and wait estimate of everyone still waiting
+    const perProvider = new Map<string, number>();
+    const changed: Waiter[] = [];
+    for (const waiter of remaining) {
+      const position = (perProvider.get(waiter.providerId) ?? 0) + 1;
+      perProvider.set(waiter.providerId, position);
+
+      const slots = Math.min(this.limitOf(waiter.providerId, false), this.limitOf(waiter.modelKey, true));
+      const avg = this.avgDurationMs.get(waiter.modelKey) ?? DEFAULT_REQUEST_MS;
+      const estimatedWaitMs = Math.round(Math.ceil(position / slots) * avg);
+
+      if (waiter.ticket.position !== position) changed.push(waiter);
+      waiter.ticket.position = position;
+      waiter.ticket.estimatedWaitMs = estimatedWaitMs;
+    }
+
+    for (const waiter of [...granted, ...changed]) waiter.wake();
+  }
+}
+
+/** Runs fn once the scheduler grants a slot for the model (no queue events). */
+export async function withModelSlot<T>(providerId: string, modelName: string, fn: () => Promise<T>): Promise<T> {
+  const ticket = LLMScheduler.getInstance().enqueue(providerId, modelName);
+  try {
+    while (!ticket.granted) await ticket.changed(ticket.position);
+    return await fn();
+  } finally {
+    ticket.release();
+  }
+}
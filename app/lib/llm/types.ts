@@ -6,6 +6,7 @@ export type ModelInfo = {
   provider: string;
   maxTokenAllowed: number;
   maxCompletionTokens?: number;
+  contextWindow?: number;
 };
 
 export type ProviderConfig = {
@@ -31,6 +32,7 @@ export interface ProviderInfo {
   staticModels: ModelInfo[];
   config: ProviderConfig;
   getModelInstance(options: GetModelOptions): LanguageModelV1;
+  getContextWindow?(model: string): number;
   getDynamicModels?(
     apiKeys?: Record<string, string>,
     settings?: IProviderSetting,
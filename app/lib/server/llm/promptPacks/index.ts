@@ -0,0 +1,33 @@
+/**
+ * Prompt packs by locale. A new language is one more pack file registered
+ * here plus its code in PROMPT_LOCALES.
+ */
+
+import type { AgentRole } from "@shared/types/agentRole";
+import { DEFAULT_PROMPT_LOCALE, type PromptLocale } from "@shared/types/promptLocale";
+import { enPack } from "./en";
+import { ruPack } from "./ru";
+import type { PromptPack, RoleNameLookup } from "./pack";
+
+export {
+  SEED_ROLE_IDS,
+  FORBIDDEN_IMPORTS,
+  type ForbiddenImport,
+  type PromptPack,
+  type SeedRoleId,
+  type SeedRoleText,
+} from "./pack";
+
+const PACKS: Record<PromptLocale, PromptPack> = {
+  ru: ruPack,
+  en: enPack,
+};
+
+export function getPromptPack(locale: PromptLocale = DEFAULT_PROMPT_LOCALE): PromptPack {
+  return PACKS[locale] ?? PACKS[DEFAULT_PROMPT_LOCALE];
+}
+
+/** Looks roles up by id among the given ones — for router and planner hints. */
+export function roleNamesOf(roles: AgentRole[]): RoleNameLookup {
+  return (roleId) => roles.find((role) => role.id === roleId)?.name;
+}
@@ -0,0 +1,111 @@
+/**
+ * Prompt pack — every built-in prompt text of one language.
+ *
+ * Router and planner rules refer to roles by their seed id; the prompt shows
+ * whatever the role is called now, so renamed or translated roles still match.
+ */
+
+export const SEED_ROLE_IDS = [
+  "role_analyst",
+  "role_architect",
+  "role_designer",
+  "role_copywriter",
+  "role_coder",
+  "role_tester",
+] as const;
+
+export type SeedRoleId = (typeof SEED_ROLE_IDS)[number];
+
+// Mirrors the FORBIDDEN IMPORTS section of REACT_RULES in prompts.ts
+export const FORBIDDEN_IMPORTS = ["react-router-dom", "framer-motion", "axios"] as const;
+
+export type ForbiddenImport = (typeof FORBIDDEN_IMPORTS)[number];
+
+export type SeedRoleText = {
+  name: string;
+  description: string;
+  systemPrompt: string;
+};
+
+/** Current name of a role by id; undefined when no active role has that id. */
+export type RoleNameLookup = (roleId: SeedRoleId) => string | undefined;
+
+export type SelectionPromptInput = {
+  agents: string;        // one "- name (id): description" line per role
+  lastSteps: string[];   // "[agent]: output…" of the latest steps
+  userMessage: string;
+  roleName: RoleNameLookup;
+};
+
+export type ContinuationPromptInput = {
+  filePath?: string;   // file that was being written when the output stopped
+  finished: string[];  // files already closed in the cut output
+  tail: string;        // end of the cut output
+};
+
+export type PromptPack = {
+  roles: Record<SeedRoleId, SeedRoleText>;
+  sharedProtocol: string;
+  agent: {
+    intro: string;               // opening line for roles without the NIT prompt
+    roleHeader: string;          // "=== <label>: name ===" — roles without the NIT prompt
+    codeRoleHeader: string;      // same for code-producing roles
+    userRequest: string;
+    extraContext: string;
+    previousAgents: string;
+  };
+  router: (input: SelectionPromptInput) => string;
+  planner: (input: SelectionPromptInput) => string;
+  questionExamples: string;      // sample <nitQuestions> array in the protocol
+  questionPatterns: RegExp[];    // plain-text questions of models that skip the <nitQuestions> block
+  testerVerdictProtocol: string;
+  fixes: {
+    tester: string;              // header above the Tester's failing issues
+    diagnostics: string;         // header above the headless diagnostics
+    suggestedFix: string;        // label of an issue's suggested fix
+    closing: string;             // closing instruction of both lists
+  };
+  diagnostics: {
+    forbiddenImportHints: Record<ForbiddenImport, string>;  // what to use instead
+    forbiddenImport: (spec: string, hint: string) => string;
+    unresolvedImport: (spec: string) => string;
+    invalidJson: (error: string) => string;
+  };
+  validation: {
+    emptyOutput: string;
+    jsonUnparsable: string;
+    jsonMissingKeys: string;     // Architect's JSON without pages or project_name
+    noArtifact: string;
+    truncatedIn: (filePath: string) => string;
+    artifactUnclosed: string;
+    truncated: string;
+  };
+  continuation: (input: ContinuationPromptInput) => string;
+  rejection: {
+    feedback: string;            // user's remarks on a rejected step output
+    rejectedOutput: string;
+  };
+  clarificationAnswer: string;   // heading of the answer to clarifying questions
+  budget: {
+    generatedFiles: (files: string) => string;  // summary of an artifact step
+    shortened: (length: number) => string;      // marker after the head of a long step
+    cut: string;                                // marker after a truncated pinned step
+  };
+};
+
+/**
+ * "- topic → A + B" hint lines; a hint is dropped when one of its roles is
+ * not active, so the model is never pointed at a role it cannot pick.
+ */
+export function roleHints(
+  hints: Array<{ topic: string; roleIds: SeedRoleId[]; prefix?: string }>,
+  roleName: RoleNameLookup,
+): string[] {
+  const lines: string[] = [];
+  for (const hint of hints) {
+    const names = hint.roleIds.map(roleName);
+    if (names.some((name) => !name)) continue;
+    lines.push(`- ${hint.topic} → ${hint.prefix ?? ""}${names.join(" + ")}`);
+  }
+  return lines;
+}
@@ -1,3 +1,6 @@
+import type { PromptLocale } from "@shared/types/promptLocale";
+import { questionsProtocol } from "~/lib/services/clarifyingQuestions";
+
 const LOCAL_MODEL_RULES = `
 <critical_rules>
 CRITICAL — LOCAL MODEL RULES (follow strictly):
@@ -9,21 +12,18 @@ CRITICAL — LOCAL MODEL RULES (follow strictly):
 - If output is long, keep going. Never summarize or abbreviate code.
 - Do NOT add explanations or prose INSIDE the nitArtifact block, except nitAction elements.
 - Each file MUST use <nitAction type="file" filePath="...">content</nitAction> tags. Do NOT use // === FILE: markers inside <nitArtifact>.
+- For small fixes to EXISTING files prefer <nitAction type="patch"> — it is shorter and never truncated.
 </critical_rules>`;
 
-const PLANNING_RULES = `
+function planningRules(locale?: PromptLocale): string {
+  return `
 <planning_mode>
 INTERACTION PROTOCOL — TWO PHASES:
 
 PHASE 1 — CLARIFICATION (when request is vague or short):
 If the user's message is short (< 20 words) or lacks key specifics (design style, sections, color scheme, purpose), DO NOT generate code yet.
-Instead, respond with a short friendly plan + 2-3 targeted questions. Use plain text only (no code, no artifact tags).
-
-Example clarifying response:
-"Отличная идея! Прежде чем начать, уточню несколько деталей:
-1. Какой цвет и стиль оформления? (тёмный / светлый / минималистичный / яркий)
-2. Какие разделы нужны? (герой, о нас, услуги, контакты и т.д.)
-3. Есть ли конкретный контент — тексты, названия, ссылки?"
+Instead, respond with a short friendly plan + 2-3 targeted questions in the <nitQuestions> format below.
+${questionsProtocol(locale)}
 
 PHASE 2 — GENERATION (when request is specific or user answered questions):
 Once you have enough context (style, sections, purpose), generate the full working site using the nitArtifact protocol.
@@ -31,10 +31,12 @@ Start your response with 1 sentence confirming what you are building, then outpu
 
 RULES:
 - Never ask more than 3 questions.
+- Prefer "single"/"multi" with concrete options — they are faster to answer than "free-text".
 - If the user provides a follow-up with details, consider that Phase 2 — generate immediately.
 - If the request has sufficient detail (design style + sections + purpose), skip Phase 1 and generate directly.
-- Questions must be in the SAME LANGUAGE as the user's message.
+- Questions and options must be in the SAME LANGUAGE as the user's message.
 </planning_mode>`;
+}
 
 const FORMAT_RULES = `
 <format_rules>
@@ -54,8 +56,9 @@ STRUCTURE:
 </nitArtifact>
 
 RULES:
-- The nitArtifact block MUST contain ALL project files.
-- Each nitAction MUST have type="file" and a filePath attribute.
+- A nitArtifact with only type="file" actions replaces the project — it MUST contain ALL project files.
+- A nitArtifact with type="patch" actions edits the project — include ONLY the files you patch or add; all other files are kept.
+- Each nitAction MUST have type="file" (full content) or type="patch" (edit) and a filePath attribute.
 - Do NOT wrap code in markdown code blocks (no triple backticks) inside nitAction tags.
 - Do NOT add any text or prose INSIDE the nitArtifact block, except nitAction elements.
 - You MAY add a BRIEF (1-2 sentence) explanation BEFORE the nitArtifact opening tag.
@@ -63,6 +66,26 @@ RULES:
 - Use forward slashes in paths: components/Button.tsx
 - All file paths are ROOT-relative. Do NOT use src/ prefix.
 
+EDITING EXISTING FILES — type="patch":
+When the project already exists and only part of a file changes, send a patch instead of the whole file.
+Use SEARCH/REPLACE blocks (preferred) or a unified diff. SEARCH text must match the current file EXACTLY.
+
+<nitArtifact id="fix" title="Fix button color">
+<nitAction type="patch" filePath="App.tsx">
+<<<<<<< SEARCH
+      className="px-4 py-2 bg-blue-600 text-white rounded"
+=======
+      className="px-4 py-2 bg-green-600 text-white rounded"
+>>>>>>> REPLACE
+</nitAction>
+</nitArtifact>
+
+PATCH RULES:
+- One nitAction type="patch" per file; it may contain several SEARCH/REPLACE blocks.
+- Include 2-3 unchanged lines in SEARCH so the location is unique.
+- Use type="file" for NEW files or when more than half of a file changes.
+- You may mix type="file" and type="patch" actions in one nitArtifact.
+
 FALLBACK FORMAT (if you cannot use XML tags):
 // === FILE: path/to/file.ext ===
 (file content here)
@@ -208,18 +231,18 @@ If you cannot produce XML tags, fall back to:
 // === FILE: path/to/file.ext ===
 (file content here)
 
-NO markdown fences inside artifacts. Write EVERY file completely. Do NOT stop early.
+NO markdown fences inside artifacts. Write EVERY type="file" action completely; for small edits to existing files use type="patch". Do NOT stop early.
 DO NOT import react-router-dom, framer-motion, axios or any npm package. ONLY React + TailwindCSS are available.
 For multi-page UIs use useState to switch views — NOT routing.
 </reminder>`;
 
-export function buildSystemPrompt(projectType: string): string {
+export function buildSystemPrompt(projectType: string, locale?: PromptLocale): string {
   const typeRules = TYPE_RULES[projectType] ?? TYPE_RULES["react"];
 
   return [
     "You are an expert full-stack web developer and UX-focused product designer.",
     LOCAL_MODEL_RULES,
-    PLANNING_RULES,
+    planningRules(locale),
     FORMAT_RULES,
     FORMAT_EXAMPLE,
     typeRules,
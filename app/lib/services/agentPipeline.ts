@@ -7,7 +7,11 @@
  * - Single role: streams token-by-token via executeStepStreaming
  * - Chain: each step streams token-by-token, output saved to memory for next step
  * - Retry: signals client to reset text, preventing duplicate/corrupted output
- * - Memory: in-process RAM with TTL cleanup
+ * - Timeouts: role.timeoutMs bounds the first token and gaps between tokens;
+ *   on timeout/outage the role's fallback models are tried in order
+ * - Continuation: code cut off mid-file is continued by the same model
+ *   (outputContinuation.ts) and appended to the streamed text
+ * - Memory: RAM cache with TTL + pluggable persistent store (sessionStore.ts)
  */
 
 import type {
@@ -15,18 +19,37 @@ import type {
   AgentMemory,
   AgentStep,
   AgentSelectedBy,
+  AgentStepStatus,
   PipelineEvent,
+  RoleModelFallback,
 } from "@shared/types/agentRole";
-import { CHAIN_ROLE_ID, AUTO_ROLE_ID } from "@shared/types/agentRole";
+import type { ChatMessage } from "@shared/types/message";
+import type { PromptLocale } from "@shared/types/promptLocale";
+import { CHAIN_ROLE_ID, AUTO_ROLE_ID, STEP_TOTAL_TIMEOUT_FACTOR } from "@shared/types/agentRole";
 import { getAllRoles, getRoleById, getLockedRole } from "./roleService";
 import { routeToAgent, type RouterOptions } from "./agentRouter";
 import { logPipelineStep } from "./pipelineLogger";
+import { getSessionStore } from "./sessionStore";
+import { questionsProtocol } from "./clarifyingQuestions";
+import { ReasoningStream } from "./reasoningStream";
+import {
+  MAX_CONTINUATIONS,
+  STITCH_BUFFER_CHARS,
+  detectTruncation,
+  buildContinuationPrompt,
+  stitchContinuation,
+} from "./outputContinuation";
 import { buildSystemPrompt } from "~/lib/server/llm/prompts";
+import { getPromptPack } from "~/lib/server/llm/promptPacks";
 import { LLMManager } from "~/lib/llm/manager";
+import { LLMScheduler } from "~/lib/llm/scheduler";
 import { streamText as aiStreamText } from "ai";
 import { logger } from "~/lib/utils/logger";
+import { estimateTokens, computeTokenBudget, computeStepUsage, type ReportedUsage } from "~/lib/utils/tokenEstimator";
+import { DEFAULT_CONTEXT_WINDOW } from "~/lib/llm/base-provider";
+import { DEFAULT_MAX_OUTPUT_TOKENS, reserveOutputTokens, selectContextSteps } from "./promptBudget";
 
-// ─── Session Memory (in-process RAM) ─────────────────────
+// ─── Session Memory (RAM cache over persistent store) ────
 
 const sessions = new Map<string, AgentMemory>();
 
@@ -36,6 +59,7 @@ setInterval(() => {
   const now = Date.now();
   for (const [id, memory] of sessions) {
     if (now - new Date(memory.lastActivity).getTime() > SESSION_TTL_MS) {
+      // Evict from cache only — the store still has it
       sessions.delete(id);
     }
   }
@@ -43,8 +67,17 @@ setInterval(() => {
 
 // ─── Memory management ──────────────────────────────────
 
-export function getOrCreateSession(sessionId: string, projectId: string): AgentMemory {
-  let memory = sessions.get(sessionId);
+async function loadFromStore(sessionId: string): Promise<AgentMemory | null> {
+  try {
+    return await getSessionStore().load(sessionId);
+  } catch (err) {
+    logger.warn("session", `Failed to load session ${sessionId}: ${err instanceof Error ? err.message : err}`);
+    return null;
+  }
+}
+
+export async function getOrCreateSession(sessionId: string, projectId: string): Promise<AgentMemory> {
+  let memory = sessions.get(sessionId) ?? (await loadFromStore(sessionId)) ?? undefined;
   if (!memory) {
     memory = {
       sessionId,
@@ -53,13 +86,173 @@ export function getOrCreateSession(sessionId: string, projectId: string): AgentM
       createdAt: new Date().toISOString(),
       lastActivity: new Date().toISOString(),
     };
-    sessions.set(sessionId, memory);
+    persistSession(memory);
+  }
+  sessions.set(sessionId, memory);
+  return memory;
+}
+
+export async function getSession(sessionId: string): Promise<AgentMemory | undefined> {
+  const cached = sessions.get(sessionId);
+  if (cached) return cached;
+
+  const stored = await loadFromStore(sessionId);
+  if (!stored) return undefined;
+  sessions.set(sessionId, stored);
+  return stored;
+}
+
+/** Fire-and-forget write of the session to the persistent store. */
+export function persistSession(memory: AgentMemory): void {
+  getSessionStore()
+    .save(memory)
+    .catch((err) => {
+      logger.warn("session", `Failed to persist session ${memory.sessionId}: ${err instanceof Error ? err.message : err}`);
+    });
+}
+
+/**
+ * Rebuild session steps from saved chat history (e.g. sessions created
+ * before persistence existed, or a store that was wiped).
+ * Each assistant message produced by an agent becomes a successful step,
+ * with the preceding user message as its input.
+ */
+export function resumeSessionFromHistory(memory: AgentMemory, messages: ChatMessage[]): AgentMemory {
+  const steps: AgentStep[] = [];
+  let lastUserMessage: ChatMessage | undefined;
+
+  for (const msg of messages) {
+    if (msg.role === "user") {
+      lastUserMessage = msg;
+      continue;
+    }
+    if (msg.role !== "assistant" || !msg.agentRoleName || !msg.content.trim()) continue;
+
+    steps.push({
+      order: steps.length + 1,
+      agentName: msg.agentRoleName,
+      agentRoleId: msg.agentRoleId ?? "",
+      input: lastUserMessage?.content ?? "",
+      output: msg.content,
+      modelUsed: msg.model ?? "",
+      providerId: msg.agentId ?? "",
+      durationMs: msg.durationMs ?? 0,
+      selectedBy: (msg.selectedBy as AgentSelectedBy | undefined) ?? "hardcoded",
+      status: "success",
+      timestamp: new Date(msg.timestamp).toISOString(),
+      requestId: lastUserMessage?.id,
+    });
   }
+
+  if (steps.length === 0) return memory;
+
+  memory.steps = steps;
+  memory.lastActivity = steps[steps.length - 1]!.timestamp;
+  persistSession(memory);
   return memory;
 }
 
-export function getSession(sessionId: string): AgentMemory | undefined {
-  return sessions.get(sessionId);
+/** Latest successful step of a role — the one an approval gate is about. */
+function findLatestStep(memory: AgentMemory, roleId: string): number {
+  return memory.steps.findLastIndex((s) => s.agentRoleId === roleId && s.status === "success");
+}
+
+/** Store the user's edited output instead of the model's. False if the role has no step. */
+export function replaceStepOutput(memory: AgentMemory, role: AgentRole, output: string): boolean {
+  const index = findLatestStep(memory, role.id);
+  if (index === -1) return false;
+
+  const step = memory.steps[index]!;
+  step.output = output;
+  step.outputParsed = role.outputFormat === "json" ? tryParseJSON(output) : undefined;
+  memory.lastActivity = new Date().toISOString();
+  persistSession(memory);
+  return true;
+}
+
+/** Drop a rejected output so that later steps never see it. */
+export function discardStepOutput(memory: AgentMemory, role: AgentRole): boolean {
+  const index = findLatestStep(memory, role.id);
+  if (index === -1) return false;
+
+  memory.steps.splice(index, 1);
+  memory.lastActivity = new Date().toISOString();
+  persistSession(memory);
+  return true;
+}
+
+/**
+ * Steps and checkpoint of a session before the answers to the given user
+ * messages (copies). Steps are kept in the order they ran, so everything from
+ * the first step answering one of them on came after those messages.
+ */
+function sessionStateBefore(
+  memory: AgentMemory,
+  requestIds: string[],
+): Pick<AgentMemory, "steps" | "chainCheckpoint"> {
+  const cut = new Set(requestIds);
+  const index = memory.steps.findIndex((s) => s.requestId !== undefined && cut.has(s.requestId));
+  const steps = index === -1 ? memory.steps : memory.steps.slice(0, index);
+  const checkpoint = memory.chainCheckpoint;
+  const keepCheckpoint = checkpoint?.requestId !== undefined
+    ? !cut.has(checkpoint.requestId)
+    : steps.length === memory.steps.length;
+  return {
+    steps: steps.map((s) => ({ ...s })),
+    // A chain waiting for answers at that point keeps waiting
+    chainCheckpoint: checkpoint && keepCheckpoint ? { ...checkpoint } : undefined,
+  };
+}
+
+/**
+ * Copy of a session without the answers to the dropped user messages — the
+ * agent memory of a conversation branch forked before them. Messages copied
+ * into the branch get new ids; `renamed` maps the old ids so later forks and
+ * rewinds of the branch still find their steps. Returns the new session id,
+ * or null when the source session is unknown or nothing is left.
+ */
+export async function forkSession(
+  sourceSessionId: string,
+  projectId: string,
+  droppedRequestIds: string[],
+  renamed: Map<string, string> = new Map(),
+): Promise<string | null> {
+  const source = await getSession(sourceSessionId);
+  if (!source) return null;
+
+  const { steps, chainCheckpoint } = sessionStateBefore(source, droppedRequestIds);
+  if (steps.length === 0) return null;
+
+  const rename = (id?: string) => (id !== undefined ? renamed.get(id) ?? id : undefined);
+  const now = new Date().toISOString();
+  const memory: AgentMemory = {
+    sessionId: crypto.randomUUID(),
+    projectId,
+    steps: steps.map((s) => ({ ...s, requestId: rename(s.requestId) })),
+    chainCheckpoint: chainCheckpoint && { ...chainCheckpoint, requestId: rename(chainCheckpoint.requestId) },
+    createdAt: now,
+    lastActivity: now,
+  };
+  sessions.set(memory.sessionId, memory);
+  persistSession(memory);
+  return memory.sessionId;
+}
+
+/**
+ * Drop the answers to user messages removed by an edit and every step after
+ * them — the edited message is re-run without its old answers. Returns how
+ * many steps were dropped.
+ */
+export function rewindSession(memory: AgentMemory, droppedRequestIds: string[]): number {
+  const { steps, chainCheckpoint } = sessionStateBefore(memory, droppedRequestIds);
+  const dropped = memory.steps.length - steps.length;
+  if (dropped === 0 && (chainCheckpoint !== undefined) === (memory.chainCheckpoint !== undefined)) return 0;
+
+  memory.steps = steps;
+  memory.chainCheckpoint = chainCheckpoint;
+  memory.lastActivity = new Date().toISOString();
+  persistSession(memory);
+  return dropped;
 }
 
 // ─── Role selection logic ────────────────────────────────
@@ -71,7 +264,7 @@ export async function selectRole(
   forceRole = false,
   routerOptions?: RouterOptions,
 ): Promise<{ role: AgentRole; selectedBy: AgentSelectedBy }> {
-  const memory = sessions.get(sessionId);
+  const memory = await getSession(sessionId);
   const isNewSession = !memory || memory.steps.length === 0;
 
   // Rule 0: forceRole bypasses new-session Architect lock (used by PromptTester)
@@ -106,18 +299,19 @@ export async function selectRole(
   return { role, selectedBy: "router_llm" };
 }
 
-// ─── Shared protocol (code→artifact, questions→chat) ───────
+// ─── Prompt assembly ─────────────────────────────────────
 
-const SHARED_PROTOCOL = `
-<protocol_output>
-ПРОТОКОЛ ВЫВОДА (строго):
-- Код, JSON, структурированные данные — ТОЛЬКО в nitArtifact/nitAction или в формате роли. В чат — НИКОГДА.
-- Уточняющие вопросы — ТОЛЬКО в чат (plain text). Если вариантов реализации много — задай 1–3 вопроса, дождись ответа.
-- Учитывай полный контекст проекта: предыдущие шаги, ответы пользователя, структуру.
-- Если запрос неоднозначен или допускает много трактовок — спроси в чат, не генерируй наугад.
-</protocol_output>`;
+// Section headers and separators that are not counted per step
+const PROMPT_OVERHEAD_TOKENS = 256;
 
-// ─── Prompt assembly ─────────────────────────────────────
+export type PromptBudgetReport = {
+  contextWindow: number;
+  inputTokens: number;
+  maxTokens: number;
+  summarizedSteps: number;
+  droppedSteps: number;
+  overflow: boolean;
+};
 
 export function buildAgentPrompt(
   role: AgentRole,
@@ -125,39 +319,71 @@ export function buildAgentPrompt(
   userMessage: string,
   localContext: string,
   projectType: string,
-): { system: string; user: string } {
+  contextWindow = DEFAULT_CONTEXT_WINDOW,
+  omitStepRoleIds: readonly string[] = [],
+): { system: string; user: string; budget: PromptBudgetReport } {
   // Only include NIT code generation prompt for roles that produce code (nitArtifact format).
   // Roles like Architect (JSON), Copywriter (text), Tester (review) should NOT get NIT rules
   // because they conflict with the role's own output format instructions.
+  const pack = getPromptPack(memory.locale);
   let system: string;
 
   if (role.includeNitPrompt) {
-    const nitSystemPrompt = buildSystemPrompt(projectType);
-    system = `${SHARED_PROTOCOL}\n\n${nitSystemPrompt}\n\n=== РОЛЬ АГЕНТА: ${role.name} ===\n${role.systemPrompt}`;
+    const nitSystemPrompt = buildSystemPrompt(projectType, memory.locale);
+    system = `${pack.sharedProtocol}\n\n${nitSystemPrompt}\n\n=== ${pack.agent.codeRoleHeader}: ${role.name} ===\n${role.systemPrompt}`;
   } else {
-    system = `${SHARED_PROTOCOL}\n\nТы агент веб-студии.\n\n=== РОЛЬ: ${role.name} ===\n${role.systemPrompt}`;
+    // Code roles get the questions format with PLANNING_RULES, the rest get it here
+    system = `${pack.sharedProtocol}\n${questionsProtocol(memory.locale)}\n\n${pack.agent.intro}\n\n=== ${pack.agent.roleHeader}: ${role.name} ===\n${role.systemPrompt}`;
   }
 
-  const parts: string[] = [];
-
-  if (memory.steps.length > 0) {
-    const context = memory.steps
-      .map((s) => `[${s.agentName} | ${s.timestamp}]:\n${s.output}`)
-      .join("\n\n---\n\n");
-    parts.push(`== КОНТЕКСТ ОТ ПРЕДЫДУЩИХ АГЕНТОВ ==\n${context}`);
+  // Roles stored before the verdict protocol existed still answer in its shape
+  if (role.id === "role_tester") {
+    system += `\n\n${pack.testerVerdictProtocol}`;
   }
 
-  parts.push(`== ЗАПРОС ПОЛЬЗОВАТЕЛЯ ==\n${userMessage}`);
+  const request = `${pack.agent.userRequest}\n${userMessage}`;
+  const extra = localContext.trim() ? `${pack.agent.extraContext}\n${localContext}` : "";
 
-  if (localContext.trim()) {
-    parts.push(`== ДОПОЛНИТЕЛЬНЫЙ КОНТЕКСТ ==\n${localContext}`);
+  // Previous steps get whatever is left after the system prompt, the request
+  // and the reserved output
+  const fixedTokens = estimateTokens(system) + estimateTokens(request) + estimateTokens(extra);
+  const stepsBudget = contextWindow - reserveOutputTokens(contextWindow) - fixedTokens - PROMPT_OVERHEAD_TOKENS;
+  const steps = memory.steps.filter((step) => !omitStepRoleIds.includes(step.agentRoleId));
+  const selection = selectContextSteps(steps, Math.max(0, stepsBudget), memory.locale);
+
+  const parts: string[] = [];
+  if (selection.text) {
+    parts.push(`${pack.agent.previousAgents}\n${selection.text}`);
   }
+  parts.push(request);
+  if (extra) parts.push(extra);
+
+  const user = parts.join("\n\n");
+  const inputTokens = estimateTokens(system) + estimateTokens(user);
+  const tokenBudget = computeTokenBudget(inputTokens, contextWindow, DEFAULT_MAX_OUTPUT_TOKENS);
 
-  return { system, user: parts.join("\n\n") };
+  return {
+    system,
+    user,
+    budget: {
+      contextWindow,
+      inputTokens,
+      maxTokens: tokenBudget.effectiveMaxTokens,
+      summarizedSteps: selection.summarizedSteps,
+      droppedSteps: selection.droppedSteps,
+      overflow: tokenBudget.overflow,
+    },
+  };
 }
 
 // ─── Model instance helper ───────────────────────────────
 
+function getContextWindow(role: AgentRole): number {
+  const manager = LLMManager.getInstance(process.env as Record<string, string>);
+  const provider = manager.getProvider(role.providerId);
+  return provider?.getContextWindow?.(role.modelName) ?? DEFAULT_CONTEXT_WINDOW;
+}
+
 function getModelInstance(role: AgentRole) {
   const manager = LLMManager.getInstance(process.env as Record<string, string>);
   const provider = manager.getProvider(role.providerId);
@@ -175,10 +401,80 @@ function getModelInstance(role: AgentRole) {
   });
 }
 
-// ─── Single step: streaming with safe retry ──────────────
+// ─── Provider / model concurrency ────────────────────────
+
+/**
+ * Waits until the scheduler grants the role's model a slot, reporting the
+ * queue position as it moves. Returns the function that frees the slot, or
+ * null when no slot came up within the role's queue limit.
+ */
+async function* waitForModelSlot(
+  role: AgentRole,
+  abortSignal?: AbortSignal,
+): AsyncGenerator<PipelineEvent, (() => void) | null> {
+  const ticket = LLMScheduler.getInstance().enqueue(role.providerId, role.modelName);
+  let handedOver = false;
+  const queueTimeout = AbortSignal.timeout(role.timeoutMs * STEP_TOTAL_TIMEOUT_FACTOR);
+  const wakeSignal = abortSignal ? AbortSignal.any([abortSignal, queueTimeout]) : queueTimeout;
+
+  try {
+    let reported = 0;
+    while (!ticket.granted) {
+      if (queueTimeout.aborted && !abortSignal?.aborted) return null;
+      if (abortSignal?.aborted) {
+        const err = new Error("Aborted while queued");
+        err.name = "AbortError";
+        throw err;
+      }
+      if (ticket.position !== reported) {
+        reported = ticket.position;
+        logger.info("pipeline", `${role.name} queued for ${role.modelName}@${role.providerId}: #${reported}`);
+        yield {
+          type: "queued",
+          roleName: role.name,
+          provider: role.providerId,
+          model: role.modelName,
+          position: reported,
+          estimatedWaitMs: ticket.estimatedWaitMs,
+        };
+      }
+      await ticket.changed(reported, wakeSignal);
+    }
+    handedOver = true;
+    return ticket.release;
+  } finally {
+    if (!handedOver) ticket.release();
+  }
+}
+
+/**
+ * Generation time a step has used across its attempts and fallbacks — time
+ * queued for a model slot and retry backoffs are not counted.
+ */
+type GenerationClock = { spentMs: number };
+
+// ─── Single step: streaming with timeouts, retry and fallbacks ──
 //
 // On retry: yields a "retry_reset" warning so the client knows to
 // discard partial text. This prevents the duplicate text bug.
+//
+// Each model candidate (primary, then role.fallbacks) gets maxRetries
+// retries. A timeout or an unreachable provider moves on to the next
+// candidate right away — retrying a stalled model only burns time.
+
+type ModelAttemptFailure = {
+  reason: "timeout" | "offline" | "error";
+  message: string;
+  retryCount: number;
+};
+
+type ModelAttemptResult =
+  | { done: true }
+  | { done: false; input: string; failure: ModelAttemptFailure };
+
+const STREAM_TIMEOUT = Symbol("stream-timeout");
+
+const UNREACHABLE_PATTERN = /ECONNREFUSED|ENOTFOUND|EHOSTUNREACH|fetch failed/i;
 
 export async function* executeStepStreaming(
   role: AgentRole,
@@ -188,27 +484,85 @@ export async function* executeStepStreaming(
   projectType: string,
   selectedBy: AgentSelectedBy,
   abortSignal?: AbortSignal,
+  omitStepRoleIds: readonly string[] = [],
 ): AsyncGenerator<PipelineEvent> {
-  const { system, user } = buildAgentPrompt(role, memory, userMessage, localContext, projectType);
+  const candidates: RoleModelFallback[] = [
+    { providerId: role.providerId, modelName: role.modelName },
+    ...(role.fallbacks ?? []),
+  ];
+  const startTime = Date.now();
+  const clock: GenerationClock = { spentMs: 0 };
+
+  let current = role;
+  let last: { input: string; failure: ModelAttemptFailure } | null = null;
+
+  for (const [index, candidate] of candidates.entries()) {
+    if (last) {
+      logAttemptFailure(memory, current, last.input, selectedBy, last.failure);
+      yield { type: "retry_reset" as const };
+      yield {
+        type: "warning",
+        message: `⚠️ ${last.failure.message} — пробую резервную модель ${candidate.modelName}@${candidate.providerId}`,
+      };
+    }
+
+    current = index === 0 ? role : { ...role, ...candidate };
+    const result = yield* runModelAttempts(
+      current, memory, userMessage, localContext, projectType, selectedBy, startTime, clock, abortSignal, omitStepRoleIds,
+    );
+    if (result.done) return;
+    last = result;
+  }
+
+  if (!last) return;
+  const { input, failure } = last;
+  const status: AgentStepStatus = failure.reason === "timeout" ? "timeout" : "error";
+  logErrorStep(memory, current, input, selectedBy, failure.message, failure.retryCount, status);
+  yield { type: "error", message: failure.message, roleName: role.name };
+}
+
+/** One model candidate: prompt for its context window, then stream with retries. */
+async function* runModelAttempts(
+  role: AgentRole,
+  memory: AgentMemory,
+  userMessage: string,
+  localContext: string,
+  projectType: string,
+  selectedBy: AgentSelectedBy,
+  startTime: number,
+  clock: GenerationClock,
+  abortSignal?: AbortSignal,
+  omitStepRoleIds: readonly string[] = [],
+): AsyncGenerator<PipelineEvent, ModelAttemptResult> {
+  const { system, user, budget } = buildAgentPrompt(
+    role, memory, userMessage, localContext, projectType, getContextWindow(role), omitStepRoleIds,
+  );
+
+  if (budget.summarizedSteps > 0 || budget.droppedSteps > 0 || budget.overflow) {
+    const details = budget.overflow
+      ? `запрос (~${budget.inputTokens} токенов) не помещается в контекст ${budget.contextWindow}`
+      : `сокращено шагов: ${budget.summarizedSteps}, пропущено: ${budget.droppedSteps}`;
+    logger.warn("pipeline", `${role.name} context trimmed: ${details}`);
+    yield { type: "warning", message: `⚠️ ${role.name}: контекст модели переполнен — ${details}` };
+  }
 
   let modelInstance: ReturnType<typeof getModelInstance>;
   try {
     modelInstance = getModelInstance(role);
   } catch (err) {
     const msg = err instanceof Error ? err.message : "Model init failed";
-    yield { type: "error", message: msg, roleName: role.name };
-    logErrorStep(memory, role, user, selectedBy, msg, 0);
-    return;
+    return { done: false, input: user, failure: { reason: "offline", message: msg, retryCount: 0 } };
   }
 
-  const startTime = Date.now();
+  const modelLabel = `${role.modelName}@${role.providerId}`;
+  const totalTimeoutMs = role.timeoutMs * STEP_TOTAL_TIMEOUT_FACTOR;
   let retryCount = 0;
 
   while (retryCount <= role.maxRetries) {
     if (abortSignal?.aborted) {
       yield { type: "error", message: "Отменено" };
       logErrorStep(memory, role, user, selectedBy, "Cancelled", retryCount);
-      return;
+      return { done: true };
     }
 
     // Signal retry to client — must reset accumulated text
@@ -217,49 +571,121 @@ export async function* executeStepStreaming(
       yield { type: "warning", message: `Повтор ${retryCount}/${role.maxRetries}...` };
     }
 
+    // Our own controller stops the request on timeout; the caller's signal still cancels
+    const timeoutController = new AbortController();
+    const signal = abortSignal
+      ? AbortSignal.any([abortSignal, timeoutController.signal])
+      : timeoutController.signal;
+
+    // Held for the attempt and its continuations; freed before a retry backoff
+    let releaseSlot: (() => void) | null = null;
+    let attemptStart = 0;
+    let backoffMs = 0;
+
     try {
+      releaseSlot = yield* waitForModelSlot(role, abortSignal);
+      if (!releaseSlot) {
+        const queueMessage = `${role.name}: ${modelLabel} не освободилась за ${Math.round(totalTimeoutMs / 1000)} с ожидания в очереди`;
+        logger.warn("pipeline", queueMessage);
+        return { done: false, input: user, failure: { reason: "timeout", message: queueMessage, retryCount } };
+      }
+
+      // The total limit counts generation only — it goes on from earlier attempts
+      attemptStart = Date.now();
+      const deadline = attemptStart + totalTimeoutMs - clock.spentMs;
+
       const result = aiStreamText({
         model: modelInstance,
         system,
         prompt: user,
         temperature: role.temperature,
-        maxTokens: 8192,
-        abortSignal,
+        maxTokens: budget.maxTokens,
+        abortSignal: signal,
       });
 
       let accumulated = "";
+      let timeoutMessage = "";
+      const thinking = new ReasoningStream();
+      const iterator = result.textStream[Symbol.asyncIterator]();
+      let firstTokenAt = 0;
+
+      for (;;) {
+        const remainingMs = deadline - Date.now();
+        const next = await nextWithTimeout(iterator, Math.min(role.timeoutMs, remainingMs));
+
+        if (next === STREAM_TIMEOUT) {
+          const sec = Math.round(role.timeoutMs / 1000);
+          timeoutMessage = remainingMs <= role.timeoutMs
+            ? `${role.name}: ${modelLabel} не уложилась в ${Math.round(totalTimeoutMs / 1000)} с`
+            : accumulated || thinking.reasoning
+              ? `${role.name}: ${modelLabel} перестала отвечать (нет токенов ${sec} с)`
+              : `${role.name}: ${modelLabel} не ответила за ${sec} с`;
+          break;
+        }
+        if (next.done) break;
+
+        if (!firstTokenAt && next.value) firstTokenAt = Date.now();
+        for (const event of thinking.push(next.value)) {
+          if (event.type === "text") accumulated += event.text;
+          yield event;
+        }
+      }
 
-      for await (const chunk of result.textStream) {
-        accumulated += chunk;
-        yield { type: "text", text: chunk };
+      if (timeoutMessage) {
+        timeoutController.abort();
+        iterator.return?.().catch(() => {});
+        logger.warn("pipeline", timeoutMessage);
+        return { done: false, input: user, failure: { reason: "timeout", message: timeoutMessage, retryCount } };
       }
 
-      const durationMs = Date.now() - startTime;
+      for (const event of thinking.flush()) {
+        if (event.type === "text") accumulated += event.text;
+        yield event;
+      }
 
       if (!accumulated.trim()) {
         const errMsg = "Модель вернула пустой ответ. Проверьте, что модель загружена.";
-        yield { type: "error", message: errMsg, roleName: role.name };
-        logErrorStep(memory, role, user, selectedBy, errMsg, retryCount);
-        return;
+        return { done: false, input: user, failure: { reason: "error", message: errMsg, retryCount } };
       }
 
+      // Code roles: output cut off mid-file is continued by the same model
+      const continued = role.includeNitPrompt
+        ? yield* continueTruncatedOutput(
+            role, modelInstance, system, user, accumulated,
+            await readFinishReason(result), budget.maxTokens, memory.locale, deadline, abortSignal,
+          )
+        : null;
+      const output = continued?.output ?? accumulated;
+
+      const finishedAt = Date.now();
+      const durationMs = finishedAt - startTime;
+
+      const usage = computeStepUsage(
+        sumReportedUsage([await readReportedUsage(result), ...(continued?.usages ?? [])]),
+        [system + user, ...(continued?.prompts ?? [])].join(""),
+        thinking.reasoning + output,
+        { startedAt: attemptStart, firstTokenAt, finishedAt },
+      );
+
       // Success — save to memory and log
       const step: AgentStep = {
         order: role.order,
         agentName: role.name,
         agentRoleId: role.id,
         input: user,
-        output: accumulated,
-        outputParsed: role.outputFormat === "json" ? tryParseJSON(accumulated) : undefined,
+        output,
+        outputParsed: role.outputFormat === "json" ? tryParseJSON(output) : undefined,
         modelUsed: role.modelName,
         providerId: role.providerId,
         durationMs,
         selectedBy,
         status: "success",
         timestamp: new Date().toISOString(),
+        requestId: memory.requestId,
       };
       memory.steps.push(step);
       memory.lastActivity = step.timestamp;
+      persistSession(memory);
 
       logPipelineStep({
         sessionId: memory.sessionId,
@@ -269,45 +695,272 @@ export async function* executeStepStreaming(
         providerId: role.providerId,
         modelName: role.modelName,
         inputLength: user.length,
-        outputLength: accumulated.length,
+        outputLength: output.length,
         durationMs,
         selectedBy,
         status: "success",
         errorMessage: "",
         retryCount,
+        promptTokens: usage.promptTokens,
+        completionTokens: usage.completionTokens,
+        tokensEstimated: usage.estimated,
+        timeToFirstTokenMs: usage.timeToFirstTokenMs,
+        tokensPerSecond: usage.tokensPerSecond,
         timestamp: step.timestamp,
       }).catch(() => {});
 
-      yield { type: "step_complete", roleName: role.name, durationMs };
-      return;
+      yield { type: "step_complete", roleName: role.name, durationMs, usage };
+      return { done: true };
     } catch (err) {
       const error = err instanceof Error ? err : new Error(String(err));
 
       if (error.name === "AbortError") {
         logErrorStep(memory, role, user, selectedBy, "Cancelled", retryCount);
         yield { type: "error", message: "Отменено" };
-        return;
+        return { done: true };
       }
 
       logger.warn("pipeline", `${role.name} attempt ${retryCount + 1} failed: ${error.message}`);
+
+      // Provider is down — no point in retrying the same model
+      if (UNREACHABLE_PATTERN.test(error.message)) {
+        const errMsg = `${role.name}: ${modelLabel} недоступна (${error.message})`;
+        return { done: false, input: user, failure: { reason: "offline", message: errMsg, retryCount } };
+      }
+
       retryCount++;
 
-      if (retryCount <= role.maxRetries) {
-        const backoff = Math.min(Math.pow(2, retryCount) * 1000, 10_000);
-        await new Promise((r) => setTimeout(r, backoff));
-        // Continue loop for next attempt
-      } else {
+      if (retryCount > role.maxRetries) {
         const errMsg = `${role.name}: ${error.message} (${retryCount} попыток исчерпано)`;
-        logErrorStep(memory, role, user, selectedBy, errMsg, retryCount);
-        yield { type: "error", message: errMsg, roleName: role.name };
-        return;
+        return { done: false, input: user, failure: { reason: "error", message: errMsg, retryCount } };
       }
+      backoffMs = Math.min(Math.pow(2, retryCount) * 1000, 10_000);
+    } finally {
+      if (attemptStart) clock.spentMs += Date.now() - attemptStart;
+      releaseSlot?.();
     }
+
+    // Continue loop for next attempt
+    await new Promise((r) => setTimeout(r, backoffMs));
+  }
+
+  return { done: false, input: user, failure: { reason: "error", message: `${role.name}: попытки исчерпаны`, retryCount } };
+}
+
+// ─── Continuation of truncated code ──────────────────────
+
+type ContinuationResult = {
+  output: string;
+  prompts: string[];
+  usages: (ReportedUsage | undefined)[];
+};
+
+/**
+ * While the output stops mid-file (finish reason "length" or an unclosed
+ * nitAction), asks the same model to go on and appends the new part.
+ * A failed continuation keeps what was generated — validation flags it.
+ */
+async function* continueTruncatedOutput(
+  role: AgentRole,
+  modelInstance: ReturnType<typeof getModelInstance>,
+  system: string,
+  user: string,
+  initialOutput: string,
+  initialFinishReason: string | undefined,
+  maxTokens: number,
+  locale: PromptLocale | undefined,
+  deadline: number, // end of the step's total generation limit
+  abortSignal?: AbortSignal,
+): AsyncGenerator<PipelineEvent, ContinuationResult> {
+  let output = initialOutput;
+  let finishReason = initialFinishReason;
+  const prompts: string[] = [];
+  const usages: (ReportedUsage | undefined)[] = [];
+
+  for (let attempt = 1; attempt <= MAX_CONTINUATIONS; attempt++) {
+    const truncation = detectTruncation(output, finishReason);
+    if (!truncation) return { output, prompts, usages };
+    if (Date.now() >= deadline) {
+      yield { type: "warning", message: `⚠️ ${role.name}: продолжение пропущено — время шага исчерпано` };
+      return { output, prompts, usages };
+    }
+
+    yield {
+      type: "continuation",
+      roleName: role.name,
+      attempt,
+      maxAttempts: MAX_CONTINUATIONS,
+      reason: truncation.reason,
+      filePath: truncation.filePath,
+    };
+    logger.info("pipeline", `${role.name}: output truncated (${truncation.reason}), continuation ${attempt}/${MAX_CONTINUATIONS}`);
+
+    const prompt = buildContinuationPrompt(user, output, truncation, locale);
+    prompts.push(prompt);
+
+    const timeoutController = new AbortController();
+    const signal = abortSignal
+      ? AbortSignal.any([abortSignal, timeoutController.signal])
+      : timeoutController.signal;
+
+    let added = "";
+    try {
+      const result = aiStreamText({
+        model: modelInstance,
+        system,
+        prompt,
+        temperature: role.temperature,
+        maxTokens,
+        abortSignal: signal,
+      });
+
+      // The start is held back until repeated lines can be cut off
+      let pending = "";
+      let stitched = false;
+      let timedOut = false;
+      const thinking = new ReasoningStream();
+      const iterator = result.textStream[Symbol.asyncIterator]();
+
+      // Reasoning goes straight out; only answer text is stitched
+      function* take(events: PipelineEvent[]): Generator<PipelineEvent> {
+        for (const event of events) {
+          if (event.type !== "text") {
+            yield event;
+          } else if (stitched) {
+            added += event.text;
+            yield event;
+          } else {
+            pending += event.text;
+            if (pending.length >= STITCH_BUFFER_CHARS) {
+              added = stitchContinuation(output, pending, truncation!);
+              stitched = true;
+              if (added) yield { type: "text", text: added };
+            }
+          }
+        }
+      }
+
+      for (;;) {
+        const next = await nextWithTimeout(iterator, Math.min(role.timeoutMs, deadline - Date.now()));
+        if (next === STREAM_TIMEOUT) {
+          timedOut = true;
+          break;
+        }
+        if (next.done) break;
+        yield* take(thinking.push(next.value));
+      }
+      yield* take(thinking.flush());
+
+      if (!stitched) {
+        const rest = stitchContinuation(output, pending, truncation!);
+        added += rest;
+        if (rest) yield { type: "text", text: rest };
+      }
+      output += added;
+
+      if (timedOut) {
+        timeoutController.abort();
+        iterator.return?.().catch(() => {});
+        const why = Date.now() >= deadline ? "время шага исчерпано" : "модель перестала отвечать";
+        yield { type: "warning", message: `⚠️ ${role.name}: продолжение ${attempt} прервано — ${why}` };
+        return { output, prompts, usages };
+      }
+
+      usages.push(await readReportedUsage(result));
+      finishReason = await readFinishReason(result);
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error(String(err));
+      if (error.name === "AbortError") throw error;
+      output += added;
+      logger.warn("pipeline", `${role.name} continuation ${attempt} failed: ${error.message}`);
+      yield { type: "warning", message: `⚠️ ${role.name}: продолжение ${attempt} не удалось (${error.message})` };
+      return { output, prompts, usages };
+    }
+
+    // Nothing new — asking again would loop on the same cut point
+    if (!added.trim()) break;
+  }
+
+  if (detectTruncation(output, finishReason)) {
+    yield { type: "warning", message: `⚠️ ${role.name}: код обрывается и после ${MAX_CONTINUATIONS} продолжений` };
+  }
+  return { output, prompts, usages };
+}
+
+/** iterator.next() raced against a timer; a late rejection is swallowed. */
+async function nextWithTimeout<T>(
+  iterator: AsyncIterator<T>,
+  timeoutMs: number,
+): Promise<IteratorResult<T> | typeof STREAM_TIMEOUT> {
+  const next = iterator.next();
+  next.catch(() => {});
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<typeof STREAM_TIMEOUT>((resolve) => {
+    timer = setTimeout(() => resolve(STREAM_TIMEOUT), Math.max(0, timeoutMs));
+  });
+
+  try {
+    return await Promise.race([next, timeout]);
+  } finally {
+    clearTimeout(timer);
   }
 }
 
 // ─── Helpers ─────────────────────────────────────────────
 
+/** Usage resolves after the stream ends; some providers never report it. */
+async function readReportedUsage(result: { usage?: PromiseLike<ReportedUsage> }): Promise<ReportedUsage | undefined> {
+  try {
+    return await result.usage;
+  } catch {
+    return undefined;
+  }
+}
+
+async function readFinishReason(result: { finishReason?: PromiseLike<string> }): Promise<string | undefined> {
+  try {
+    return await result.finishReason;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Usage of a step split into several requests; a count any request lacks is left to estimation. */
+function sumReportedUsage(parts: (ReportedUsage | undefined)[]): ReportedUsage | undefined {
+  const sum = (key: keyof ReportedUsage) =>
+    parts.every((p) => typeof p?.[key] === "number")
+      ? parts.reduce((total, p) => total + p![key]!, 0)
+      : undefined;
+  return { promptTokens: sum("promptTokens"), completionTokens: sum("completionTokens") };
+}
+
+/** A candidate model failed but the step goes on with a fallback — pipeline log only. */
+function logAttemptFailure(
+  memory: AgentMemory,
+  role: AgentRole,
+  input: string,
+  selectedBy: AgentSelectedBy,
+  failure: ModelAttemptFailure,
+) {
+  logPipelineStep({
+    sessionId: memory.sessionId,
+    projectId: memory.projectId,
+    agentName: role.name,
+    agentRoleId: role.id,
+    providerId: role.providerId,
+    modelName: role.modelName,
+    inputLength: input.length,
+    outputLength: 0,
+    durationMs: 0,
+    selectedBy,
+    status: failure.reason === "timeout" ? "timeout" : "error",
+    errorMessage: failure.message,
+    retryCount: failure.retryCount,
+    timestamp: new Date().toISOString(),
+  }).catch(() => {});
+}
+
 function logErrorStep(
   memory: AgentMemory,
   role: AgentRole,
@@ -315,6 +968,7 @@ function logErrorStep(
   selectedBy: AgentSelectedBy,
   errorMessage: string,
   retryCount: number,
+  status: AgentStepStatus = "error",
 ) {
   const now = new Date().toISOString();
   memory.steps.push({
@@ -327,10 +981,12 @@ function logErrorStep(
     providerId: role.providerId,
     durationMs: 0,
     selectedBy,
-    status: "error",
+    status,
     timestamp: now,
+    requestId: memory.requestId,
   });
   memory.lastActivity = now;
+  persistSession(memory);
 
   logPipelineStep({
     sessionId: memory.sessionId,
@@ -343,7 +999,7 @@ function logErrorStep(
     outputLength: 0,
     durationMs: 0,
     selectedBy,
-    status: "error",
+    status,
     errorMessage,
     retryCount,
     timestamp: now,
@@ -6,7 +6,9 @@
 
 import type { AgentRole, AgentMemory } from "@shared/types/agentRole";
 import { LLMManager } from "~/lib/llm/manager";
+import { withModelSlot } from "~/lib/llm/scheduler";
 import { generateText } from "ai";
+import { getPromptPack, roleNamesOf } from "~/lib/server/llm/promptPacks";
 import { logger } from "~/lib/utils/logger";
 
 const ROUTER_PROVIDER_DEFAULT = process.env.ROUTER_PROVIDER_ID ?? "ollama";
@@ -17,43 +19,21 @@ function buildRouterPrompt(
   memory: AgentMemory,
   userMessage: string,
 ): string {
-  const agentList = roles.map((r) => `- ${r.name}: ${r.description}`).join("\n");
-
-  const lastSteps =
-    memory.steps.length > 0
-      ? memory.steps
-          .slice(-2)
-          .map((s) => `[${s.agentName}]: ${s.output.slice(0, 200)}...`)
-          .join("\n")
-      : "Нет предыдущих шагов.";
-
-  return `Ты роутер агентов веб-студии. Выбери одного агента для обработки запроса.
-
-Доступные агенты:
-${agentList}
-
-Последние действия:
-${lastSteps}
-
-Запрос: "${userMessage}"
-
-Правила:
-- Ответь ТОЛЬКО именем одного агента.
-- Никаких пояснений, только имя.
-- Структура/дизайн/навигация/UX → Архитектор
-- Текст/контент/SEO-текст → Копирайтер
-- Генерация кода/создание сайта/вёрстка/программирование → Кодер
-- Баги/проверка/тестирование/ревью → Тестировщик
-
-Агент:`;
+  return getPromptPack(memory.locale).router({
+    agents: roles.map((r) => `- ${r.name} (${r.id}): ${r.description}`).join("\n"),
+    lastSteps: memory.steps.slice(-2).map((s) => `[${s.agentName}]: ${s.output.slice(0, 200)}...`),
+    userMessage,
+    roleName: roleNamesOf(roles),
+  });
 }
 
+/** The model may answer with a role name or id, in any language the roles are named in. */
 function parseRouterResponse(text: string, roles: AgentRole[]): AgentRole {
   const cleaned = text.trim().toLowerCase();
 
   // 1. Exact match
   for (const role of roles) {
-    if (cleaned === role.name.toLowerCase()) {
+    if (cleaned === role.name.toLowerCase() || cleaned === role.id.toLowerCase()) {
       return role;
     }
   }
@@ -64,6 +44,11 @@ function parseRouterResponse(text: string, roles: AgentRole[]): AgentRole {
       return role;
     }
   }
+  for (const role of roles) {
+    if (cleaned.includes(role.id.toLowerCase())) {
+      return role;
+    }
+  }
 
   // 3. Fallback: first role (lowest order = Architect)
   logger.warn("agentRouter", `Could not parse router response: "${text}", falling back to first role`);
@@ -108,12 +93,12 @@ export async function routeToAgent(
 
     const prompt = buildRouterPrompt(roles, memory, userMessage);
 
-    const { text } = await generateText({
+    const { text } = await withModelSlot(providerId, modelName, () => generateText({
       model: modelInstance,
       prompt,
       maxTokens: 50,
       temperature: 0.1,
-    });
+    }));
 
     const selected = parseRouterResponse(text, roles);
     logger.info("agentRouter", `Routed to: ${selected.name} (raw: "${text.trim()}")`);
@@ -0,0 +1,56 @@
+/**
+ * Approval Gates — chain steps waiting for the user's decision.
+ *
+ * The orchestrator parks on waitForApproval() while the SSE stream stays
+ * open; POST /api/pipeline/approve resolves the gate. Gates live in process
+ * memory, keyed by session and step id.
+ */
+
+import type { ApprovalDecision } from "@shared/types/agentRole";
+
+export const APPROVAL_TIMEOUT_MS = 30 * 60 * 1000;
+
+const gates = new Map<string, (decision: ApprovalDecision | null) => void>();
+
+function gateKey(sessionId: string, stepId: string): string {
+  return `${sessionId}:${stepId}`;
+}
+
+/**
+ * Resolves with the user's decision, or null when the request is aborted
+ * or nobody answers within timeoutMs.
+ */
+export function waitForApproval(
+  sessionId: string,
+  stepId: string,
+  abortSignal?: AbortSignal,
+  timeoutMs = APPROVAL_TIMEOUT_MS,
+): Promise<ApprovalDecision | null> {
+  const key = gateKey(sessionId, stepId);
+
+  return new Promise((resolve) => {
+    const finish = (decision: ApprovalDecision | null) => {
+      clearTimeout(timer);
+      abortSignal?.removeEventListener("abort", onAbort);
+      gates.delete(key);
+      resolve(decision);
+    };
+    const onAbort = () => finish(null);
+    const timer = setTimeout(() => finish(null), timeoutMs);
+
+    if (abortSignal?.aborted) {
+      finish(null);
+      return;
+    }
+    abortSignal?.addEventListener("abort", onAbort);
+    gates.set(key, finish);
+  });
+}
+
+/** Hand the decision to a waiting step. False if no such gate is open. */
+export function resolveApproval(sessionId: string, stepId: string, decision: ApprovalDecision): boolean {
+  const finish = gates.get(gateKey(sessionId, stepId));
+  if (!finish) return false;
+  finish(decision);
+  return true;
+}
@@ -0,0 +1,133 @@
+/**
+ * Chain Control — commands for a running chain.
+ *
+ * The execute route opens a control for the session while a chain runs;
+ * POST /api/pipeline/control hands it the user's commands: skip the running
+ * step, retry or skip a failed one, insert a role after the current step.
+ * Like approval gates, controls live in process memory, keyed by session.
+ */
+
+import type { ChainCommand } from "@shared/types/agentRole";
+
+export const FAILED_STEP_TIMEOUT_MS = 10 * 60 * 1000;
+
+export type FailedStepDecision = "retry" | "skip";
+
+export type ChainControl = {
+  sessionId: string;
+  canInsert: boolean;                 // stored pipeline graphs have no queue to insert into
+  insertedRoleIds: string[];          // applied after the current batch
+  running: Map<string, AbortController>;
+  skipped: Set<string>;
+  failed: Map<string, (decision: FailedStepDecision | null) => void>;
+};
+
+export type ChainCommandResult = { ok: true } | { ok: false; error: string };
+
+const controls = new Map<string, ChainControl>();
+
+export function openChainControl(sessionId: string): ChainControl {
+  const control: ChainControl = {
+    sessionId,
+    canInsert: true,
+    insertedRoleIds: [],
+    running: new Map(),
+    skipped: new Set(),
+    failed: new Map(),
+  };
+  controls.set(sessionId, control);
+  return control;
+}
+
+export function closeChainControl(control: ChainControl): void {
+  for (const finish of control.failed.values()) finish(null);
+  if (controls.get(control.sessionId) === control) controls.delete(control.sessionId);
+}
+
+// ─── Orchestrator side ───────────────────────────────────
+
+/** Signal for one step run — aborted with the chain or by a skip command. */
+export function trackStep(control: ChainControl, stepId: string, chainSignal?: AbortSignal): AbortSignal {
+  const controller = new AbortController();
+  control.running.set(stepId, controller);
+  control.skipped.delete(stepId);
+  return chainSignal ? AbortSignal.any([chainSignal, controller.signal]) : controller.signal;
+}
+
+export function untrackStep(control: ChainControl, stepId: string): void {
+  control.running.delete(stepId);
+}
+
+export function wasSkipped(control: ChainControl, stepId: string): boolean {
+  return control.skipped.has(stepId);
+}
+
+/**
+ * Resolves with the user's decision about a failed step, or null when the
+ * request is aborted or nobody answers within timeoutMs.
+ */
+export function waitForFailedStepDecision(
+  control: ChainControl,
+  stepId: string,
+  abortSignal?: AbortSignal,
+  timeoutMs = FAILED_STEP_TIMEOUT_MS,
+): Promise<FailedStepDecision | null> {
+  return new Promise((resolve) => {
+    const finish = (decision: FailedStepDecision | null) => {
+      clearTimeout(timer);
+      abortSignal?.removeEventListener("abort", onAbort);
+      control.failed.delete(stepId);
+      resolve(decision);
+    };
+    const onAbort = () => finish(null);
+    const timer = setTimeout(() => finish(null), timeoutMs);
+
+    if (abortSignal?.aborted) {
+      finish(null);
+      return;
+    }
+    abortSignal?.addEventListener("abort", onAbort);
+    control.failed.set(stepId, finish);
+  });
+}
+
+/** Roles inserted since the last call, in the order they were sent. */
+export function takeInsertedRoles(control: ChainControl): string[] {
+  return control.insertedRoleIds.splice(0);
+}
+
+// ─── Route side ──────────────────────────────────────────
+
+export function sendChainCommand(sessionId: string, command: ChainCommand): ChainCommandResult {
+  const control = controls.get(sessionId);
+  if (!control) return { ok: false, error: "Цепочка не выполняется" };
+
+  switch (command.action) {
+    case "skip": {
+      const failed = control.failed.get(command.stepId);
+      if (failed) {
+        failed("skip");
+        return { ok: true };
+      }
+      const running = control.running.get(command.stepId);
+      if (!running) return { ok: false, error: "Шаг не выполняется" };
+      control.skipped.add(command.stepId);
+      running.abort();
+      return { ok: true };
+    }
+
+    case "retry": {
+      const failed = control.failed.get(command.stepId);
+      if (!failed) return { ok: false, error: "Шаг не ожидает повтора" };
+      failed("retry");
+      return { ok: true };
+    }
+
+    case "insert":
+      if (!control.canInsert) {
+        return { ok: false, error: "В сохранённый пайплайн нельзя вставить шаг" };
+      }
+      control.insertedRoleIds.push(command.roleId);
+      return { ok: true };
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Clarifying Questions — structured protocol.
+ *
+ * A role that needs details answers with a <nitQuestions> block holding a
+ * JSON array of questions. The orchestrator forwards them as a typed event,
+ * the chat renders them as a form and the submitted answers become the next
+ * user message. The block format is documented for the models in PLANNING_RULES.
+ */
+
+import { z } from "zod";
+import type { ClarifyingQuestion, ClarifyingQuestionKind } from "@shared/types/agentRole";
+import type { PromptLocale } from "@shared/types/promptLocale";
+import { getPromptPack } from "~/lib/server/llm/promptPacks";
+
+// Embedded in PLANNING_RULES for code roles and in the shared output
+// protocol for the others — the one place the block format is described.
+export function questionsProtocol(locale?: PromptLocale): string {
+  return `
+CLARIFYING QUESTIONS FORMAT — a single <nitQuestions> block with a JSON array (no code, no artifact tags):
+<nitQuestions>
+${getPromptPack(locale).questionExamples}
+</nitQuestions>
+- "kind": "single" — one option, "multi" — several options, "free-text" — any answer (no options).
+- "options" are required for single/multi; "default" is optional and must be one of the options (an array for multi).
+- "id" is a short latin key, unique within the block.
+- You MAY write 1 short sentence before the block. Nothing after it.
+- The user answers through a form; the answers arrive as your next message.`;
+}
+
+export const QUESTIONS_BLOCK_RE = /<nitQuestions[^>]*>([\s\S]*?)<\/nitQuestions>/i;
+
+const MAX_QUESTIONS = 5;
+
+// ─── Schema ──────────────────────────────────────────────
+
+const KIND_ALIASES: Record<string, ClarifyingQuestionKind> = {
+  single: "single",
+  radio: "single",
+  choice: "single",
+  select: "single",
+  multi: "multi",
+  multiple: "multi",
+  checkbox: "multi",
+  "free-text": "free-text",
+  free_text: "free-text",
+  freetext: "free-text",
+  text: "free-text",
+  open: "free-text",
+};
+
+const KindSchema = z.preprocess(
+  (v) => (typeof v === "string" ? KIND_ALIASES[v.trim().toLowerCase()] ?? v : v),
+  z.enum(["single", "multi", "free-text"]),
+);
+
+const QuestionSchema = z.object({
+  id: z.coerce.string().optional(),
+  question: z.string().trim().min(1),
+  kind: KindSchema.default("free-text"),
+  options: z.array(z.coerce.string()).default([]),
+  default: z.union([z.string(), z.array(z.string())]).nullish(),
+});
+
+const PayloadSchema = z.union([
+  z.array(QuestionSchema),
+  z.object({ questions: z.array(QuestionSchema) }).transform((v) => v.questions),
+]);
+
+// ─── Parsing ─────────────────────────────────────────────
+
+function normalizeDefault(
+  kind: ClarifyingQuestionKind,
+  options: string[],
+  value: string | string[] | null | undefined,
+): string | string[] | undefined {
+  if (value == null) return undefined;
+  if (kind === "multi") {
+    const values = (Array.isArray(value) ? value : [value]).filter((v) => options.includes(v));
+    return values.length > 0 ? values : undefined;
+  }
+  const single = Array.isArray(value) ? value[0] : value;
+  if (single === undefined) return undefined;
+  if (kind === "single" && !options.includes(single)) return undefined;
+  return single;
+}
+
+/**
+ * Parse the <nitQuestions> block of a role output.
+ * Returns null when there is no block or it holds no valid question.
+ */
+export function parseClarifyingQuestions(output: string): ClarifyingQuestion[] | null {
+  const match = output.match(QUESTIONS_BLOCK_RE);
+  if (!match?.[1]) return null;
+
+  const body = match[1].trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  let raw: unknown;
+  try { raw = JSON.parse(body); } catch { return null; }
+
+  const parsed = PayloadSchema.safeParse(raw);
+  if (!parsed.success || parsed.data.length === 0) return null;
+
+  // Answers are keyed by id — a repeated one gets a suffix
+  const usedIds = new Set<string>();
+  const uniqueId = (id: string): string => {
+    let unique = id;
+    for (let n = 2; usedIds.has(unique); n++) unique = `${id}-${n}`;
+    usedIds.add(unique);
+    return unique;
+  };
+
+  return parsed.data.slice(0, MAX_QUESTIONS).map((q, i) => {
+    const options = [...new Set(q.options.map((o) => o.trim()).filter(Boolean))];
+    // A choice without options can only be answered as text
+    const kind: ClarifyingQuestionKind = options.length === 0 ? "free-text" : q.kind;
+    return {
+      id: uniqueId(q.id?.trim() || `q${i + 1}`),
+      question: q.question,
+      kind,
+      options: kind === "free-text" ? [] : options,
+      default: normalizeDefault(kind, options, q.default),
+    };
+  });
+}
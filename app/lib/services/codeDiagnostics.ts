@@ -0,0 +1,203 @@
+/**
+ * Code Diagnostics — deterministic headless checks of generated files.
+ *
+ * Runs on the server after each Coder step, before the Tester:
+ * - syntax parsing of TS/TSX/JS/JSX (and <script> blocks of .vue files)
+ * - relative imports resolved against the generated file set
+ * - forbidden imports from REACT_RULES (they crash the preview sandbox)
+ */
+
+import ts from "typescript";
+import type { AgentStep, CodeDiagnostic, ProjectFilesSnapshot } from "@shared/types/agentRole";
+import type { PromptLocale } from "@shared/types/promptLocale";
+import { FORBIDDEN_IMPORTS, getPromptPack, type PromptPack } from "~/lib/server/llm/promptPacks";
+import { parseGeneratedCode } from "~/lib/utils/codeParser";
+
+const SCRIPT_EXTENSIONS = [".tsx", ".ts", ".jsx", ".js"];
+const RESOLVE_EXTENSIONS = ["", ".tsx", ".ts", ".jsx", ".js", ".vue", ".json", ".css"];
+
+// ─── Generated file set ──────────────────────────────────
+
+/**
+ * The project as the Coder left it: the saved version the request started
+ * from, with the successful code-producing steps after it replayed on top
+ * (files + patches). Without a saved version every step is replayed.
+ */
+export function collectGeneratedFiles(steps: AgentStep[], base?: ProjectFilesSnapshot): Record<string, string> {
+  let files: Record<string, string> = { ...base?.files };
+  for (const step of steps.slice(base?.stepCount ?? 0)) {
+    if (step.status !== "success" || !step.output.includes("<nitAction")) continue;
+    files = { ...files, ...parseGeneratedCode(step.output, { baseFiles: files }) };
+  }
+  return files;
+}
+
+// ─── Helpers ─────────────────────────────────────────────
+
+function extname(path: string): string {
+  const match = path.match(/\.[^./]+$/);
+  return match ? match[0].toLowerCase() : "";
+}
+
+function lineAt(code: string, pos: number): number {
+  let line = 1;
+  for (let i = 0; i < pos && i < code.length; i++) {
+    if (code.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+function normalizeFilePath(path: string): string {
+  return path.replace(/\\/g, "/").replace(/^\.?\//, "");
+}
+
+function resolveRelative(from: string, spec: string, files: Set<string>): string | null {
+  const parts = spec.startsWith("/") ? [] : from.split("/").slice(0, -1);
+  for (const seg of spec.split("/")) {
+    if (seg === "..") parts.pop();
+    else if (seg !== "." && seg !== "") parts.push(seg);
+  }
+  const base = parts.join("/");
+
+  for (const ext of RESOLVE_EXTENSIONS) {
+    if (files.has(base + ext)) return base + ext;
+  }
+  for (const ext of SCRIPT_EXTENSIONS) {
+    if (files.has(`${base}/index${ext}`)) return `${base}/index${ext}`;
+  }
+  return null;
+}
+
+type ScriptSource = { code: string; fileName: string; lineOffset: number };
+
+function getScriptSource(path: string, content: string): ScriptSource | null {
+  const ext = extname(path);
+  if (SCRIPT_EXTENSIONS.includes(ext)) {
+    return { code: content, fileName: path, lineOffset: 0 };
+  }
+  if (ext === ".vue") {
+    const match = content.match(/<script\b([^>]*)>([\s\S]*?)<\/script>/);
+    if (!match || match.index === undefined) return null;
+    const isTs = /lang=["']ts["']/.test(match[1] ?? "");
+    const start = match.index + match[0].indexOf(">") + 1;
+    return {
+      code: match[2] ?? "",
+      fileName: `${path}.${isTs ? "ts" : "js"}`,
+      lineOffset: lineAt(content, start) - 1,
+    };
+  }
+  return null;
+}
+
+// ─── Checks ──────────────────────────────────────────────
+
+function checkSyntax(path: string, source: ScriptSource): CodeDiagnostic[] {
+  const result = ts.transpileModule(source.code, {
+    fileName: source.fileName,
+    reportDiagnostics: true,
+    compilerOptions: {
+      jsx: ts.JsxEmit.Preserve,
+      target: ts.ScriptTarget.ESNext,
+      module: ts.ModuleKind.ESNext,
+      allowJs: true,
+    },
+  });
+
+  return (result.diagnostics ?? []).map((d) => ({
+    file: path,
+    line: d.file && d.start !== undefined
+      ? d.file.getLineAndCharacterOfPosition(d.start).line + 1 + source.lineOffset
+      : undefined,
+    kind: "syntax" as const,
+    message: ts.flattenDiagnosticMessageText(d.messageText, "\n"),
+  }));
+}
+
+function checkImports(
+  path: string,
+  source: ScriptSource,
+  fileSet: Set<string>,
+  projectType: string,
+  texts: PromptPack["diagnostics"],
+): CodeDiagnostic[] {
+  const diagnostics: CodeDiagnostic[] = [];
+  const { importedFiles } = ts.preProcessFile(source.code, true, true);
+
+  for (const imported of importedFiles) {
+    const spec = imported.fileName;
+    const line = lineAt(source.code, imported.pos) + source.lineOffset;
+
+    if (spec.startsWith(".") || spec.startsWith("/")) {
+      if (!resolveRelative(path, spec, fileSet)) {
+        diagnostics.push({
+          file: path,
+          line,
+          kind: "unresolved_import",
+          message: texts.unresolvedImport(spec),
+        });
+      }
+      continue;
+    }
+
+    if (projectType !== "react") continue;
+    const forbidden = FORBIDDEN_IMPORTS.find(
+      (pkg) => spec === pkg || spec.startsWith(`${pkg}/`),
+    );
+    if (forbidden) {
+      diagnostics.push({
+        file: path,
+        line,
+        kind: "forbidden_import",
+        message: texts.forbiddenImport(spec, texts.forbiddenImportHints[forbidden]),
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/** Run all headless checks over a generated file set; messages follow the locale. */
+export function runCodeDiagnostics(
+  files: Record<string, string>,
+  projectType: string,
+  locale?: PromptLocale,
+): CodeDiagnostic[] {
+  const texts = getPromptPack(locale).diagnostics;
+  const normalized: Record<string, string> = {};
+  for (const [path, content] of Object.entries(files)) {
+    normalized[normalizeFilePath(path)] = content;
+  }
+  const fileSet = new Set(Object.keys(normalized));
+  const diagnostics: CodeDiagnostic[] = [];
+
+  for (const [path, content] of Object.entries(normalized)) {
+    if (extname(path) === ".json") {
+      try { JSON.parse(content); } catch (err) {
+        diagnostics.push({ file: path, kind: "syntax", message: texts.invalidJson((err as Error).message) });
+      }
+      continue;
+    }
+
+    const source = getScriptSource(path, content);
+    if (!source) continue;
+
+    diagnostics.push(...checkSyntax(path, source));
+    diagnostics.push(...checkImports(path, source, fileSet, projectType, texts));
+  }
+
+  return diagnostics;
+}
+
+/** Fix instructions for the Coder built from diagnostics. */
+export function buildDiagnosticsFixInstructions(diagnostics: CodeDiagnostic[], locale?: PromptLocale): string {
+  const { fixes } = getPromptPack(locale);
+  const lines = diagnostics.map((d, i) => {
+    const location = d.line ? `${d.file}:${d.line}` : d.file;
+    return `${i + 1}. [${location}] ${d.message}`;
+  });
+
+  return `${fixes.diagnostics}
+${lines.join("\n")}
+
+${fixes.closing}`;
+}
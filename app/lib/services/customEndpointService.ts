@@ -0,0 +1,225 @@
+/**
+ * Custom Endpoint Service — user-managed OpenAI-compatible servers via Appwrite.
+ *
+ * Each endpoint is registered in LLMManager as its own provider
+ * (`endpoint_<id>`), so roles can point at a specific server. The API key
+ * and headers are stored encrypted and never returned to the client.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto";
+import { z } from "zod";
+import type { CustomEndpoint, CustomEndpointView } from "@shared/types/customEndpoint";
+import { CUSTOM_ENDPOINT_PREFIX } from "@shared/types/customEndpoint";
+import { getDb, getMasterDbId, COLLECTIONS, ID, Query } from "~/lib/db/appwrite";
+import { LLMManager } from "~/lib/llm/manager";
+import { OpenAILikeProvider } from "~/lib/llm/providers/openai-like";
+import { logger } from "~/lib/utils/logger";
+
+type EndpointDoc = Record<string, unknown>;
+
+export type CustomEndpointInput = Omit<CustomEndpoint, "id" | "createdAt" | "updatedAt">;
+
+// Shared by the /api/endpoints routes
+export const EndpointHeadersSchema = z.record(z.string().min(1).max(128), z.string().max(2048));
+export const ModelFilterSchema = z.array(z.string().min(1).max(256)).max(50);
+
+function parseJson<T>(raw: unknown, fallback: T): T {
+  if (typeof raw !== "string" || !raw) return fallback;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+// ─── Secrets at rest ─────────────────────────────────────
+
+const SECRET_PREFIX = "enc:v1:";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+function secretKey(): Buffer {
+  const source = process.env.ENDPOINT_SECRET_KEY || process.env.APPWRITE_API_KEY;
+  if (!source) throw new Error("ENDPOINT_SECRET_KEY or APPWRITE_API_KEY is required to store endpoint secrets");
+  return createHash("sha256").update(source).digest();
+}
+
+/** AES-256-GCM; "" stays "" so an empty key still reads as no key. */
+export function encryptSecret(plain: string): string {
+  if (!plain) return "";
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", secretKey(), iv);
+  const data = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return SECRET_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64");
+}
+
+export function decryptSecret(stored: string): string {
+  // Written before encryption — read as is, encrypted on the next save
+  if (!stored.startsWith(SECRET_PREFIX)) return stored;
+  const raw = Buffer.from(stored.slice(SECRET_PREFIX.length), "base64");
+  const decipher = createDecipheriv("aes-256-gcm", secretKey(), raw.subarray(0, IV_BYTES));
+  decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString("utf8");
+}
+
+function readSecret(doc: EndpointDoc, field: string): string {
+  const raw = doc[field];
+  if (typeof raw !== "string" || !raw) return "";
+  try {
+    return decryptSecret(raw);
+  } catch (err) {
+    // The secret key changed — the endpoint stays listed, its secrets have to be entered again
+    logger.warn("customEndpoints", `Cannot decrypt ${field} of endpoint ${doc.$id as string}`, err);
+    return "";
+  }
+}
+
+// ─── Documents ───────────────────────────────────────────
+
+function docToEndpoint(doc: EndpointDoc): CustomEndpoint {
+  return {
+    id: doc.$id as string,
+    name: (doc.name as string) ?? "",
+    baseUrl: (doc.base_url as string) ?? "",
+    apiKey: readSecret(doc, "api_key"),
+    headers: parseJson<Record<string, string>>(readSecret(doc, "headers"), {}),
+    modelFilter: parseJson<string[]>(doc.model_filter, []),
+    createdAt: (doc.created_at as string) ?? "",
+    updatedAt: (doc.updated_at as string) ?? "",
+  };
+}
+
+function endpointToDoc(data: Partial<CustomEndpoint>): Record<string, unknown> {
+  const map: Record<string, unknown> = {};
+  if (data.name !== undefined) map.name = data.name;
+  if (data.baseUrl !== undefined) map.base_url = data.baseUrl.replace(/\/+$/, "");
+  if (data.apiKey !== undefined) map.api_key = encryptSecret(data.apiKey);
+  if (data.headers !== undefined) map.headers = encryptSecret(JSON.stringify(data.headers));
+  if (data.modelFilter !== undefined) map.model_filter = JSON.stringify(data.modelFilter);
+  if (data.createdAt !== undefined) map.created_at = data.createdAt;
+  if (data.updatedAt !== undefined) map.updated_at = data.updatedAt;
+  return map;
+}
+
+export function customEndpointProviderId(endpointId: string): string {
+  return `${CUSTOM_ENDPOINT_PREFIX}${endpointId}`;
+}
+
+/** Header values are credentials as often as not — only their names are shown. */
+export function toEndpointView(endpoint: CustomEndpoint): CustomEndpointView {
+  const { apiKey, headers, ...rest } = endpoint;
+  return { ...rest, hasApiKey: apiKey !== "", headerNames: Object.keys(headers) };
+}
+
+export async function listCustomEndpoints(): Promise<CustomEndpoint[]> {
+  const db = getDb();
+  const result = await db.listDocuments(getMasterDbId(), COLLECTIONS.CUSTOM_ENDPOINTS, [Query.limit(100)]);
+  return result.documents
+    .map(d => docToEndpoint(d as unknown as EndpointDoc))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getCustomEndpoint(id: string): Promise<CustomEndpoint | null> {
+  const db = getDb();
+  try {
+    const doc = await db.getDocument(getMasterDbId(), COLLECTIONS.CUSTOM_ENDPOINTS, id);
+    return docToEndpoint(doc as unknown as EndpointDoc);
+  } catch {
+    return null;
+  }
+}
+
+export async function createCustomEndpoint(data: CustomEndpointInput): Promise<CustomEndpoint> {
+  const db = getDb();
+
+  const all = await listCustomEndpoints();
+  if (all.some(e => e.name.toLowerCase() === data.name.toLowerCase())) {
+    throw new Error(`Эндпоинт с именем "${data.name}" уже существует`);
+  }
+
+  const now = new Date().toISOString();
+  const doc = await db.createDocument(
+    getMasterDbId(),
+    COLLECTIONS.CUSTOM_ENDPOINTS,
+    ID.unique(),
+    endpointToDoc({ ...data, createdAt: now, updatedAt: now }),
+  );
+
+  logger.info("customEndpoints", `Created endpoint: ${data.name}`);
+  return docToEndpoint(doc as unknown as EndpointDoc);
+}
+
+export async function updateCustomEndpoint(
+  id: string,
+  data: Partial<CustomEndpointInput>,
+): Promise<CustomEndpoint | null> {
+  const db = getDb();
+
+  const existing = await getCustomEndpoint(id);
+  if (!existing) return null;
+
+  if (data.name && data.name.toLowerCase() !== existing.name.toLowerCase()) {
+    const newName = data.name;
+    const all = await listCustomEndpoints();
+    if (all.some(e => e.name.toLowerCase() === newName.toLowerCase() && e.id !== id)) {
+      throw new Error(`Эндпоинт с именем "${newName}" уже существует`);
+    }
+  }
+
+  // The client never sees header values — an empty one keeps what is stored under that name
+  const headers = data.headers && Object.fromEntries(
+    Object.entries(data.headers)
+      .map(([name, value]) => [name, value || existing.headers[name] || ""])
+      .filter(([, value]) => value !== ""),
+  );
+
+  const updatedDoc = await db.updateDocument(
+    getMasterDbId(),
+    COLLECTIONS.CUSTOM_ENDPOINTS,
+    id,
+    endpointToDoc({ ...data, headers, updatedAt: new Date().toISOString() }),
+  );
+
+  const updated = docToEndpoint(updatedDoc as unknown as EndpointDoc);
+  logger.info("customEndpoints", `Updated endpoint: ${updated.name}`);
+  return updated;
+}
+
+export async function deleteCustomEndpoint(id: string): Promise<boolean> {
+  const db = getDb();
+  try {
+    await db.deleteDocument(getMasterDbId(), COLLECTIONS.CUSTOM_ENDPOINTS, id);
+    logger.info("customEndpoints", `Deleted endpoint: ${id}`);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// ─── LLMManager registration ─────────────────────────────
+
+export function registerCustomEndpoints(endpoints: CustomEndpoint[]): void {
+  const manager = LLMManager.getInstance(process.env as Record<string, string>);
+  manager.setRuntimeProviders(endpoints.map((e) => new OpenAILikeProvider({
+    name: customEndpointProviderId(e.id),
+    baseUrl: e.baseUrl,
+    apiKey: e.apiKey,
+    headers: e.headers,
+    modelFilter: e.modelFilter,
+  })));
+}
+
+/**
+ * Reload endpoints from Appwrite into LLMManager. Never throws — without
+ * Appwrite the built-in providers keep working.
+ */
+export async function syncCustomEndpoints(): Promise<CustomEndpoint[]> {
+  try {
+    const endpoints = await listCustomEndpoints();
+    registerCustomEndpoints(endpoints);
+    return endpoints;
+  } catch (err) {
+    logger.warn("customEndpoints", "Failed to load custom endpoints", err);
+    return [];
+  }
+}
@@ -4,20 +4,61 @@
  * Intelligent pipeline decision engine:
  * - Plans which agents are needed (LLM-based)
  * - Validates outputs between steps
- * - Tester→Coder fix cycles with explicit fix instructions
+ * - Runs headless code diagnostics after the Coder, before the Tester
+ * - Tester→Coder fix cycles driven by the structured tester verdict
  * - Limits cycles to prevent infinite loops
+ * - Executes stored pipeline definitions (graphs) instead of the implicit order
+ * - Runs independent steps concurrently, events tagged with a stepId
+ * - Pauses after roles that require approval until the user decides
+ * - Checkpoints a chain stopped by clarifying questions; the answer resumes it
+ * - Previews the plan without running it; a plan confirmed by the user runs as-is
+ * - Takes commands while running (chainControl.ts): skip a step, retry or
+ *   skip a failed one, insert a role after the current step
  */
 
-import type { AgentRole, AgentMemory, PipelineEvent } from "@shared/types/agentRole";
+import type {
+  AgentRole,
+  AgentMemory,
+  AgentSelectedBy,
+  ChainCheckpoint,
+  DefinitionCheckpoint,
+  ConfirmedPlan,
+  OrchestratorPlan,
+  PipelineEvent,
+} from "@shared/types/agentRole";
+import type { PipelineDefinition } from "@shared/types/pipelineDefinition";
+import type { PromptLocale } from "@shared/types/promptLocale";
 import { getAllRoles, getRoleById } from "./roleService";
-import { executeStepStreaming } from "./agentPipeline";
+import { executeStepStreaming, replaceStepOutput, discardStepOutput, persistSession } from "./agentPipeline";
+import { waitForApproval } from "./approvalGates";
+import {
+  trackStep,
+  untrackStep,
+  wasSkipped,
+  waitForFailedStepDecision,
+  takeInsertedRoles,
+  type ChainControl,
+} from "./chainControl";
+import { parseTesterVerdict, getFailingIssues, buildFixInstructions } from "./testerVerdict";
+import { parseClarifyingQuestions } from "./clarifyingQuestions";
+import { detectTruncation } from "./outputContinuation";
+import { collectGeneratedFiles, runCodeDiagnostics, buildDiagnosticsFixInstructions } from "./codeDiagnostics";
+import { PipelineScheduler, validatePipelineGraph, type StepOutcome } from "./pipelineGraph";
 import { LLMManager } from "~/lib/llm/manager";
+import { withModelSlot } from "~/lib/llm/scheduler";
 import { generateText } from "ai";
+import { getPromptPack, roleNamesOf } from "~/lib/server/llm/promptPacks";
 import { logger } from "~/lib/utils/logger";
 
 const ORCHESTRATOR_PROVIDER = process.env.ROUTER_PROVIDER_ID ?? "ollama";
 const ORCHESTRATOR_MODEL = process.env.ROUTER_MODEL_NAME ?? "mistral";
 const MAX_FIX_CYCLES = 2;
+// An answer that comes later than this starts a new request instead of resuming
+const CHECKPOINT_TTL_MS = 60 * 60 * 1000;
+
+// Roles that only read the user request and earlier sessions, not each other —
+// consecutive ones run concurrently in chain mode
+const INDEPENDENT_ROLE_IDS = new Set(["role_architect", "role_designer", "role_copywriter"]);
 
 // ─── Validation ──────────────────────────────────────────
 
@@ -26,7 +67,8 @@ interface ValidationResult {
   issues: string[];
 }
 
-function validateArchitectOutput(output: string): ValidationResult {
+function validateArchitectOutput(output: string, locale?: PromptLocale): ValidationResult {
+  const texts = getPromptPack(locale).validation;
   const issues: string[] = [];
 
   let parsed: unknown;
@@ -47,46 +89,50 @@ function validateArchitectOutput(output: string): ValidationResult {
   }
 
   if (!parsed || typeof parsed !== "object") {
-    issues.push("JSON не удалось распарсить");
+    issues.push(texts.jsonUnparsable);
     return { valid: false, issues };
   }
 
   const obj = parsed as Record<string, unknown>;
   if (!obj.pages && !obj.project_name) {
-    issues.push("JSON не содержит pages или project_name");
+    issues.push(texts.jsonMissingKeys);
   }
 
   return { valid: issues.length === 0, issues };
 }
 
-function validateCoderOutput(output: string): ValidationResult {
+function validateCoderOutput(output: string, locale?: PromptLocale): ValidationResult {
+  const texts = getPromptPack(locale).validation;
   const issues: string[] = [];
 
   const hasArtifact = output.includes("<nitArtifact") || output.includes("<nitAction");
   const hasFallback = output.includes("// === FILE:");
 
   if (!hasArtifact && !hasFallback) {
-    issues.push("Кодер не сгенерировал код в формате nitArtifact");
+    issues.push(texts.noArtifact);
   }
 
-  // Truncation: only flag if output is suspiciously short AND ends mid-tag
-  if (output.length < 100 && !output.includes("</nitArtifact>") && !output.includes("</nitAction>")) {
-    issues.push("Код выглядит обрезанным");
+  // Truncation: a file left open (continuations ran out) or a suspiciously short answer
+  const truncation = detectTruncation(output);
+  if (truncation) {
+    issues.push(truncation.filePath ? texts.truncatedIn(truncation.filePath) : texts.artifactUnclosed);
+  } else if (output.length < 100 && !output.includes("</nitArtifact>") && !output.includes("</nitAction>")) {
+    issues.push(texts.truncated);
   }
 
   return { valid: issues.length === 0, issues };
 }
 
-function validateStepOutput(role: AgentRole, output: string): ValidationResult {
+function validateStepOutput(role: AgentRole, output: string, locale?: PromptLocale): ValidationResult {
   if (!output.trim()) {
-    return { valid: false, issues: ["Пустой ответ"] };
+    return { valid: false, issues: [getPromptPack(locale).validation.emptyOutput] };
   }
 
   switch (role.id) {
     case "role_architect":
-      return validateArchitectOutput(output);
+      return validateArchitectOutput(output, locale);
     case "role_coder":
-      return validateCoderOutput(output);
+      return validateCoderOutput(output, locale);
     default:
       return { valid: true, issues: [] };
   }
@@ -94,7 +140,8 @@ function validateStepOutput(role: AgentRole, output: string): ValidationResult {
 
 // ─── Clarifying questions detection ──────────────────────
 
-function isClarifyingQuestions(role: AgentRole, output: string): boolean {
+// Fallback for models that ask in plain text instead of a <nitQuestions> block
+function isClarifyingQuestions(role: AgentRole, output: string, locale?: PromptLocale): boolean {
   const trimmed = output.trim();
   if (trimmed.length > 1200) return false;
 
@@ -105,57 +152,16 @@ function isClarifyingQuestions(role: AgentRole, output: string): boolean {
   if (hasArtifact) return false;
 
   if (role.id === "role_architect") {
-    const validation = validateArchitectOutput(output);
+    const validation = validateArchitectOutput(output, locale);
     if (validation.valid) return false;
   }
 
-  const questionPatterns = [
-    /уточн/i, /какой|какая|какие|какое/i, /как\s+(вы|ты|вам)/i,
-    /нужн/i, /предпочита/i, /хотите|хочешь/i, /есть\s+ли/i,
-    /что\s+именно/i, /какие\s+раздел/i, /какой\s+стиль/i,
-  ];
-  const looksLikeQuestions = questionPatterns.some((p) => p.test(trimmed));
-  return looksLikeQuestions;
-}
-
-// ─── Tester critical error detection ─────────────────────
-
-function testerFoundCriticalErrors(output: string): boolean {
-  const lower = output.toLowerCase();
-
-  // Explicit PASS → no errors
-  if (lower.includes("итого: pass") || lower.includes("итого:pass")) return false;
-
-  // Explicit negative patterns → no errors
-  const noErrorPatterns = [
-    "нет ошибок", "без ошибок", "ошибок не обнаружено", "ошибок нет",
-    "критических ошибок нет", "критических нет", "0 критических",
-  ];
-  for (const pat of noErrorPatterns) {
-    if (lower.includes(pat)) return false;
-  }
-
-  // Explicit FAIL → errors
-  if (lower.includes("итого: fail") || lower.includes("итого:fail")) return true;
-
-  // Critical error markers
-  const criticalPatterns = [
-    "критическ", "блокирующ", "critical",
-  ];
-  for (const pat of criticalPatterns) {
-    if (lower.includes(pat)) return true;
-  }
-
-  return false;
+  return getPromptPack(locale).questionPatterns.some((p) => p.test(trimmed));
 }
 
 // ─── Planning ────────────────────────────────────────────
 
-export type OrchestratorPlan = {
-  steps: AgentRole[];
-  reasoning: string;
-  skipReasons: Record<string, string>;
-};
+export type { OrchestratorPlan };
 
 export type OrchestratorLLMOptions = {
   providerId?: string;
@@ -197,40 +203,19 @@ export async function planPipeline(
       serverEnv: process.env as Record<string, string>,
     });
 
-    const lastSteps = memory.steps.slice(-3)
-      .map((s) => `[${s.agentName}]: ${s.output.slice(0, 150)}...`)
-      .join("\n");
-
-    const roleList = activeRoles
-      .map((r) => `- ${r.name} (${r.id}): ${r.description}`)
-      .join("\n");
+    const prompt = getPromptPack(memory.locale).planner({
+      agents: activeRoles.map((r) => `- ${r.name} (${r.id}): ${r.description}`).join("\n"),
+      lastSteps: memory.steps.slice(-3).map((s) => `[${s.agentName}]: ${s.output.slice(0, 150)}...`),
+      userMessage,
+      roleName: roleNamesOf(activeRoles),
+    });
 
-    const { text } = await generateText({
+    const { text } = await withModelSlot(providerId, modelName, () => generateText({
       model,
-      prompt: `Ты оркестратор агентов. Определи какие агенты нужны.
-
-Агенты:
-${roleList}
-
-Предыдущие шаги:
-${lastSteps}
-
-Запрос: "${userMessage}"
-
-Правила:
-- анализ/уточнение требований → Аналитик
-- структура/дизайн → Архитектор + Кодер
-- визуальный стиль/цвета/типографика → Дизайнер + Кодер
-- текст/контент → Копирайтер + Кодер
-- баг/исправление кода → только Кодер
-- проверка → только Тестировщик
-- Кодер нужен ВСЕГДА если нужен рабочий код
-
-JSON (без пояснений):
-{"needed":["role_id1","role_id2"],"reasoning":"пояснение"}`,
+      prompt,
       maxTokens: 200,
       temperature: 0.1,
-    });
+    }));
 
     let parsed: { needed?: string[]; reasoning?: string } = {};
     try {
@@ -289,8 +274,343 @@ JSON (без пояснений):
   };
 }
 
+// ─── Step execution ──────────────────────────────────────
+
+type OrchestratedStepResult = {
+  /** false → the chain stops here (error, abort, clarifying questions) */
+  proceed: boolean;
+  outcome: StepOutcome;
+  /** Instructions for the Coder when the outcome is "fail" */
+  fixInstructions: string;
+  issueCount: number;
+  /** The role asked clarifying questions — the chain is checkpointed */
+  awaitingUser?: boolean;
+};
+
+type StepRun = {
+  role: AgentRole;
+  stepId: string;
+  stepContext: string;
+  selectedBy: AgentSelectedBy;
+  fixCycle?: boolean; // stepContext carries the failing issues of the last check
+};
+
+// On a fix cycle the structured issues are the only signal — the full review stays out
+const FIX_CYCLE_OMITTED_ROLE_IDS = ["role_tester"];
+
+const STOP: OrchestratedStepResult = { proceed: false, outcome: "fail", fixInstructions: "", issueCount: 0 };
+const PASS: OrchestratedStepResult = { proceed: true, outcome: "pass", fixInstructions: "", issueCount: 0 };
+const AWAIT_USER: OrchestratedStepResult = { ...STOP, awaitingUser: true };
+
+// An error ends the chain, so parallel siblings are cut short; clarifying questions let them finish
+const CHAIN_STOP: BatchStop<OrchestratedStepResult> = { when: (r) => !r.proceed && !r.awaitingUser, fill: STOP };
+
+function tagStep(event: PipelineEvent, stepId: string): PipelineEvent {
+  switch (event.type) {
+    case "role_selected":
+    case "step_start":
+    case "queued":
+    case "text":
+    case "reasoning":
+    case "retry_reset":
+    case "continuation":
+    case "step_complete":
+      return { ...event, stepId };
+    default:
+      return event;
+  }
+}
+
+/** Announces a step before it runs — role_selected + step_start carry its stepId. */
+function* announceStep(run: StepRun): Generator<PipelineEvent> {
+  const { role, stepId, selectedBy } = run;
+  yield { type: "role_selected", roleId: role.id, roleName: role.name, selectedBy, stepId };
+  yield { type: "step_start", roleName: role.name, model: role.modelName, provider: role.providerId, stepId };
+}
+
+/** A result that ends the batch early, and what the steps cut short count as. */
+type BatchStop<T> = { when: (result: T) => boolean; fill: T };
+
+/**
+ * Interleaves events of concurrent steps as they arrive; returns every step's
+ * result. The steps share one abort signal: a result matching stop, an error,
+ * or the consumer leaving early aborts and closes the steps still running.
+ */
+async function* runConcurrently<T>(
+  starts: Array<(signal: AbortSignal) => AsyncGenerator<PipelineEvent, T>>,
+  abortSignal?: AbortSignal,
+  stop?: BatchStop<T>,
+): AsyncGenerator<PipelineEvent, T[]> {
+  const batch = new AbortController();
+  const onAbort = () => batch.abort();
+  if (abortSignal?.aborted) batch.abort();
+  abortSignal?.addEventListener("abort", onAbort);
+
+  const gens = starts.map((start) => start(batch.signal));
+  const results: T[] = new Array(gens.length);
+  const pending = new Map<number, Promise<{ index: number; result: IteratorResult<PipelineEvent, T> }>>();
+
+  const pull = (index: number) => {
+    pending.set(index, gens[index]!.next().then((result) => ({ index, result })));
+  };
+
+  try {
+    gens.forEach((_, i) => pull(i));
+
+    while (pending.size > 0) {
+      const { index, result } = await Promise.race(pending.values());
+      if (result.done) {
+        results[index] = result.value;
+        pending.delete(index);
+        if (stop?.when(result.value) && pending.size > 0) {
+          for (const i of pending.keys()) results[i] = stop.fill;
+          break;
+        }
+      } else {
+        yield result.value;
+        pull(index);
+      }
+    }
+
+    return results;
+  } finally {
+    abortSignal?.removeEventListener("abort", onAbort);
+    if (pending.size > 0) {
+      batch.abort();
+      for (const index of pending.keys()) {
+        // Settles once the step sees the abort — not awaited, a step may still be mid-request
+        pending.get(index)!.catch(() => {});
+        gens[index]!.return(stop?.fill as T).catch(() => {});
+      }
+    }
+  }
+}
+
+/** How one run of a role ended. */
+type StepRunResult =
+  | { status: "done"; output: string }
+  | { status: "stopped" }                  // error already sent — the chain ends
+  | { status: "failed"; message: string }  // controlled chain: the user may retry or skip
+  | { status: "skipped" };
+
+/**
+ * Streams one run of the role. Without a control a failure is sent as an
+ * error right away; with one it is held back for the user's decision.
+ */
+async function* streamRoleStep(
+  run: StepRun,
+  stepContext: string,
+  memory: AgentMemory,
+  userMessage: string,
+  projectType: string,
+  abortSignal?: AbortSignal,
+  control?: ChainControl | null,
+): AsyncGenerator<PipelineEvent, StepRunResult> {
+  const { role, stepId } = run;
+  let stepOutput = "";
+  let stepSucceeded = false;
+
+  const signal = control ? trackStep(control, stepId, abortSignal) : abortSignal;
+  try {
+    const stepGen = executeStepStreaming(
+      role, memory, userMessage,
+      stepContext,
+      projectType, run.selectedBy, signal,
+      run.fixCycle ? FIX_CYCLE_OMITTED_ROLE_IDS : [],
+    );
+
+    for await (const event of stepGen) {
+      if (event.type === "error" && control && !abortSignal?.aborted) {
+        return wasSkipped(control, stepId) ? { status: "skipped" } : { status: "failed", message: event.message };
+      }
+      yield tagStep(event, stepId);
+      if (event.type === "text") stepOutput += event.text;
+      if (event.type === "retry_reset") stepOutput = "";
+      if (event.type === "step_complete") stepSucceeded = true;
+      if (event.type === "error") return { status: "stopped" };
+    }
+  } finally {
+    if (control) untrackStep(control, stepId);
+  }
+
+  if (!stepSucceeded) {
+    const message = `${role.name}: шаг не завершён`;
+    if (control && !abortSignal?.aborted) return { status: "failed", message };
+    yield { type: "error", message, roleName: role.name };
+    return { status: "stopped" };
+  }
+  return { status: "done", output: stepOutput };
+}
+
+function buildRejectionContext(
+  stepContext: string,
+  rejectedOutput: string,
+  feedback: string,
+  locale?: PromptLocale,
+): string {
+  const { rejection } = getPromptPack(locale);
+  return [
+    stepContext,
+    `${rejection.feedback}\n${feedback}`,
+    `${rejection.rejectedOutput}\n${rejectedOutput}`,
+  ].filter(Boolean).join("\n\n");
+}
+
+/**
+ * Runs one role and evaluates its output: approval gate, validation,
+ * headless diagnostics for the Coder, structured verdict for the Tester.
+ */
+async function* runOrchestratedStep(
+  run: StepRun,
+  memory: AgentMemory,
+  userMessage: string,
+  projectType: string,
+  abortSignal?: AbortSignal,
+  control?: ChainControl | null,
+): AsyncGenerator<PipelineEvent, OrchestratedStepResult> {
+  const { role, stepId } = run;
+  let stepContext = run.stepContext;
+  let stepOutput = "";
+
+  for (;;) {
+    const result = yield* streamRoleStep(run, stepContext, memory, userMessage, projectType, abortSignal, control);
+    if (result.status === "stopped") return STOP;
+
+    if (result.status === "failed") {
+      // The chain waits here until the user retries or skips the step
+      yield { type: "step_failed", roleName: role.name, stepId, message: result.message };
+      const decision = await waitForFailedStepDecision(control!, stepId, abortSignal);
+      if (decision === "retry") {
+        yield { type: "retry_reset", stepId };
+        yield { type: "step_start", roleName: role.name, model: role.modelName, provider: role.providerId, stepId };
+        continue;
+      }
+      if (decision === null) {
+        yield abortSignal?.aborted
+          ? { type: "error", message: "Отменено пользователем" }
+          : { type: "error", message: result.message, roleName: role.name };
+        return STOP;
+      }
+    }
+
+    if (result.status !== "done") {
+      yield { type: "step_skipped", roleName: role.name, stepId };
+      return PASS;
+    }
+    stepOutput = result.output;
+
+    // Clarifying questions → stop chain, wait for user answer
+    const questions = parseClarifyingQuestions(stepOutput);
+    if (questions || isClarifyingQuestions(role, stepOutput, memory.locale)) {
+      if (questions) yield { type: "clarifying_questions", roleName: role.name, questions, stepId };
+      yield {
+        type: "awaiting_user",
+        roleName: role.name,
+        message: `${role.name} задал уточняющие вопросы. Ответьте в чате — цепочка продолжится с учётом вашего ответа.`,
+      };
+      return AWAIT_USER;
+    }
+
+    if (!role.requiresApproval) break;
+
+    // Approval gate — the chain waits here until the user decides
+    yield {
+      type: "approval_required",
+      roleId: role.id,
+      roleName: role.name,
+      stepId,
+      output: stepOutput,
+      outputFormat: role.outputFormat,
+    };
+    const decision = await waitForApproval(memory.sessionId, stepId, abortSignal);
+    if (!decision) {
+      yield abortSignal?.aborted
+        ? { type: "error", message: "Отменено пользователем" }
+        : { type: "error", message: `${role.name}: решение по шагу не получено — цепочка остановлена`, roleName: role.name };
+      return STOP;
+    }
+
+    if (decision.action === "reject") {
+      yield { type: "approval_resolved", roleName: role.name, stepId, action: "reject" };
+      discardStepOutput(memory, role);
+      stepContext = buildRejectionContext(run.stepContext, stepOutput, decision.feedback, memory.locale);
+      yield { type: "retry_reset", stepId };
+      yield { type: "step_start", roleName: role.name, model: role.modelName, provider: role.providerId, stepId };
+      continue;
+    }
+
+    if (decision.action === "edit") {
+      stepOutput = decision.output;
+      replaceStepOutput(memory, role, stepOutput);
+      yield { type: "approval_resolved", roleName: role.name, stepId, action: "edit", output: stepOutput };
+    } else {
+      yield { type: "approval_resolved", roleName: role.name, stepId, action: "approve" };
+    }
+    break;
+  }
+
+  // Validate
+  const validation = validateStepOutput(role, stepOutput, memory.locale);
+  if (!validation.valid) {
+    yield { type: "warning", message: `⚠️ ${role.name}: ${validation.issues.join("; ")}` };
+    logger.warn("orchestrator", `${role.name} validation: ${validation.issues.join("; ")}`);
+  }
+
+  // Headless checks: syntax, imports — deterministic, before the Tester runs
+  if (role.id === "role_coder") {
+    const files = collectGeneratedFiles(memory.steps, memory.projectFiles);
+    if (Object.keys(files).length === 0) return PASS;
+
+    const diagnostics = runCodeDiagnostics(files, projectType, memory.locale);
+    yield { type: "diagnostics", roleName: role.name, diagnostics };
+    if (diagnostics.length === 0) return PASS;
+
+    logger.warn("orchestrator", `Code diagnostics: ${diagnostics.length} issue(s)`);
+    return {
+      proceed: true,
+      outcome: "fail",
+      fixInstructions: buildDiagnosticsFixInstructions(diagnostics, memory.locale),
+      issueCount: diagnostics.length,
+    };
+  }
+
+  if (role.id === "role_tester") {
+    const verdict = parseTesterVerdict(stepOutput);
+    if (!verdict) {
+      yield { type: "warning", message: `⚠️ ${role.name}: ответ не в формате JSON-вердикта — цикл исправлений пропущен` };
+      return PASS;
+    }
+
+    yield { type: "tester_verdict", roleName: role.name, verdict };
+
+    const failing = getFailingIssues(verdict);
+    if (verdict.verdict === "fail" && failing.length > 0) {
+      return {
+        proceed: true,
+        outcome: "fail",
+        fixInstructions: buildFixInstructions(failing, memory.locale),
+        issueCount: failing.length,
+      };
+    }
+  }
+
+  return PASS;
+}
+
 // ─── Orchestrated execution ──────────────────────────────
 
+/** Mutable state of a queue-driven chain — what a checkpoint is made of. */
+type ChainState = {
+  queue: AgentRole[];
+  userMessage: string;
+  /** Goes to the first batch only */
+  localContext: string;
+  reasoning: string;
+  completedCount: number;
+  fixCycleCount: number;
+  fixInstructions: string;
+};
+
 export async function* executeOrchestrated(
   memory: AgentMemory,
   userMessage: string,
@@ -298,7 +618,69 @@ export async function* executeOrchestrated(
   projectType: string,
   abortSignal?: AbortSignal,
   llmOptions?: OrchestratorLLMOptions,
+  definition?: PipelineDefinition | null,
+  confirmedPlan?: ConfirmedPlan | null,
+  control?: ChainControl | null,
 ): AsyncGenerator<PipelineEvent> {
+  // A chain paused for clarifying questions goes on from where it stopped
+  const checkpoint = memory.chainCheckpoint;
+  if (checkpoint) {
+    memory.chainCheckpoint = undefined;
+    persistSession(memory);
+    if (!isCheckpointFresh(checkpoint)) logger.info("orchestrator", "Paused chain expired, planning from scratch");
+  }
+  if (checkpoint && isCheckpointFresh(checkpoint)) {
+    const state = await restoreChainState(checkpoint, userMessage, memory.locale);
+    const previewIds = state.queue.map((role) => role.id);
+    if (confirmedPlan) state.queue = await resolvePlannedRoles(confirmedPlan.roleIds);
+
+    // A paused stored pipeline resumes its graph unless the user changed the plan
+    const paused = checkpoint.definition;
+    const planKept = !confirmedPlan || confirmedPlan.roleIds.join() === previewIds.join();
+    if (paused && definition?.id === paused.pipelineId && planKept) {
+      if (control) control.canInsert = false;
+      yield { type: "warning", message: `Продолжение пайплайна "${definition.name}" с учётом ответа` };
+      yield* executeDefinition(
+        definition, memory, state.userMessage, state.localContext, projectType, abortSignal, control,
+        { state: paused, completedCount: state.completedCount },
+      );
+      return;
+    }
+
+    if (state.queue.length > 0) {
+      yield {
+        type: "warning",
+        message: `Продолжение цепочки с учётом ответа. Шаги: ${state.queue.map((r) => r.name).join(" → ")}`,
+      };
+      yield* runChainQueue(state, memory, projectType, abortSignal, control);
+      return;
+    }
+    logger.warn("orchestrator", "Checkpoint roles are gone, planning from scratch");
+  }
+
+  // A plan the user confirmed runs as-is — unless it is the definition's own steps unchanged
+  if (confirmedPlan && !(definition && await isDefinitionPlan(definition, confirmedPlan))) {
+    const steps = await resolvePlannedRoles(confirmedPlan.roleIds);
+    if (steps.length === 0) {
+      yield { type: "error", message: "Нет активных ролей для выполнения." };
+      return;
+    }
+    const reasoning = confirmedPlan.reasoning || "План изменён пользователем";
+    yield { type: "warning", message: `План: ${reasoning}. Шаги: ${steps.map((r) => r.name).join(" → ")}` };
+    yield* runChainQueue(
+      { queue: steps, userMessage, localContext, reasoning, completedCount: 0, fixCycleCount: 0, fixInstructions: "" },
+      memory, projectType, abortSignal, control,
+    );
+    return;
+  }
+
+  // A stored pipeline definition replaces the implicit role ordering
+  if (definition) {
+    if (control) control.canInsert = false;
+    yield* executeDefinition(definition, memory, userMessage, localContext, projectType, abortSignal, control);
+    return;
+  }
+
   const plan = await planPipeline(memory, userMessage, llmOptions);
 
   if (plan.steps.length === 0) {
@@ -311,85 +693,367 @@ export async function* executeOrchestrated(
     message: `Оркестратор: ${plan.reasoning}. Шаги: ${plan.steps.map((r) => r.name).join(" → ")}`,
   };
 
+  yield* runChainQueue(
+    {
+      queue: [...plan.steps],
+      userMessage,
+      localContext,
+      reasoning: plan.reasoning,
+      completedCount: 0,
+      fixCycleCount: 0,
+      fixInstructions: "",
+    },
+    memory, projectType, abortSignal, control,
+  );
+}
+
+/**
+ * What executeOrchestrated would run for this message, without running it:
+ * the resumed queue of a paused chain, the stored definition's steps,
+ * otherwise the planner's choice.
+ */
+export async function previewPlan(
+  memory: AgentMemory,
+  userMessage: string,
+  llmOptions?: OrchestratorLLMOptions,
+  definition?: PipelineDefinition | null,
+): Promise<OrchestratorPlan> {
+  if (memory.chainCheckpoint && isCheckpointFresh(memory.chainCheckpoint)) {
+    const state = await restoreChainState(memory.chainCheckpoint, userMessage, memory.locale);
+    if (state.queue.length > 0) {
+      return { steps: state.queue, reasoning: "Продолжение цепочки с учётом ответа", skipReasons: {} };
+    }
+  }
+  if (definition) {
+    return { steps: await definitionRoles(definition), reasoning: `Пайплайн "${definition.name}"`, skipReasons: {} };
+  }
+  return planPipeline(memory, userMessage, llmOptions);
+}
+
+/** Active roles of a definition in node order — what its plan preview lists. */
+async function definitionRoles(definition: PipelineDefinition): Promise<AgentRole[]> {
+  return resolvePlannedRoles(definition.nodes.map((node) => node.roleId));
+}
+
+/** A confirmed plan that is exactly the definition's preview runs the definition graph. */
+async function isDefinitionPlan(definition: PipelineDefinition, plan: ConfirmedPlan): Promise<boolean> {
+  const roles = await definitionRoles(definition);
+  return roles.map((r) => r.id).join() === plan.roleIds.join();
+}
+
+/** Roles of a confirmed plan in the given order — unknown, inactive and repeated ids are dropped. */
+async function resolvePlannedRoles(roleIds: string[]): Promise<AgentRole[]> {
+  const roles: AgentRole[] = [];
+  for (const id of new Set(roleIds)) {
+    const role = await getRoleById(id);
+    if (role?.isActive) roles.push(role);
+  }
+  return roles;
+}
+
+/** Only an answer given soon after the questions resumes the paused chain. */
+function isCheckpointFresh(checkpoint: ChainCheckpoint): boolean {
+  return Date.now() - new Date(checkpoint.createdAt).getTime() <= CHECKPOINT_TTL_MS;
+}
+
+/** Questioning roles run again with the answer, then the rest of the original queue. */
+async function restoreChainState(
+  checkpoint: ChainCheckpoint,
+  answer: string,
+  locale?: PromptLocale,
+): Promise<ChainState> {
+  const queue: AgentRole[] = [];
+  for (const id of [...checkpoint.rerunRoleIds, ...checkpoint.remainingRoleIds]) {
+    const role = await getRoleById(id);
+    if (role?.isActive) queue.push(role);
+  }
+
+  return {
+    queue,
+    userMessage: `${checkpoint.userMessage}\n\n${getPromptPack(locale).clarificationAnswer}\n${answer}`,
+    localContext: checkpoint.localContext,
+    reasoning: checkpoint.reasoning,
+    completedCount: Math.max(0, checkpoint.completedCount - checkpoint.rerunRoleIds.length),
+    fixCycleCount: checkpoint.fixCycleCount,
+    fixInstructions: checkpoint.fixInstructions,
+  };
+}
+
+/** Fix cycles for the finished steps of a batch: failed checks put the Coder (and Tester) back in the queue. */
+async function* applyChainOutcomes(
+  runs: StepRun[],
+  results: OrchestratedStepResult[],
+  state: ChainState,
+): AsyncGenerator<PipelineEvent> {
+  for (const [i, result] of results.entries()) {
+    const role = runs[i]!.role;
+    if (!result.proceed || result.outcome === "pass") continue;
+
+    if (role.id === "role_coder") {
+      // Diagnostics failed → Кодер fixes its own output
+      if (state.fixCycleCount < MAX_FIX_CYCLES) {
+        state.fixCycleCount++;
+        yield {
+          type: "warning",
+          message: `🔄 Автопроверка нашла ошибки в коде (${result.issueCount}). Кодер исправляет (цикл ${state.fixCycleCount}/${MAX_FIX_CYCLES})...`,
+        };
+        state.fixInstructions = result.fixInstructions;
+        state.queue.unshift(role);
+      } else {
+        yield { type: "warning", message: `⚠️ Автопроверка: ошибок в коде — ${result.issueCount}` };
+      }
+      continue;
+    }
+
+    // Fix cycle: critical issues → insert Кодер + Тестировщик
+    if (role.id === "role_tester" && state.fixCycleCount < MAX_FIX_CYCLES) {
+      state.fixCycleCount++;
+
+      const coder = await getRoleById("role_coder");
+      const tester = await getRoleById("role_tester");
+
+      if (coder?.isActive && tester?.isActive) {
+        yield {
+          type: "warning",
+          message: `🔄 Критические ошибки (${result.issueCount}). Кодер исправляет (цикл ${state.fixCycleCount}/${MAX_FIX_CYCLES})...`,
+        };
+
+        state.fixInstructions = result.fixInstructions;
+        // Кодер goes first, then Тестировщик re-checks
+        state.queue.unshift(coder, tester);
+      }
+    }
+  }
+}
+
+async function* runChainQueue(
+  state: ChainState,
+  memory: AgentMemory,
+  projectType: string,
+  abortSignal?: AbortSignal,
+  control?: ChainControl | null,
+): AsyncGenerator<PipelineEvent> {
   // Use a queue instead of mutating array indices — cleaner for fix cycles
-  const queue: AgentRole[] = [...plan.steps];
-  let completedCount = 0;
-  let fixCycleCount = 0;
+  const { queue, userMessage } = state;
+  let isFirstBatch = true;
 
   while (queue.length > 0) {
-    const role = queue.shift()!;
-
     if (abortSignal?.aborted) {
       yield { type: "error", message: "Отменено пользователем" };
       return;
     }
 
-    completedCount++;
-    const totalEstimate = completedCount + queue.length;
-    const selectedBy = completedCount === 1 && role.isLocked ? "hardcoded" as const : "user" as const;
+    // Consecutive independent roles run as one concurrent batch; a role with an
+    // approval gate ends it, so the roles after it see the user's decision
+    const batch = [queue.shift()!];
+    while (
+      !batch.at(-1)!.requiresApproval &&
+      INDEPENDENT_ROLE_IDS.has(batch[0]!.id) && queue[0] && INDEPENDENT_ROLE_IDS.has(queue[0].id)
+    ) {
+      batch.push(queue.shift()!);
+    }
 
-    yield { type: "role_selected", roleId: role.id, roleName: role.name, selectedBy };
-    yield { type: "step_start", roleName: role.name, model: role.modelName, provider: role.providerId };
-    yield { type: "chain_progress", current: completedCount, total: totalEstimate };
+    const batchContext = isFirstBatch ? state.localContext : "";
+    isFirstBatch = false;
+    const runs: StepRun[] = batch.map((role) => {
+      state.completedCount++;
+
+      // Fix cycle: the Coder gets only the failing issues from the last check
+      const fixCycle = role.id === "role_coder" && Boolean(state.fixInstructions);
+      const stepContext = fixCycle ? state.fixInstructions : batchContext;
+      if (fixCycle) state.fixInstructions = "";
+
+      return {
+        role,
+        stepId: `${role.id}-${state.completedCount}`,
+        stepContext,
+        selectedBy: state.completedCount === 1 && role.isLocked ? "hardcoded" : "user",
+        fixCycle,
+      };
+    });
 
-    // Execute
-    let stepOutput = "";
-    let stepSucceeded = false;
+    for (const run of runs) yield* announceStep(run);
+    yield { type: "chain_progress", current: state.completedCount, total: state.completedCount + queue.length };
 
-    const stepGen = executeStepStreaming(
-      role, memory, userMessage,
-      completedCount === 1 ? localContext : "",
-      projectType, selectedBy, abortSignal,
+    const results = yield* runConcurrently(
+      runs.map((run) => (signal) => runOrchestratedStep(run, memory, userMessage, projectType, signal, control)),
+      abortSignal,
+      CHAIN_STOP,
     );
 
-    for await (const event of stepGen) {
-      yield event;
-      if (event.type === "text") stepOutput += event.text;
-      if (event.type === "step_complete") stepSucceeded = true;
-      if (event.type === "error") return;
+    const stopped = results.filter((r) => !r.proceed);
+    // Only clarifying questions are resumable — errors end the chain
+    if (stopped.length > 0 && !stopped.every((r) => r.awaitingUser)) return;
+
+    // Siblings that finished next to a questioning role keep their fix cycles
+    yield* applyChainOutcomes(runs, results, state);
+
+    if (stopped.length > 0) {
+      memory.chainCheckpoint = {
+        userMessage,
+        localContext: batchContext,
+        rerunRoleIds: runs.filter((_, i) => results[i]!.awaitingUser).map((run) => run.role.id),
+        remainingRoleIds: queue.map((role) => role.id),
+        completedCount: state.completedCount,
+        fixCycleCount: state.fixCycleCount,
+        fixInstructions: state.fixInstructions,
+        reasoning: state.reasoning,
+        requestId: memory.requestId,
+        createdAt: new Date().toISOString(),
+      };
+      persistSession(memory);
+      return;
     }
 
-    if (!stepSucceeded) {
-      yield { type: "error", message: `${role.name}: шаг не завершён`, roleName: role.name };
-      return;
+    // Roles the user inserted run right after the current step
+    const inserted = control ? await resolvePlannedRoles(takeInsertedRoles(control)) : [];
+    if (inserted.length > 0) {
+      queue.unshift(...inserted);
+      yield { type: "warning", message: `➕ Добавлены шаги: ${inserted.map((r) => r.name).join(", ")}` };
+      yield { type: "chain_progress", current: state.completedCount, total: state.completedCount + queue.length };
     }
+  }
 
-    // Clarifying questions → stop chain, wait for user answer
-    if (isClarifyingQuestions(role, stepOutput)) {
-      yield {
-        type: "awaiting_user",
-        roleName: role.name,
-        message: `${role.name} задал уточняющие вопросы. Ответьте в чате — цепочка продолжится с учётом вашего ответа.`,
-      };
+  yield { type: "done" };
+}
+
+// ─── Pipeline definition execution ───────────────────────
+
+async function* executeDefinition(
+  definition: PipelineDefinition,
+  memory: AgentMemory,
+  userMessage: string,
+  localContext: string,
+  projectType: string,
+  abortSignal?: AbortSignal,
+  control?: ChainControl | null,
+  resume?: { state: DefinitionCheckpoint; completedCount: number },
+): AsyncGenerator<PipelineEvent> {
+  const issues = validatePipelineGraph(definition);
+  if (issues.length > 0) {
+    yield { type: "error", message: `Пайплайн "${definition.name}": ${issues.join("; ")}` };
+    return;
+  }
+
+  // Inactive or deleted roles are skipped — their dependents still run
+  const roles = new Map<string, AgentRole>();
+  for (const node of definition.nodes) {
+    const role = await getRoleById(node.roleId);
+    if (role?.isActive) roles.set(node.id, role);
+  }
+
+  if (roles.size === 0) {
+    yield { type: "error", message: "Нет активных ролей для выполнения." };
+    return;
+  }
+
+  yield {
+    type: "warning",
+    message: `Пайплайн "${definition.name}": ${[...roles.values()].map((r) => r.name).join(", ")}`,
+  };
+
+  const scheduler = new PipelineScheduler(definition, resume?.state);
+  const instructions = new Map<string, string>(Object.entries(resume?.state.instructions ?? {}));
+  let completedCount = resume?.completedCount ?? 0;
+  let isFirstWave = true;
+
+  while (scheduler.pendingCount > 0) {
+    const ready = scheduler.ready();
+    if (ready.length === 0) {
+      yield { type: "error", message: `Пайплайн "${definition.name}": нет готовых к запуску шагов` };
       return;
     }
 
-    // Validate
-    const validation = validateStepOutput(role, stepOutput);
-    if (!validation.valid) {
-      yield { type: "warning", message: `⚠️ ${role.name}: ${validation.issues.join("; ")}` };
-      logger.warn("orchestrator", `${role.name} validation: ${validation.issues.join("; ")}`);
+    // Every ready node runs concurrently; inactive roles are skipped
+    const nodeIds = ready.filter((id) => {
+      if (roles.has(id)) return true;
+      scheduler.skip(id);
+      return false;
+    });
+    if (nodeIds.length === 0) continue;
+
+    if (abortSignal?.aborted) {
+      yield { type: "error", message: "Отменено пользователем" };
+      return;
     }
 
-    // Fix cycle: Tester found critical errors → insert Кодер + Тестировщик
-    if (role.id === "role_tester" && fixCycleCount < MAX_FIX_CYCLES) {
-      if (testerFoundCriticalErrors(stepOutput)) {
-        fixCycleCount++;
+    const waveContext = isFirstWave ? localContext : "";
+    isFirstWave = false;
+    const runs: StepRun[] = nodeIds.map((nodeId) => {
+      const role = roles.get(nodeId)!;
+      completedCount++;
+
+      // A node re-activated by an on_fail edge gets the failing issues as context
+      const fix = instructions.get(nodeId);
+      if (fix) instructions.delete(nodeId);
+
+      return {
+        role,
+        stepId: `${nodeId}-${completedCount}`,
+        stepContext: fix || waveContext,
+        selectedBy: completedCount === 1 && role.isLocked ? "hardcoded" : "user",
+        fixCycle: Boolean(fix),
+      };
+    });
 
-        const coder = await getRoleById("role_coder");
-        const tester = await getRoleById("role_tester");
+    for (const run of runs) yield* announceStep(run);
+    yield {
+      type: "chain_progress",
+      current: completedCount,
+      total: completedCount + scheduler.pendingCount - runs.length,
+    };
 
-        if (coder?.isActive && tester?.isActive) {
+    const results = yield* runConcurrently(
+      runs.map((run) => (signal) => runOrchestratedStep(run, memory, userMessage, projectType, signal, control)),
+      abortSignal,
+      CHAIN_STOP,
+    );
+    const stopped = results.filter((r) => !r.proceed);
+    // Only clarifying questions are resumable — errors end the pipeline
+    if (stopped.length > 0 && !stopped.every((r) => r.awaitingUser)) return;
+
+    // Siblings that finished next to a questioning node still release their edges;
+    // the questioning nodes stay pending and run again with the answer
+    for (const [i, result] of results.entries()) {
+      if (!result.proceed) continue;
+      const nodeId = nodeIds[i]!;
+      const role = runs[i]!.role;
+
+      for (const { edge, iteration, maxIterations } of scheduler.complete(nodeId, result.outcome)) {
+        const targetName = roles.get(edge.to)?.name ?? edge.to;
+        if (edge.condition === "on_fail") {
+          instructions.set(edge.to, result.fixInstructions);
           yield {
             type: "warning",
-            message: `🔄 Критические ошибки. Кодер исправляет (цикл ${fixCycleCount}/${MAX_FIX_CYCLES})...`,
+            message: `🔄 ${role.name}: найдены ошибки (${result.issueCount}) → ${targetName} (итерация ${iteration}/${maxIterations})`,
           };
-
-          // Кодер goes first, then Тестировщик re-checks
-          queue.unshift(coder, tester);
+        } else {
+          yield { type: "warning", message: `➡️ ${role.name} → ${targetName} (итерация ${iteration}/${maxIterations})` };
         }
       }
     }
+
+    if (stopped.length > 0) {
+      const rerun = nodeIds.filter((_, i) => results[i]!.awaitingUser);
+      const snapshot = scheduler.snapshot();
+      memory.chainCheckpoint = {
+        userMessage,
+        localContext: waveContext,
+        rerunRoleIds: rerun.map((nodeId) => roles.get(nodeId)!.id),
+        remainingRoleIds: snapshot.pending
+          .filter((nodeId) => !rerun.includes(nodeId) && roles.has(nodeId))
+          .map((nodeId) => roles.get(nodeId)!.id),
+        completedCount,
+        fixCycleCount: 0,
+        fixInstructions: "",
+        reasoning: `Пайплайн "${definition.name}"`,
+        requestId: memory.requestId,
+        createdAt: new Date().toISOString(),
+        definition: { pipelineId: definition.id, ...snapshot, instructions: Object.fromEntries(instructions) },
+      };
+      persistSession(memory);
+      return;
+    }
   }
 
   yield { type: "done" };
@@ -0,0 +1,105 @@
+/**
+ * Output Continuation — code cut off mid-file.
+ *
+ * Local models stop at maxTokens or on an early EOS in the middle of a
+ * nitAction. The pipeline detects it (finish reason "length" or an unclosed
+ * nitAction / nitArtifact), asks the same model to go on from the cut point
+ * and appends the new part. The client has already received the first part,
+ * so stitching only ever appends.
+ */
+
+import type { PromptLocale } from "@shared/types/promptLocale";
+import { getPromptPack } from "~/lib/server/llm/promptPacks";
+
+export const MAX_CONTINUATIONS = 3;
+
+// How much of the cut output the model sees to pick up from
+const CONTINUATION_TAIL_CHARS = 1500;
+
+// Models often repeat the last lines before going on — up to this much is cut
+const MAX_OVERLAP_CHARS = 800;
+const MIN_OVERLAP_CHARS = 12;
+
+/** Continuation text held back until the overlap with the previous part can be judged. */
+export const STITCH_BUFFER_CHARS = MAX_OVERLAP_CHARS + 64;
+
+export type Truncation = {
+  reason: "length" | "unclosed";
+  filePath?: string; // file that was being written when the output stopped
+};
+
+// ─── Detection ───────────────────────────────────────────
+
+const FILE_PATH_RE = /filePath="([^"]*)"/;
+const CLOSED_ACTION_RE = /<nitAction\b[^>]*filePath="([^"]+)"[^>]*>[\s\S]*?<\/nitAction>/g;
+
+/** The nitAction / nitArtifact left open at the end of the output, if any. */
+function findUnclosedBlock(output: string): { filePath?: string } | null {
+  const actionOpen = output.lastIndexOf("<nitAction");
+  if (actionOpen > output.lastIndexOf("</nitAction>")) {
+    return { filePath: output.slice(actionOpen).match(FILE_PATH_RE)?.[1] };
+  }
+  if (output.lastIndexOf("<nitArtifact") > output.lastIndexOf("</nitArtifact>")) {
+    return {};
+  }
+  return null;
+}
+
+/**
+ * Whether the output stopped before it was finished. A "length" finish with
+ * a closed artifact is not truncation — only the prose after it was cut.
+ */
+export function detectTruncation(output: string, finishReason?: string): Truncation | null {
+  const unclosed = findUnclosedBlock(output);
+  if (unclosed) {
+    return { reason: finishReason === "length" ? "length" : "unclosed", filePath: unclosed.filePath };
+  }
+  if (finishReason === "length" && !output.includes("</nitArtifact>")) {
+    return { reason: "length" };
+  }
+  return null;
+}
+
+// ─── Continuation request ────────────────────────────────
+
+export function buildContinuationPrompt(
+  prompt: string,
+  output: string,
+  truncation: Truncation,
+  locale?: PromptLocale,
+): string {
+  const finished = [...new Set([...output.matchAll(CLOSED_ACTION_RE)].map((m) => m[1]!))];
+  const continuation = getPromptPack(locale).continuation({
+    filePath: truncation.filePath,
+    finished,
+    tail: output.slice(-CONTINUATION_TAIL_CHARS),
+  });
+
+  return `${prompt}\n\n${continuation}`;
+}
+
+// ─── Stitching ───────────────────────────────────────────
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** The part of the continuation to append: restarted tags and repeated lines removed. */
+export function stitchContinuation(previous: string, continuation: string, truncation: Truncation): string {
+  let next = continuation.replace(/^\s*```[\w-]*\n/, "");
+
+  // Models like to restart the block they were asked to continue
+  if (previous.lastIndexOf("<nitArtifact") > previous.lastIndexOf("</nitArtifact>")) {
+    next = next.replace(/^\s*<nitArtifact\b[^>]*>\s*/i, "");
+  }
+  if (truncation.filePath) {
+    const reopen = new RegExp(`^\\s*<nitAction\\b[^>]*filePath="${escapeRegExp(truncation.filePath)}"[^>]*>\\n?`, "i");
+    next = next.replace(reopen, "");
+  }
+
+  const maxOverlap = Math.min(MAX_OVERLAP_CHARS, previous.length, next.length);
+  for (let len = maxOverlap; len >= MIN_OVERLAP_CHARS; len--) {
+    if (previous.endsWith(next.slice(0, len))) return next.slice(len);
+  }
+  return next;
+}
@@ -0,0 +1,108 @@
+/**
+ * Pipeline Analytics — aggregates PIPELINE_LOGS per role, model and provider.
+ *
+ * Answers "which local model works best for which role": outcome rates,
+ * retries, latency percentiles of successful steps, how steps were routed
+ * and which errors keep coming back.
+ */
+
+import type { PipelineLog, AgentSelectedBy } from "@shared/types/agentRole";
+import type {
+  PipelineAnalytics,
+  PipelineAnalyticsFilter,
+  PipelineErrorCount,
+  PipelineGroupStats,
+} from "@shared/types/pipelineAnalytics";
+import { listPipelineLogs } from "./pipelineLogger";
+
+const TOP_ERRORS_LIMIT = 10;
+
+/** Nearest-rank percentile of an ascending list. */
+export function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]!;
+}
+
+function ratio(part: number, total: number): number {
+  return total === 0 ? 0 : Math.round((part / total) * 1000) / 1000;
+}
+
+function groupStats(key: string, label: string, logs: PipelineLog[]): PipelineGroupStats {
+  const success = logs.filter((l) => l.status === "success");
+  const timeout = logs.filter((l) => l.status === "timeout").length;
+  // Cancelled steps are neither the model's success nor its failure
+  const error = logs.filter((l) => l.status === "error").length;
+  const durations = success.map((l) => l.durationMs).sort((a, b) => a - b);
+  const speeds = success.map((l) => l.tokensPerSecond).filter((v): v is number => v !== undefined);
+
+  return {
+    key,
+    label,
+    total: logs.length,
+    success: success.length,
+    error,
+    timeout,
+    successRate: ratio(success.length, logs.length),
+    errorRate: ratio(error, logs.length),
+    timeoutRate: ratio(timeout, logs.length),
+    retries: logs.reduce((sum, l) => sum + l.retryCount, 0),
+    p50DurationMs: percentile(durations, 50),
+    p95DurationMs: percentile(durations, 95),
+    avgTokensPerSecond: speeds.length
+      ? Math.round((speeds.reduce((a, b) => a + b, 0) / speeds.length) * 10) / 10
+      : null,
+  };
+}
+
+function groupBy(
+  logs: PipelineLog[],
+  keyOf: (log: PipelineLog) => string,
+  labelOf: (log: PipelineLog) => string,
+): PipelineGroupStats[] {
+  const groups = new Map<string, PipelineLog[]>();
+  for (const log of logs) {
+    const key = keyOf(log);
+    const list = groups.get(key);
+    if (list) list.push(log);
+    else groups.set(key, [log]);
+  }
+  return [...groups.entries()]
+    .map(([key, list]) => groupStats(key, labelOf(list[0]!), list))
+    .sort((a, b) => b.total - a.total || a.label.localeCompare(b.label));
+}
+
+function topErrors(logs: PipelineLog[]): PipelineErrorCount[] {
+  const counts = new Map<string, number>();
+  for (const log of logs) {
+    const message = log.errorMessage.trim();
+    if (log.status === "success" || !message) continue;
+    counts.set(message, (counts.get(message) ?? 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([message, count]) => ({ message, count }))
+    .sort((a, b) => b.count - a.count || a.message.localeCompare(b.message))
+    .slice(0, TOP_ERRORS_LIMIT);
+}
+
+export function aggregatePipelineLogs(logs: PipelineLog[], totalMatched = logs.length): PipelineAnalytics {
+  const selectedBy: Record<AgentSelectedBy, number> = { hardcoded: 0, user: 0, router_llm: 0 };
+  for (const log of logs) {
+    if (log.selectedBy in selectedBy) selectedBy[log.selectedBy]++;
+  }
+
+  return {
+    totalLogs: logs.length,
+    truncated: totalMatched > logs.length,
+    byRole: groupBy(logs, (l) => l.agentRoleId, (l) => l.agentName),
+    byModel: groupBy(logs, (l) => `${l.modelName}@${l.providerId}`, (l) => `${l.modelName}@${l.providerId}`),
+    byProvider: groupBy(logs, (l) => l.providerId, (l) => l.providerId),
+    selectedBy,
+    topErrors: topErrors(logs),
+  };
+}
+
+export async function loadPipelineAnalytics(filter: PipelineAnalyticsFilter): Promise<PipelineAnalytics> {
+  const { logs, total } = await listPipelineLogs(filter);
+  return aggregatePipelineLogs(logs, total);
+}
@@ -0,0 +1,172 @@
+/**
+ * Pipeline Definition Service — CRUD for user-defined agent graphs via Appwrite.
+ */
+
+import { z } from "zod";
+import type { PipelineDefinition, PipelineEdge, PipelineNode } from "@shared/types/pipelineDefinition";
+import { getDb, getMasterDbId, COLLECTIONS, ID, Query } from "~/lib/db/appwrite";
+import { logger } from "~/lib/utils/logger";
+
+type DefinitionDoc = Record<string, unknown>;
+
+export type PipelineDefinitionInput = Omit<PipelineDefinition, "id" | "createdAt" | "updatedAt">;
+
+// Shared by the /api/pipelines routes
+export const PipelineNodeSchema = z.object({
+  id: z.string().min(1).max(64),
+  roleId: z.string().min(1).max(128),
+});
+
+export const PipelineEdgeSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1),
+  condition: z.enum(["always", "on_pass", "on_fail"]).default("always"),
+  maxIterations: z.number().int().min(1).max(10).optional(),
+});
+
+function parseJsonArray<T>(raw: unknown): T[] {
+  if (typeof raw !== "string" || !raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed as T[] : [];
+  } catch {
+    return [];
+  }
+}
+
+function docToDefinition(doc: DefinitionDoc): PipelineDefinition {
+  return {
+    id: doc.$id as string,
+    name: (doc.name as string) ?? "",
+    description: (doc.description as string) ?? "",
+    nodes: parseJsonArray<PipelineNode>(doc.nodes),
+    edges: parseJsonArray<PipelineEdge>(doc.edges),
+    isDefault: doc.is_default as boolean ?? false,
+    createdAt: (doc.created_at as string) ?? "",
+    updatedAt: (doc.updated_at as string) ?? "",
+  };
+}
+
+function definitionToDoc(data: Partial<PipelineDefinition>): Record<string, unknown> {
+  const map: Record<string, unknown> = {};
+  if (data.name !== undefined) map.name = data.name;
+  if (data.description !== undefined) map.description = data.description;
+  if (data.nodes !== undefined) map.nodes = JSON.stringify(data.nodes);
+  if (data.edges !== undefined) map.edges = JSON.stringify(data.edges);
+  if (data.isDefault !== undefined) map.is_default = data.isDefault;
+  if (data.createdAt !== undefined) map.created_at = data.createdAt;
+  if (data.updatedAt !== undefined) map.updated_at = data.updatedAt;
+  return map;
+}
+
+export async function listPipelineDefinitions(): Promise<PipelineDefinition[]> {
+  const db = getDb();
+  const result = await db.listDocuments(getMasterDbId(), COLLECTIONS.PIPELINE_DEFINITIONS, [Query.limit(100)]);
+  return result.documents
+    .map(d => docToDefinition(d as unknown as DefinitionDoc))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getPipelineDefinition(id: string): Promise<PipelineDefinition | null> {
+  const db = getDb();
+  try {
+    const doc = await db.getDocument(getMasterDbId(), COLLECTIONS.PIPELINE_DEFINITIONS, id);
+    return docToDefinition(doc as unknown as DefinitionDoc);
+  } catch {
+    return null;
+  }
+}
+
+export async function getDefaultPipelineDefinition(): Promise<PipelineDefinition | null> {
+  const db = getDb();
+  try {
+    const result = await db.listDocuments(getMasterDbId(), COLLECTIONS.PIPELINE_DEFINITIONS, [
+      Query.equal("is_default", true),
+      Query.limit(1),
+    ]);
+    if (result.documents.length === 0) return null;
+    return docToDefinition(result.documents[0] as unknown as DefinitionDoc);
+  } catch {
+    return null;
+  }
+}
+
+/** Only one definition can be the default — clear the flag on the others. */
+async function clearDefaultFlag(exceptId?: string): Promise<void> {
+  const db = getDb();
+  const masterDbId = getMasterDbId();
+  const result = await db.listDocuments(masterDbId, COLLECTIONS.PIPELINE_DEFINITIONS, [
+    Query.equal("is_default", true),
+    Query.limit(100),
+  ]);
+  for (const doc of result.documents) {
+    if (doc.$id === exceptId) continue;
+    await db.updateDocument(masterDbId, COLLECTIONS.PIPELINE_DEFINITIONS, doc.$id, { is_default: false });
+  }
+}
+
+export async function createPipelineDefinition(data: PipelineDefinitionInput): Promise<PipelineDefinition> {
+  const db = getDb();
+  const masterDbId = getMasterDbId();
+
+  const all = await listPipelineDefinitions();
+  if (all.some(d => d.name.toLowerCase() === data.name.toLowerCase())) {
+    throw new Error(`Пайплайн с именем "${data.name}" уже существует`);
+  }
+
+  if (data.isDefault) await clearDefaultFlag();
+
+  const now = new Date().toISOString();
+  const doc = await db.createDocument(
+    masterDbId,
+    COLLECTIONS.PIPELINE_DEFINITIONS,
+    ID.unique(),
+    definitionToDoc({ ...data, createdAt: now, updatedAt: now }),
+  );
+
+  logger.info("pipelineDefinitions", `Created pipeline: ${data.name}`);
+  return docToDefinition(doc as unknown as DefinitionDoc);
+}
+
+export async function updatePipelineDefinition(
+  id: string,
+  data: Partial<PipelineDefinitionInput>,
+): Promise<PipelineDefinition | null> {
+  const db = getDb();
+  const masterDbId = getMasterDbId();
+
+  const existing = await getPipelineDefinition(id);
+  if (!existing) return null;
+
+  if (data.name && data.name.toLowerCase() !== existing.name.toLowerCase()) {
+    const newName = data.name;
+    const all = await listPipelineDefinitions();
+    if (all.some(d => d.name.toLowerCase() === newName.toLowerCase() && d.id !== id)) {
+      throw new Error(`Пайплайн с именем "${newName}" уже существует`);
+    }
+  }
+
+  if (data.isDefault) await clearDefaultFlag(id);
+
+  const updatedDoc = await db.updateDocument(
+    masterDbId,
+    COLLECTIONS.PIPELINE_DEFINITIONS,
+    id,
+    definitionToDoc({ ...data, updatedAt: new Date().toISOString() }),
+  );
+
+  const updated = docToDefinition(updatedDoc as unknown as DefinitionDoc);
+  logger.info("pipelineDefinitions", `Updated pipeline: ${updated.name}`);
+  return updated;
+}
+
+export async function deletePipelineDefinition(id: string): Promise<boolean> {
+  const db = getDb();
+  try {
+    await db.deleteDocument(getMasterDbId(), COLLECTIONS.PIPELINE_DEFINITIONS, id);
+    logger.info("pipelineDefinitions", `Deleted pipeline: ${id}`);
+    return true;
+  } catch {
+    return false;
+  }
+}
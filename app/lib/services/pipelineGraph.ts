@@ -0,0 +1,205 @@
+/**
+ * Pipeline Graph — validation and scheduling of pipeline definitions.
+ *
+ * Scheduling model:
+ * - "always" edges must form a DAG; a node runs once none of its "always"
+ *   predecessors are still pending.
+ * - A node whose incoming edges are all conditional (or whose "always"
+ *   predecessors are all such nodes) only runs when an edge triggers it.
+ * - A triggered conditional edge re-activates its target and everything
+ *   downstream of it via "always" edges (e.g. Tester fail → Coder → Tester).
+ */
+
+import type { PipelineDefinition, PipelineEdge } from "@shared/types/pipelineDefinition";
+import type { DefinitionCheckpoint } from "@shared/types/agentRole";
+
+export const DEFAULT_EDGE_ITERATIONS = 2;
+
+export type StepOutcome = "pass" | "fail";
+
+// ─── Validation ──────────────────────────────────────────
+
+type GraphShape = Pick<PipelineDefinition, "nodes" | "edges">;
+
+function alwaysSuccessors(graph: GraphShape, nodeId: string): string[] {
+  return graph.edges
+    .filter((e) => e.from === nodeId && e.condition === "always")
+    .map((e) => e.to);
+}
+
+function alwaysPredecessors(graph: GraphShape, nodeId: string): string[] {
+  return graph.edges
+    .filter((e) => e.to === nodeId && e.condition === "always")
+    .map((e) => e.from);
+}
+
+function findAlwaysCycle(graph: GraphShape): string[] | null {
+  const state = new Map<string, "visiting" | "done">();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === "done") return null;
+    if (state.get(id) === "visiting") return [...path.slice(path.indexOf(id)), id];
+    state.set(id, "visiting");
+    path.push(id);
+    for (const next of alwaysSuccessors(graph, id)) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    state.set(id, "done");
+    return null;
+  };
+
+  for (const node of graph.nodes) {
+    const cycle = visit(node.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/** Nodes that never run on their own — only when a conditional edge triggers them. */
+function findOnDemandNodes(graph: GraphShape): Set<string> {
+  const onDemand = new Set<string>();
+  for (const node of graph.nodes) {
+    const incoming = graph.edges.filter((e) => e.to === node.id);
+    if (incoming.length > 0 && incoming.every((e) => e.condition !== "always")) {
+      onDemand.add(node.id);
+    }
+  }
+
+  // Propagate: a node whose every "always" predecessor is on-demand is on-demand too
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const node of graph.nodes) {
+      if (onDemand.has(node.id)) continue;
+      const preds = alwaysPredecessors(graph, node.id);
+      if (preds.length > 0 && preds.every((p) => onDemand.has(p))) {
+        onDemand.add(node.id);
+        changed = true;
+      }
+    }
+  }
+  return onDemand;
+}
+
+/** Returns a list of problems; empty when the definition can be executed. */
+export function validatePipelineGraph(graph: GraphShape): string[] {
+  const issues: string[] = [];
+  const ids = new Set<string>();
+
+  if (graph.nodes.length === 0) {
+    issues.push("Граф не содержит ни одного шага");
+  }
+
+  for (const node of graph.nodes) {
+    if (ids.has(node.id)) issues.push(`Повторяющийся id шага: ${node.id}`);
+    ids.add(node.id);
+  }
+
+  for (const edge of graph.edges) {
+    if (!ids.has(edge.from)) issues.push(`Связь ссылается на неизвестный шаг: ${edge.from}`);
+    if (!ids.has(edge.to)) issues.push(`Связь ссылается на неизвестный шаг: ${edge.to}`);
+    if (edge.condition === "always" && edge.from === edge.to) {
+      issues.push(`Безусловная связь шага на самого себя: ${edge.from}`);
+    }
+  }
+  if (issues.length > 0) return issues;
+
+  const cycle = findAlwaysCycle(graph);
+  if (cycle) {
+    issues.push(`Безусловные связи образуют цикл: ${cycle.join(" → ")} (для циклов используйте on_fail / on_pass)`);
+    return issues;
+  }
+
+  if (findOnDemandNodes(graph).size === graph.nodes.length) {
+    issues.push("Нет стартового шага — все шаги запускаются только по условию");
+  }
+
+  return issues;
+}
+
+// ─── Scheduling ──────────────────────────────────────────
+
+function edgeKey(edge: PipelineEdge): string {
+  return `${edge.from}->${edge.to}:${edge.condition}`;
+}
+
+export type TriggeredEdge = {
+  edge: PipelineEdge;
+  iteration: number;
+  maxIterations: number;
+};
+
+/** Tracks pending nodes and loop counters while a definition executes. */
+export class PipelineScheduler {
+  private pending: Set<string>;
+  private iterations = new Map<string, number>();
+
+  constructor(private graph: GraphShape, resume?: Pick<DefinitionCheckpoint, "pending" | "iterations">) {
+    if (resume) {
+      // Nodes removed from the definition since the pause are forgotten
+      const ids = new Set(graph.nodes.map((n) => n.id));
+      this.pending = new Set(resume.pending.filter((id) => ids.has(id)));
+      this.iterations = new Map(Object.entries(resume.iterations));
+      return;
+    }
+    const onDemand = findOnDemandNodes(graph);
+    this.pending = new Set(graph.nodes.filter((n) => !onDemand.has(n.id)).map((n) => n.id));
+  }
+
+  /** Pending nodes and loop counters — enough to go on from the same point later. */
+  snapshot(): Pick<DefinitionCheckpoint, "pending" | "iterations"> {
+    return { pending: [...this.pending], iterations: Object.fromEntries(this.iterations) };
+  }
+
+  get pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /** Pending nodes whose "always" predecessors have all finished, in definition order. */
+  ready(): string[] {
+    return this.graph.nodes
+      .map((n) => n.id)
+      .filter((id) => this.pending.has(id))
+      .filter((id) => alwaysPredecessors(this.graph, id).every((p) => !this.pending.has(p)));
+  }
+
+  /** Mark a node finished (or skipped) without evaluating its edges. */
+  skip(nodeId: string): void {
+    this.pending.delete(nodeId);
+  }
+
+  /** Mark a node finished and fire conditional edges that match its outcome. */
+  complete(nodeId: string, outcome: StepOutcome): TriggeredEdge[] {
+    this.pending.delete(nodeId);
+
+    const triggered: TriggeredEdge[] = [];
+    const condition = outcome === "pass" ? "on_pass" : "on_fail";
+
+    for (const edge of this.graph.edges) {
+      if (edge.from !== nodeId || edge.condition !== condition) continue;
+
+      const maxIterations = edge.maxIterations ?? DEFAULT_EDGE_ITERATIONS;
+      const count = this.iterations.get(edgeKey(edge)) ?? 0;
+      if (count >= maxIterations) continue;
+
+      this.iterations.set(edgeKey(edge), count + 1);
+      this.activate(edge.to);
+      triggered.push({ edge, iteration: count + 1, maxIterations });
+    }
+
+    return triggered;
+  }
+
+  private activate(nodeId: string): void {
+    const stack = [nodeId];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (this.pending.has(id)) continue;
+      this.pending.add(id);
+      stack.push(...alwaysSuccessors(this.graph, id));
+    }
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Pipeline Jobs — pipeline runs detached from the HTTP request.
+ *
+ * A job runs to the end even when the client disconnects; its events are
+ * buffered so a client can reattach and replay everything after the last
+ * event id it saw (SSE Last-Event-ID). Event ids count the events pushed,
+ * from 1. Consecutive text (and reasoning) deltas of a step are compacted
+ * into one buffered event that keeps the ids it covers, so the buffer grows
+ * with the output rather than with the number of tokens. Like approval gates,
+ * jobs live in process memory; finished ones are kept for FINISHED_JOB_TTL_MS.
+ */
+
+import type { PipelineEvent } from "@shared/types/agentRole";
+import type { PipelineJobStatus, PipelineJobSummary } from "@shared/types/pipelineJob";
+import { logger } from "~/lib/utils/logger";
+
+export const FINISHED_JOB_TTL_MS = 60 * 60 * 1000;
+export const MAX_FINISHED_JOBS = 50;
+
+type DeltaEvent = Extract<PipelineEvent, { type: "text" | "reasoning" }>;
+
+/** Covers event ids firstId..id; a compacted delta run keeps the text length after each of them. */
+type BufferedEvent = {
+  id: number;
+  firstId: number;
+  event: PipelineEvent;
+  marks?: number[];
+};
+
+type PipelineJob = PipelineJobSummary & {
+  events: BufferedEvent[];
+  controller: AbortController;
+  listeners: Set<() => void>;
+};
+
+export type PipelineJobInit = {
+  projectId: string;
+  sessionId: string;
+  branchId?: string;
+  roleId: string;
+  message: string;
+};
+
+const jobs = new Map<string, PipelineJob>();
+
+function summarize(job: PipelineJob): PipelineJobSummary {
+  return {
+    id: job.id,
+    projectId: job.projectId,
+    sessionId: job.sessionId,
+    branchId: job.branchId,
+    roleId: job.roleId,
+    message: job.message,
+    status: job.status,
+    eventCount: job.eventCount,
+    error: job.error,
+    createdAt: job.createdAt,
+    finishedAt: job.finishedAt,
+  };
+}
+
+function notify(job: PipelineJob): void {
+  const listeners = [...job.listeners];
+  job.listeners.clear();
+  for (const wake of listeners) wake();
+}
+
+function isDelta(event: PipelineEvent): event is DeltaEvent {
+  return event.type === "text" || event.type === "reasoning";
+}
+
+function push(job: PipelineJob, event: PipelineEvent): void {
+  const id = ++job.eventCount;
+  const last = job.events[job.events.length - 1];
+  if (last && last.marks && isDelta(event) && isDelta(last.event)
+    && last.event.type === event.type && last.event.stepId === event.stepId) {
+    last.event = { ...event, text: last.event.text + event.text };
+    last.marks.push(last.event.text.length);
+    last.id = id;
+  } else {
+    job.events.push({ id, firstId: id, event, marks: isDelta(event) ? [event.text.length] : undefined });
+  }
+  if (event.type === "error") job.error = event.message;
+  notify(job);
+}
+
+function finish(job: PipelineJob, status: PipelineJobStatus): void {
+  job.status = status;
+  job.finishedAt = new Date().toISOString();
+  logger.info("pipeline", `Job ${job.id} ${status} after ${job.eventCount} event(s)`);
+  notify(job);
+}
+
+function pruneFinishedJobs(): void {
+  const cutoff = Date.now() - FINISHED_JOB_TTL_MS;
+  const finished = [...jobs.values()]
+    .filter((job) => job.status !== "running")
+    .sort((a, b) => (b.finishedAt ?? "").localeCompare(a.finishedAt ?? ""));
+
+  finished.forEach((job, index) => {
+    if (index >= MAX_FINISHED_JOBS || new Date(job.finishedAt ?? 0).getTime() < cutoff) {
+      jobs.delete(job.id);
+    }
+  });
+}
+
+// ─── Running ─────────────────────────────────────────────
+
+/**
+ * Starts run in the background. Its first event should be session_init with
+ * the job id; an error event marks the job failed, an abort — cancelled.
+ */
+export function startPipelineJob(
+  init: PipelineJobInit,
+  run: (job: PipelineJobSummary, abortSignal: AbortSignal) => AsyncGenerator<PipelineEvent>,
+): PipelineJobSummary {
+  pruneFinishedJobs();
+
+  const job: PipelineJob = {
+    id: crypto.randomUUID(),
+    projectId: init.projectId,
+    sessionId: init.sessionId,
+    branchId: init.branchId ?? null,
+    roleId: init.roleId,
+    message: init.message,
+    status: "running",
+    error: null,
+    createdAt: new Date().toISOString(),
+    finishedAt: null,
+    events: [],
+    eventCount: 0,
+    controller: new AbortController(),
+    listeners: new Set(),
+  };
+  jobs.set(job.id, job);
+
+  const signal = job.controller.signal;
+  (async () => {
+    try {
+      for await (const event of run(summarize(job), signal)) push(job, event);
+      finish(job, signal.aborted ? "cancelled" : job.error ? "error" : "done");
+    } catch (err) {
+      if (signal.aborted || (err as Error).name === "AbortError") {
+        finish(job, "cancelled");
+        return;
+      }
+      push(job, { type: "error", message: err instanceof Error ? err.message : "Pipeline error" });
+      finish(job, "error");
+    }
+  })();
+
+  return summarize(job);
+}
+
+export function cancelPipelineJob(jobId: string): boolean {
+  const job = jobs.get(jobId);
+  if (!job || job.status !== "running") return false;
+  job.controller.abort();
+  return true;
+}
+
+// ─── Reading ─────────────────────────────────────────────
+
+export function getPipelineJob(jobId: string): PipelineJobSummary | null {
+  const job = jobs.get(jobId);
+  return job ? summarize(job) : null;
+}
+
+/** Jobs of a project, newest first. */
+export function listPipelineJobs(projectId: string): PipelineJobSummary[] {
+  return [...jobs.values()]
+    .filter((job) => job.projectId === projectId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(summarize);
+}
+
+/**
+ * Yields buffered events after lastEventId, then new ones as they arrive,
+ * until the job finishes or abortSignal (the reader going away) fires.
+ * A compacted delta run is yielded from the first delta not yet seen.
+ */
+export async function* followPipelineJob(
+  jobId: string,
+  lastEventId = 0,
+  abortSignal?: AbortSignal,
+): AsyncGenerator<{ id: number; event: PipelineEvent }> {
+  const job = jobs.get(jobId);
+  if (!job) return;
+
+  let cursor = Math.max(0, lastEventId);
+  let index = 0;
+  while (!abortSignal?.aborted) {
+    while (index < job.events.length) {
+      const entry = job.events[index]!;
+      if (entry.id <= cursor) {
+        // The last entry may still grow while its delta run goes on — stay on it
+        if (index === job.events.length - 1) break;
+        index++;
+        continue;
+      }
+      let event = entry.event;
+      if (cursor >= entry.firstId && entry.marks && isDelta(event)) {
+        event = { ...event, text: event.text.slice(entry.marks[cursor - entry.firstId]) };
+      }
+      cursor = entry.id;
+      yield { id: cursor, event };
+    }
+    if (job.status !== "running") return;
+
+    await new Promise<void>((resolve) => {
+      const wake = () => {
+        abortSignal?.removeEventListener("abort", wake);
+        job.listeners.delete(wake);
+        resolve();
+      };
+      job.listeners.add(wake);
+      abortSignal?.addEventListener("abort", wake);
+    });
+  }
+}
+
+/** SSE body for a job: `id:` per event, [DONE] once the job has finished. */
+export function pipelineJobStream(jobId: string, lastEventId: number, abortSignal?: AbortSignal): ReadableStream {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    async start(controller) {
+      try {
+        for await (const { id, event } of followPipelineJob(jobId, lastEventId, abortSignal)) {
+          controller.enqueue(encoder.encode(`id: ${id}\ndata: ${JSON.stringify(event)}\n\n`));
+        }
+        if (!abortSignal?.aborted) controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        controller.close();
+      } catch {
+        // The reader is gone — the job itself keeps running
+      }
+    },
+  });
+}
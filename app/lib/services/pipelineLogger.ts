@@ -1,8 +1,11 @@
 import type { PipelineLog } from "@shared/types/agentRole";
-import { getDb, getMasterDbId, COLLECTIONS, ID } from "~/lib/db/appwrite";
+import type { PipelineAnalyticsFilter } from "@shared/types/pipelineAnalytics";
+import { getDb, getMasterDbId, COLLECTIONS, ID, Query } from "~/lib/db/appwrite";
 import { logger } from "~/lib/utils/logger";
 
 const SCOPE = "pipeline";
+const PAGE_SIZE = 500;
+export const MAX_ANALYTICS_LOGS = 20_000;
 
 export async function logPipelineStep(log: PipelineLog): Promise<void> {
   try {
@@ -23,6 +26,11 @@ export async function logPipelineStep(log: PipelineLog): Promise<void> {
       status: log.status,
       error_message: log.errorMessage,
       retry_count: log.retryCount,
+      prompt_tokens: log.promptTokens,
+      completion_tokens: log.completionTokens,
+      tokens_estimated: log.tokensEstimated,
+      time_to_first_token_ms: log.timeToFirstTokenMs,
+      tokens_per_second: log.tokensPerSecond,
       timestamp: log.timestamp,
     });
 
@@ -30,6 +38,9 @@ export async function logPipelineStep(log: PipelineLog): Promise<void> {
     logger.info(
       SCOPE,
       `${statusIcon} [${log.agentName}] ${log.modelName}@${log.providerId} ${log.durationMs}ms` +
+        (log.completionTokens !== undefined
+          ? ` ${log.promptTokens}→${log.completionTokens} tok, ${log.tokensPerSecond} tok/s`
+          : "") +
         (log.errorMessage ? ` \u2014 ${log.errorMessage}` : ""),
     );
   } catch (err) {
@@ -37,3 +48,61 @@ export async function logPipelineStep(log: PipelineLog): Promise<void> {
   }
 }
 
+function docToLog(doc: Record<string, unknown>): PipelineLog {
+  const optionalNumber = (v: unknown) => (typeof v === "number" ? v : undefined);
+  return {
+    id: doc.$id as string,
+    sessionId: (doc.session_id as string) ?? "",
+    projectId: (doc.project_id as string) ?? "",
+    agentName: (doc.agent_name as string) ?? "",
+    agentRoleId: (doc.agent_role_id as string) ?? "",
+    providerId: (doc.provider_id as string) ?? "",
+    modelName: (doc.model_name as string) ?? "",
+    inputLength: (doc.input_length as number) ?? 0,
+    outputLength: (doc.output_length as number) ?? 0,
+    durationMs: (doc.duration_ms as number) ?? 0,
+    selectedBy: (doc.selected_by as PipelineLog["selectedBy"]) ?? "hardcoded",
+    status: (doc.status as PipelineLog["status"]) ?? "error",
+    errorMessage: (doc.error_message as string) ?? "",
+    retryCount: (doc.retry_count as number) ?? 0,
+    promptTokens: optionalNumber(doc.prompt_tokens),
+    completionTokens: optionalNumber(doc.completion_tokens),
+    tokensEstimated: typeof doc.tokens_estimated === "boolean" ? doc.tokens_estimated : undefined,
+    timeToFirstTokenMs: optionalNumber(doc.time_to_first_token_ms),
+    tokensPerSecond: optionalNumber(doc.tokens_per_second),
+    timestamp: (doc.timestamp as string) ?? "",
+  };
+}
+
+/**
+ * Newest-first logs matching the filter, read page by page up to `limit`.
+ * `total` is the number of matching documents, which may exceed what was read.
+ */
+export async function listPipelineLogs(
+  filter: PipelineAnalyticsFilter,
+  limit = MAX_ANALYTICS_LOGS,
+): Promise<{ logs: PipelineLog[]; total: number }> {
+  const db = getDb();
+  const masterDbId = getMasterDbId();
+
+  const queries: string[] = [Query.orderDesc("timestamp")];
+  if (filter.from) queries.push(Query.greaterThanEqual("timestamp", `${filter.from}T00:00:00.000Z`));
+  if (filter.to) queries.push(Query.lessThanEqual("timestamp", `${filter.to}T23:59:59.999Z`));
+  if (filter.projectId) queries.push(Query.equal("project_id", filter.projectId));
+
+  const logs: PipelineLog[] = [];
+  let total = 0;
+  while (logs.length < limit) {
+    const pageSize = Math.min(PAGE_SIZE, limit - logs.length);
+    const result = await db.listDocuments(masterDbId, COLLECTIONS.PIPELINE_LOGS, [
+      ...queries,
+      Query.limit(pageSize),
+      Query.offset(logs.length),
+    ]);
+    total = result.total;
+    logs.push(...result.documents.map(d => docToLog(d as unknown as Record<string, unknown>)));
+    if (result.documents.length < pageSize) break;
+  }
+
+  return { logs, total: Math.max(total, logs.length) };
+}
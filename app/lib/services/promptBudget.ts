@@ -0,0 +1,116 @@
+/**
+ * Prompt Budget — fits the outputs of previous agents into the model's context.
+ *
+ * Steps are taken newest-first; the latest full Coder artifact with the
+ * patches made after it, and the latest Architect JSON are pinned. Steps that do not fit in full are summarized
+ * (file list for artifacts, head of the text otherwise), then dropped.
+ */
+
+import type { AgentStep } from "@shared/types/agentRole";
+import type { PromptLocale } from "@shared/types/promptLocale";
+import { getPromptPack, type PromptPack } from "~/lib/server/llm/promptPacks";
+import { estimateTokens, truncateToTokens } from "~/lib/utils/tokenEstimator";
+import { extractGeneratedFileNames, hasPatchActions } from "~/lib/utils/codeParser";
+
+export const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+const MIN_OUTPUT_RESERVE = 1024;
+const SUMMARY_CHARS = 400;
+export const STEP_SEPARATOR = "\n\n---\n\n";
+
+export type ContextSelection = {
+  text: string;
+  includedSteps: number;
+  summarizedSteps: number;
+  droppedSteps: number;
+};
+
+/** Output tokens kept free when packing the prompt: a quarter of the window, capped. */
+export function reserveOutputTokens(contextWindow: number): number {
+  return Math.max(MIN_OUTPUT_RESERVE, Math.min(DEFAULT_MAX_OUTPUT_TOKENS, Math.floor(contextWindow / 4)));
+}
+
+function formatStep(step: AgentStep, output: string): string {
+  return `[${step.agentName} | ${step.timestamp}]:\n${output}`;
+}
+
+function isArtifact(output: string): boolean {
+  return output.includes("<nitAction") || output.includes("// === FILE:");
+}
+
+function summarizeStep(step: AgentStep, budget: PromptPack["budget"]): string {
+  if (isArtifact(step.output)) {
+    const files = extractGeneratedFileNames(step.output);
+    return budget.generatedFiles(files.join(", ") || "—");
+  }
+  const head = step.output.slice(0, SUMMARY_CHARS).trimEnd();
+  return `${head}\n${budget.shortened(step.output.length)}`;
+}
+
+/**
+ * A patch only makes sense on top of the file set it patches: the latest
+ * full Coder artifact is pinned together with every Coder patch after it
+ * (every Coder artifact while there is no full one).
+ */
+function findPinned(steps: AgentStep[]): number[] {
+  const pinned: number[] = [];
+  const isCoderArtifact = (s: AgentStep) => s.agentRoleId === "role_coder" && isArtifact(s.output);
+  const lastFullSet = steps.findLastIndex((s) => isCoderArtifact(s) && !hasPatchActions(s.output));
+  steps.forEach((s, i) => {
+    if (i >= lastFullSet && isCoderArtifact(s)) pinned.push(i);
+  });
+
+  const lastArchitect = steps.findLastIndex((s) => s.agentRoleId === "role_architect" && s.output.trim() !== "");
+  if (lastArchitect !== -1) pinned.push(lastArchitect);
+  return pinned;
+}
+
+/** Pick and format previous steps so that they fit into budgetTokens. */
+export function selectContextSteps(steps: AgentStep[], budgetTokens: number, locale?: PromptLocale): ContextSelection {
+  const { budget } = getPromptPack(locale);
+  const chosen = new Map<number, string>();
+  const separatorTokens = estimateTokens(STEP_SEPARATOR);
+  let used = 0;
+  let summarizedSteps = 0;
+  let droppedSteps = 0;
+
+  const tryAdd = (index: number, output: string): boolean => {
+    const cost = estimateTokens(formatStep(steps[index]!, output)) + separatorTokens;
+    if (used + cost > budgetTokens) return false;
+    chosen.set(index, output);
+    used += cost;
+    return true;
+  };
+
+  const pinned = findPinned(steps);
+  for (const index of pinned) {
+    const step = steps[index]!;
+    if (tryAdd(index, step.output)) continue;
+
+    // Even a pinned step is too large — keep as much of its head as fits
+    const headerTokens = estimateTokens(formatStep(step, "")) + separatorTokens + 16;
+    const room = budgetTokens - used - headerTokens;
+    if (room > 0 && tryAdd(index, `${truncateToTokens(step.output, room)}\n${budget.cut}`)) {
+      summarizedSteps++;
+    } else {
+      droppedSteps++;
+    }
+  }
+
+  for (let i = steps.length - 1; i >= 0; i--) {
+    const step = steps[i]!;
+    if (pinned.includes(i) || !step.output.trim()) continue;
+    if (tryAdd(i, step.output)) continue;
+    if (tryAdd(i, summarizeStep(step, budget))) {
+      summarizedSteps++;
+    } else {
+      droppedSteps++;
+    }
+  }
+
+  const text = [...chosen.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([i, output]) => formatStep(steps[i]!, output))
+    .join(STEP_SEPARATOR);
+
+  return { text, includedSteps: chosen.size, summarizedSteps, droppedSteps };
+}
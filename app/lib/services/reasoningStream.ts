@@ -0,0 +1,111 @@
+/**
+ * Reasoning stream — separates <think> blocks from the answer while it streams.
+ *
+ * Local models reason in <think>…</think> (or <thinking>) before answering.
+ * Reasoning goes out as "reasoning" events and never reaches the answer text,
+ * the session memory or the artifact parser. A tag may be split across
+ * chunks, so a trailing "<thi" is held back until the next chunk.
+ */
+
+import type { PipelineEvent } from "@shared/types/agentRole";
+
+const OPEN_TAGS = ["<think>", "<thinking>"];
+const CLOSE_TAGS = ["</think>", "</thinking>"];
+
+type StreamEvent = Extract<PipelineEvent, { type: "text" | "reasoning" }>;
+
+function findTag(text: string, tags: string[]): { index: number; length: number } | null {
+  const lower = text.toLowerCase();
+  let found: { index: number; length: number } | null = null;
+  for (const tag of tags) {
+    const index = lower.indexOf(tag);
+    if (index !== -1 && (!found || index < found.index)) found = { index, length: tag.length };
+  }
+  return found;
+}
+
+/** Length of the longest suffix of text that starts one of the tags. */
+function partialTagLength(text: string, tags: string[]): number {
+  const lower = text.toLowerCase();
+  let longest = 0;
+  for (const tag of tags) {
+    for (let length = Math.min(tag.length - 1, lower.length); length > longest; length--) {
+      if (tag.startsWith(lower.slice(-length))) {
+        longest = length;
+        break;
+      }
+    }
+  }
+  return longest;
+}
+
+export class ReasoningStream {
+  /** All reasoning text seen so far */
+  reasoning = "";
+  /** Time spent inside think blocks, ms */
+  durationMs = 0;
+
+  private now: () => number;
+  private inThink = false;
+  private thinkStartedAt = 0;
+  private held = "";
+  private trimAnswerStart = false; // whitespace after </think> is not part of the answer
+
+  constructor(now: () => number = Date.now) {
+    this.now = now;
+  }
+
+  push(chunk: string): StreamEvent[] {
+    const events: StreamEvent[] = [];
+    let rest = this.held + chunk;
+    this.held = "";
+
+    while (rest) {
+      const tag = findTag(rest, this.inThink ? CLOSE_TAGS : OPEN_TAGS);
+      if (!tag) {
+        const keep = partialTagLength(rest, this.inThink ? CLOSE_TAGS : OPEN_TAGS);
+        this.emit(events, rest.slice(0, rest.length - keep));
+        this.held = rest.slice(rest.length - keep);
+        break;
+      }
+
+      this.emit(events, rest.slice(0, tag.index));
+      rest = rest.slice(tag.index + tag.length);
+      this.toggle(events);
+    }
+    return events;
+  }
+
+  /** Releases held-back text; an unclosed think block ends here. */
+  flush(): StreamEvent[] {
+    const events: StreamEvent[] = [];
+    this.emit(events, this.held);
+    this.held = "";
+    if (this.inThink) this.toggle(events);
+    return events;
+  }
+
+  private toggle(events: StreamEvent[]): void {
+    if (this.inThink) {
+      this.durationMs += this.now() - this.thinkStartedAt;
+      this.trimAnswerStart = true;
+      // Closes the block: the client shows the duration
+      events.push({ type: "reasoning", text: "", durationMs: this.durationMs });
+    } else {
+      this.thinkStartedAt = this.now();
+    }
+    this.inThink = !this.inThink;
+  }
+
+  private emit(events: StreamEvent[], raw: string): void {
+    let text = raw;
+    if (!this.inThink && this.trimAnswerStart) {
+      text = text.trimStart();
+      if (text) this.trimAnswerStart = false;
+    }
+    if (!text) return;
+
+    if (this.inThink) this.reasoning += text;
+    events.push(this.inThink ? { type: "reasoning", text } : { type: "text", text });
+  }
+}
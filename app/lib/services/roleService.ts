@@ -2,12 +2,29 @@
  * Role Service — CRUD for agent roles via Appwrite.
  */
 
-import type { AgentRole, PromptHistoryEntry } from "@shared/types/agentRole";
+import { z } from "zod";
+import type { AgentRole, PromptHistoryEntry, RoleModelFallback } from "@shared/types/agentRole";
 import { getDb, getMasterDbId, COLLECTIONS, ID, Query } from "~/lib/db/appwrite";
 import { logger } from "~/lib/utils/logger";
 
 type RoleDoc = Record<string, unknown>;
 
+// Shared by the /api/roles routes
+export const RoleModelFallbackSchema = z.object({
+  providerId: z.string().min(1),
+  modelName: z.string().min(1).max(100),
+});
+
+function parseFallbacks(raw: unknown): RoleModelFallback[] {
+  if (typeof raw !== "string" || !raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed as RoleModelFallback[] : [];
+  } catch {
+    return [];
+  }
+}
+
 function docToRole(doc: RoleDoc): AgentRole {
   return {
     id: doc.$id as string,
@@ -21,8 +38,10 @@ function docToRole(doc: RoleDoc): AgentRole {
     isLocked: doc.is_locked as boolean ?? false,
     timeoutMs: (doc.timeout_ms as number) ?? 60_000,
     maxRetries: (doc.max_retries as number) ?? 2,
+    fallbacks: parseFallbacks(doc.fallbacks),
     outputFormat: (doc.output_format as "freetext" | "json") ?? "freetext",
     includeNitPrompt: doc.include_nit_prompt as boolean ?? false,
+    requiresApproval: doc.requires_approval as boolean ?? false,
     temperature: (doc.temperature as number) ?? 0.5,
     createdAt: (doc.created_at as string) ?? "",
     updatedAt: (doc.updated_at as string) ?? "",
@@ -41,8 +60,10 @@ function roleToDoc(data: Partial<AgentRole>): Record<string, unknown> {
   if (data.isLocked !== undefined) map.is_locked = data.isLocked;
   if (data.timeoutMs !== undefined) map.timeout_ms = data.timeoutMs;
   if (data.maxRetries !== undefined) map.max_retries = data.maxRetries;
+  if (data.fallbacks !== undefined) map.fallbacks = JSON.stringify(data.fallbacks);
   if (data.outputFormat !== undefined) map.output_format = data.outputFormat;
   if (data.includeNitPrompt !== undefined) map.include_nit_prompt = data.includeNitPrompt;
+  if (data.requiresApproval !== undefined) map.requires_approval = data.requiresApproval;
   if (data.temperature !== undefined) map.temperature = data.temperature;
   if (data.createdAt !== undefined) map.created_at = data.createdAt;
   if (data.updatedAt !== undefined) map.updated_at = data.updatedAt;
@@ -0,0 +1,247 @@
+/**
+ * Session Store — persistence backends for pipeline AgentMemory.
+ *
+ * agentPipeline keeps a RAM cache on top of one of these stores, so a restart
+ * or deploy only drops the cache, not what previous agents said.
+ *
+ * Backend is chosen by SESSION_STORE:
+ * - "appwrite" (default): pipeline_sessions collection in the master DB
+ * - "file": one JSON file per session in SESSION_STORE_DIR (default data/sessions)
+ * - "memory": process-local only (tests, throwaway dev runs)
+ */
+
+import { mkdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import type { AgentMemory, AgentStep, ChainCheckpoint } from "@shared/types/agentRole";
+import { getDb, getMasterDbId, COLLECTIONS } from "~/lib/db/appwrite";
+
+export interface SessionStore {
+  load(sessionId: string): Promise<AgentMemory | null>;
+  save(memory: AgentMemory): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+}
+
+export type SessionStoreKind = "appwrite" | "file" | "memory";
+
+// ─── Memory ──────────────────────────────────────────────
+
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, AgentMemory>();
+
+  async load(sessionId: string): Promise<AgentMemory | null> {
+    const memory = this.sessions.get(sessionId);
+    return memory ? cloneMemory(memory) : null;
+  }
+
+  async save(memory: AgentMemory): Promise<void> {
+    this.sessions.set(memory.sessionId, cloneMemory(memory));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+}
+
+// ─── Local file ──────────────────────────────────────────
+
+/**
+ * Writes of one session run one after another, each to a temp file renamed
+ * over the old one, so overlapping saves land in call order and a crash
+ * mid-write never leaves a truncated session behind.
+ */
+export class FileSessionStore implements SessionStore {
+  private dir: string;
+  private queues = new Map<string, Promise<void>>();
+  private tempCounter = 0;
+
+  constructor(dir: string) {
+    this.dir = resolve(dir);
+  }
+
+  private pathFor(sessionId: string): string {
+    const safeId = sessionId.replace(/[^\w.-]/g, "_");
+    return join(this.dir, `${safeId}.json`);
+  }
+
+  async load(sessionId: string): Promise<AgentMemory | null> {
+    let raw: string;
+    try {
+      raw = await readFile(this.pathFor(sessionId), "utf-8");
+    } catch {
+      return null;
+    }
+    return parseMemory(raw);
+  }
+
+  async save(memory: AgentMemory): Promise<void> {
+    // Serialized now — the caller keeps mutating memory while the write waits its turn.
+    // Project files are request-scoped and reloaded from the versions
+    const raw = JSON.stringify({ ...memory, projectFiles: undefined });
+    const path = this.pathFor(memory.sessionId);
+    const temp = `${path}.${process.pid}.${++this.tempCounter}.tmp`;
+
+    await this.enqueue(memory.sessionId, async () => {
+      await mkdir(this.dir, { recursive: true });
+      try {
+        await writeFile(temp, raw, "utf-8");
+        await rename(temp, path);
+      } catch (err) {
+        await rm(temp, { force: true });
+        throw err;
+      }
+    });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.enqueue(sessionId, () => rm(this.pathFor(sessionId), { force: true }));
+  }
+
+  /** Runs task after every earlier write of the session, failed ones included. */
+  private enqueue(sessionId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.queues.get(sessionId) ?? Promise.resolve();
+    const next = previous.catch(() => {}).then(task);
+    this.queues.set(sessionId, next);
+    const forget = () => {
+      if (this.queues.get(sessionId) === next) this.queues.delete(sessionId);
+    };
+    next.then(forget, forget);
+    return next;
+  }
+}
+
+// ─── Appwrite ────────────────────────────────────────────
+
+type SessionDoc = Record<string, unknown>;
+
+export class AppwriteSessionStore implements SessionStore {
+  async load(sessionId: string): Promise<AgentMemory | null> {
+    const db = getDb();
+    let doc: SessionDoc;
+    try {
+      doc = (await db.getDocument(
+        getMasterDbId(),
+        COLLECTIONS.PIPELINE_SESSIONS,
+        sessionId,
+      )) as unknown as SessionDoc;
+    } catch {
+      return null;
+    }
+
+    let steps: AgentStep[] = [];
+    try {
+      const parsed = JSON.parse((doc.steps as string) ?? "[]");
+      if (Array.isArray(parsed)) steps = parsed as AgentStep[];
+    } catch {
+      // Corrupted steps payload — treat as an empty session
+    }
+
+    return {
+      sessionId,
+      projectId: (doc.project_id as string) ?? "",
+      steps,
+      chainCheckpoint: parseCheckpoint(doc.chain_checkpoint),
+      createdAt: (doc.created_at as string) ?? "",
+      lastActivity: (doc.last_activity as string) ?? "",
+    };
+  }
+
+  async save(memory: AgentMemory): Promise<void> {
+    const db = getDb();
+    const masterDbId = getMasterDbId();
+    const data = {
+      project_id: memory.projectId,
+      steps: JSON.stringify(memory.steps),
+      chain_checkpoint: memory.chainCheckpoint ? JSON.stringify(memory.chainCheckpoint) : "",
+      created_at: memory.createdAt,
+      last_activity: memory.lastActivity,
+    };
+
+    try {
+      await db.updateDocument(masterDbId, COLLECTIONS.PIPELINE_SESSIONS, memory.sessionId, data);
+    } catch {
+      await db.createDocument(masterDbId, COLLECTIONS.PIPELINE_SESSIONS, memory.sessionId, data);
+    }
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const db = getDb();
+    try {
+      await db.deleteDocument(getMasterDbId(), COLLECTIONS.PIPELINE_SESSIONS, sessionId);
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+// ─── Factory ─────────────────────────────────────────────
+
+const DEFAULT_SESSION_DIR = "data/sessions";
+
+export function createSessionStore(
+  kind: SessionStoreKind,
+  options?: { dir?: string },
+): SessionStore {
+  switch (kind) {
+    case "file":
+      return new FileSessionStore(options?.dir ?? DEFAULT_SESSION_DIR);
+    case "memory":
+      return new MemorySessionStore();
+    default:
+      return new AppwriteSessionStore();
+  }
+}
+
+let storeInstance: SessionStore | null = null;
+
+export function getSessionStore(): SessionStore {
+  if (storeInstance) return storeInstance;
+
+  const kind = (process.env.SESSION_STORE ?? "appwrite") as SessionStoreKind;
+  storeInstance = createSessionStore(kind, { dir: process.env.SESSION_STORE_DIR });
+  return storeInstance;
+}
+
+// ─── Helpers ─────────────────────────────────────────────
+
+function cloneMemory(memory: AgentMemory): AgentMemory {
+  return {
+    ...memory,
+    steps: memory.steps.map((s) => ({ ...s })),
+    chainCheckpoint: memory.chainCheckpoint ? structuredClone(memory.chainCheckpoint) : undefined,
+  };
+}
+
+/** Checkpoint from a JSON string (Appwrite) or an already parsed object (file). */
+function parseCheckpoint(raw: unknown): ChainCheckpoint | undefined {
+  let value = raw;
+  if (typeof raw === "string") {
+    if (!raw) return undefined;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+  const checkpoint = value as Partial<ChainCheckpoint> | null | undefined;
+  if (!checkpoint || !Array.isArray(checkpoint.remainingRoleIds) || !Array.isArray(checkpoint.rerunRoleIds)) {
+    return undefined;
+  }
+  return checkpoint as ChainCheckpoint;
+}
+
+function parseMemory(raw: string): AgentMemory | null {
+  try {
+    const parsed = JSON.parse(raw) as Partial<AgentMemory>;
+    if (!parsed.sessionId || !Array.isArray(parsed.steps)) return null;
+    return {
+      sessionId: parsed.sessionId,
+      projectId: parsed.projectId ?? "",
+      steps: parsed.steps,
+      chainCheckpoint: parseCheckpoint(parsed.chainCheckpoint),
+      createdAt: parsed.createdAt ?? "",
+      lastActivity: parsed.lastActivity ?? "",
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,106 @@
+/**
+ * Tester Verdict — structured QA protocol.
+ *
+ * The Tester answers with a JSON verdict (per-file issues with severity,
+ * line and suggested fix). The orchestrator uses it to decide fix cycles
+ * and forwards only failing (critical) issues to the Coder.
+ */
+
+import { z } from "zod";
+import type { TesterIssue, TesterIssueSeverity, TesterVerdict } from "@shared/types/agentRole";
+import type { PromptLocale } from "@shared/types/promptLocale";
+import { getPromptPack } from "~/lib/server/llm/promptPacks";
+
+// ─── Schema ──────────────────────────────────────────────
+
+const SEVERITY_ALIASES: Record<string, TesterIssueSeverity> = {
+  critical: "critical",
+  blocker: "critical",
+  error: "critical",
+  high: "critical",
+  warning: "warning",
+  major: "warning",
+  medium: "warning",
+  info: "info",
+  minor: "info",
+  low: "info",
+};
+
+const SeveritySchema = z.preprocess(
+  (v) => (typeof v === "string" ? SEVERITY_ALIASES[v.trim().toLowerCase()] ?? v : v),
+  z.enum(["critical", "warning", "info"]),
+);
+
+const IssueSchema = z.object({
+  file: z.string().default(""),
+  line: z.coerce.number().int().positive().nullish().transform((v) => v ?? undefined),
+  severity: SeveritySchema,
+  message: z.string().min(1),
+  suggestedFix: z.string().nullish().transform((v) => v || undefined),
+});
+
+const VerdictSchema = z.object({
+  verdict: z.preprocess(
+    (v) => (typeof v === "string" ? v.trim().toLowerCase() : v),
+    z.enum(["pass", "fail"]),
+  ).optional(),
+  summary: z.string().default(""),
+  issues: z.array(IssueSchema).default([]),
+});
+
+// ─── Parsing ─────────────────────────────────────────────
+
+function extractJson(text: string): unknown | undefined {
+  try { return JSON.parse(text); } catch {}
+
+  const mdMatch = text.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  if (mdMatch?.[1]) {
+    try { return JSON.parse(mdMatch[1]); } catch {}
+  }
+
+  const first = text.indexOf("{");
+  const last = text.lastIndexOf("}");
+  if (first !== -1 && last > first) {
+    try { return JSON.parse(text.slice(first, last + 1)); } catch {}
+  }
+
+  return undefined;
+}
+
+/** Parse and validate the Tester output. Returns null if it is not a valid verdict. */
+export function parseTesterVerdict(output: string): TesterVerdict | null {
+  const raw = extractJson(output.trim());
+  if (raw === undefined) return null;
+
+  const parsed = VerdictSchema.safeParse(raw);
+  if (!parsed.success) return null;
+
+  const issues: TesterIssue[] = parsed.data.issues;
+  const hasCritical = issues.some((i) => i.severity === "critical");
+
+  return {
+    // A "pass" with critical issues is contradictory — issues win
+    verdict: hasCritical ? "fail" : parsed.data.verdict ?? "pass",
+    summary: parsed.data.summary,
+    issues,
+  };
+}
+
+export function getFailingIssues(verdict: TesterVerdict): TesterIssue[] {
+  return verdict.issues.filter((i) => i.severity === "critical");
+}
+
+/** Fix instructions for the Coder — only the failing issues, nothing else. */
+export function buildFixInstructions(issues: TesterIssue[], locale?: PromptLocale): string {
+  const { fixes } = getPromptPack(locale);
+  const lines = issues.map((issue, i) => {
+    const location = issue.line ? `${issue.file}:${issue.line}` : issue.file || "—";
+    const fix = issue.suggestedFix ? `\n   ${fixes.suggestedFix}: ${issue.suggestedFix}` : "";
+    return `${i + 1}. [${location}] ${issue.message}${fix}`;
+  });
+
+  return `${fixes.tester}
+${lines.join("\n")}
+
+${fixes.closing}`;
+}
@@ -1,5 +1,6 @@
 import { create } from "zustand";
 import type { ChatMessage, StreamingState } from "@shared/types/message";
+import { MAIN_BRANCH_ID, type ConversationBranch } from "@shared/types/branch";
 
 type ProjectChatSnapshot = {
   messages: ChatMessage[];
@@ -10,21 +11,29 @@ type ChatState = {
   messages: ChatMessage[];
   streaming: StreamingState;
   generatedCode: Record<string, string>;
-  projectCache: Record<string, ProjectChatSnapshot>;
+  projectCache: Record<string, ProjectChatSnapshot>; // keyed by project and branch
   isChatLoading: boolean;
+  branches: ConversationBranch[];
+  currentBranchId: string;
 };
 
 type ChatActions = {
   addMessage: (message: ChatMessage) => void;
   updateLastAssistantMessage: (content: string) => void;
+  updateMessage: (id: string, patch: Partial<ChatMessage>) => void;
   clearMessages: () => void;
+  truncateFrom: (id: string) => void;
   setStreaming: (state: Partial<StreamingState>) => void;
   setGeneratedCode: (files: Record<string, string>) => void;
   updateGeneratedFile: (filePath: string, content: string) => void;
   resetChat: () => void;
   saveProjectChat: (projectId: string) => void;
-  loadProjectChat: (projectId: string) => Promise<void>;
+  loadProjectChat: (projectId: string, branchId?: string) => Promise<void>;
   persistToDb: (projectId: string) => void;
+  loadBranches: (projectId: string) => Promise<void>;
+  forkBranch: (projectId: string, messageId: string, sessionId: string | null) => Promise<ConversationBranch>;
+  deleteBranch: (projectId: string, branchId: string) => Promise<void>;
+  setBranchSession: (projectId: string, branchId: string, sessionId: string | null) => void;
 };
 
 const INITIAL_STREAMING: StreamingState = {
@@ -33,9 +42,15 @@ const INITIAL_STREAMING: StreamingState = {
   error: null,
 };
 
-async function fetchMessagesFromApi(projectId: string): Promise<ChatMessage[]> {
+function cacheKey(projectId: string, branchId: string): string {
+  return branchId === MAIN_BRANCH_ID ? projectId : `${projectId}:${branchId}`;
+}
+
+async function fetchMessagesFromApi(projectId: string, branchId: string): Promise<ChatMessage[]> {
   try {
-    const res = await fetch(`/api/messages?projectId=${encodeURIComponent(projectId)}`);
+    const res = await fetch(
+      `/api/messages?projectId=${encodeURIComponent(projectId)}&branchId=${encodeURIComponent(branchId)}`,
+    );
     if (!res.ok) return [];
     const json = await res.json();
     return json.data ?? [];
@@ -44,11 +59,11 @@ async function fetchMessagesFromApi(projectId: string): Promise<ChatMessage[]> {
   }
 }
 
-function saveMessagesToApi(projectId: string, messages: ChatMessage[]): void {
+function saveMessagesToApi(projectId: string, branchId: string, messages: ChatMessage[]): void {
   fetch("/api/messages", {
     method: "PUT",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ projectId, messages }),
+    body: JSON.stringify({ projectId, branchId, messages }),
   }).catch(() => {});
 }
 
@@ -58,6 +73,8 @@ export const useChatStore = create<ChatState & ChatActions>((set, get) => ({
   generatedCode: {},
   projectCache: {},
   isChatLoading: false,
+  branches: [],
+  currentBranchId: MAIN_BRANCH_ID,
 
   addMessage: (message) =>
     set((state) => ({ messages: [...state.messages, message] })),
@@ -72,8 +89,19 @@ export const useChatStore = create<ChatState & ChatActions>((set, get) => ({
       return { messages };
     }),
 
+  updateMessage: (id, patch) =>
+    set((state) => ({
+      messages: state.messages.map((m) => (m.id === id ? { ...m, ...patch } : m)),
+    })),
+
   clearMessages: () => set({ messages: [] }),
 
+  truncateFrom: (id) =>
+    set((state) => {
+      const index = state.messages.findIndex((m) => m.id === id);
+      return index === -1 ? {} : { messages: state.messages.slice(0, index) };
+    }),
+
   setStreaming: (partial) =>
     set((state) => ({ streaming: { ...state.streaming, ...partial } })),
 
@@ -92,29 +120,30 @@ export const useChatStore = create<ChatState & ChatActions>((set, get) => ({
     }),
 
   saveProjectChat: (projectId) => {
-    const { messages, generatedCode } = get();
+    const { messages, generatedCode, currentBranchId } = get();
     if (messages.length === 0 && Object.keys(generatedCode).length === 0) return;
 
     set((state) => ({
       projectCache: {
         ...state.projectCache,
-        [projectId]: { messages: [...messages], generatedCode: { ...generatedCode } },
+        [cacheKey(projectId, currentBranchId)]: { messages: [...messages], generatedCode: { ...generatedCode } },
       },
     }));
 
-    saveMessagesToApi(projectId, messages);
+    saveMessagesToApi(projectId, currentBranchId, messages);
   },
 
   persistToDb: (projectId) => {
-    const { messages } = get();
+    const { messages, currentBranchId } = get();
     if (messages.length === 0) return;
-    saveMessagesToApi(projectId, messages);
+    saveMessagesToApi(projectId, currentBranchId, messages);
   },
 
-  loadProjectChat: async (projectId) => {
+  loadProjectChat: async (projectId, branchId = MAIN_BRANCH_ID) => {
     if (get().streaming.isStreaming) return;
 
-    const cached = get().projectCache[projectId];
+    const key = cacheKey(projectId, branchId);
+    const cached = get().projectCache[key];
 
     if (cached) {
       set({
@@ -122,13 +151,14 @@ export const useChatStore = create<ChatState & ChatActions>((set, get) => ({
         generatedCode: cached.generatedCode,
         streaming: INITIAL_STREAMING,
         isChatLoading: false,
+        currentBranchId: branchId,
       });
       return;
     }
 
-    set({ isChatLoading: true });
+    set({ isChatLoading: true, currentBranchId: branchId });
 
-    const dbMessages = await fetchMessagesFromApi(projectId);
+    const dbMessages = await fetchMessagesFromApi(projectId, branchId);
 
     set((state) => ({
       messages: dbMessages,
@@ -138,9 +168,84 @@ export const useChatStore = create<ChatState & ChatActions>((set, get) => ({
       projectCache: dbMessages.length > 0
         ? {
             ...state.projectCache,
-            [projectId]: { messages: dbMessages, generatedCode: {} },
+            [key]: { messages: dbMessages, generatedCode: {} },
           }
         : state.projectCache,
     }));
   },
+
+  loadBranches: async (projectId) => {
+    try {
+      const res = await fetch(`/api/branches?projectId=${encodeURIComponent(projectId)}`);
+      const json = res.ok ? ((await res.json()) as { data?: ConversationBranch[] }) : {};
+      set({ branches: json.data ?? [] });
+    } catch {
+      // Branches are optional — the chat keeps working on main
+      set({ branches: [] });
+    }
+  },
+
+  forkBranch: async (projectId, messageId, sessionId) => {
+    const { currentBranchId } = get();
+    const res = await fetch("/api/branches", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        projectId,
+        sourceBranchId: currentBranchId,
+        messageId,
+        sessionId: sessionId ?? undefined,
+      }),
+    });
+    const json = (await res.json().catch(() => ({}))) as {
+      data?: { branch: ConversationBranch; messages: ChatMessage[] };
+      error?: string;
+    };
+    if (!res.ok || !json.data) {
+      throw new Error(json.error ?? "Не удалось создать ветку");
+    }
+
+    const { branch, messages } = json.data;
+    set((state) => ({
+      branches: [...state.branches, branch],
+      projectCache: {
+        ...state.projectCache,
+        [cacheKey(projectId, branch.id)]: { messages, generatedCode: {} },
+      },
+    }));
+    return branch;
+  },
+
+  deleteBranch: async (projectId, branchId) => {
+    const res = await fetch("/api/branches", {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ projectId, branchId }),
+    });
+    if (!res.ok) {
+      const json = (await res.json().catch(() => ({}))) as { error?: string };
+      throw new Error(json.error ?? "Не удалось удалить ветку");
+    }
+
+    set((state) => {
+      const { [cacheKey(projectId, branchId)]: _removed, ...projectCache } = state.projectCache;
+      return {
+        branches: state.branches.filter((b) => b.id !== branchId),
+        projectCache,
+      };
+    });
+  },
+
+  setBranchSession: (projectId, branchId, sessionId) => {
+    const branch = get().branches.find((b) => b.id === branchId);
+    if (!branch || branch.sessionId === sessionId) return;
+    set((state) => ({
+      branches: state.branches.map((b) => (b.id === branchId ? { ...b, sessionId } : b)),
+    }));
+    fetch("/api/branches", {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ projectId, branchId, sessionId }),
+    }).catch(() => {});
+  },
 }));
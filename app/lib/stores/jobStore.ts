@@ -0,0 +1,42 @@
+import { create } from "zustand";
+import type { PipelineJobSummary } from "@shared/types/pipelineJob";
+
+type JobState = {
+  jobs: PipelineJobSummary[];   // jobs of the current project, newest first
+  activeJobId: string | null;   // the job this tab is streaming
+};
+
+type JobActions = {
+  loadJobs: (projectId: string) => Promise<void>;
+  cancelJob: (jobId: string) => Promise<void>;
+  setActiveJobId: (jobId: string | null) => void;
+};
+
+export const useJobStore = create<JobState & JobActions>((set, get) => ({
+  jobs: [],
+  activeJobId: null,
+
+  loadJobs: async (projectId) => {
+    try {
+      const res = await fetch(`/api/pipeline/jobs?projectId=${encodeURIComponent(projectId)}`);
+      if (!res.ok) return;
+      const data = (await res.json()) as { jobs: PipelineJobSummary[] };
+      set({ jobs: data.jobs });
+    } catch {
+      // Keep the last known list
+    }
+  },
+
+  cancelJob: async (jobId) => {
+    const res = await fetch(`/api/pipeline/jobs/${encodeURIComponent(jobId)}`, { method: "DELETE" });
+    if (!res.ok) {
+      const err = (await res.json().catch(() => ({}))) as { error?: string };
+      throw new Error(err.error ?? `HTTP ${res.status}`);
+    }
+    set({
+      jobs: get().jobs.map((job) => (job.id === jobId ? { ...job, status: "cancelled" } : job)),
+    });
+  },
+
+  setActiveJobId: (jobId) => set({ activeJobId: jobId }),
+}));
@@ -1,17 +1,48 @@
 import { create } from "zustand";
-import type { AgentRole, RoleSelection, PipelineEvent } from "@shared/types/agentRole";
+import type {
+  AgentRole,
+  ApprovalDecision,
+  ChainCommand,
+  CodeDiagnostic,
+  OrchestratorPlan,
+  RoleSelection,
+  PipelineEvent,
+  StepUsage,
+  TesterVerdict,
+} from "@shared/types/agentRole";
 import { CHAIN_ROLE_ID } from "@shared/types/agentRole";
+import type { PipelineDefinition } from "@shared/types/pipelineDefinition";
+import { useSettingsStore } from "./settingsStore";
 
 type PipelineStatus = "idle" | "selecting" | "running" | "chain_running" | "error";
 
 type ChainStep = {
   roleName: string;
-  status: "pending" | "running" | "done" | "error";
+  stepId?: string; // latest run of the role — chain commands address it
+  status: "pending" | "running" | "awaiting_approval" | "failed" | "skipped" | "done" | "error";
   durationMs?: number;
+  usage?: StepUsage;
+};
+
+export type ContinuationStatus = Omit<Extract<PipelineEvent, { type: "continuation" }>, "type">;
+export type QueueStatus = Omit<Extract<PipelineEvent, { type: "queued" }>, "type">;
+
+export type PendingApproval = Omit<Extract<PipelineEvent, { type: "approval_required" }>, "type">;
+export type PendingQuestions = Omit<Extract<PipelineEvent, { type: "clarifying_questions" }>, "type">;
+
+/** Chain plan proposed for a prompt, waiting for the user to launch it. */
+export type PlanPreview = {
+  prompt: string;
+  projectId: string;
+  sessionId: string;
+  pipelineId?: string; // stored pipeline the plan was made for — the launch runs the same one
+  plan: OrchestratorPlan;
 };
 
 type RoleState = {
   roles: AgentRole[];
+  pipelines: PipelineDefinition[];
+  selectedPipelineId: string; // chain mode: stored pipeline to run, "" for the default one
   selection: RoleSelection;
   pipelineSessionId: string | null;
   pipelineStatus: PipelineStatus;
@@ -23,12 +54,23 @@ type RoleState = {
   currentModel: string | null;
   currentProvider: string | null;
   stepStartTime: number | null;
+  lastStepUsage: StepUsage | null;
+  continuation: ContinuationStatus | null; // current step is being continued after a cut-off
+  queue: QueueStatus | null;               // current step waits for a provider / model slot
+  testerVerdict: TesterVerdict | null;
+  codeDiagnostics: CodeDiagnostic[] | null; // latest headless check of the Coder's files
+  pendingApprovals: PendingApproval[];
+  pendingQuestions: PendingQuestions | null; // kept after "done" — answered by the next message
+  planPreview: PlanPreview | null;
+  isPlanning: boolean;
   isLoading: boolean;
   error: string | null;
 };
 
 type RoleActions = {
   loadRoles: () => Promise<void>;
+  loadPipelines: () => Promise<void>;
+  setSelectedPipeline: (pipelineId: string) => void;
   setRoleSelection: (roleId: string) => void;
   setLocalContext: (text: string) => void;
   clearLocalContext: () => void;
@@ -36,11 +78,18 @@ type RoleActions = {
   setChainMode: (isChain: boolean) => void;
   // Pipeline event handlers
   handlePipelineEvent: (event: PipelineEvent) => void;
+  submitApproval: (stepId: string, decision: ApprovalDecision) => Promise<void>;
+  sendChainCommand: (command: ChainCommand) => Promise<void>;
+  dismissQuestions: () => void;
+  requestPlan: (projectId: string, prompt: string, branchId?: string) => Promise<void>;
+  clearPlanPreview: () => void;
   resetPipeline: () => void;
 };
 
 export const useRoleStore = create<RoleState & RoleActions>((set, get) => ({
   roles: [],
+  pipelines: [],
+  selectedPipelineId: "",
   selection: { roleId: CHAIN_ROLE_ID, localContext: "" },
   pipelineSessionId: null,
   pipelineStatus: "idle",
@@ -52,13 +101,23 @@ export const useRoleStore = create<RoleState & RoleActions>((set, get) => ({
   currentModel: null,
   currentProvider: null,
   stepStartTime: null,
+  lastStepUsage: null,
+  continuation: null,
+  queue: null,
+  testerVerdict: null,
+  codeDiagnostics: null,
+  pendingApprovals: [],
+  pendingQuestions: null,
+  planPreview: null,
+  isPlanning: false,
   isLoading: false,
   error: null,
 
   loadRoles: async () => {
     set({ isLoading: true, error: null });
     try {
-      const res = await fetch("/api/roles?active=true");
+      const language = useSettingsStore.getState().language;
+      const res = await fetch(`/api/roles?active=true&language=${language}`);
       if (!res.ok) throw new Error("Failed to load roles");
       const json = await res.json();
       set({ roles: json.roles ?? [], isLoading: false });
@@ -68,6 +127,22 @@ export const useRoleStore = create<RoleState & RoleActions>((set, get) => ({
     }
   },
 
+  loadPipelines: async () => {
+    try {
+      const res = await fetch("/api/pipelines");
+      if (!res.ok) throw new Error("Failed to load pipelines");
+      const json = await res.json();
+      const pipelines: PipelineDefinition[] = json.pipelines ?? [];
+      // A deleted pipeline falls back to the default one
+      const selected = get().selectedPipelineId;
+      set({ pipelines, selectedPipelineId: pipelines.some((p) => p.id === selected) ? selected : "" });
+    } catch {
+      set({ pipelines: [] });
+    }
+  },
+
+  setSelectedPipeline: (pipelineId) => set({ selectedPipelineId: pipelineId, planPreview: null }),
+
   setRoleSelection: (roleId) =>
     set((s) => ({ selection: { ...s.selection, roleId } })),
 
@@ -100,12 +175,9 @@ export const useRoleStore = create<RoleState & RoleActions>((set, get) => ({
           // In chain mode, dynamically build chain steps from server events
           if (state.chainTotal > 0 || state.chainSteps.length > 0) {
             const existing = state.chainSteps.find((s) => s.roleName === event.roleName);
-            if (!existing) {
-              newState.chainSteps = [
-                ...state.chainSteps,
-                { roleName: event.roleName, status: "pending" as const },
-              ];
-            }
+            newState.chainSteps = existing
+              ? state.chainSteps.map((s) => (s === existing ? { ...s, stepId: event.stepId } : s))
+              : [...state.chainSteps, { roleName: event.roleName, stepId: event.stepId, status: "pending" as const }];
           }
           return newState;
         });
@@ -118,6 +190,8 @@ export const useRoleStore = create<RoleState & RoleActions>((set, get) => ({
           currentModel: event.model,
           currentProvider: event.provider,
           stepStartTime: Date.now(),
+          continuation: null,
+          queue: null,
           chainSteps: get().chainSteps.map((s) =>
             s.roleName === event.roleName ? { ...s, status: "running" as const } : s,
           ),
@@ -128,10 +202,82 @@ export const useRoleStore = create<RoleState & RoleActions>((set, get) => ({
         set({
           chainSteps: get().chainSteps.map((s) =>
             s.roleName === event.roleName
-              ? { ...s, status: "done" as const, durationMs: event.durationMs }
+              ? { ...s, status: "done" as const, durationMs: event.durationMs, usage: event.usage }
+              : s,
+          ),
+          stepStartTime: null,
+          lastStepUsage: event.usage ?? null,
+          continuation: null,
+          queue: null,
+        });
+        break;
+
+      case "continuation": {
+        const { type: _type, ...continuation } = event;
+        set({ continuation });
+        break;
+      }
+
+      case "queued": {
+        const { type: _type, ...queue } = event;
+        set({ queue });
+        break;
+      }
+
+      case "text":
+        // The slot was granted once tokens flow
+        if (get().queue) set({ queue: null });
+        break;
+
+      case "approval_required": {
+        const { type: _type, ...approval } = event;
+        set({
+          pendingApprovals: [...get().pendingApprovals.filter((a) => a.stepId !== event.stepId), approval],
+          chainSteps: get().chainSteps.map((s) =>
+            s.roleName === event.roleName ? { ...s, status: "awaiting_approval" as const } : s,
+          ),
+        });
+        break;
+      }
+
+      case "approval_resolved":
+        set({
+          pendingApprovals: get().pendingApprovals.filter((a) => a.stepId !== event.stepId),
+          chainSteps: get().chainSteps.map((s) =>
+            s.roleName === event.roleName
+              ? { ...s, status: event.action === "reject" ? "running" as const : "done" as const }
               : s,
           ),
+        });
+        break;
+
+      case "clarifying_questions":
+        set({ pendingQuestions: { roleName: event.roleName, questions: event.questions, stepId: event.stepId } });
+        break;
+
+      case "tester_verdict":
+        set({ testerVerdict: event.verdict });
+        break;
+
+      case "diagnostics":
+        set({ codeDiagnostics: event.diagnostics });
+        break;
+
+      case "step_failed":
+        set({
           stepStartTime: null,
+          chainSteps: get().chainSteps.map((s) =>
+            s.stepId === event.stepId ? { ...s, status: "failed" as const } : s,
+          ),
+        });
+        break;
+
+      case "step_skipped":
+        set({
+          stepStartTime: null,
+          chainSteps: get().chainSteps.map((s) =>
+            s.stepId === event.stepId ? { ...s, status: "skipped" as const } : s,
+          ),
         });
         break;
 
@@ -154,11 +300,69 @@ export const useRoleStore = create<RoleState & RoleActions>((set, get) => ({
         break;
 
       case "done":
-        set({ pipelineStatus: "idle", stepStartTime: null });
+        set({ pipelineStatus: "idle", stepStartTime: null, pendingApprovals: [] });
         break;
     }
   },
 
+  submitApproval: async (stepId, decision) => {
+    const sessionId = get().pipelineSessionId;
+    if (!sessionId) throw new Error("Нет активной сессии");
+    const res = await fetch("/api/pipeline/approve", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sessionId, stepId, ...decision }),
+    });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      throw new Error(data.error ?? "Не удалось отправить решение");
+    }
+  },
+
+  sendChainCommand: async (command) => {
+    const sessionId = get().pipelineSessionId;
+    if (!sessionId) throw new Error("Нет активной сессии");
+    const res = await fetch("/api/pipeline/control", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ sessionId, ...command }),
+    });
+    if (!res.ok) {
+      const data = (await res.json().catch(() => ({}))) as { error?: string };
+      throw new Error(data.error ?? "Не удалось отправить команду");
+    }
+  },
+
+  dismissQuestions: () => set({ pendingQuestions: null }),
+
+  requestPlan: async (projectId, prompt, branchId) => {
+    set({ isPlanning: true, planPreview: null });
+    const pipelineId = get().selectedPipelineId || undefined;
+    try {
+      const res = await fetch("/api/pipeline/plan", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          projectId,
+          sessionId: get().pipelineSessionId ?? undefined,
+          branchId,
+          message: prompt,
+          language: useSettingsStore.getState().language,
+          pipelineId,
+        }),
+      });
+      const data = (await res.json().catch(() => ({}))) as { sessionId?: string; plan?: OrchestratorPlan; error?: string };
+      if (!res.ok || !data.plan || !data.sessionId) {
+        throw new Error(data.error ?? "Не удалось составить план");
+      }
+      set({ planPreview: { prompt, projectId, sessionId: data.sessionId, pipelineId, plan: data.plan } });
+    } finally {
+      set({ isPlanning: false });
+    }
+  },
+
+  clearPlanPreview: () => set({ planPreview: null }),
+
   resetPipeline: () =>
     set({
       pipelineStatus: "idle",
@@ -170,6 +374,13 @@ export const useRoleStore = create<RoleState & RoleActions>((set, get) => ({
       currentModel: null,
       currentProvider: null,
       stepStartTime: null,
+      lastStepUsage: null,
+      continuation: null,
+      queue: null,
+      testerVerdict: null,
+      codeDiagnostics: null,
+      pendingApprovals: [],
+      pendingQuestions: null,
       error: null,
     }),
 }));
@@ -1,3 +1,5 @@
+import { applyPatch } from "./patchApplier";
+
 const FILE_MARKER = /^\/\/\s*===\s*FILE:\s*(.+?)\s*===\s*$/;
 const HTML_COMMENT_MARKER = /^<!--\s*FILE:\s*(.+?)\s*-->$/;
 const HASH_MARKER = /^#\s*===\s*FILE:\s*(.+?)\s*===\s*$/;
@@ -163,17 +165,52 @@ function stripArtifactWrapper(text: string): string {
   return cleaned.trim();
 }
 
-const NIT_ACTION_RE_FLEX = /<(?:nit|bolt)Action\s+(?=(?:[^>]*?\btype\s*=\s*"file"))(?=[^>]*?\bfilePath\s*=\s*"([^"]+)")[^>]*>([\s\S]*?)<\/(?:nit|bolt)Action\s*>/gi;
+const NIT_ACTION_RE_FLEX = /<(?:nit|bolt)Action\s+(?=(?:[^>]*?\btype\s*=\s*"(file|patch)"))(?=[^>]*?\bfilePath\s*=\s*"([^"]+)")[^>]*>([\s\S]*?)<\/(?:nit|bolt)Action\s*>/gi;
+
+export type PatchError = { filePath: string; message: string };
+
+export type ParseOptions = {
+  /** Current project files — `type="patch"` actions are applied on top of these */
+  baseFiles?: Record<string, string>;
+  onPatchError?: (error: PatchError) => void;
+};
+
+/** Patch bodies keep their leading whitespace — it is significant in diff context lines. */
+function trimPatchBody(content: string): string {
+  return content.replace(/^\s*\n/, "").replace(/\s+$/, "");
+}
+
+function applyPatchAction(
+  filePath: string,
+  patch: string,
+  files: Record<string, string>,
+  options: ParseOptions,
+): string | null {
+  const original = files[filePath] ?? options.baseFiles?.[filePath] ?? "";
+  const result = applyPatch(original, patch);
+  if (result.ok) return result.content;
+  options.onPatchError?.({ filePath, message: result.error });
+  return null;
+}
 
-function parseArtifactProtocol(text: string): Record<string, string> {
+function parseArtifactProtocol(text: string, options: ParseOptions = {}): Record<string, string> {
   const files: Record<string, string> = {};
 
   NIT_ACTION_RE_FLEX.lastIndex = 0;
   let match: RegExpExecArray | null;
   while ((match = NIT_ACTION_RE_FLEX.exec(text)) !== null) {
-    const filePath = match[1]?.trim();
-    const content = match[2]?.trim();
-    if (filePath && content) {
+    const type = match[1];
+    const filePath = match[2]?.trim();
+    if (!filePath) continue;
+
+    if (type === "patch") {
+      const patched = applyPatchAction(filePath, trimPatchBody(match[3] ?? ""), files, options);
+      if (patched !== null) files[filePath] = patched;
+      continue;
+    }
+
+    const content = match[3]?.trim();
+    if (content) {
       files[filePath] = content;
     }
   }
@@ -181,6 +218,10 @@ function parseArtifactProtocol(text: string): Record<string, string> {
   return files;
 }
 
+export function hasPatchActions(rawOutput: string): boolean {
+  return /<(?:nit|bolt)Action\s+[^>]*\btype\s*=\s*"patch"/i.test(rawOutput);
+}
+
 const ERROR_MESSAGE_RE = /^(Error:|TypeError:|ReferenceError:|SyntaxError:|terminated$)/i;
 
 const CODE_INDICATORS = [
@@ -292,7 +333,10 @@ function tryParseJsonStructure(text: string): Record<string, string> | null {
   return { "structure.json": formatted };
 }
 
-export function parseGeneratedCode(rawOutput: string): Record<string, string> {
+export function parseGeneratedCode(
+  rawOutput: string,
+  options: ParseOptions = {},
+): Record<string, string> {
   if (!rawOutput.trim()) return {};
 
   const cleaned = stripPreamble(stripThinkBlocks(rawOutput)).trim();
@@ -300,8 +344,10 @@ export function parseGeneratedCode(rawOutput: string): Record<string, string> {
 
   if (cleaned.length < 30 && ERROR_MESSAGE_RE.test(cleaned)) return {};
 
-  const artifactFiles = parseArtifactProtocol(cleaned);
+  const artifactFiles = parseArtifactProtocol(cleaned, options);
   if (Object.keys(artifactFiles).length > 0) return artifactFiles;
+  // Failed patches must not fall through to the raw-code heuristics below
+  if (hasPatchActions(cleaned)) return {};
 
   const hasArtifactWrapper = ARTIFACT_OPEN_RE.test(cleaned);
   const inner = hasArtifactWrapper ? stripArtifactWrapper(cleaned) : cleaned;
@@ -328,6 +374,29 @@ export function parseGeneratedCode(rawOutput: string): Record<string, string> {
   return { [filename]: inner };
 }
 
+/**
+ * Final code of a finished run: every assistant reply is parsed again from the
+ * code before the run, patches merged over it, full artifacts replacing it.
+ * Null when the run produced no files.
+ */
+export function mergeRunCode(
+  replies: Array<{ role: string; content: string }>,
+  baseFiles: Record<string, string>,
+): Record<string, string> | null {
+  let code = baseFiles;
+  let changed = false;
+  for (const message of replies) {
+    if (message.role !== "assistant" || !message.content) continue;
+    // Patches only carry the files they touch — merge them over the code so far
+    const isPatch = hasPatchActions(message.content);
+    const clean = sanitizeVersionCode(parseGeneratedCode(message.content, { baseFiles: code }));
+    if (Object.keys(clean).length === 0) continue;
+    code = isPatch ? { ...code, ...clean } : clean;
+    changed = true;
+  }
+  return changed ? code : null;
+}
+
 export function extractChatText(rawContent: string): string {
   const hasUnclosedThink = UNCLOSED_THINK_RE.test(
     rawContent.replace(THINK_BLOCK_RE, ""),
@@ -340,6 +409,9 @@ export function extractChatText(rawContent: string): string {
   cleaned = cleaned.replace(/<nitArtifact[\s\S]*$/i, "");
   cleaned = cleaned.replace(/<boltArtifact[\s\S]*?<\/boltArtifact>/gi, "");
   cleaned = cleaned.replace(/<boltArtifact[\s\S]*$/i, "");
+  // Structured clarifying questions are rendered as a form, not as text
+  cleaned = cleaned.replace(/<nitQuestions[\s\S]*?<\/nitQuestions>/gi, "");
+  cleaned = cleaned.replace(/<nitQuestions[\s\S]*$/i, "");
 
   const markerIdx = cleaned.search(/\/\/\s*===\s*FILE:\s*/);
   if (markerIdx > 0) {
@@ -402,19 +474,28 @@ export function detectLanguage(filePath: string): string {
 
 export type IncrementalFileCallback = (filePath: string, content: string) => void;
 
-const ACTION_OPEN_RE = /<(?:nit|bolt)Action\s+(?=(?:[^>]*?\btype\s*=\s*"file"))(?=[^>]*?\bfilePath\s*=\s*"([^"]+)")[^>]*>/gi;
+const ACTION_OPEN_RE = /<(?:nit|bolt)Action\s+(?=(?:[^>]*?\btype\s*=\s*"(file|patch)"))(?=[^>]*?\bfilePath\s*=\s*"([^"]+)")[^>]*>/gi;
 const ACTION_CLOSE_RE = /<\/(?:nit|bolt)Action\s*>/i;
 
+export type IncrementalParserOptions = {
+  /** Current content of a project file, used as the base for `type="patch"` actions */
+  getBaseFile?: (filePath: string) => string | undefined;
+  onPatchError?: (error: PatchError) => void;
+};
+
 export class IncrementalArtifactParser {
   private buffer = "";
   private currentFilePath: string | null = null;
+  private currentIsPatch = false;
   private currentContent = "";
   private files: Record<string, string> = {};
   private onFile: IncrementalFileCallback;
+  private options: IncrementalParserOptions;
   private mode: "xml" | "marker" | "detect" = "detect";
 
-  constructor(onFile: IncrementalFileCallback) {
+  constructor(onFile: IncrementalFileCallback, options: IncrementalParserOptions = {}) {
     this.onFile = onFile;
+    this.options = options;
   }
 
   push(chunk: string): void {
@@ -429,6 +510,7 @@ export class IncrementalArtifactParser {
   reset(): void {
     this.buffer = "";
     this.currentFilePath = null;
+    this.currentIsPatch = false;
     this.currentContent = "";
     this.files = {};
     this.mode = "detect";
@@ -478,27 +560,35 @@ export class IncrementalArtifactParser {
         const openMatch = ACTION_OPEN_RE.exec(this.buffer);
         if (!openMatch) return;
 
-        const filePath = openMatch[1]?.trim();
+        const filePath = openMatch[2]?.trim();
         if (!filePath) return;
 
         this.currentFilePath = filePath;
+        this.currentIsPatch = openMatch[1] === "patch";
         this.currentContent = "";
         this.buffer = this.buffer.slice(openMatch.index + openMatch[0].length);
       } else {
         const closeMatch = ACTION_CLOSE_RE.exec(this.buffer);
         if (!closeMatch) {
-          this.currentContent += this.buffer;
-          this.buffer = "";
+          // Hold back a possible partial closing tag split across chunks
+          const tagStart = this.buffer.lastIndexOf("<");
+          const keepFrom = tagStart !== -1 && this.buffer.length - tagStart < 14 ? tagStart : this.buffer.length;
+          this.currentContent += this.buffer.slice(0, keepFrom);
+          this.buffer = this.buffer.slice(keepFrom);
           return;
         }
 
         this.currentContent += this.buffer.slice(0, closeMatch.index);
         this.buffer = this.buffer.slice(closeMatch.index + closeMatch[0].length);
 
-        const trimmed = this.currentContent.trim();
-        if (trimmed) {
-          this.files[this.currentFilePath] = trimmed;
-          this.onFile(this.currentFilePath, trimmed);
+        if (this.currentIsPatch) {
+          this.applyCurrentPatch(this.currentFilePath);
+        } else {
+          const trimmed = this.currentContent.trim();
+          if (trimmed) {
+            this.files[this.currentFilePath] = trimmed;
+            this.onFile(this.currentFilePath, trimmed);
+          }
         }
 
         this.currentFilePath = null;
@@ -507,6 +597,17 @@ export class IncrementalArtifactParser {
     }
   }
 
+  private applyCurrentPatch(filePath: string): void {
+    const base = this.files[filePath] ?? this.options.getBaseFile?.(filePath) ?? "";
+    const result = applyPatch(base, trimPatchBody(this.currentContent));
+    if (!result.ok) {
+      this.options.onPatchError?.({ filePath, message: result.error });
+      return;
+    }
+    this.files[filePath] = result.content;
+    this.onFile(filePath, result.content);
+  }
+
   private drainMarkers(): void {
     const lines = this.buffer.split("\n");
 
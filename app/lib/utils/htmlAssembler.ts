@@ -1,7 +1,8 @@
-type ProjectType = "react" | "html";
+type ProjectType = "react" | "vue" | "html";
 
 function detectProjectType(files: Record<string, string>): ProjectType {
   const paths = Object.keys(files);
+  if (paths.some((p) => p.endsWith(".vue"))) return "vue";
   if (paths.some((p) => p.endsWith(".tsx") || p.endsWith(".jsx"))) return "react";
   return "html";
 }
@@ -41,6 +42,9 @@ const REACT_ESM_URL = "https://esm.sh/react@19.0.0";
 const REACT_DOM_ESM_URL = "https://esm.sh/react-dom@19.0.0?deps=react@19.0.0";
 const REACT_DOM_CLIENT_URL = "https://esm.sh/react-dom@19.0.0/client?deps=react@19.0.0";
 
+const VUE_ESM_URL = "https://cdn.jsdelivr.net/npm/vue@3.5.13/dist/vue.esm-browser.prod.js";
+const VUE_COMPILER_SFC_URL = "https://cdn.jsdelivr.net/npm/@vue/compiler-sfc@3.5.13/dist/compiler-sfc.esm-browser.js";
+
 const ERROR_HANDLER_SCRIPT = `<script>
 (function(){
   var origLog=console.log,origWarn=console.warn,origErr=console.error,origInfo=console.info;
@@ -372,6 +376,184 @@ function assembleReactHtml(files: Record<string, string>): string {
   return assembleReactSingleFile(files);
 }
 
+/**
+ * Vue 3 preview: SFCs and .ts modules are compiled in the browser with
+ * @vue/compiler-sfc (+ Babel for TypeScript). Relative imports are resolved
+ * against the project files and linked as blob URLs, dependencies first.
+ * Compile/link errors go through window.onerror → preview-error.
+ */
+function collectVueFiles(files: Record<string, string>): Record<string, string> {
+  const vueFiles: Record<string, string> = {};
+  for (const [path, content] of Object.entries(files)) {
+    const norm = path.replace(/^\//, "");
+    if (/\.(vue|ts|js)$/.test(norm)) vueFiles[norm] = content;
+  }
+  return vueFiles;
+}
+
+function findVueEntry(vueFiles: Record<string, string>): { path: string; mountApp: boolean } | null {
+  for (const name of ["main.ts", "main.js", "src/main.ts", "src/main.js"]) {
+    if (vueFiles[name] !== undefined) return { path: name, mountApp: false };
+  }
+  for (const name of ["App.vue", "src/App.vue"]) {
+    if (vueFiles[name] !== undefined) return { path: name, mountApp: true };
+  }
+  return null;
+}
+
+function assembleVueProject(files: Record<string, string>): string {
+  const vueFiles = collectVueFiles(files);
+  const entry = findVueEntry(vueFiles);
+
+  if (!entry) return assembleHtmlFallback(files);
+
+  // Global CSS files are inlined; their `import "./style.css"` lines are dropped at link time
+  const css = Object.entries(files)
+    .filter(([p]) => p.endsWith(".css"))
+    .map(([, c]) => c)
+    .join("\n");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<script src="https://cdn.tailwindcss.com"><\/script>
+<script src="https://cdn.jsdelivr.net/npm/@babel/standalone@7/babel.min.js"><\/script>
+<style>
+*{margin:0;padding:0;box-sizing:border-box}
+${escapeForStyle(css)}
+</style>
+${ERROR_HANDLER_SCRIPT}
+</head>
+<body>
+<div id="app"></div>
+<script>window.__NIT_VUE_FILES__=${escapeForScript(JSON.stringify(vueFiles))};window.__NIT_VUE_ENTRY__=${JSON.stringify(entry)}<\/script>
+<script type="module">
+import * as sfc from "${VUE_COMPILER_SFC_URL}";
+import {createApp} from "${VUE_ESM_URL}";
+
+var files=window.__NIT_VUE_FILES__;
+var entry=window.__NIT_VUE_ENTRY__;
+var compiled={};
+var urls={};
+var IMPORT_RE=/(from\\s*|import\\s*)(["'])([^"']+)\\2/g;
+
+function fail(message,path,line){
+  var e=new Error(message);e.nitPath=path;e.nitLine=line||0;return e;
+}
+
+function hashId(s){
+  var h=0;for(var i=0;i<s.length;i++){h=(h*31+s.charCodeAt(i))|0}
+  return (h>>>0).toString(16);
+}
+
+function resolvePath(from,spec){
+  var i=from.lastIndexOf("/");
+  var parts=i<0?[]:from.slice(0,i).split("/");
+  spec.split("/").forEach(function(seg){
+    if(seg==="..")parts.pop();else if(seg!=="."&&seg!=="")parts.push(seg);
+  });
+  var base=parts.join("/");
+  var cands=[base,base+".vue",base+".ts",base+".js",base+"/index.ts",base+"/index.js"];
+  for(var j=0;j<cands.length;j++){if(files[cands[j]]!==undefined)return cands[j]}
+  return null;
+}
+
+function stripTs(code,path){
+  return Babel.transform(code,{presets:["typescript"],filename:path+".ts"}).code;
+}
+
+function injectStyle(code){
+  var s=document.createElement("style");s.textContent=code;document.head.appendChild(s);
+}
+
+function compileVue(path,source){
+  var id=hashId(path);
+  var parsed=sfc.parse(source,{filename:path});
+  if(parsed.errors.length){
+    var pe=parsed.errors[0];
+    throw fail(pe.message,path,pe.loc&&pe.loc.start.line);
+  }
+  var d=parsed.descriptor;
+  var scoped=d.styles.some(function(st){return st.scoped});
+  var block=d.scriptSetup||d.script;
+  var code="const __sfc__ = {};";
+
+  if(block){
+    var script=sfc.compileScript(d,{id:id,inlineTemplate:true});
+    code=script.content.replace(/export\\s+default\\s+/,"const __sfc__ = ");
+  }
+  if(!d.scriptSetup&&d.template){
+    var t=sfc.compileTemplate({source:d.template.content,filename:path,id:id,scoped:scoped});
+    if(t.errors.length){
+      var te=t.errors[0];
+      throw fail(typeof te==="string"?te:te.message,path,te.loc&&te.loc.start.line);
+    }
+    code+="\\n"+t.code.replace(/export function render/,"function render")+"\\n__sfc__.render=render;";
+  }
+  if(block&&block.lang==="ts")code=stripTs(code,path);
+  if(scoped)code+="\\n__sfc__.__scopeId="+JSON.stringify("data-v-"+id)+";";
+  code+="\\n__sfc__.__file="+JSON.stringify(path)+";\\nexport default __sfc__;";
+
+  d.styles.forEach(function(st){
+    var r=sfc.compileStyle({source:st.content,filename:path,id:"data-v-"+id,scoped:!!st.scoped});
+    if(r.errors.length)throw fail(String(r.errors[0].message||r.errors[0]),path,0);
+    injectStyle(r.code);
+  });
+  return code;
+}
+
+function compileModule(path){
+  if(compiled[path]!==undefined)return;
+  var source=files[path];
+  var code;
+  try{
+    if(path.endsWith(".vue"))code=compileVue(path,source);
+    else if(path.endsWith(".ts"))code=stripTs(source,path);
+    else code=source;
+  }catch(e){
+    if(e.nitPath)throw e;
+    var loc=e.loc||{};
+    throw fail(e.message,path,loc.line||0);
+  }
+  compiled[path]=code;
+  code.replace(IMPORT_RE,function(m,kw,q,spec){
+    if(spec.charAt(0)!=="."||spec.endsWith(".css"))return m;
+    var dep=resolvePath(path,spec);
+    if(!dep)throw fail("Cannot resolve \\""+spec+"\\" from "+path,path,0);
+    compileModule(dep);
+    return m;
+  });
+}
+
+function link(path,stack){
+  if(urls[path])return urls[path];
+  if(stack.indexOf(path)!==-1)throw fail("Circular import: "+stack.concat(path).join(" → "),path,0);
+  var next=stack.concat(path);
+  var code=compiled[path].replace(IMPORT_RE,function(m,kw,q,spec){
+    if(spec==="vue")return kw+q+"${VUE_ESM_URL}"+q;
+    if(spec.charAt(0)!==".")return m;
+    if(spec.endsWith(".css"))return kw+q+"data:text/javascript,export%20default%20%7B%7D"+q;
+    return kw+q+link(resolvePath(path,spec),next)+q;
+  });
+  urls[path]=URL.createObjectURL(new Blob([code],{type:"application/javascript"}));
+  return urls[path];
+}
+
+try{
+  compileModule(entry.path);
+  var mod=await import(link(entry.path,[]));
+  if(entry.mountApp)createApp(mod.default).mount("#app");
+}catch(e){
+  var where=e.nitPath&&!e.nitLine?e.nitPath+": ":"";
+  window.onerror(where+e.message,e.nitPath||"",e.nitLine||0);
+}
+<\/script>
+</body>
+</html>`;
+}
+
 function assembleHtmlProject(files: Record<string, string>): string {
   let html = findFile(files, "index.html");
   const css = findFile(files, "style.css", "styles.css", "index.css");
@@ -426,6 +608,8 @@ export function assemblePreviewHtml(files: Record<string, string>): string {
   switch (type) {
     case "react":
       return assembleReactHtml(files);
+    case "vue":
+      return assembleVueProject(files);
     default:
       return assembleHtmlProject(files);
   }
@@ -64,6 +64,8 @@ const translations: Record<string, Record<string, string>> = {
   "role.no_roles": { ru: "Нет ролей", en: "No roles" },
   "role.auto": { ru: "🤖 Авто (LLM-роутер)", en: "🤖 Auto (LLM router)" },
   "role.chain": { ru: "⚡ Цепочка (все по порядку)", en: "⚡ Chain (all in order)" },
+  "pipeline.label": { ru: "Пайплайн", en: "Pipeline" },
+  "pipeline.default": { ru: "По умолчанию", en: "Default" },
   "role.first_request_chain": { ru: "Первый запрос запускает полную цепочку", en: "First request runs full chain" },
   "role.selecting": { ru: "Выбор роли...", en: "Selecting role..." },
   "role.active": { ru: "Активна", en: "Active" },
@@ -71,6 +73,7 @@ const translations: Record<string, Record<string, string>> = {
   "role.provider_offline": { ru: "Провайдер оффлайн", en: "Provider offline" },
   "role.locked": { ru: "заблокирована", en: "locked" },
   "role.code_mode": { ru: "код", en: "code" },
+  "role.approval": { ru: "подтверждение", en: "approval" },
   "role.drag_hint": { ru: "Перетащите для сортировки", en: "Drag to reorder" },
   "role.edit": { ru: "Редактировать", en: "Edit" },
   "role.test": { ru: "Тест", en: "Test" },
@@ -78,10 +81,63 @@ const translations: Record<string, Record<string, string>> = {
   "role.new_role": { ru: "Новая роль", en: "New role" },
 
   "chain.title": { ru: "Цепочка", en: "Chain" },
+  "chain.skip": { ru: "Пропустить", en: "Skip" },
+  "chain.retry": { ru: "Повторить", en: "Retry" },
+  "chain.insert": { ru: "Добавить шаг", en: "Insert step" },
+  "chain.insert_placeholder": { ru: "Роль после текущего шага…", en: "Role after the current step…" },
+  "job.title": { ru: "Запуски", en: "Runs" },
+  "job.attach": { ru: "Подключиться", en: "Attach" },
+  "job.restore": { ru: "Восстановить", en: "Restore" },
+  "job.cancel": { ru: "Остановить", en: "Stop" },
+  "job.running": { ru: "выполняется", en: "running" },
+  "job.done": { ru: "готово", en: "done" },
+  "job.error": { ru: "ошибка", en: "error" },
+  "job.cancelled": { ru: "остановлен", en: "stopped" },
+  "approval.title": { ru: "Ожидает подтверждения", en: "Awaiting approval" },
+  "approval.approve": { ru: "Принять", en: "Approve" },
+  "approval.save_continue": { ru: "Сохранить и продолжить", en: "Save and continue" },
+  "approval.reject": { ru: "Вернуть с замечаниями", en: "Reject with feedback" },
+  "approval.feedback_placeholder": { ru: "Что исправить (для возврата)", en: "What to fix (for rejection)" },
+  "questions.title": { ru: "Уточняющие вопросы", en: "Clarifying questions" },
+  "questions.placeholder": { ru: "Ваш ответ", en: "Your answer" },
+  "questions.other": { ru: "Свой вариант", en: "Other" },
+  "questions.submit": { ru: "Ответить", en: "Send answers" },
+  "questions.dismiss": { ru: "Ответить в чате", en: "Answer in chat" },
+  "plan.title": { ru: "План цепочки", en: "Chain plan" },
+  "plan.loading": { ru: "Составляю план…", en: "Planning…" },
+  "plan.launch": { ru: "Запустить", en: "Launch" },
+  "plan.cancel": { ru: "Отмена", en: "Cancel" },
+  "plan.move_up": { ru: "Выше", en: "Move up" },
+  "plan.move_down": { ru: "Ниже", en: "Move down" },
+  "continuation.label": { ru: "продолжение", en: "continuing" },
+  "queue.label": { ru: "в очереди", en: "queued" },
+  "reasoning.title": { ru: "Размышления", en: "Reasoning" },
+  "reasoning.thinking": { ru: "Думает...", en: "Thinking..." },
+  "reasoning.seconds": { ru: "с", en: "s" },
+  "patch.failed": { ru: "Не удалось применить патч к", en: "Could not apply the patch to" },
+  "usage.tokens": { ru: "ток.", en: "tok" },
+  "usage.tokens_per_sec": { ru: "ток/с", en: "tok/s" },
+  "usage.first_token": { ru: "Первый токен через", en: "First token after" },
+  "usage.prompt": { ru: "Промпт", en: "Prompt" },
+  "usage.estimated": { ru: "оценка — провайдер не сообщил usage", en: "estimate — provider did not report usage" },
+  "tester.title": { ru: "Проверка тестировщика", en: "Tester review" },
+  "tester.pass": { ru: "PASS", en: "PASS" },
+  "tester.fail": { ru: "FAIL", en: "FAIL" },
+  "tester.noIssues": { ru: "Замечаний нет", en: "No issues found" },
+  "diagnostics.title": { ru: "Автопроверка кода", en: "Code check" },
 
   "version.no_versions": { ru: "Нет версий", en: "No versions yet" },
   "version.files": { ru: "файлов", en: "files" },
 
+  "branch.title": { ru: "Ветки", en: "Branches" },
+  "branch.main": { ru: "Основная", en: "Main" },
+  "branch.fork": { ru: "Ответвить отсюда", en: "Fork from here" },
+  "branch.delete": { ru: "Удалить ветку", en: "Delete branch" },
+  "edit.title": { ru: "Изменить и перезапустить", en: "Edit and rerun" },
+  "edit.rerun": { ru: "Перезапустить", en: "Rerun" },
+  "edit.cancel": { ru: "Отмена", en: "Cancel" },
+  "edit.keep_original": { ru: "Сохранить исходный вариант в ветке", en: "Keep the original in a branch" },
+
   "file.title": { ru: "Файлы", en: "Files" },
   "file.new": { ru: "Новый файл", en: "New file" },
   "file.no_files": { ru: "Файлы ещё не сгенерированы", en: "No files generated yet" },
@@ -103,6 +159,42 @@ const translations: Record<string, Record<string, string>> = {
     ru: "Используется для оркестрации цепочки и роутинга",
     en: "Used for chain orchestration and routing",
   },
+  "settings.analytics": { ru: "Аналитика", en: "Analytics" },
+  "analytics.title": { ru: "Аналитика пайплайна", en: "Pipeline analytics" },
+  "analytics.subtitle": { ru: "Какие модели справляются с какими ролями", en: "Which models handle which roles" },
+  "analytics.filters": { ru: "Фильтры", en: "Filters" },
+  "analytics.from": { ru: "С", en: "From" },
+  "analytics.to": { ru: "По", en: "To" },
+  "analytics.project": { ru: "Проект", en: "Project" },
+  "analytics.all_projects": { ru: "Все проекты", en: "All projects" },
+  "analytics.total": { ru: "Записей", en: "Log entries" },
+  "analytics.truncated": { ru: "показаны последние, сузьте период", en: "showing the latest, narrow the range" },
+  "analytics.by_role": { ru: "По ролям", en: "By role" },
+  "analytics.by_model": { ru: "По моделям", en: "By model" },
+  "analytics.by_provider": { ru: "По провайдерам", en: "By provider" },
+  "analytics.selected_by": { ru: "Кто выбрал роль", en: "Role selection" },
+  "analytics.selected_by.hardcoded": { ru: "Цепочка", en: "Chain" },
+  "analytics.selected_by.user": { ru: "Пользователь", en: "User" },
+  "analytics.selected_by.router_llm": { ru: "LLM-роутер", en: "LLM router" },
+  "analytics.top_errors": { ru: "Частые ошибки", en: "Frequent errors" },
+  "analytics.no_errors": { ru: "Ошибок нет", en: "No errors" },
+  "analytics.empty": { ru: "Нет данных за период", en: "No data for this period" },
+  "analytics.name": { ru: "Имя", en: "Name" },
+  "analytics.runs": { ru: "Запуски", en: "Runs" },
+  "analytics.success": { ru: "Успех", en: "Success" },
+  "analytics.errors": { ru: "Ошибки", en: "Errors" },
+  "analytics.timeouts": { ru: "Таймауты", en: "Timeouts" },
+  "analytics.retries": { ru: "Повторы", en: "Retries" },
+  "settings.section_endpoints": { ru: "OpenAI-совместимые эндпоинты", en: "OpenAI-compatible endpoints" },
+  "endpoints.empty": { ru: "Эндпоинтов пока нет", en: "No endpoints yet" },
+  "endpoints.add": { ru: "Добавить эндпоинт", en: "Add endpoint" },
+  "endpoints.name": { ru: "Название", en: "Name" },
+  "endpoints.base_url": { ru: "Базовый URL (без /v1)", en: "Base URL (without /v1)" },
+  "endpoints.api_key": { ru: "API-ключ", en: "API key" },
+  "endpoints.api_key_keep": { ru: "Оставьте пустым, чтобы не менять", en: "Leave empty to keep the current key" },
+  "endpoints.headers": { ru: "Заголовки (Имя: значение, по одному в строке)", en: "Headers (Name: value, one per line)" },
+  "endpoints.headers_keep": { ru: "Значения не показываются; пустое значение оставляет сохранённое", en: "Values are hidden; an empty value keeps the stored one" },
+  "endpoints.model_filter": { ru: "Фильтр моделей (через запятую, * — любой текст)", en: "Model filter (comma-separated, * wildcard)" },
 
   "context.label": { ru: "Контекст", en: "Context" },
   "context.choose_file": { ru: "Выбрать файл (.txt, .md, .json, .pdf, .docx)", en: "Choose file (.txt, .md, .json, .pdf, .docx)" },
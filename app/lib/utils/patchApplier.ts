@@ -0,0 +1,179 @@
+/**
+ * Patch applier for `<nitAction type="patch">`.
+ *
+ * Two formats are accepted:
+ * - search/replace blocks (<<<<<<< SEARCH / ======= / >>>>>>> REPLACE)
+ * - unified diff hunks (@@ ... @@ with " ", "-", "+" lines)
+ *
+ * Hunk line numbers are ignored — local models rarely get them right,
+ * so hunks are located by their context. A block that cannot be located
+ * fails the whole patch — callers apply it to the code as it was before
+ * the output that carries it.
+ */
+
+export type PatchResult =
+  | { ok: true; content: string }
+  | { ok: false; error: string };
+
+const SEARCH_REPLACE_RE = /<{5,}\s*SEARCH[^\n]*\n([\s\S]*?)\n?={5,}[^\n]*\n([\s\S]*?)\n?>{5,}\s*REPLACE/g;
+const HUNK_HEADER_RE = /^@@.*@@/;
+
+export function isUnifiedDiff(patch: string): boolean {
+  return /^@@.*@@/m.test(patch) && !/<{5,}\s*SEARCH/.test(patch);
+}
+
+export function applyPatch(original: string, patch: string): PatchResult {
+  if (isUnifiedDiff(patch)) return applyUnifiedDiff(original, patch);
+  return applySearchReplace(original, patch);
+}
+
+// ─── Search / replace ────────────────────────────────────
+
+function applySearchReplace(original: string, patch: string): PatchResult {
+  const blocks: Array<{ search: string; replace: string }> = [];
+  SEARCH_REPLACE_RE.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SEARCH_REPLACE_RE.exec(patch)) !== null) {
+    blocks.push({ search: match[1] ?? "", replace: match[2] ?? "" });
+  }
+
+  if (blocks.length === 0) {
+    return { ok: false, error: "Патч не содержит блоков SEARCH/REPLACE или хунков unified diff" };
+  }
+
+  let content = original;
+  for (let i = 0; i < blocks.length; i++) {
+    const { search, replace } = blocks[i]!;
+
+    if (!search.trim()) {
+      if (content.trim()) {
+        return { ok: false, error: `Блок #${i + 1}: пустой SEARCH допустим только для нового файла` };
+      }
+      content = replace;
+      continue;
+    }
+
+    const exactIdx = content.indexOf(search);
+    if (exactIdx !== -1) {
+      content = content.slice(0, exactIdx) + replace + content.slice(exactIdx + search.length);
+      continue;
+    }
+
+    const loose = replaceLines(content, search.split("\n"), replace.split("\n"));
+    if (loose !== null) {
+      content = loose;
+      continue;
+    }
+
+    return { ok: false, error: `Блок #${i + 1}: фрагмент SEARCH не найден в файле` };
+  }
+
+  return { ok: true, content };
+}
+
+// ─── Unified diff ────────────────────────────────────────
+
+type Hunk = { oldLines: string[]; newLines: string[] };
+
+function parseHunks(patch: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let current: Hunk | null = null;
+
+  for (const line of patch.split("\n")) {
+    if (HUNK_HEADER_RE.test(line)) {
+      current = { oldLines: [], newLines: [] };
+      hunks.push(current);
+      continue;
+    }
+    if (!current) continue; // ---/+++/diff/index headers
+    if (line.startsWith("\\")) continue; // "\ No newline at end of file"
+
+    const marker = line.charAt(0);
+    const text = line.slice(1);
+    if (marker === "-") {
+      current.oldLines.push(text);
+    } else if (marker === "+") {
+      current.newLines.push(text);
+    } else {
+      // " " context — models often drop the leading space on blank lines
+      const ctx = marker === " " ? text : line;
+      current.oldLines.push(ctx);
+      current.newLines.push(ctx);
+    }
+  }
+
+  // Trailing blank context picked up from the end of the action body
+  for (const hunk of hunks) {
+    while (
+      hunk.oldLines.length > 0 &&
+      hunk.newLines.length > 0 &&
+      hunk.oldLines[hunk.oldLines.length - 1] === "" &&
+      hunk.newLines[hunk.newLines.length - 1] === ""
+    ) {
+      hunk.oldLines.pop();
+      hunk.newLines.pop();
+    }
+  }
+
+  return hunks;
+}
+
+function applyUnifiedDiff(original: string, patch: string): PatchResult {
+  const hunks = parseHunks(patch);
+  if (hunks.length === 0) {
+    return { ok: false, error: "Unified diff не содержит хунков" };
+  }
+
+  let lines = original === "" ? [] : original.split("\n");
+  let cursor = 0;
+
+  for (let i = 0; i < hunks.length; i++) {
+    const { oldLines, newLines } = hunks[i]!;
+
+    if (oldLines.length === 0) {
+      if (lines.length > 0) {
+        return { ok: false, error: `Хунк #${i + 1}: нет контекста для вставки в существующий файл` };
+      }
+      lines = [...newLines];
+      cursor = lines.length;
+      continue;
+    }
+
+    let idx = findLines(lines, oldLines, cursor);
+    if (idx === -1) idx = findLines(lines, oldLines, 0);
+    if (idx !== -1) {
+      lines = [...lines.slice(0, idx), ...newLines, ...lines.slice(idx + oldLines.length)];
+      cursor = idx + newLines.length;
+      continue;
+    }
+
+    return { ok: false, error: `Хунк #${i + 1}: контекст не совпадает с содержимым файла` };
+  }
+
+  return { ok: true, content: lines.join("\n") };
+}
+
+// ─── Line matching (whitespace-tolerant) ─────────────────
+
+function findLines(haystack: string[], needle: string[], from: number): number {
+  if (needle.length === 0) return -1;
+  const target = needle.map((l) => l.trim());
+  for (let i = from; i + needle.length <= haystack.length; i++) {
+    let matched = true;
+    for (let j = 0; j < target.length; j++) {
+      if (haystack[i + j]!.trim() !== target[j]) {
+        matched = false;
+        break;
+      }
+    }
+    if (matched) return i;
+  }
+  return -1;
+}
+
+function replaceLines(content: string, search: string[], replace: string[]): string | null {
+  const lines = content.split("\n");
+  const idx = findLines(lines, search, 0);
+  if (idx === -1) return null;
+  return [...lines.slice(0, idx), ...replace, ...lines.slice(idx + search.length)].join("\n");
+}
@@ -4,6 +4,8 @@
  * Typical ratio: GPT-family ~3.5-4 chars/token, local models ~3.2-3.8.
  * We use 3.5 as a conservative estimate (slight overcount is safer than undercount).
  */
+import type { StepUsage } from "@shared/types/agentRole";
+
 const CHARS_PER_TOKEN = 3.5;
 const SAFETY_MARGIN = 256;
 const MIN_OUTPUT_BUDGET = 1024;
@@ -12,6 +14,53 @@ export function estimateTokens(text: string): number {
   return Math.ceil(text.length / CHARS_PER_TOKEN);
 }
 
+/** Cut text so that it fits roughly into maxTokens. */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const maxChars = Math.max(0, Math.floor(maxTokens * CHARS_PER_TOKEN));
+  return text.length <= maxChars ? text : text.slice(0, maxChars);
+}
+
+/** Token counts as reported by the provider; local servers often omit them (NaN). */
+export type ReportedUsage = {
+  promptTokens?: number;
+  completionTokens?: number;
+};
+
+export type StepTiming = {
+  startedAt: number;
+  firstTokenAt: number;
+  finishedAt: number;
+};
+
+function isReported(value: number | undefined): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0;
+}
+
+/**
+ * Usage of one model call. Reported counts win; missing ones are estimated
+ * from the prompt and output text. Throughput counts only generation time.
+ */
+export function computeStepUsage(
+  reported: ReportedUsage | undefined,
+  prompt: string,
+  output: string,
+  timing: StepTiming,
+): StepUsage {
+  const hasPrompt = isReported(reported?.promptTokens);
+  const hasCompletion = isReported(reported?.completionTokens);
+  const promptTokens = hasPrompt ? reported!.promptTokens! : estimateTokens(prompt);
+  const completionTokens = hasCompletion ? reported!.completionTokens! : estimateTokens(output);
+  const generationMs = Math.max(1, timing.finishedAt - timing.firstTokenAt);
+
+  return {
+    promptTokens,
+    completionTokens,
+    estimated: !hasPrompt || !hasCompletion,
+    timeToFirstTokenMs: Math.max(0, timing.firstTokenAt - timing.startedAt),
+    tokensPerSecond: Math.round((completionTokens / generationMs) * 1000 * 10) / 10,
+  };
+}
+
 export function estimateMessagesTokens(
   messages: Array<{ role: string; content: string }>,
   systemPrompt: string,
@@ -3,15 +3,28 @@ import { type RouteConfig, index, route } from "@react-router/dev/routes";
 export default [
   index("routes/home.tsx"),
   route("api/agents", "routes/api.agents.ts"),
+  route("api/endpoints", "routes/api.endpoints.ts"),
+  route("api/endpoints/:id", "routes/api.endpoints.$id.ts"),
   route("api/projects", "routes/api.projects.ts"),
   route("api/versions", "routes/api.versions.ts"),
   route("api/messages", "routes/api.messages.ts"),
+  route("api/branches", "routes/api.branches.ts"),
   // Agent roles & pipeline
   route("api/roles", "routes/api.roles.ts"),
   route("api/roles/seed", "routes/api.roles.seed.ts"),
   route("api/appwrite/health", "routes/api.appwrite.health.ts"),
   route("api/roles/:id", "routes/api.roles.$id.ts"),
   route("api/pipeline/execute", "routes/api.pipeline.execute.ts"),
+  route("api/pipeline/plan", "routes/api.pipeline.plan.ts"),
+  route("api/pipeline/approve", "routes/api.pipeline.approve.ts"),
+  route("api/pipeline/control", "routes/api.pipeline.control.ts"),
+  route("api/pipeline/jobs", "routes/api.pipeline.jobs.ts"),
+  route("api/pipeline/jobs/:id", "routes/api.pipeline.jobs.$id.ts"),
+  route("api/pipeline/jobs/:id/events", "routes/api.pipeline.jobs.$id.events.ts"),
+  route("api/pipelines", "routes/api.pipelines.ts"),
+  route("api/pipelines/:id", "routes/api.pipelines.$id.ts"),
+  route("api/analytics", "routes/api.analytics.ts"),
   // Settings
   route("settings/agents", "routes/settings.agents.tsx"),
+  route("settings/analytics", "routes/settings.analytics.tsx"),
 ] satisfies RouteConfig;
@@ -1,12 +1,22 @@
 import { discoverAgents } from "~/features/agents/service/agentDiscovery";
+import { syncCustomEndpoints } from "~/lib/services/customEndpointService";
 
 export async function loader() {
+  const endpoints = await syncCustomEndpoints();
+
   const agents = await discoverAgents({
     ollamaUrl: process.env.OLLAMA_BASE_URL,
     lmStudioUrl: process.env.LMSTUDIO_BASE_URL,
     customUrl: process.env.CUSTOM_LLM_URL,
     customName: process.env.CUSTOM_LLM_NAME,
     customApiKey: process.env.CUSTOM_LLM_API_KEY,
+    cloud: {
+      anthropic: { apiKey: process.env.ANTHROPIC_API_KEY, baseUrl: process.env.ANTHROPIC_BASE_URL },
+      openai: { apiKey: process.env.OPENAI_API_KEY, baseUrl: process.env.OPENAI_BASE_URL },
+      gemini: { apiKey: process.env.GEMINI_API_KEY, baseUrl: process.env.GEMINI_BASE_URL },
+      openrouter: { apiKey: process.env.OPENROUTER_API_KEY, baseUrl: process.env.OPENROUTER_BASE_URL },
+    },
+    endpoints,
   });
 
   return Response.json({ agents });
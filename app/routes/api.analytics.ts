@@ -0,0 +1,32 @@
+import { z } from "zod";
+import { ensureMasterSchema } from "~/lib/db/appwrite";
+import { loadPipelineAnalytics } from "~/lib/services/pipelineAnalytics";
+
+const DateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "ожидается YYYY-MM-DD");
+
+const AnalyticsQuerySchema = z.object({
+  from: DateSchema.optional(),
+  to: DateSchema.optional(),
+  projectId: z.string().min(1).max(64).optional(),
+}).refine((q) => !q.from || !q.to || q.from <= q.to, {
+  message: "from позже to",
+  path: ["from"],
+});
+
+// GET /api/analytics?from=YYYY-MM-DD&to=YYYY-MM-DD&projectId= — pipeline log aggregates
+export async function loader({ request }: { request: Request }) {
+  const url = new URL(request.url);
+  const parsed = AnalyticsQuerySchema.safeParse({
+    from: url.searchParams.get("from") || undefined,
+    to: url.searchParams.get("to") || undefined,
+    projectId: url.searchParams.get("projectId") || undefined,
+  });
+  if (!parsed.success) {
+    const detail = parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+    return Response.json({ error: detail }, { status: 400 });
+  }
+
+  await ensureMasterSchema();
+  const analytics = await loadPipelineAnalytics(parsed.data);
+  return Response.json({ analytics });
+}
@@ -0,0 +1,160 @@
+import { z } from "zod";
+import { MAIN_BRANCH_ID } from "@shared/types/branch";
+import type { ChatMessage } from "@shared/types/message";
+import * as branchService from "~/features/chat/service/branchService";
+import {
+  getProjectMessages,
+  saveProjectMessages,
+  deleteProjectMessages,
+} from "~/features/chat/service/chatService";
+import * as versionService from "~/features/projects/service/versionService";
+import * as projectService from "~/features/projects/service/projectService";
+import { forkSession } from "~/lib/services/agentPipeline";
+import { logger } from "~/lib/utils/logger";
+
+const ForkSchema = z.object({
+  projectId: z.string().min(1),
+  sourceBranchId: z.string().min(1).default(MAIN_BRANCH_ID),
+  messageId: z.string().min(1),          // last message the new branch keeps
+  name: z.string().trim().max(256).optional(),
+  sessionId: z.string().optional(),      // pipeline session of the source branch
+});
+
+const BranchRefSchema = z.object({
+  projectId: z.string().min(1),
+  branchId: z.string().min(1),
+});
+
+const SessionSchema = BranchRefSchema.extend({
+  sessionId: z.string().min(1).nullable(),  // pipeline session the branch continues with
+});
+
+function invalidPayload(error: z.ZodError): Response {
+  const detail = error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+  return Response.json({ error: detail, code: "INVALID_PAYLOAD" }, { status: 400 });
+}
+
+async function resolveDatabaseId(projectId: string): Promise<string> {
+  const project = await projectService.getProject(projectId);
+  return project.databaseId;
+}
+
+export async function loader({ request }: { request: Request }) {
+  const url = new URL(request.url);
+  const projectId = url.searchParams.get("projectId");
+
+  if (!projectId) {
+    return Response.json(
+      { error: "Missing projectId", code: "MISSING_PROJECT_ID" },
+      { status: 400 },
+    );
+  }
+
+  const databaseId = await resolveDatabaseId(projectId);
+  const branches = await branchService.listBranches(databaseId);
+  return Response.json({ data: branches });
+}
+
+export async function action({ request }: { request: Request }) {
+  const method = request.method.toUpperCase();
+
+  // POST — fork: a new branch with the messages, code and agent memory up to messageId
+  if (method === "POST") {
+    const parsed = ForkSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) return invalidPayload(parsed.error);
+    const { projectId, sourceBranchId, messageId, name, sessionId } = parsed.data;
+
+    const databaseId = await resolveDatabaseId(projectId);
+    const source = await getProjectMessages(databaseId, sourceBranchId);
+    const index = source.findIndex((m) => m.id === messageId);
+    if (index === -1) {
+      return Response.json(
+        { error: "Message not found in branch", code: "MESSAGE_NOT_FOUND" },
+        { status: 404 },
+      );
+    }
+
+    // Everything that happened before the next message belongs to the fork
+    const next = source[index + 1];
+    const cutoff = next ? new Date(next.timestamp) : new Date();
+
+    const messages: ChatMessage[] = source
+      .slice(0, index + 1)
+      .map((m) => ({ ...m, id: crypto.randomUUID() }));
+
+    // Agent steps follow the messages: answers to later prompts stay behind
+    const dropped = source.slice(index + 1).filter((m) => m.role === "user").map((m) => m.id);
+    const renamed = new Map(source.slice(0, index + 1).map((m, i) => [m.id, messages[i]!.id]));
+    const forkedSessionId = sessionId
+      ? await forkSession(sessionId, projectId, dropped, renamed).catch((err) => {
+          logger.warn("branches", `Could not fork session ${sessionId}: ${err instanceof Error ? err.message : err}`);
+          return null;
+        })
+      : null;
+
+    const existing = await branchService.listBranches(databaseId);
+    const branch = await branchService.createBranch(databaseId, {
+      name: name || `branch-${existing.length}`,
+      parentBranchId: sourceBranchId,
+      forkMessageId: messageId,
+      sessionId: forkedSessionId,
+    });
+
+    await saveProjectMessages(databaseId, messages, branch.id);
+
+    // The code as it was at the fork point
+    const versions = await versionService.listVersions(databaseId, sourceBranchId);
+    const atFork = versions.find((v) => new Date(v.createdAt).getTime() <= cutoff.getTime());
+    if (atFork) {
+      await versionService.createVersion({
+        databaseId,
+        code: atFork.code,
+        prompt: atFork.prompt,
+        model: atFork.model,
+        agentId: atFork.agentId,
+        temperature: atFork.temperature,
+        branchId: branch.id,
+      });
+    }
+
+    logger.info("branches", `Forked ${sourceBranchId} at ${messageId} → ${branch.id} (${messages.length} messages)`);
+    return Response.json({ data: { branch, messages } }, { status: 201 });
+  }
+
+  // PATCH — the pipeline session a branch continues with when it is shown again
+  if (method === "PATCH") {
+    const parsed = SessionSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) return invalidPayload(parsed.error);
+    const { projectId, branchId, sessionId } = parsed.data;
+
+    const databaseId = await resolveDatabaseId(projectId);
+    await branchService.setBranchSession(databaseId, branchId, sessionId);
+    return Response.json({ data: { ok: true } });
+  }
+
+  if (method === "DELETE") {
+    const parsed = BranchRefSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) return invalidPayload(parsed.error);
+    const { projectId, branchId } = parsed.data;
+    if (branchId === MAIN_BRANCH_ID) {
+      return Response.json(
+        { error: "The main branch cannot be deleted", code: "MAIN_BRANCH" },
+        { status: 400 },
+      );
+    }
+
+    const databaseId = await resolveDatabaseId(projectId);
+    await deleteProjectMessages(databaseId, branchId);
+    const versions = await versionService.listVersions(databaseId, branchId);
+    for (const version of versions) {
+      await versionService.deleteVersion(databaseId, version.id);
+    }
+    await branchService.deleteBranch(databaseId, branchId);
+    return Response.json({ data: { ok: true } });
+  }
+
+  return Response.json(
+    { error: "Method not allowed", code: "METHOD_NOT_ALLOWED" },
+    { status: 405 },
+  );
+}
@@ -0,0 +1,67 @@
+import { z } from "zod";
+import {
+  getCustomEndpoint,
+  updateCustomEndpoint,
+  deleteCustomEndpoint,
+  syncCustomEndpoints,
+  toEndpointView,
+  EndpointHeadersSchema,
+  ModelFilterSchema,
+} from "~/lib/services/customEndpointService";
+
+// apiKey omitted = keep the stored one, "" = remove it
+const UpdateEndpointSchema = z.object({
+  name: z.string().min(2).max(100).optional(),
+  baseUrl: z.string().url().max(1024).optional(),
+  apiKey: z.string().max(1024).optional(),
+  headers: EndpointHeadersSchema.optional(),
+  modelFilter: ModelFilterSchema.optional(),
+});
+
+// GET /api/endpoints/:id
+export async function loader({ params }: { params: { id: string } }) {
+  const endpoint = await getCustomEndpoint(params.id);
+  if (!endpoint) {
+    return Response.json({ error: "Endpoint not found" }, { status: 404 });
+  }
+  return Response.json({ endpoint: toEndpointView(endpoint) });
+}
+
+// PUT/DELETE /api/endpoints/:id
+export async function action({ request, params }: { request: Request; params: { id: string } }) {
+  const { id } = params;
+
+  // DELETE
+  if (request.method === "DELETE") {
+    const deleted = await deleteCustomEndpoint(id);
+    if (!deleted) {
+      return Response.json({ error: "Endpoint not found" }, { status: 404 });
+    }
+    await syncCustomEndpoints();
+    return Response.json({ ok: true });
+  }
+
+  // PUT
+  const rawBody = await request.json().catch(() => null);
+  if (!rawBody) {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = UpdateEndpointSchema.safeParse(rawBody);
+  if (!parsed.success) {
+    const detail = parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+    return Response.json({ error: detail }, { status: 400 });
+  }
+
+  try {
+    const updated = await updateCustomEndpoint(id, parsed.data);
+    if (!updated) {
+      return Response.json({ error: "Endpoint not found" }, { status: 404 });
+    }
+    await syncCustomEndpoints();
+    return Response.json({ endpoint: toEndpointView(updated) });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Failed to update endpoint";
+    return Response.json({ error: msg }, { status: 409 });
+  }
+}
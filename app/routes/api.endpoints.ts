@@ -0,0 +1,48 @@
+import { z } from "zod";
+import { ensureMasterSchema } from "~/lib/db/appwrite";
+import {
+  listCustomEndpoints,
+  createCustomEndpoint,
+  syncCustomEndpoints,
+  toEndpointView,
+  EndpointHeadersSchema,
+  ModelFilterSchema,
+} from "~/lib/services/customEndpointService";
+
+// GET /api/endpoints — list custom OpenAI-compatible endpoints (keys redacted)
+export async function loader() {
+  await ensureMasterSchema();
+  const endpoints = await listCustomEndpoints();
+  return Response.json({ endpoints: endpoints.map(toEndpointView) });
+}
+
+const CreateEndpointSchema = z.object({
+  name: z.string().min(2).max(100),
+  baseUrl: z.string().url().max(1024),
+  apiKey: z.string().max(1024).default(""),
+  headers: EndpointHeadersSchema.default({}),
+  modelFilter: ModelFilterSchema.default([]),
+});
+
+// POST /api/endpoints — register endpoint
+export async function action({ request }: { request: Request }) {
+  const rawBody = await request.json().catch(() => null);
+  if (!rawBody) {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = CreateEndpointSchema.safeParse(rawBody);
+  if (!parsed.success) {
+    const detail = parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+    return Response.json({ error: detail }, { status: 400 });
+  }
+
+  try {
+    const endpoint = await createCustomEndpoint(parsed.data);
+    await syncCustomEndpoints();
+    return Response.json({ endpoint: toEndpointView(endpoint) }, { status: 201 });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Failed to create endpoint";
+    return Response.json({ error: msg }, { status: 409 });
+  }
+}
@@ -22,7 +22,7 @@ export async function loader({ request }: { request: Request }) {
   }
 
   const databaseId = await resolveDatabaseId(projectId);
-  const messages = await getProjectMessages(databaseId);
+  const messages = await getProjectMessages(databaseId, url.searchParams.get("branchId") || undefined);
   return Response.json({ data: messages });
 }
 
@@ -31,7 +31,7 @@ export async function action({ request }: { request: Request }) {
 
   if (method === "PUT") {
     const body = await request.json();
-    const { projectId, messages } = body;
+    const { projectId, messages, branchId } = body;
 
     if (!projectId || !Array.isArray(messages)) {
       return Response.json(
@@ -42,7 +42,7 @@ export async function action({ request }: { request: Request }) {
 
     try {
       const databaseId = await resolveDatabaseId(projectId);
-      await saveProjectMessages(databaseId, messages);
+      await saveProjectMessages(databaseId, messages, branchId || undefined);
       return Response.json({ data: { ok: true } });
     } catch (err) {
       const message = err instanceof Error ? err.message : "Failed to save messages";
@@ -60,7 +60,7 @@ export async function action({ request }: { request: Request }) {
     }
 
     const databaseId = await resolveDatabaseId(body.projectId);
-    await deleteProjectMessages(databaseId);
+    await deleteProjectMessages(databaseId, body.branchId || undefined);
     return Response.json({ data: { ok: true } });
   }
 
@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { resolveApproval } from "~/lib/services/approvalGates";
+
+const ApproveSchema = z.object({
+  sessionId: z.string().min(1),
+  stepId: z.string().min(1),
+}).and(z.discriminatedUnion("action", [
+  z.object({ action: z.literal("approve") }),
+  z.object({ action: z.literal("edit"), output: z.string().min(1).max(500_000) }),
+  z.object({ action: z.literal("reject"), feedback: z.string().min(1).max(10_000) }),
+]));
+
+// POST /api/pipeline/approve — decision for a chain step waiting at an approval gate
+export async function action({ request }: { request: Request }) {
+  const rawBody = await request.json().catch(() => null);
+  if (!rawBody) {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = ApproveSchema.safeParse(rawBody);
+  if (!parsed.success) {
+    const detail = parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+    return Response.json({ error: detail }, { status: 400 });
+  }
+
+  const { sessionId, stepId, ...decision } = parsed.data;
+  if (!resolveApproval(sessionId, stepId, decision)) {
+    return Response.json({ error: "Шаг не ожидает подтверждения" }, { status: 404 });
+  }
+  return Response.json({ ok: true });
+}
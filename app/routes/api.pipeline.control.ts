@@ -0,0 +1,39 @@
+import { z } from "zod";
+import { sendChainCommand } from "~/lib/services/chainControl";
+import { getRoleById } from "~/lib/services/roleService";
+
+const ControlSchema = z.object({
+  sessionId: z.string().min(1),
+}).and(z.discriminatedUnion("action", [
+  z.object({ action: z.literal("skip"), stepId: z.string().min(1) }),
+  z.object({ action: z.literal("retry"), stepId: z.string().min(1) }),
+  z.object({ action: z.literal("insert"), roleId: z.string().min(1) }),
+]));
+
+// POST /api/pipeline/control — command for the chain running in a session
+export async function action({ request }: { request: Request }) {
+  const rawBody = await request.json().catch(() => null);
+  if (!rawBody) {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = ControlSchema.safeParse(rawBody);
+  if (!parsed.success) {
+    const detail = parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+    return Response.json({ error: detail }, { status: 400 });
+  }
+
+  const { sessionId, ...command } = parsed.data;
+  if (command.action === "insert") {
+    const role = await getRoleById(command.roleId);
+    if (!role?.isActive) {
+      return Response.json({ error: "Роль не найдена или отключена" }, { status: 404 });
+    }
+  }
+
+  const result = sendChainCommand(sessionId, command);
+  if (!result.ok) {
+    return Response.json({ error: result.error }, { status: 409 });
+  }
+  return Response.json({ ok: true });
+}
@@ -1,29 +1,56 @@
 import { z } from "zod";
 import { CHAIN_ROLE_ID } from "@shared/types/agentRole";
-import type { PipelineEvent } from "@shared/types/agentRole";
+import { PROMPT_LOCALES, DEFAULT_PROMPT_LOCALE } from "@shared/types/promptLocale";
 import {
   getOrCreateSession,
+  resumeSessionFromHistory,
+  rewindSession,
   selectRole,
   executeStepStreaming,
+  persistSession,
 } from "~/lib/services/agentPipeline";
 import { executeOrchestrated } from "~/lib/services/orchestrator";
+import { openChainControl, closeChainControl } from "~/lib/services/chainControl";
+import { startPipelineJob, pipelineJobStream } from "~/lib/services/pipelineJobs";
+import { parseClarifyingQuestions } from "~/lib/services/clarifyingQuestions";
+import {
+  getPipelineDefinition,
+  getDefaultPipelineDefinition,
+} from "~/lib/services/pipelineDefinitionService";
+import { syncCustomEndpoints } from "~/lib/services/customEndpointService";
+import { getProjectMessages } from "~/features/chat/service/chatService";
+import * as projectService from "~/features/projects/service/projectService";
+import { listVersions } from "~/features/projects/service/versionService";
 import { checkRateLimit } from "~/lib/utils/rateLimit";
+import { logger } from "~/lib/utils/logger";
 
 const ExecuteSchema = z.object({
   projectId: z.string().min(1),
   sessionId: z.string().optional(),
+  branchId: z.string().optional(), // conversation branch the session resumes from
+  messageId: z.string().max(64).optional(), // user message the run answers — its steps are tagged with it
+  rewindMessageIds: z.array(z.string()).max(5000).optional(), // user messages removed by an edit — their steps and later ones are dropped
   roleId: z.string().default(""),
   forceRole: z.boolean().default(false), // bypass new-session Architect lock (for testing)
   message: z.string().min(1).max(128_000),
   localContext: z.string().max(10_000).default(""),
   projectType: z.enum(["react", "html", "vue"]).default("react"),
+  language: z.enum(PROMPT_LOCALES).optional(), // user's UI language — picks the prompt pack
   orchestratorProviderId: z.string().optional(),
   orchestratorModelName: z.string().optional(),
+  pipelineId: z.string().optional(), // stored pipeline definition for chain mode (default one if omitted)
+  plan: z.object({ // chain plan confirmed by the user — replaces planning and the definition
+    roleIds: z.array(z.string().min(1)).min(1).max(32),
+    reasoning: z.string().max(2_000).default(""),
+  }).optional(),
+  chainControl: z.boolean().default(false), // client sends commands to /api/pipeline/control — a failed step waits for them
 });
 
-function sseEncode(event: PipelineEvent): string {
-  return `data: ${JSON.stringify(event)}\n\n`;
-}
+const SSE_HEADERS = {
+  "Content-Type": "text/event-stream",
+  "Cache-Control": "no-cache",
+  Connection: "keep-alive",
+};
 
 export async function action({ request }: { request: Request }) {
   const rateLimit = checkRateLimit(request, { maxRequests: 20, windowMs: 60_000 });
@@ -58,125 +85,140 @@ export async function action({ request }: { request: Request }) {
     projectType,
     orchestratorProviderId,
     orchestratorModelName,
+    pipelineId,
+    plan,
   } = parsed.data;
   const sessionId = parsed.data.sessionId ?? crypto.randomUUID();
 
-  const memory = getOrCreateSession(sessionId, projectId);
-  const encoder = new TextEncoder();
+  // Roles may point at user-managed endpoints — make sure LLMManager knows them
+  await syncCustomEndpoints();
 
-  // ─── Chain mode (orchestrated) ──────────────────────────
-  if (roleId === CHAIN_ROLE_ID) {
-    const readable = new ReadableStream({
-      async start(controller) {
-        try {
-          controller.enqueue(encoder.encode(sseEncode({ type: "session_init", sessionId })));
-          const gen = executeOrchestrated(
-            memory,
-            message,
-            localContext,
-            projectType,
-            request.signal,
-            { providerId: orchestratorProviderId, modelName: orchestratorModelName },
-          );
-          for await (const event of gen) {
-            controller.enqueue(encoder.encode(sseEncode(event)));
-          }
-          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-          controller.close();
-        } catch (err) {
-          if ((err as Error).name === "AbortError") {
-            controller.close();
-            return;
-          }
-          const msg = err instanceof Error ? err.message : "Pipeline error";
-          controller.enqueue(encoder.encode(sseEncode({ type: "error", message: msg })));
-          controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-          controller.close();
-        }
-      },
-    });
+  const memory = await getOrCreateSession(sessionId, projectId);
 
-    return new Response(readable, {
-      headers: {
-        "Content-Type": "text/event-stream",
-        "Cache-Control": "no-cache",
-        Connection: "keep-alive",
-      },
-    });
+  const project = await projectService.getProject(projectId).catch((err) => {
+    logger.warn("pipeline", `Could not load project ${projectId}: ${err instanceof Error ? err.message : err}`);
+    return null;
+  });
+  // Prompts follow the user's UI language
+  memory.locale = parsed.data.language ?? DEFAULT_PROMPT_LOCALE;
+  memory.requestId = parsed.data.messageId;
+
+  // Unknown/empty session — resume agent context from the project's saved chat
+  if (memory.steps.length === 0 && project) {
+    try {
+      const history = await getProjectMessages(project.databaseId, parsed.data.branchId);
+      resumeSessionFromHistory(memory, history);
+    } catch (err) {
+      logger.warn("pipeline", `Could not resume session from chat history: ${err instanceof Error ? err.message : err}`);
+    }
   }
 
-  // ─── Single role mode (STREAMING) ────────────────────────
-  const readable = new ReadableStream({
-    async start(controller) {
-      try {
-        controller.enqueue(encoder.encode(sseEncode({ type: "session_init", sessionId })));
-
-        // Select role
-        const { role, selectedBy } = await selectRole(
-          sessionId,
-          roleId,
-          message,
-          forceRole,
-          { providerId: orchestratorProviderId, modelName: orchestratorModelName },
-        );
+  // An earlier message was edited — its old answers must not reach the prompts
+  if (parsed.data.rewindMessageIds?.length) {
+    const dropped = rewindSession(memory, parsed.data.rewindMessageIds);
+    logger.info("pipeline", `Session ${sessionId} rewound for an edited message: ${dropped} step(s) dropped`);
+  }
 
-        controller.enqueue(
-          encoder.encode(
-            sseEncode({
-              type: "role_selected",
-              roleId: role.id,
-              roleName: role.name,
-              selectedBy,
-            }),
-          ),
-        );
+  // Code diagnostics check the whole project — start from its latest saved version
+  memory.projectFiles = undefined;
+  if (project) {
+    try {
+      const [latest] = await listVersions(project.databaseId, parsed.data.branchId);
+      if (latest) memory.projectFiles = { files: latest.code, stepCount: memory.steps.length };
+    } catch (err) {
+      logger.warn("pipeline", `Could not load the latest version: ${err instanceof Error ? err.message : err}`);
+    }
+  }
 
-        controller.enqueue(
-          encoder.encode(
-            sseEncode({
-              type: "step_start",
-              roleName: role.name,
-              model: role.modelName,
-              provider: role.providerId,
-            }),
-          ),
-        );
+  const jobInit = { projectId, sessionId, branchId: parsed.data.branchId, roleId, message };
 
-        // Stream step output token-by-token
-        const gen = executeStepStreaming(
-          role,
+  // ─── Chain mode (orchestrated) ──────────────────────────
+  if (roleId === CHAIN_ROLE_ID) {
+    // Kept with a confirmed plan too — an unchanged definition preview runs the graph
+    const definition = pipelineId
+      ? await getPipelineDefinition(pipelineId)
+      : await getDefaultPipelineDefinition();
+    if (pipelineId && !definition) {
+      return Response.json({ error: "Pipeline not found" }, { status: 404 });
+    }
+
+    const job = startPipelineJob(jobInit, async function* (job, abortSignal) {
+      const control = parsed.data.chainControl ? openChainControl(sessionId) : null;
+      try {
+        yield { type: "session_init", sessionId, jobId: job.id };
+        yield* executeOrchestrated(
           memory,
           message,
           localContext,
           projectType,
-          selectedBy,
-          request.signal,
+          abortSignal,
+          { providerId: orchestratorProviderId, modelName: orchestratorModelName },
+          definition,
+          plan,
+          control,
         );
-
-        for await (const event of gen) {
-          controller.enqueue(encoder.encode(sseEncode(event)));
-        }
-
-        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-        controller.close();
-      } catch (err) {
-        if ((err as Error).name === "AbortError") {
-          controller.close();
-          return;
-        }
-        const msg = err instanceof Error ? err.message : "Pipeline error";
-        controller.enqueue(encoder.encode(sseEncode({ type: "error", message: msg })));
-        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
-        controller.close();
+      } finally {
+        if (control) closeChainControl(control);
       }
-    },
-  });
+    });
 
-  return new Response(readable, {
-    headers: {
-      "Content-Type": "text/event-stream",
-      "Cache-Control": "no-cache",
-      Connection: "keep-alive",
-    },
+    return new Response(pipelineJobStream(job.id, 0, request.signal), { headers: SSE_HEADERS });
+  }
+
+  // ─── Single role mode (STREAMING) ────────────────────────
+
+  // Talking to one role directly abandons a chain paused for questions
+  if (memory.chainCheckpoint) {
+    memory.chainCheckpoint = undefined;
+    persistSession(memory);
+  }
+
+  const job = startPipelineJob(jobInit, async function* (job, abortSignal) {
+    yield { type: "session_init", sessionId, jobId: job.id };
+
+    // Select role
+    const { role, selectedBy } = await selectRole(
+      sessionId,
+      roleId,
+      message,
+      forceRole,
+      { providerId: orchestratorProviderId, modelName: orchestratorModelName },
+    );
+
+    yield {
+      type: "role_selected",
+      roleId: role.id,
+      roleName: role.name,
+      selectedBy,
+    };
+
+    yield {
+      type: "step_start",
+      roleName: role.name,
+      model: role.modelName,
+      provider: role.providerId,
+    };
+
+    // Stream step output token-by-token
+    yield* executeStepStreaming(
+      role,
+      memory,
+      message,
+      localContext,
+      projectType,
+      selectedBy,
+      abortSignal,
+    );
+
+    // The role asked structured questions — let the chat render the form
+    const lastStep = memory.steps.at(-1);
+    const questions = lastStep?.agentRoleId === role.id && lastStep.status === "success"
+      ? parseClarifyingQuestions(lastStep.output)
+      : null;
+    if (questions) {
+      yield { type: "clarifying_questions", roleName: role.name, questions };
+    }
   });
+
+  return new Response(pipelineJobStream(job.id, 0, request.signal), { headers: SSE_HEADERS });
 }
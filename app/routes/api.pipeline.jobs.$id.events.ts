@@ -0,0 +1,24 @@
+import { getPipelineJob, pipelineJobStream } from "~/lib/services/pipelineJobs";
+
+// GET /api/pipeline/jobs/:id/events — reattach to a job's event stream.
+// Replays events after Last-Event-ID (header, or ?lastEventId= for the first attach)
+export async function loader({ request, params }: { request: Request; params: { id: string } }) {
+  const job = getPipelineJob(params.id);
+  if (!job) {
+    return Response.json({ error: "Job not found" }, { status: 404 });
+  }
+
+  const raw = request.headers.get("Last-Event-ID") ?? new URL(request.url).searchParams.get("lastEventId") ?? "0";
+  const lastEventId = Number.parseInt(raw, 10);
+  if (!Number.isFinite(lastEventId) || lastEventId < 0) {
+    return Response.json({ error: "Invalid Last-Event-ID" }, { status: 400 });
+  }
+
+  return new Response(pipelineJobStream(job.id, lastEventId, request.signal), {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    },
+  });
+}
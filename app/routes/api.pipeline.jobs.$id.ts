@@ -0,0 +1,26 @@
+import { getPipelineJob, cancelPipelineJob } from "~/lib/services/pipelineJobs";
+
+// GET /api/pipeline/jobs/:id — job status
+export async function loader({ params }: { params: { id: string } }) {
+  const job = getPipelineJob(params.id);
+  if (!job) {
+    return Response.json({ error: "Job not found" }, { status: 404 });
+  }
+  return Response.json({ job });
+}
+
+// DELETE /api/pipeline/jobs/:id — cancel a running job
+export async function action({ request, params }: { request: Request; params: { id: string } }) {
+  if (request.method !== "DELETE") {
+    return Response.json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const job = getPipelineJob(params.id);
+  if (!job) {
+    return Response.json({ error: "Job not found" }, { status: 404 });
+  }
+  if (!cancelPipelineJob(params.id)) {
+    return Response.json({ error: "Job is not running" }, { status: 409 });
+  }
+  return Response.json({ ok: true });
+}
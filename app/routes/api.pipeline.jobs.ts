@@ -0,0 +1,10 @@
+import { listPipelineJobs } from "~/lib/services/pipelineJobs";
+
+// GET /api/pipeline/jobs?projectId=... — running and finished jobs of a project
+export async function loader({ request }: { request: Request }) {
+  const projectId = new URL(request.url).searchParams.get("projectId");
+  if (!projectId) {
+    return Response.json({ error: "projectId is required" }, { status: 400 });
+  }
+  return Response.json({ jobs: listPipelineJobs(projectId) });
+}
@@ -0,0 +1,81 @@
+import { z } from "zod";
+import { PROMPT_LOCALES, DEFAULT_PROMPT_LOCALE } from "@shared/types/promptLocale";
+import { getOrCreateSession, resumeSessionFromHistory } from "~/lib/services/agentPipeline";
+import { previewPlan } from "~/lib/services/orchestrator";
+import { syncCustomEndpoints } from "~/lib/services/customEndpointService";
+import {
+  getPipelineDefinition,
+  getDefaultPipelineDefinition,
+} from "~/lib/services/pipelineDefinitionService";
+import { getProjectMessages } from "~/features/chat/service/chatService";
+import * as projectService from "~/features/projects/service/projectService";
+import { checkRateLimit } from "~/lib/utils/rateLimit";
+import { logger } from "~/lib/utils/logger";
+
+const PlanSchema = z.object({
+  projectId: z.string().min(1),
+  sessionId: z.string().optional(),
+  branchId: z.string().optional(), // conversation branch the session resumes from
+  message: z.string().min(1).max(128_000),
+  language: z.enum(PROMPT_LOCALES).optional(), // user's UI language — picks the prompt pack
+  orchestratorProviderId: z.string().optional(),
+  orchestratorModelName: z.string().optional(),
+  pipelineId: z.string().optional(), // stored pipeline definition (default one if omitted)
+});
+
+// POST /api/pipeline/plan — dry run: which roles chain mode would run and why.
+// Nothing is executed; the (edited) plan goes to /api/pipeline/execute.
+export async function action({ request }: { request: Request }) {
+  const rateLimit = checkRateLimit(request, { maxRequests: 20, windowMs: 60_000 });
+  if (!rateLimit.allowed) {
+    const retrySec = rateLimit.retryAfterMs ? Math.ceil(rateLimit.retryAfterMs / 1000) : 60;
+    return Response.json(
+      { error: "Too many requests", retryAfter: retrySec },
+      { status: 429, headers: { "Retry-After": String(retrySec) } },
+    );
+  }
+
+  const rawBody = await request.json().catch(() => null);
+  if (!rawBody) {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = PlanSchema.safeParse(rawBody);
+  if (!parsed.success) {
+    const detail = parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+    return Response.json({ error: detail }, { status: 400 });
+  }
+
+  const { projectId, message, orchestratorProviderId, orchestratorModelName } = parsed.data;
+  // The client runs the plan in this session — planning must see the same history
+  const sessionId = parsed.data.sessionId ?? crypto.randomUUID();
+
+  await syncCustomEndpoints();
+
+  const memory = await getOrCreateSession(sessionId, projectId);
+  // Prompts follow the user's UI language
+  memory.locale = parsed.data.language ?? DEFAULT_PROMPT_LOCALE;
+
+  if (memory.steps.length === 0) {
+    try {
+      const project = await projectService.getProject(projectId);
+      const history = await getProjectMessages(project.databaseId, parsed.data.branchId);
+      resumeSessionFromHistory(memory, history);
+    } catch (err) {
+      logger.warn("pipeline", `Could not resume session from chat history: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  const definition = parsed.data.pipelineId
+    ? await getPipelineDefinition(parsed.data.pipelineId)
+    : await getDefaultPipelineDefinition();
+  if (parsed.data.pipelineId && !definition) {
+    return Response.json({ error: "Pipeline not found" }, { status: 404 });
+  }
+
+  const plan = await previewPlan(memory, message, {
+    providerId: orchestratorProviderId,
+    modelName: orchestratorModelName,
+  }, definition);
+  return Response.json({ sessionId, plan });
+}
@@ -0,0 +1,82 @@
+import { z } from "zod";
+import {
+  getPipelineDefinition,
+  updatePipelineDefinition,
+  deletePipelineDefinition,
+  PipelineNodeSchema,
+  PipelineEdgeSchema,
+} from "~/lib/services/pipelineDefinitionService";
+import { validatePipelineGraph } from "~/lib/services/pipelineGraph";
+import { getAllRoles } from "~/lib/services/roleService";
+
+const UpdatePipelineSchema = z.object({
+  name: z.string().min(2).max(100).optional(),
+  description: z.string().max(2000).optional(),
+  nodes: z.array(PipelineNodeSchema).min(1).max(50).optional(),
+  edges: z.array(PipelineEdgeSchema).max(200).optional(),
+  isDefault: z.boolean().optional(),
+});
+
+// GET /api/pipelines/:id
+export async function loader({ params }: { params: { id: string } }) {
+  const pipeline = await getPipelineDefinition(params.id);
+  if (!pipeline) {
+    return Response.json({ error: "Pipeline not found" }, { status: 404 });
+  }
+  return Response.json({ pipeline });
+}
+
+// PUT/DELETE /api/pipelines/:id
+export async function action({ request, params }: { request: Request; params: { id: string } }) {
+  const { id } = params;
+
+  // DELETE
+  if (request.method === "DELETE") {
+    const deleted = await deletePipelineDefinition(id);
+    if (!deleted) {
+      return Response.json({ error: "Pipeline not found" }, { status: 404 });
+    }
+    return Response.json({ ok: true });
+  }
+
+  // PUT
+  const rawBody = await request.json().catch(() => null);
+  if (!rawBody) {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = UpdatePipelineSchema.safeParse(rawBody);
+  if (!parsed.success) {
+    const detail = parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+    return Response.json({ error: detail }, { status: 400 });
+  }
+
+  const existing = await getPipelineDefinition(id);
+  if (!existing) {
+    return Response.json({ error: "Pipeline not found" }, { status: 404 });
+  }
+
+  // Validate the graph as it will be stored
+  if (parsed.data.nodes || parsed.data.edges) {
+    const nodes = parsed.data.nodes ?? existing.nodes;
+    const issues = validatePipelineGraph({ nodes, edges: parsed.data.edges ?? existing.edges });
+    const roleIds = new Set((await getAllRoles()).map((r) => r.id));
+    for (const node of nodes) {
+      if (!roleIds.has(node.roleId)) issues.push(`Неизвестная роль: ${node.roleId}`);
+    }
+    if (issues.length > 0) {
+      return Response.json({ error: issues.join("; ") }, { status: 400 });
+    }
+  }
+
+  try {
+    const updated = await updatePipelineDefinition(id, parsed.data);
+    if (!updated) {
+      return Response.json({ error: "Pipeline not found" }, { status: 404 });
+    }
+    return Response.json({ pipeline: updated });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Failed to update pipeline";
+    return Response.json({ error: msg }, { status: 409 });
+  }
+}
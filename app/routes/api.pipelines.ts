@@ -0,0 +1,56 @@
+import { z } from "zod";
+import { ensureMasterSchema } from "~/lib/db/appwrite";
+import {
+  listPipelineDefinitions,
+  createPipelineDefinition,
+  PipelineNodeSchema,
+  PipelineEdgeSchema,
+} from "~/lib/services/pipelineDefinitionService";
+import { validatePipelineGraph } from "~/lib/services/pipelineGraph";
+import { getAllRoles } from "~/lib/services/roleService";
+
+// GET /api/pipelines — list pipeline definitions
+export async function loader() {
+  await ensureMasterSchema();
+  const pipelines = await listPipelineDefinitions();
+  return Response.json({ pipelines });
+}
+
+const CreatePipelineSchema = z.object({
+  name: z.string().min(2).max(100),
+  description: z.string().max(2000).default(""),
+  nodes: z.array(PipelineNodeSchema).min(1).max(50),
+  edges: z.array(PipelineEdgeSchema).max(200).default([]),
+  isDefault: z.boolean().default(false),
+});
+
+// POST /api/pipelines — create pipeline definition
+export async function action({ request }: { request: Request }) {
+  const rawBody = await request.json().catch(() => null);
+  if (!rawBody) {
+    return Response.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = CreatePipelineSchema.safeParse(rawBody);
+  if (!parsed.success) {
+    const detail = parsed.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join("; ");
+    return Response.json({ error: detail }, { status: 400 });
+  }
+
+  const issues = validatePipelineGraph(parsed.data);
+  const roleIds = new Set((await getAllRoles()).map((r) => r.id));
+  for (const node of parsed.data.nodes) {
+    if (!roleIds.has(node.roleId)) issues.push(`Неизвестная роль: ${node.roleId}`);
+  }
+  if (issues.length > 0) {
+    return Response.json({ error: issues.join("; ") }, { status: 400 });
+  }
+
+  try {
+    const pipeline = await createPipelineDefinition(parsed.data);
+    return Response.json({ pipeline }, { status: 201 });
+  } catch (err) {
+    const msg = err instanceof Error ? err.message : "Failed to create pipeline";
+    return Response.json({ error: msg }, { status: 409 });
+  }
+}
@@ -4,6 +4,7 @@ import {
   updateRole,
   deleteRole,
   getPromptHistory,
+  RoleModelFallbackSchema,
 } from "~/lib/services/roleService";
 
 const UpdateRoleSchema = z.object({
@@ -16,8 +17,10 @@ const UpdateRoleSchema = z.object({
   isActive: z.boolean().optional(),
   timeoutMs: z.number().int().min(5000).max(300_000).optional(),
   maxRetries: z.number().int().min(0).max(5).optional(),
+  fallbacks: z.array(RoleModelFallbackSchema).max(5).optional(),
   outputFormat: z.enum(["freetext", "json"]).optional(),
   includeNitPrompt: z.boolean().optional(),
+  requiresApproval: z.boolean().optional(),
   temperature: z.number().min(0).max(2).optional(),
 });
 
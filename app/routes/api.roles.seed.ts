@@ -2,10 +2,12 @@
  * POST /api/roles/seed — создать дефолтные роли (только если ролей ещё нет)
  * POST /api/roles/seed?force=1 — удалить все роли и создать 6 по умолчанию
  * Body: { providerId?: string, modelName?: string } — основная LLM для ролей
+ *       { locale?: "ru" | "en" } — язык промптов ролей (по умолчанию ru)
  */
 
 import { ensureMasterSchema } from "~/lib/db/appwrite";
 import { seedOrCreateDefaultRoles, seedOrCreateDefaultRolesForce } from "~/lib/db/appwrite";
+import { isPromptLocale, DEFAULT_PROMPT_LOCALE } from "@shared/types/promptLocale";
 import { logger } from "~/lib/utils/logger";
 
 export async function loader({ request }: { request: Request }) {
@@ -23,11 +25,13 @@ export async function action({ request }: { request: Request }) {
 
   let providerId: string | undefined;
   let modelName: string | undefined;
+  let locale = DEFAULT_PROMPT_LOCALE;
   try {
     const body = await request.json().catch(() => ({}));
     if (body && typeof body === "object") {
       if (typeof body.providerId === "string" && body.providerId.trim()) providerId = body.providerId.trim();
       if (typeof body.modelName === "string" && body.modelName.trim()) modelName = body.modelName.trim();
+      if (isPromptLocale(body.locale)) locale = body.locale;
     }
   } catch {
     // ignore body parse errors
@@ -38,8 +42,8 @@ export async function action({ request }: { request: Request }) {
   try {
     await ensureMasterSchema();
     const result = force
-      ? await seedOrCreateDefaultRolesForce(llmOptions)
-      : await seedOrCreateDefaultRoles(llmOptions);
+      ? await seedOrCreateDefaultRolesForce(llmOptions, locale)
+      : await seedOrCreateDefaultRoles(llmOptions, locale);
     if (result.seeded) {
       return Response.json({ ok: true, message: result.message }, { status: 201 });
     }
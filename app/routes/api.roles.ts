@@ -1,15 +1,18 @@
 import { z } from "zod";
 import { ensureMasterSchema } from "~/lib/db/appwrite";
+import { isPromptLocale, DEFAULT_PROMPT_LOCALE } from "@shared/types/promptLocale";
 import {
   getAllRoles,
   createRole,
   reorderRoles,
+  RoleModelFallbackSchema,
 } from "~/lib/services/roleService";
 
-// GET /api/roles — list all roles
+// GET /api/roles — list all roles; ?language= — prompt language of auto-seeded defaults
 export async function loader({ request }: { request: Request }) {
-  await ensureMasterSchema();
   const url = new URL(request.url);
+  const language = url.searchParams.get("language");
+  await ensureMasterSchema(isPromptLocale(language) ? language : DEFAULT_PROMPT_LOCALE);
   const activeOnly = url.searchParams.get("active") === "true";
   const roles = await getAllRoles(activeOnly);
   return Response.json({ roles });
@@ -26,8 +29,10 @@ const CreateRoleSchema = z.object({
   isLocked: z.boolean().default(false),
   timeoutMs: z.number().int().min(5000).max(300_000).default(60_000),
   maxRetries: z.number().int().min(0).max(5).default(2),
+  fallbacks: z.array(RoleModelFallbackSchema).max(5).default([]),
   outputFormat: z.enum(["freetext", "json"]).default("freetext"),
   includeNitPrompt: z.boolean().default(false),
+  requiresApproval: z.boolean().default(false),
   temperature: z.number().min(0).max(2).default(0.7),
 });
 
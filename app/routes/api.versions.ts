@@ -18,7 +18,7 @@ export async function loader({ request }: { request: Request }) {
   }
 
   const databaseId = await resolveDatabaseId(projectId);
-  const versions = await versionService.listVersions(databaseId);
+  const versions = await versionService.listVersions(databaseId, url.searchParams.get("branchId") || undefined);
   return Response.json({ data: versions });
 }
 
@@ -44,6 +44,7 @@ export async function action({ request }: { request: Request }) {
       model: body.model ?? "",
       agentId: body.agentId ?? "",
       temperature: body.temperature ?? 0.3,
+      branchId: body.branchId || undefined,
     });
     return Response.json({ data: version }, { status: 201 });
   }
@@ -4,6 +4,7 @@ import { SacredBackground } from "~/components/ui/SacredBackground";
 import { ParticleField } from "~/components/ui/ParticleField";
 import { ProjectList } from "~/components/sidebar/ProjectList";
 import { VersionHistory } from "~/components/sidebar/VersionHistory";
+import { BranchList } from "~/components/sidebar/BranchList";
 import { useAgentDiscovery } from "~/features/agents/hooks/useAgentDiscovery";
 import { useProjects } from "~/features/projects/hooks/useProjects";
 import { useVersionHistory } from "~/features/projects/hooks/useVersionHistory";
@@ -17,6 +18,7 @@ import { useRoleStore } from "~/lib/stores/roleStore";
 import { abortActivePipeline } from "~/lib/hooks/usePipelineStreaming";
 import { cn } from "~/lib/utils/cn";
 import { sanitizeVersionCode } from "~/lib/utils/codeParser";
+import { useT } from "~/lib/utils/i18n";
 
 const ChatPanel = lazy(() =>
   import("~/components/chat/ChatPanel").then((m) => ({ default: m.ChatPanel })),
@@ -69,7 +71,9 @@ function AgentStatusBar() {
 }
 
 function Sidebar() {
+  const t = useT();
   const { currentProject } = useProjectStore();
+  const branchCount = useChatStore((s) => s.branches.length);
   const { projects, isLoading, create, remove } = useProjects();
   const { versions, loadVersions, restoreVersion } = useVersionHistory();
   const prevProjectIdRef = useRef<string | null>(null);
@@ -94,6 +98,14 @@ function Sidebar() {
 
     const loadChat = async () => {
       await useChatStore.getState().loadProjectChat(currentProject.id);
+      useChatStore.getState().loadBranches(currentProject.id).then(() => {
+        // The shown branch continues with its stored agent session
+        const { branches, currentBranchId } = useChatStore.getState();
+        const sessionId = branches.find((b) => b.id === currentBranchId)?.sessionId;
+        if (sessionId && !useRoleStore.getState().pipelineSessionId) {
+          useRoleStore.getState().setPipelineSessionId(sessionId);
+        }
+      });
 
       const loaded = await loadVersions();
       const latest = loaded[0];
@@ -129,6 +141,14 @@ function Sidebar() {
       <div className="flex-1 min-h-0 overflow-y-auto">
         <ProjectList projects={projects} isLoading={isLoading} onCreate={create} onDelete={remove} />
       </div>
+      {currentProject && branchCount > 1 && (
+        <div className="flex-shrink-0 border-t border-border-subtle max-h-[160px] overflow-y-auto">
+          <div className="px-3 pt-2">
+            <h3 className="font-heading text-[9px] uppercase tracking-[0.2em] text-text-muted">{t("branch.title")}</h3>
+          </div>
+          <BranchList />
+        </div>
+      )}
       {currentProject && versions.length > 0 && (
         <div className="flex-shrink-0 border-t border-border-subtle max-h-[200px] overflow-y-auto">
           <div className="px-3 pt-2">
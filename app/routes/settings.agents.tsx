@@ -10,6 +10,7 @@ import { AgentRoleCard } from "~/components/settings/agents/AgentRoleCard";
 import { AgentRoleForm } from "~/components/settings/agents/AgentRoleForm";
 import { PromptTester } from "~/components/settings/agents/PromptTester";
 import { PromptHistory } from "~/components/settings/agents/PromptHistory";
+import { CustomEndpointsSection } from "~/components/settings/agents/CustomEndpointsSection";
 import { SettingsSection } from "~/components/settings/SettingsSection";
 import { NeonSlider } from "~/components/settings/NeonSlider";
 import { useAgentDiscovery } from "~/features/agents/hooks/useAgentDiscovery";
@@ -20,7 +21,7 @@ import { useT } from "~/lib/utils/i18n";
 import { Link } from "react-router";
 
 export default function SettingsAgentsPage() {
-  useAgentDiscovery();
+  const { refresh: refreshAgents } = useAgentDiscovery();
   const t = useT();
   const settings = useSettingsStore();
   const { agents, selection, setSelection } = useAgentStore();
@@ -103,7 +104,7 @@ export default function SettingsAgentsPage() {
     try {
       const providerId = selection.agentId || settings.defaultAgentId;
       const modelName = selection.modelId || settings.defaultModelId;
-      const body: Record<string, string> = {};
+      const body: Record<string, string> = { locale: settings.language };
       if (providerId && modelName) {
         body.providerId = providerId;
         body.modelName = modelName;
@@ -151,7 +152,7 @@ export default function SettingsAgentsPage() {
     try {
       const providerId = selection.agentId || settings.defaultAgentId;
       const modelName = selection.modelId || settings.defaultModelId;
-      const body: Record<string, string> = {};
+      const body: Record<string, string> = { locale: settings.language };
       if (providerId && modelName) {
         body.providerId = providerId;
         body.modelName = modelName;
@@ -304,6 +305,11 @@ export default function SettingsAgentsPage() {
                 ← {t("common.back")}
               </NeonButton>
             </Link>
+            <Link to="/settings/analytics">
+              <NeonButton variant="ghost" size="sm">
+                {t("settings.analytics")}
+              </NeonButton>
+            </Link>
             <NeonButton variant="ghost" size="sm" onClick={settings.resetSettings}>
               {t("common.reset_defaults")}
             </NeonButton>
@@ -371,6 +377,13 @@ export default function SettingsAgentsPage() {
           </div>
         </SettingsSection>
 
+        <CustomEndpointsSection
+          onChange={() => {
+            refreshAgents();
+            loadData();
+          }}
+        />
+
         {/* Project */}
         <SettingsSection title={t("settings.section_project")} className="mb-6 animate-fade-in-up">
           <div className="space-y-4">
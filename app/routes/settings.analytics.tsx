@@ -0,0 +1,170 @@
+import { useState, useEffect, useCallback } from "react";
+import type { Project } from "@shared/types/project";
+import type { PipelineAnalytics } from "@shared/types/pipelineAnalytics";
+import { SacredBackground } from "~/components/ui/SacredBackground";
+import { ParticleField } from "~/components/ui/ParticleField";
+import { NeonButton } from "~/components/ui/NeonButton";
+import { NeonInput } from "~/components/ui/NeonInput";
+import { GlowText } from "~/components/ui/GlowText";
+import { SettingsSection } from "~/components/settings/SettingsSection";
+import { GroupStatsTable } from "~/components/settings/analytics/GroupStatsTable";
+import { useT } from "~/lib/utils/i18n";
+
+import { Link } from "react-router";
+
+const DEFAULT_RANGE_DAYS = 30;
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export default function SettingsAnalyticsPage() {
+  const t = useT();
+  const [from, setFrom] = useState(() => isoDate(new Date(Date.now() - DEFAULT_RANGE_DAYS * 86_400_000)));
+  const [to, setTo] = useState(() => isoDate(new Date()));
+  const [projectId, setProjectId] = useState("");
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [analytics, setAnalytics] = useState<PipelineAnalytics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/projects")
+      .then((res) => (res.ok ? res.json() : { data: [] }))
+      .then((json: { data?: Project[] }) => setProjects(json.data ?? []))
+      .catch(() => setProjects([]));
+  }, []);
+
+  const loadAnalytics = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    const params = new URLSearchParams();
+    if (from) params.set("from", from);
+    if (to) params.set("to", to);
+    if (projectId) params.set("projectId", projectId);
+    try {
+      const res = await fetch(`/api/analytics?${params}`, { signal: AbortSignal.timeout(30_000) });
+      const data = (await res.json().catch(() => ({}))) as { analytics?: PipelineAnalytics; error?: string };
+      if (!res.ok || !data.analytics) throw new Error(data.error ?? "Ошибка загрузки аналитики");
+      setAnalytics(data.analytics);
+    } catch (e) {
+      setError(e instanceof Error && e.name === "TimeoutError" ? "Превышено время ожидания" : e instanceof Error ? e.message : "Ошибка загрузки аналитики");
+      setAnalytics(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [from, to, projectId]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const selectedByTotal = analytics
+    ? Object.values(analytics.selectedBy).reduce((a, b) => a + b, 0)
+    : 0;
+
+  return (
+    <SacredBackground pattern="flower" className="h-screen">
+      <ParticleField count={8} />
+      <div className="flex-1 overflow-y-auto min-h-0">
+        <div className="max-w-5xl mx-auto px-6 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <GlowText as="h1" variant="gold" className="text-xl mb-1">
+              {t("analytics.title")}
+            </GlowText>
+            <p className="text-text-muted text-xs">{t("analytics.subtitle")}</p>
+          </div>
+          <div className="flex gap-2">
+            <Link to="/settings/agents">
+              <NeonButton variant="ghost" size="sm">
+                ← {t("settings.title")}
+              </NeonButton>
+            </Link>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <SettingsSection title={t("analytics.filters")} className="mb-6 animate-fade-in-up">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <NeonInput label={t("analytics.from")} type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} />
+            <NeonInput label={t("analytics.to")} type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} />
+            <div className="flex flex-col gap-1.5">
+              <label className="text-xs font-heading uppercase tracking-[0.15em] text-text-secondary">
+                {t("analytics.project")}
+              </label>
+              <select
+                value={projectId}
+                onChange={(e) => setProjectId(e.target.value)}
+                className="w-full bg-deep-space border border-border-subtle rounded px-3 py-2.5 text-sm text-text-primary outline-none focus:border-gold-pure/40 transition-colors"
+              >
+                <option value="">{t("analytics.all_projects")}</option>
+                {projects.map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {analytics && (
+            <p className="text-text-muted text-xs">
+              {t("analytics.total")}: {analytics.totalLogs}
+              {analytics.truncated && ` — ${t("analytics.truncated")}`}
+            </p>
+          )}
+        </SettingsSection>
+
+        {error && (
+          <div className="mb-6 glass rounded-lg px-3 py-2 border border-red-400/20 text-red-400 text-xs">{error}</div>
+        )}
+
+        {loading && !analytics && <p className="text-text-muted text-sm">{t("common.loading")}</p>}
+
+        {analytics && (
+          <>
+            <SettingsSection title={t("analytics.by_role")} className="mb-6 animate-fade-in-up">
+              <GroupStatsTable groups={analytics.byRole} />
+            </SettingsSection>
+
+            <SettingsSection title={t("analytics.by_model")} className="mb-6 animate-fade-in-up">
+              <GroupStatsTable groups={analytics.byModel} />
+            </SettingsSection>
+
+            <SettingsSection title={t("analytics.by_provider")} className="mb-6 animate-fade-in-up">
+              <GroupStatsTable groups={analytics.byProvider} />
+            </SettingsSection>
+
+            <SettingsSection title={t("analytics.selected_by")} className="mb-6 animate-fade-in-up">
+              {(Object.entries(analytics.selectedBy) as [string, number][]).map(([source, count]) => (
+                <div key={source} className="flex items-center gap-3 text-xs">
+                  <span className="w-32 text-text-secondary">{t(`analytics.selected_by.${source}`)}</span>
+                  <div className="flex-1 h-2 rounded bg-deep-space overflow-hidden">
+                    <div
+                      className="h-full bg-gold-pure/60"
+                      style={{ width: `${selectedByTotal ? (count / selectedByTotal) * 100 : 0}%` }}
+                    />
+                  </div>
+                  <span className="w-12 text-right text-text-muted">{count}</span>
+                </div>
+              ))}
+            </SettingsSection>
+
+            <SettingsSection title={t("analytics.top_errors")} className="mb-6 animate-fade-in-up">
+              {analytics.topErrors.length === 0 ? (
+                <p className="text-text-muted text-xs">{t("analytics.no_errors")}</p>
+              ) : (
+                analytics.topErrors.map((e) => (
+                  <div key={e.message} className="flex items-start gap-3 text-xs">
+                    <span className="w-10 shrink-0 text-right text-red-400">{e.count}×</span>
+                    <span className="text-text-secondary break-words min-w-0">{e.message}</span>
+                  </div>
+                ))
+              )}
+            </SettingsSection>
+          </>
+        )}
+        </div>
+      </div>
+    </SacredBackground>
+  );
+}
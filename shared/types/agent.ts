@@ -1,4 +1,12 @@
-export type AgentType = "ollama" | "lm_studio" | "openai_compatible" | "custom";
+export type AgentType =
+  | "ollama"
+  | "lm_studio"
+  | "openai_compatible"
+  | "custom"
+  | "anthropic"
+  | "openai"
+  | "gemini"
+  | "openrouter";
 export type AgentStatus = "online" | "offline" | "checking";
 
 export type AIModel = {
@@ -1,3 +1,5 @@
+import type { PromptLocale } from "./promptLocale";
+
 // === Agent Role (stored in Appwrite Master DB) ===
 
 export type AgentRole = {
@@ -10,15 +12,22 @@ export type AgentRole = {
   order: number;
   isActive: boolean;
   isLocked: boolean;
-  timeoutMs: number;
+  timeoutMs: number; // max wait for the first token (and between tokens); generation and the model queue each get STEP_TOTAL_TIMEOUT_FACTOR × this
   maxRetries: number;
+  fallbacks?: RoleModelFallback[]; // tried in order when the primary model times out, fails or is offline
   outputFormat: "freetext" | "json";
   includeNitPrompt: boolean; // true = prepend NIT code generation prompt (for code-producing roles)
+  requiresApproval?: boolean; // chain mode pauses after this step until the user approves, edits or rejects its output
   temperature: number;
   createdAt: string;
   updatedAt: string;
 };
 
+export type RoleModelFallback = {
+  providerId: string;
+  modelName: string;
+};
+
 // === Pipeline types ===
 
 export type AgentStepStatus = "success" | "error" | "timeout" | "cancelled";
@@ -37,39 +46,164 @@ export type AgentStep = {
   selectedBy: AgentSelectedBy;
   status: AgentStepStatus;
   timestamp: string;
+  requestId?: string; // id of the user message the step answered — forks and rewinds cut by it
 };
 
 export type AgentMemory = {
   sessionId: string;
   projectId: string;
   steps: AgentStep[];
+  chainCheckpoint?: ChainCheckpoint; // set while a chain waits for answers to clarifying questions
+  locale?: PromptLocale; // language of the built-in prompts — set per request
+  projectFiles?: ProjectFilesSnapshot; // saved project code the request started from — set per request
+  requestId?: string; // id of the user message being answered — set per request
   createdAt: string;
   lastActivity: string;
 };
 
+/** Latest saved version of the project, and how many session steps it already includes. */
+export type ProjectFilesSnapshot = {
+  files: Record<string, string>;
+  stepCount: number;
+};
+
+/** Graph state of a stored pipeline paused for clarifying questions. */
+export type DefinitionCheckpoint = {
+  pipelineId: string;
+  pending: string[];                    // nodes still to run, the questioning ones included
+  iterations: Record<string, number>;   // loop counters of conditional edges
+  instructions: Record<string, string>; // fix context for nodes re-activated by on_fail
+};
+
+/** Where a chain stopped for clarifying questions — the next chain message resumes from here. */
+export type ChainCheckpoint = {
+  userMessage: string;       // the request the chain was started with
+  localContext: string;
+  rerunRoleIds: string[];    // roles that asked questions — re-run with the answer
+  remainingRoleIds: string[];
+  completedCount: number;
+  fixCycleCount: number;
+  fixInstructions: string;
+  reasoning: string;         // plan reasoning of the original run
+  requestId?: string;        // user message whose run asked the questions
+  definition?: DefinitionCheckpoint; // set when a stored pipeline was paused
+  createdAt: string;
+};
+
 // === Role selection in UI ===
 
 export const CHAIN_ROLE_ID = "__chain__";
 export const AUTO_ROLE_ID = "__auto__";
+export const STEP_TOTAL_TIMEOUT_FACTOR = 5;
 
 export type RoleSelection = {
   roleId: string; // role id, CHAIN_ROLE_ID, AUTO_ROLE_ID, or ""
   localContext: string;
 };
 
+// === Tester verdict (structured QA result) ===
+
+export type TesterIssueSeverity = "critical" | "warning" | "info";
+
+export type TesterIssue = {
+  file: string;
+  line?: number;
+  severity: TesterIssueSeverity;
+  message: string;
+  suggestedFix?: string;
+};
+
+export type TesterVerdict = {
+  verdict: "pass" | "fail";
+  summary: string;
+  issues: TesterIssue[];
+};
+
+// === Headless code diagnostics (deterministic checks of generated files) ===
+
+export type CodeDiagnosticKind = "syntax" | "unresolved_import" | "forbidden_import";
+
+export type CodeDiagnostic = {
+  file: string;
+  line?: number;
+  kind: CodeDiagnosticKind;
+  message: string;
+};
+
+// === Token usage and throughput of one step ===
+
+export type StepUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  estimated: boolean; // provider did not report usage — counted with estimateTokens
+  timeToFirstTokenMs: number;
+  tokensPerSecond: number; // completion tokens over the generation time after the first token
+};
+
+// === Orchestrator plan (chain mode) ===
+
+export type OrchestratorPlan = {
+  steps: AgentRole[];
+  reasoning: string;
+  skipReasons: Record<string, string>; // roleId → why the orchestrator left it out
+};
+
+/** A plan the user reviewed before launch — runs as-is, without planning. */
+export type ConfirmedPlan = {
+  roleIds: string[]; // in run order
+  reasoning: string;
+};
+
+// === Clarifying questions (structured, answered through a form) ===
+
+export type ClarifyingQuestionKind = "single" | "multi" | "free-text";
+
+export type ClarifyingQuestion = {
+  id: string;
+  question: string;
+  kind: ClarifyingQuestionKind;
+  options: string[];              // empty for free-text
+  default?: string | string[];    // string[] only for multi
+};
+
+// === Approval gates (chain mode) ===
+
+export type ApprovalDecision =
+  | { action: "approve" }
+  | { action: "edit"; output: string }       // continue with the edited output instead of the model's
+  | { action: "reject"; feedback: string };  // re-run the step with the feedback
+
+// === Chain control (commands to a running chain) ===
+
+export type ChainCommand =
+  | { action: "skip"; stepId: string }      // running or failed step — the chain goes on without it
+  | { action: "retry"; stepId: string }     // failed step — run it again, earlier steps stay in memory
+  | { action: "insert"; roleId: string };   // extra role right after the current step
+
 // === Pipeline SSE events ===
 
+// stepId identifies one step run in chain mode — parallel steps interleave their events
 export type PipelineEvent =
-  | { type: "session_init"; sessionId: string }
-  | { type: "role_selected"; roleId: string; roleName: string; selectedBy: AgentSelectedBy }
-  | { type: "step_start"; roleName: string; model: string; provider: string }
-  | { type: "text"; text: string }
-  | { type: "retry_reset" }  // signals client to discard accumulated text (retry after partial stream)
-  | { type: "step_complete"; roleName: string; durationMs: number }
+  | { type: "session_init"; sessionId: string; jobId?: string }  // jobId: reattach via /api/pipeline/jobs/:id/events
+  | { type: "role_selected"; roleId: string; roleName: string; selectedBy: AgentSelectedBy; stepId?: string }
+  | { type: "step_start"; roleName: string; model: string; provider: string; stepId?: string }
+  | { type: "queued"; roleName: string; provider: string; model: string; position: number; estimatedWaitMs: number; stepId?: string }  // waiting for a free provider / model slot (LLM_MAX_CONCURRENCY)
+  | { type: "text"; text: string; stepId?: string }
+  | { type: "reasoning"; text: string; durationMs?: number; stepId?: string }  // <think> text, kept out of the answer; durationMs closes a block (total so far)
+  | { type: "retry_reset"; stepId?: string }  // signals client to discard accumulated text (retry after partial stream)
+  | { type: "continuation"; roleName: string; attempt: number; maxAttempts: number; reason: "length" | "unclosed"; filePath?: string; stepId?: string }  // output was cut off — the text that follows continues it
+  | { type: "step_complete"; roleName: string; durationMs: number; usage?: StepUsage; stepId?: string }
   | { type: "chain_progress"; current: number; total: number }
   | { type: "error"; message: string; roleName?: string }
   | { type: "warning"; message: string }
   | { type: "awaiting_user"; roleName: string; message: string }  // role asked questions, chain pauses for user answer
+  | { type: "clarifying_questions"; roleName: string; questions: ClarifyingQuestion[]; stepId?: string }  // structured questions, sent before awaiting_user
+  | { type: "approval_required"; roleId: string; roleName: string; stepId: string; output: string; outputFormat: AgentRole["outputFormat"] }
+  | { type: "approval_resolved"; roleName: string; stepId: string; action: ApprovalDecision["action"]; output?: string }
+  | { type: "tester_verdict"; roleName: string; verdict: TesterVerdict }
+  | { type: "diagnostics"; roleName: string; diagnostics: CodeDiagnostic[] }
+  | { type: "step_failed"; roleName: string; stepId: string; message: string }  // controllable chain: waits for retry or skip
+  | { type: "step_skipped"; roleName: string; stepId: string }
   | { type: "done" };
 
 // === Pipeline log (stored in Appwrite Master DB) ===
@@ -89,6 +223,12 @@ export type PipelineLog = {
   status: AgentStepStatus | "success" | "error" | "timeout" | "cancelled";
   errorMessage: string;
   retryCount: number;
+  // Filled for successful steps
+  promptTokens?: number;
+  completionTokens?: number;
+  tokensEstimated?: boolean;
+  timeToFirstTokenMs?: number;
+  tokensPerSecond?: number;
   timestamp: string;
 };
 
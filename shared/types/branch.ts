@@ -0,0 +1,13 @@
+// === Conversation branches (stored in the project database) ===
+
+// Messages and versions saved before branches existed belong to this branch
+export const MAIN_BRANCH_ID = "main";
+
+export type ConversationBranch = {
+  id: string;
+  name: string;
+  parentBranchId: string | null;
+  forkMessageId: string | null;   // last message copied from the parent branch
+  sessionId: string | null;       // pipeline session holding the branch's agent memory
+  createdAt: string;
+};
@@ -0,0 +1,22 @@
+/** User-registered OpenAI-compatible server (vLLM, llama.cpp, TGI, …). */
+export type CustomEndpoint = {
+  id: string;
+  name: string;
+  /** Server root without /v1 — same convention as CUSTOM_LLM_URL */
+  baseUrl: string;
+  apiKey: string;
+  headers: Record<string, string>;
+  /** Model id patterns, `*` as wildcard; empty = all models */
+  modelFilter: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+/** What the API returns — the key and header values never leave the server. */
+export type CustomEndpointView = Omit<CustomEndpoint, "apiKey" | "headers"> & {
+  hasApiKey: boolean;
+  headerNames: string[];
+};
+
+/** Provider / agent id of an endpoint is this prefix + endpoint id. */
+export const CUSTOM_ENDPOINT_PREFIX = "endpoint_";
@@ -8,14 +8,18 @@ export type ChatMessage = {
   model?: string;
   agentId?: string; // provider id (legacy, kept for compat)
   // Pipeline fields
-  agentRoleId?: string;
+  agentRoleId?: string; // user messages: the role selection they were sent with
   agentRoleName?: string;
   selectedBy?: string; // "hardcoded" | "user" | "router_llm"
   durationMs?: number;
+  reasoning?: string; // <think> text of the model, shown collapsed
+  reasoningMs?: number;
+  jobId?: string; // pipeline job that produced it — a reattach replaces these messages
 };
 
 export type StreamingState = {
   isStreaming: boolean;
   currentContent: string;
   error: string | null;
+  runMessageId?: string; // user message that started the current run — its replies follow it
 };
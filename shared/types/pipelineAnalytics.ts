@@ -0,0 +1,43 @@
+import type { AgentSelectedBy } from "./agentRole";
+
+/** Date range (YYYY-MM-DD, inclusive) and project filter for PIPELINE_LOGS. */
+export type PipelineAnalyticsFilter = {
+  from?: string;
+  to?: string;
+  projectId?: string;
+};
+
+/** Outcome counts and latency of one role / model / provider. */
+export type PipelineGroupStats = {
+  key: string;
+  label: string;
+  total: number;
+  success: number;
+  error: number;
+  timeout: number;
+  successRate: number;
+  errorRate: number;
+  timeoutRate: number;
+  /** Sum of retryCount over all log entries */
+  retries: number;
+  /** Percentiles over successful steps; null when there are none */
+  p50DurationMs: number | null;
+  p95DurationMs: number | null;
+  avgTokensPerSecond: number | null;
+};
+
+export type PipelineErrorCount = {
+  message: string;
+  count: number;
+};
+
+export type PipelineAnalytics = {
+  totalLogs: number;
+  /** More logs matched than were read — narrow the range */
+  truncated: boolean;
+  byRole: PipelineGroupStats[];
+  byModel: PipelineGroupStats[];
+  byProvider: PipelineGroupStats[];
+  selectedBy: Record<AgentSelectedBy, number>;
+  topErrors: PipelineErrorCount[];
+};
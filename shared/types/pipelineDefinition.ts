@@ -0,0 +1,31 @@
+// === Pipeline definitions (user-defined agent graphs) ===
+
+/**
+ * "always" edges are dependencies: the target waits for the source.
+ * "on_pass" / "on_fail" edges are triggers evaluated on the source step outcome
+ * (Tester verdict, Coder diagnostics) and may form loops, capped by maxIterations.
+ */
+export type PipelineEdgeCondition = "always" | "on_pass" | "on_fail";
+
+export type PipelineNode = {
+  id: string;
+  roleId: string;
+};
+
+export type PipelineEdge = {
+  from: string;
+  to: string;
+  condition: PipelineEdgeCondition;
+  maxIterations?: number;
+};
+
+export type PipelineDefinition = {
+  id: string;
+  name: string;
+  description: string;
+  nodes: PipelineNode[];
+  edges: PipelineEdge[];
+  isDefault: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
@@ -0,0 +1,18 @@
+// === Pipeline jobs (server process memory) ===
+
+export type PipelineJobStatus = "running" | "done" | "error" | "cancelled";
+
+/** A pipeline run detached from the request that started it. */
+export type PipelineJobSummary = {
+  id: string;
+  projectId: string;
+  sessionId: string;
+  branchId: string | null;
+  roleId: string;              // role selection the run was started with (CHAIN_ROLE_ID for chains)
+  message: string;             // the user's prompt
+  status: PipelineJobStatus;
+  eventCount: number;          // ids of buffered events run 1..eventCount
+  error: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+};
@@ -10,6 +10,7 @@ export type ProjectVersion = {
   temperature: number;
   versionNumber: number;
   createdAt: string;
+  branchId?: string;
 };
 
 export type Project = {
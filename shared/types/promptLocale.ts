@@ -0,0 +1,10 @@
+/** Languages the built-in agent prompts come in — seeded roles, router, planner, shared protocol. */
+export const PROMPT_LOCALES = ["ru", "en"] as const;
+
+export type PromptLocale = (typeof PROMPT_LOCALES)[number];
+
+export const DEFAULT_PROMPT_LOCALE: PromptLocale = "ru";
+
+export function isPromptLocale(value: unknown): value is PromptLocale {
+  return typeof value === "string" && (PROMPT_LOCALES as readonly string[]).includes(value);
+}
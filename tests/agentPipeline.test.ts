@@ -48,30 +48,30 @@ import { routeToAgent } from "~/lib/services/agentRouter";
 
 describe("agentPipeline", () => {
   describe("getOrCreateSession", () => {
-    it("creates a new session", () => {
-      const session = getOrCreateSession("test-session-1", "project-1");
+    it("creates a new session", async () => {
+      const session = await getOrCreateSession("test-session-1", "project-1");
       expect(session.sessionId).toBe("test-session-1");
       expect(session.projectId).toBe("project-1");
       expect(session.steps).toEqual([]);
       expect(session.createdAt).toBeTruthy();
     });
 
-    it("returns existing session", () => {
-      const s1 = getOrCreateSession("test-session-2", "project-1");
+    it("returns existing session", async () => {
+      const s1 = await getOrCreateSession("test-session-2", "project-1");
       s1.steps.push({
         order: 1, agentName: "test", agentRoleId: "r1", input: "in", output: "out",
         modelUsed: "m", providerId: "p", durationMs: 100, selectedBy: "user",
         status: "success", timestamp: new Date().toISOString(),
       });
-      const s2 = getOrCreateSession("test-session-2", "project-1");
+      const s2 = await getOrCreateSession("test-session-2", "project-1");
       expect(s2.steps.length).toBe(1);
       expect(s2.steps[0]!.agentName).toBe("test");
     });
   });
 
   describe("getSession", () => {
-    it("returns undefined for non-existent session", () => {
-      expect(getSession("nonexistent-session")).toBeUndefined();
+    it("returns undefined for non-existent session", async () => {
+      expect(await getSession("nonexistent-session")).toBeUndefined();
     });
   });
 
@@ -86,7 +86,7 @@ describe("agentPipeline", () => {
 
     it("uses user-selected role for existing session", async () => {
       const sessionId = `existing-session-${Date.now()}`;
-      const session = getOrCreateSession(sessionId, "proj-1");
+      const session = await getOrCreateSession(sessionId, "proj-1");
       session.steps.push({
         order: 1, agentName: "Архитектор", agentRoleId: "role_architect",
         input: "test", output: "result", modelUsed: "mistral", providerId: "ollama",
@@ -101,7 +101,7 @@ describe("agentPipeline", () => {
 
     it("falls back to router for auto selection", async () => {
       const sessionId = `auto-session-${Date.now()}`;
-      const session = getOrCreateSession(sessionId, "proj-1");
+      const session = await getOrCreateSession(sessionId, "proj-1");
       session.steps.push({
         order: 1, agentName: "Архитектор", agentRoleId: "role_architect",
         input: "test", output: "result", modelUsed: "mistral", providerId: "ollama",
@@ -118,7 +118,7 @@ describe("agentPipeline", () => {
 
     it("respects forceRole on new session (bypasses Architect lock)", async () => {
       const sessionId = `force-session-${Date.now()}`;
-      getOrCreateSession(sessionId, "proj-1");
+      await getOrCreateSession(sessionId, "proj-1");
 
       const { role, selectedBy } = await selectRole(sessionId, "role_copywriter", "test", true);
       expect(role.name).toBe("Копирайтер");
@@ -127,7 +127,7 @@ describe("agentPipeline", () => {
 
     it("forceRole false still forces Architect on new session", async () => {
       const sessionId = `no-force-session-${Date.now()}`;
-      getOrCreateSession(sessionId, "proj-1");
+      await getOrCreateSession(sessionId, "proj-1");
 
       const { role, selectedBy } = await selectRole(sessionId, "role_copywriter", "test", false);
       expect(role.name).toBe("Архитектор");
@@ -139,7 +139,7 @@ describe("agentPipeline", () => {
     it("builds prompt with role and no previous context", async () => {
       const roles = await getAllRoles(true);
       const role = roles.find((r) => r.name === "Архитектор")!;
-      const memory = getOrCreateSession("build-test-1", "proj-1");
+      const memory = await getOrCreateSession("build-test-1", "proj-1");
 
       const { system, user } = buildAgentPrompt(role, memory, "Создай лендинг", "", "react");
 
@@ -154,7 +154,7 @@ describe("agentPipeline", () => {
     it("includes previous agent context", async () => {
       const roles = await getAllRoles(true);
       const role = roles[1]!;
-      const memory = getOrCreateSession("build-test-2", "proj-1");
+      const memory = await getOrCreateSession("build-test-2", "proj-1");
       memory.steps.push({
         order: 1, agentName: "Архитектор", agentRoleId: "role_architect",
         input: "", output: '{"pages": []}', modelUsed: "mistral", providerId: "ollama",
@@ -172,7 +172,7 @@ describe("agentPipeline", () => {
     it("includes local context when provided", async () => {
       const roles = await getAllRoles(true);
       const role = roles[0]!;
-      const memory = getOrCreateSession("build-test-3", "proj-1");
+      const memory = await getOrCreateSession("build-test-3", "proj-1");
 
       const { user } = buildAgentPrompt(role, memory, "Создай сайт", "Стиль: минимализм, цвета: чёрный и белый", "react");
 
@@ -104,6 +104,20 @@ describe("agentRouter", () => {
     expect(result.name).toBe("Архитектор");
   });
 
+  it("accepts a role id as the answer", async () => {
+    setupMockLLM("r3");
+    const result = await routeToAgent(mockRoles, mockMemory, "check the code");
+    expect(result.name).toBe("Тестировщик");
+  });
+
+  it("builds the prompt in the session's language", async () => {
+    setupMockLLM("Копирайтер");
+    await routeToAgent(mockRoles, { ...mockMemory, locale: "en" }, "write copy");
+    const { prompt } = vi.mocked(generateText).mock.calls.at(-1)![0] as { prompt: string };
+    expect(prompt).toContain("You are the agent router");
+    expect(prompt).toContain("- Копирайтер (r2): Контент");
+  });
+
   it("case-insensitive matching", async () => {
     setupMockLLM("архитектор");
     const result = await routeToAgent(mockRoles, mockMemory, "сделай структуру");
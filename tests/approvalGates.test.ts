@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { waitForApproval, resolveApproval } from "~/lib/services/approvalGates";
+
+describe("approvalGates", () => {
+  it("hands the decision to the waiting step", async () => {
+    const pending = waitForApproval("sess-1", "role_architect-1");
+    expect(resolveApproval("sess-1", "role_architect-1", { action: "edit", output: "{}" })).toBe(true);
+    await expect(pending).resolves.toEqual({ action: "edit", output: "{}" });
+
+    // The gate is closed once resolved
+    expect(resolveApproval("sess-1", "role_architect-1", { action: "approve" })).toBe(false);
+  });
+
+  it("rejects decisions for unknown gates", () => {
+    expect(resolveApproval("sess-x", "nope", { action: "approve" })).toBe(false);
+  });
+
+  it("resolves with null when the request is aborted", async () => {
+    const controller = new AbortController();
+    const pending = waitForApproval("sess-2", "step-1", controller.signal);
+    controller.abort();
+    await expect(pending).resolves.toBeNull();
+    expect(resolveApproval("sess-2", "step-1", { action: "approve" })).toBe(false);
+  });
+
+  it("resolves with null when nobody answers in time", async () => {
+    await expect(waitForApproval("sess-3", "step-1", undefined, 10)).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import {
+  openChainControl,
+  closeChainControl,
+  trackStep,
+  untrackStep,
+  wasSkipped,
+  waitForFailedStepDecision,
+  takeInsertedRoles,
+  sendChainCommand,
+} from "~/lib/services/chainControl";
+
+describe("chainControl", () => {
+  it("hands retry and skip decisions to a failed step", async () => {
+    const control = openChainControl("ctl-1");
+
+    const retry = waitForFailedStepDecision(control, "step-1");
+    expect(sendChainCommand("ctl-1", { action: "retry", stepId: "step-1" })).toEqual({ ok: true });
+    await expect(retry).resolves.toBe("retry");
+
+    const skip = waitForFailedStepDecision(control, "step-1");
+    expect(sendChainCommand("ctl-1", { action: "skip", stepId: "step-1" })).toEqual({ ok: true });
+    await expect(skip).resolves.toBe("skip");
+
+    // Nothing waits any more
+    expect(sendChainCommand("ctl-1", { action: "retry", stepId: "step-1" }).ok).toBe(false);
+    closeChainControl(control);
+  });
+
+  it("skips a running step by aborting its signal", () => {
+    const control = openChainControl("ctl-2");
+    const signal = trackStep(control, "step-1");
+
+    expect(sendChainCommand("ctl-2", { action: "skip", stepId: "step-1" })).toEqual({ ok: true });
+    expect(signal.aborted).toBe(true);
+    expect(wasSkipped(control, "step-1")).toBe(true);
+
+    untrackStep(control, "step-1");
+    expect(sendChainCommand("ctl-2", { action: "skip", stepId: "step-1" })).toEqual({ ok: false, error: "Шаг не выполняется" });
+    closeChainControl(control);
+  });
+
+  it("aborts a tracked step together with the chain", () => {
+    const control = openChainControl("ctl-3");
+    const chain = new AbortController();
+    const signal = trackStep(control, "step-1", chain.signal);
+    chain.abort();
+    expect(signal.aborted).toBe(true);
+    expect(wasSkipped(control, "step-1")).toBe(false);
+    closeChainControl(control);
+  });
+
+  it("queues inserted roles unless the chain runs a stored pipeline", () => {
+    const control = openChainControl("ctl-4");
+    sendChainCommand("ctl-4", { action: "insert", roleId: "role_tester" });
+    sendChainCommand("ctl-4", { action: "insert", roleId: "role_coder" });
+    expect(takeInsertedRoles(control)).toEqual(["role_tester", "role_coder"]);
+    expect(takeInsertedRoles(control)).toEqual([]);
+
+    control.canInsert = false;
+    expect(sendChainCommand("ctl-4", { action: "insert", roleId: "role_tester" }).ok).toBe(false);
+    closeChainControl(control);
+  });
+
+  it("rejects commands for sessions without a running chain", () => {
+    expect(sendChainCommand("ctl-x", { action: "skip", stepId: "s" })).toEqual({ ok: false, error: "Цепочка не выполняется" });
+
+    const control = openChainControl("ctl-5");
+    closeChainControl(control);
+    expect(sendChainCommand("ctl-5", { action: "insert", roleId: "role_tester" }).ok).toBe(false);
+  });
+
+  it("resolves a failed step with null on abort, timeout or close", async () => {
+    const control = openChainControl("ctl-6");
+
+    const controller = new AbortController();
+    const aborted = waitForFailedStepDecision(control, "step-1", controller.signal);
+    controller.abort();
+    await expect(aborted).resolves.toBeNull();
+
+    await expect(waitForFailedStepDecision(control, "step-2", undefined, 10)).resolves.toBeNull();
+
+    const closed = waitForFailedStepDecision(control, "step-3");
+    closeChainControl(control);
+    await expect(closed).resolves.toBeNull();
+  });
+});
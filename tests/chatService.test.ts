@@ -22,6 +22,7 @@ vi.mock("~/lib/db/appwrite", () => {
     let result = [...docs];
     for (const q of queries) {
       switch (q.type) {
+        case "branch": result = result.filter(d => ((d.branch_id as string | null | undefined) || "main") === q.value); break;
         case "equal": result = result.filter(d => d[q.field!] === q.value); break;
         case "orderAsc": result.sort((a, b) => ((a[q.field!] as number) ?? 0) - ((b[q.field!] as number) ?? 0)); break;
         case "orderDesc": result.sort((a, b) => ((b[q.field!] as number) ?? 0) - ((a[q.field!] as number) ?? 0)); break;
@@ -53,6 +54,10 @@ vi.mock("~/lib/db/appwrite", () => {
       },
     }),
     COLLECTIONS: { CHAT_MESSAGES: "chat_messages" } as { CHAT_MESSAGES: string },
+    ensureProjectBranchesSchema: async () => {},
+    branchQuery: (branchId: string) => ({ type: "branch", value: branchId }),
+    ensureMessageReasoningSchema: async () => {},
+    ensureMessageJobSchema: async () => {},
     ID: { unique: () => `msg_${++idCounter}` },
     Query: {
       orderAsc: (field: string) => ({ type: "orderAsc", field }),
@@ -159,6 +164,7 @@ describe("chatService", () => {
         selectedBy: "user",
         durationMs: 300,
         timestamp: 9000,
+        jobId: "job-1",
       });
 
       await saveProjectMessages(DB_ID, [msg]);
@@ -167,6 +173,7 @@ describe("chatService", () => {
       expect(result).toHaveLength(1);
       expect(result[0]!.model).toBe("llama3");
       expect(result[0]!.agentRoleId).toBe("role1");
+      expect(result[0]!.jobId).toBe("job-1");
     });
   });
 
@@ -181,5 +188,32 @@ describe("chatService", () => {
       for (const key of Object.keys(store)) delete store[key];
       await expect(deleteProjectMessages(DB_ID)).resolves.toBeUndefined();
     });
+
+    it("should remove only the given branch", async () => {
+      await saveProjectMessages(DB_ID, [makeChatMsg({ id: "b1", timestamp: 3000 })], "fork-1");
+      await deleteProjectMessages(DB_ID, "fork-1");
+      expect(await getProjectMessages(DB_ID, "fork-1")).toHaveLength(0);
+      expect(await getProjectMessages(DB_ID)).toHaveLength(2);
+    });
+  });
+
+  describe("branches", () => {
+    it("should treat messages without branch_id as the main branch", async () => {
+      expect(await getProjectMessages(DB_ID, "main")).toHaveLength(2);
+      expect(await getProjectMessages(DB_ID, "fork-1")).toHaveLength(0);
+    });
+
+    it("should save a branch without touching the others", async () => {
+      await saveProjectMessages(DB_ID, [makeChatMsg({ id: "b1", content: "Forked", timestamp: 3000 })], "fork-1");
+
+      const fork = await getProjectMessages(DB_ID, "fork-1");
+      expect(fork).toHaveLength(1);
+      expect(fork[0]!.content).toBe("Forked");
+      expect(await getProjectMessages(DB_ID)).toHaveLength(2);
+
+      await saveProjectMessages(DB_ID, [makeChatMsg({ id: "n1", content: "Main only", timestamp: 4000 })]);
+      expect(await getProjectMessages(DB_ID)).toHaveLength(1);
+      expect(await getProjectMessages(DB_ID, "fork-1")).toHaveLength(1);
+    });
   });
 });
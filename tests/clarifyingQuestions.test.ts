@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+import { parseClarifyingQuestions } from "~/lib/services/clarifyingQuestions";
+
+describe("clarifyingQuestions", () => {
+  describe("parseClarifyingQuestions", () => {
+    it("parses a questions block with all kinds", () => {
+      const output = `A few details first:
+<nitQuestions>
+[
+  {"id":"style","question":"Which style?","kind":"single","options":["Dark","Light"],"default":"Dark"},
+  {"id":"sections","question":"Which sections?","kind":"multi","options":["Hero","Contacts"],"default":["Hero"]},
+  {"id":"content","question":"Any copy to use?","kind":"free-text"}
+]
+</nitQuestions>`;
+      expect(parseClarifyingQuestions(output)).toEqual([
+        { id: "style", question: "Which style?", kind: "single", options: ["Dark", "Light"], default: "Dark" },
+        { id: "sections", question: "Which sections?", kind: "multi", options: ["Hero", "Contacts"], default: ["Hero"] },
+        { id: "content", question: "Any copy to use?", kind: "free-text", options: [] },
+      ]);
+    });
+
+    it("returns null without a block or with invalid JSON", () => {
+      expect(parseClarifyingQuestions("Какой стиль нужен?")).toBeNull();
+      expect(parseClarifyingQuestions("<nitQuestions>[{broken</nitQuestions>")).toBeNull();
+      expect(parseClarifyingQuestions("<nitQuestions>[]</nitQuestions>")).toBeNull();
+    });
+
+    it("accepts a { questions } object inside a markdown fence", () => {
+      const output = '<nitQuestions>\n```json\n{"questions":[{"question":"Цвет?","kind":"radio","options":["Синий"]}]}\n```\n</nitQuestions>';
+      const questions = parseClarifyingQuestions(output);
+      expect(questions?.[0]).toMatchObject({ id: "q1", kind: "single", options: ["Синий"] });
+    });
+
+    it("normalizes kinds, options and defaults", () => {
+      const output = `<nitQuestions>[
+        {"question":"No options","kind":"single","options":[]},
+        {"question":"Dupes","kind":"checkbox","options":["A","A"," B "],"default":["B","C"]},
+        {"question":"Bad default","kind":"single","options":["A"],"default":"Z"}
+      ]</nitQuestions>`;
+      const questions = parseClarifyingQuestions(output)!;
+      expect(questions[0]).toMatchObject({ kind: "free-text", options: [] });
+      expect(questions[1]).toMatchObject({ kind: "multi", options: ["A", "B"], default: ["B"] });
+      expect(questions[2]?.default).toBeUndefined();
+    });
+
+    it("suffixes repeated ids so answers do not overwrite each other", () => {
+      const output = `<nitQuestions>[
+        {"id":"style","question":"Colors?","kind":"free-text"},
+        {"id":"style","question":"Fonts?","kind":"free-text"},
+        {"question":"Pages?","kind":"free-text"},
+        {"id":"q3","question":"Logo?","kind":"free-text"}
+      ]</nitQuestions>`;
+      expect(parseClarifyingQuestions(output)!.map((q) => q.id)).toEqual(["style", "style-2", "q3", "q3-2"]);
+    });
+  });
+});
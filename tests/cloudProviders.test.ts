@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { discoverAgents } from "~/features/agents/service/agentDiscovery";
+import { createProviderRegistry } from "~/lib/llm/registry";
+import { OpenRouterProvider } from "~/lib/llm/providers/openrouter";
+import { AnthropicProvider } from "~/lib/llm/providers/anthropic";
+
+const VALID_KEY = "test-key";
+
+let server: Server;
+let baseUrl = "";
+
+beforeAll(async () => {
+  // Minimal stand-in for the hosted /models endpoints
+  server = createServer((req, res) => {
+    const authorized =
+      req.headers["x-api-key"] === VALID_KEY ||
+      req.headers["x-goog-api-key"] === VALID_KEY ||
+      req.headers.authorization === `Bearer ${VALID_KEY}`;
+
+    if (req.url !== "/v1/models") {
+      res.writeHead(404).end();
+      return;
+    }
+    if (!authorized) {
+      res.writeHead(401, { "Content-Type": "application/json" }).end(JSON.stringify({ error: "invalid key" }));
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({
+      data: [
+        { id: "anthropic/claude-sonnet-4", name: "Claude Sonnet 4", context_length: 200000 },
+        { id: "qwen/qwen3-coder", context_length: 262144 },
+      ],
+    }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe("cloud providers", () => {
+  it("registers the hosted providers next to the local ones", () => {
+    const names = createProviderRegistry().map((p) => p.name);
+    expect(names).toEqual(["ollama", "lm-studio", "custom", "anthropic", "openai", "gemini", "openrouter"]);
+  });
+
+  it("refuses to create a model instance without an API key", () => {
+    expect(() => new AnthropicProvider().getModelInstance({ model: "claude-sonnet-4-20250514", serverEnv: {} }))
+      .toThrow("ANTHROPIC_API_KEY is not configured");
+  });
+
+  it("reports static context windows", () => {
+    const provider = new AnthropicProvider();
+    expect(provider.getContextWindow("claude-sonnet-4-20250514")).toBe(200000);
+    expect(provider.getContextWindow("unknown-model")).toBe(32768);
+  });
+
+  it("lists cloud agents with a valid key and the curated models", async () => {
+    const agents = await discoverAgents({
+      ollamaUrl: "http://127.0.0.1:1",
+      lmStudioUrl: "http://127.0.0.1:1",
+      cloud: {
+        anthropic: { apiKey: VALID_KEY, baseUrl },
+        gemini: { apiKey: VALID_KEY, baseUrl },
+      },
+    });
+
+    const anthropic = agents.find((a) => a.id === "anthropic");
+    expect(anthropic?.status).toBe("online");
+    expect(anthropic?.type).toBe("anthropic");
+    expect(anthropic?.models.map((m) => m.id)).toContain("claude-sonnet-4-20250514");
+    expect(anthropic?.models[0]?.contextLength).toBe(200000);
+    expect(agents.find((a) => a.id === "gemini")?.status).toBe("online");
+  });
+
+  it("marks a provider offline when the key is rejected and hides it without a key", async () => {
+    const agents = await discoverAgents({
+      ollamaUrl: "http://127.0.0.1:1",
+      lmStudioUrl: "http://127.0.0.1:1",
+      cloud: {
+        openai: { apiKey: "wrong", baseUrl },
+        anthropic: { apiKey: "", baseUrl },
+      },
+    });
+
+    expect(agents.find((a) => a.id === "openai")?.status).toBe("offline");
+    expect(agents.find((a) => a.id === "openai")?.models).toEqual([]);
+    expect(agents.some((a) => a.id === "anthropic")).toBe(false);
+  });
+
+  it("uses the OpenRouter catalogue for models and context windows", async () => {
+    const agents = await discoverAgents({
+      ollamaUrl: "http://127.0.0.1:1",
+      lmStudioUrl: "http://127.0.0.1:1",
+      cloud: { openrouter: { apiKey: VALID_KEY, baseUrl } },
+    });
+    const openrouter = agents.find((a) => a.id === "openrouter");
+    expect(openrouter?.models.map((m) => m.id)).toEqual(["anthropic/claude-sonnet-4", "qwen/qwen3-coder"]);
+
+    const provider = new OpenRouterProvider();
+    const models = await provider.getDynamicModels(undefined, { baseUrl }, { OPENROUTER_API_KEY: VALID_KEY });
+    expect(models).toHaveLength(2);
+    expect(provider.getContextWindow("qwen/qwen3-coder")).toBe(262144);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import type { AgentStep } from "@shared/types/agentRole";
+import {
+  collectGeneratedFiles,
+  runCodeDiagnostics,
+  buildDiagnosticsFixInstructions,
+} from "~/lib/services/codeDiagnostics";
+
+function step(output: string): AgentStep {
+  return {
+    order: 1, agentName: "Кодер", agentRoleId: "role_coder", input: "", output,
+    modelUsed: "mistral", providerId: "ollama", durationMs: 1, selectedBy: "user",
+    status: "success", timestamp: "2025-01-01",
+  };
+}
+
+describe("codeDiagnostics", () => {
+  it("returns nothing for a valid project", () => {
+    const diagnostics = runCodeDiagnostics({
+      "App.tsx": 'import { Header } from "./components/Header";\nimport "./index.css";\nexport default function App() { return <Header />; }',
+      "components/Header.tsx": "export function Header() { return <header>Hi</header>; }",
+      "index.css": "body { margin: 0; }",
+    }, "react");
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("reports syntax errors with a line number", () => {
+    const diagnostics = runCodeDiagnostics({
+      "App.tsx": "export default function App() {\n  return <div>;\n}",
+    }, "react");
+    expect(diagnostics.length).toBeGreaterThan(0);
+    expect(diagnostics[0]).toMatchObject({ file: "App.tsx", kind: "syntax" });
+    expect(diagnostics[0]!.line).toBeGreaterThanOrEqual(2);
+  });
+
+  it("reports unresolved relative imports", () => {
+    const diagnostics = runCodeDiagnostics({
+      "App.tsx": 'import { Footer } from "./components/Footer";\nexport default function App() { return <Footer />; }',
+    }, "react");
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ kind: "unresolved_import", file: "App.tsx", line: 1 }),
+    ]);
+  });
+
+  it("resolves parent and index imports", () => {
+    const diagnostics = runCodeDiagnostics({
+      "components/Card.tsx": 'import { cn } from "../utils";\nexport const Card = () => <div className={cn()} />;',
+      "utils/index.ts": "export const cn = () => \"\";",
+    }, "react");
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("flags forbidden imports for react projects only", () => {
+    const files = { "App.tsx": 'import axios from "axios";\nimport { motion } from "framer-motion";\nexport default function App() { return null; }' };
+    const react = runCodeDiagnostics(files, "react");
+    expect(react.map((d) => d.kind)).toEqual(["forbidden_import", "forbidden_import"]);
+    expect(react[1]!.line).toBe(2);
+    expect(runCodeDiagnostics(files, "vue")).toEqual([]);
+  });
+
+  it("writes messages in the session's locale", () => {
+    const files = {
+      "App.tsx": 'import axios from "axios";\nimport { Footer } from "./Footer";\nexport default function App() { return null; }',
+      "data.json": "{",
+    };
+    const messages = runCodeDiagnostics(files, "react", "en").map((d) => d.message);
+    expect(messages).toContain('Forbidden import "axios" — use the native fetch');
+    expect(messages).toContain('Import "./Footer" is not among the generated files');
+    expect(messages.some((m) => m.startsWith("Invalid JSON:"))).toBe(true);
+    expect(runCodeDiagnostics(files, "react").map((d) => d.message)).toContain('Запрещённый импорт "axios" — используй нативный fetch');
+  });
+
+  it("checks the script block of .vue files", () => {
+    const diagnostics = runCodeDiagnostics({
+      "App.vue": '<template><div /></template>\n<script setup lang="ts">\nimport Missing from "./Missing.vue";\n</script>',
+    }, "vue");
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ kind: "unresolved_import", file: "App.vue", line: 3 }),
+    ]);
+  });
+
+  it("collects files across session steps, applying patches", () => {
+    const files = collectGeneratedFiles([
+      step('<nitArtifact id="a" title="a"><nitAction type="file" filePath="App.tsx">const a = 1;\nexport default a;</nitAction></nitArtifact>'),
+      step('<nitArtifact id="b" title="b"><nitAction type="patch" filePath="App.tsx">\n<<<<<<< SEARCH\nconst a = 1;\n=======\nconst a = 2;\n>>>>>>> REPLACE\n</nitAction></nitArtifact>'),
+      step("Просто текст без кода"),
+    ]);
+    expect(Object.keys(files)).toEqual(["App.tsx"]);
+    expect(files["App.tsx"]).toContain("const a = 2;");
+  });
+
+  it("starts from the saved project files and replays only the steps after them", () => {
+    const steps = [
+      step('<nitArtifact id="a" title="a"><nitAction type="file" filePath="App.tsx">const a = 1;</nitAction></nitArtifact>'),
+      step('<nitArtifact id="b" title="b"><nitAction type="patch" filePath="App.tsx">\n<<<<<<< SEARCH\nconst a = 2;\n=======\nconst a = 3;\n>>>>>>> REPLACE\n</nitAction></nitArtifact>'),
+    ];
+    const files = collectGeneratedFiles(steps, {
+      files: { "App.tsx": "const a = 2;", "utils.ts": "export const x = 1;" },
+      stepCount: 1,
+    });
+    expect(files).toEqual({ "App.tsx": "const a = 3;", "utils.ts": "export const x = 1;" });
+  });
+
+  it("builds fix instructions with locations", () => {
+    const text = buildDiagnosticsFixInstructions([
+      { file: "App.tsx", line: 4, kind: "forbidden_import", message: "Запрещённый импорт" },
+    ]);
+    expect(text).toContain("[App.tsx:4] Запрещённый импорт");
+  });
+});
@@ -5,6 +5,11 @@ import {
   extractChatText,
   extractGeneratedFileNames,
   detectLanguage,
+  parseGeneratedCode,
+  hasPatchActions,
+  mergeRunCode,
+  IncrementalArtifactParser,
+  type PatchError,
 } from "~/lib/utils/codeParser";
 
 describe("codeParser", () => {
@@ -74,6 +79,11 @@ describe("codeParser", () => {
   });
 
   describe("extractChatText", () => {
+    it("strips the clarifying questions block", () => {
+      const raw = 'Уточню детали:\n<nitQuestions>[{"question":"Стиль?","kind":"free-text"}]</nitQuestions>';
+      expect(extractChatText(raw)).toBe("Уточню детали:");
+    });
+
     it("should remove nitArtifact blocks", () => {
       const raw = "Hello user\n<nitArtifact>code</nitArtifact>";
       expect(extractChatText(raw)).toBe("Hello user");
@@ -165,4 +175,81 @@ describe("codeParser", () => {
       expect(detectLanguage("src/components/Button.tsx")).toBe("typescriptreact");
     });
   });
+
+  describe("patch actions", () => {
+    const base = { "App.tsx": 'const title = "Old";\nexport default function App() { return <h1>{title}</h1>; }' };
+    const patchOutput = [
+      '<nitArtifact id="fix" title="Fix">',
+      '<nitAction type="patch" filePath="App.tsx">',
+      "<<<<<<< SEARCH",
+      'const title = "Old";',
+      "=======",
+      'const title = "New";',
+      ">>>>>>> REPLACE",
+      "</nitAction>",
+      "</nitArtifact>",
+    ].join("\n");
+
+    it("applies patches on top of base files", () => {
+      const files = parseGeneratedCode(patchOutput, { baseFiles: base });
+      expect(files["App.tsx"]).toContain('"New"');
+      expect(files["App.tsx"]).toContain("export default function App()");
+    });
+
+    it("reports patches that cannot be applied", () => {
+      const errors: PatchError[] = [];
+      const files = parseGeneratedCode(patchOutput, {
+        baseFiles: { "App.tsx": "something else" },
+        onPatchError: (e) => errors.push(e),
+      });
+      expect(files["App.tsx"]).toBeUndefined();
+      expect(errors).toHaveLength(1);
+      expect(errors[0]!.filePath).toBe("App.tsx");
+    });
+
+    it("detects patch actions", () => {
+      expect(hasPatchActions(patchOutput)).toBe(true);
+      expect(hasPatchActions('<nitAction type="file" filePath="a.ts">x</nitAction>')).toBe(false);
+    });
+
+    it("IncrementalArtifactParser applies streamed patches", () => {
+      const emitted: Record<string, string> = {};
+      const parser = new IncrementalArtifactParser(
+        (path, content) => { emitted[path] = content; },
+        { getBaseFile: (path) => base[path as keyof typeof base] },
+      );
+      for (let i = 0; i < patchOutput.length; i += 17) parser.push(patchOutput.slice(i, i + 17));
+      parser.flush();
+      expect(emitted["App.tsx"]).toContain('"New"');
+    });
+
+    it("merges a single-role run's only reply over the code before the run", () => {
+      const code = mergeRunCode([{ role: "assistant", content: patchOutput }], base);
+      expect(code?.["App.tsx"]).toContain('"New"');
+      expect(code?.["App.tsx"]).toContain("export default function App()");
+    });
+
+    it("lets a full artifact replace the files of earlier replies", () => {
+      const full = '<nitArtifact id="a" title="A"><nitAction type="file" filePath="main.tsx">export const x = 1;</nitAction></nitArtifact>';
+      const code = mergeRunCode(
+        [{ role: "assistant", content: patchOutput }, { role: "user", content: full }, { role: "assistant", content: full }],
+        base,
+      );
+      expect(Object.keys(code ?? {})).toEqual(["main.tsx"]);
+    });
+
+    it("returns null for a run without files", () => {
+      expect(mergeRunCode([{ role: "assistant", content: "Готово" }], base)).toBeNull();
+    });
+
+    it("IncrementalArtifactParser emits an error for a failed patch", () => {
+      const errors: PatchError[] = [];
+      const parser = new IncrementalArtifactParser(() => {}, {
+        getBaseFile: () => "unrelated",
+        onPatchError: (e) => errors.push(e),
+      });
+      parser.push(patchOutput);
+      expect(errors[0]?.message).toContain("SEARCH");
+    });
+  });
 });
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+
+process.env.ENDPOINT_SECRET_KEY = "test-secret-key";
+
+vi.mock("~/lib/utils/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+// Minimal in-memory Appwrite collection
+const docs = new Map<string, Record<string, unknown>>();
+let nextId = 1;
+
+vi.mock("~/lib/db/appwrite", () => ({
+  getDb: () => ({
+    listDocuments: async () => ({ total: docs.size, documents: [...docs.values()].map(d => ({ ...d })) }),
+    getDocument: async (_db: string, _coll: string, id: string) => {
+      const doc = docs.get(id);
+      if (!doc) throw new Error("Document not found");
+      return { ...doc };
+    },
+    createDocument: async (_db: string, _coll: string, _id: string, data: Record<string, unknown>) => {
+      const doc = { $id: `ep${nextId++}`, ...data };
+      docs.set(doc.$id, doc);
+      return { ...doc };
+    },
+    updateDocument: async (_db: string, _coll: string, id: string, data: Record<string, unknown>) => {
+      const doc = { ...docs.get(id), ...data };
+      docs.set(id, doc);
+      return { ...doc };
+    },
+    deleteDocument: async (_db: string, _coll: string, id: string) => {
+      if (!docs.delete(id)) throw new Error("Document not found");
+    },
+  }),
+  getMasterDbId: () => "master",
+  COLLECTIONS: { CUSTOM_ENDPOINTS: "custom_endpoints" },
+  ID: { unique: () => "unique()" },
+  Query: { limit: (n: number) => ({ type: "limit", n }) },
+}));
+
+import {
+  createCustomEndpoint,
+  updateCustomEndpoint,
+  deleteCustomEndpoint,
+  syncCustomEndpoints,
+  toEndpointView,
+  encryptSecret,
+  decryptSecret,
+} from "~/lib/services/customEndpointService";
+import { discoverAgents } from "~/features/agents/service/agentDiscovery";
+import { matchesModelFilter } from "~/lib/llm/providers/openai-like";
+import { LLMManager } from "~/lib/llm/manager";
+
+let server: Server;
+let rootUrl = "";
+
+beforeAll(async () => {
+  // Two "servers" behind one stub: /vllm requires a custom header, /llamacpp is open
+  server = createServer((req, res) => {
+    if (req.url === "/vllm/v1/models") {
+      if (req.headers["x-team"] !== "web") {
+        res.writeHead(403).end();
+        return;
+      }
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({
+        data: [{ id: "Qwen/Qwen3-Coder-30B", max_model_len: 65536 }, { id: "BAAI/bge-m3" }],
+      }));
+      return;
+    }
+    if (req.url === "/llamacpp/v1/models") {
+      res.writeHead(200, { "Content-Type": "application/json" }).end(JSON.stringify({ data: [{ id: "gemma-3-12b" }] }));
+      return;
+    }
+    res.writeHead(404).end();
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  rootUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  docs.clear();
+  LLMManager.resetInstance();
+});
+
+describe("custom endpoints", () => {
+  it("matches model filters with wildcards", () => {
+    expect(matchesModelFilter("Qwen/Qwen3-Coder-30B", [])).toBe(true);
+    expect(matchesModelFilter("Qwen/Qwen3-Coder-30B", ["*coder*"])).toBe(true);
+    expect(matchesModelFilter("BAAI/bge-m3", ["*coder*", "gemma*"])).toBe(false);
+    expect(matchesModelFilter("gemma-3-12b", ["gemma*"])).toBe(true);
+  });
+
+  it("never exposes the API key or header values in the view", async () => {
+    const endpoint = await createCustomEndpoint({
+      name: "vLLM", baseUrl: `${rootUrl}/vllm/`, apiKey: "secret", headers: { Authorization: "Bearer t0ken" }, modelFilter: [],
+    });
+    const view = toEndpointView(endpoint);
+    expect(view).not.toHaveProperty("apiKey");
+    expect(view).not.toHaveProperty("headers");
+    expect(view.hasApiKey).toBe(true);
+    expect(view.headerNames).toEqual(["Authorization"]);
+    expect(view.baseUrl).toBe(`${rootUrl}/vllm`);
+  });
+
+  it("stores the API key and headers encrypted and reads legacy plaintext", async () => {
+    const endpoint = await createCustomEndpoint({
+      name: "vLLM", baseUrl: rootUrl, apiKey: "secret", headers: { Authorization: "Bearer t0ken" }, modelFilter: [],
+    });
+    const stored = JSON.stringify(docs.get(endpoint.id));
+    expect(stored).not.toContain("secret");
+    expect(stored).not.toContain("t0ken");
+    expect(endpoint.apiKey).toBe("secret");
+    expect(endpoint.headers).toEqual({ Authorization: "Bearer t0ken" });
+
+    expect(decryptSecret(encryptSecret("abc"))).toBe("abc");
+    expect(encryptSecret("")).toBe("");
+    expect(decryptSecret("plain-old-key")).toBe("plain-old-key");
+  });
+
+  it("keeps a stored header value when an update sends the name without it", async () => {
+    const endpoint = await createCustomEndpoint({
+      name: "vLLM", baseUrl: rootUrl, apiKey: "", headers: { Authorization: "Bearer t0ken", "X-Team": "web" }, modelFilter: [],
+    });
+    const updated = await updateCustomEndpoint(endpoint.id, { headers: { Authorization: "", "X-Env": "prod" } });
+    expect(updated?.headers).toEqual({ Authorization: "Bearer t0ken", "X-Env": "prod" });
+  });
+
+  it("rejects duplicate names", async () => {
+    await createCustomEndpoint({ name: "vLLM", baseUrl: rootUrl, apiKey: "", headers: {}, modelFilter: [] });
+    await expect(createCustomEndpoint({ name: "vllm", baseUrl: rootUrl, apiKey: "", headers: {}, modelFilter: [] }))
+      .rejects.toThrow("уже существует");
+  });
+
+  it("registers each endpoint as its own provider and drops deleted ones", async () => {
+    const a = await createCustomEndpoint({ name: "vLLM", baseUrl: `${rootUrl}/vllm`, apiKey: "", headers: {}, modelFilter: [] });
+    const b = await createCustomEndpoint({ name: "llama.cpp", baseUrl: `${rootUrl}/llamacpp`, apiKey: "", headers: {}, modelFilter: [] });
+
+    await syncCustomEndpoints();
+    const manager = LLMManager.getInstance();
+    expect(manager.getProvider(`endpoint_${a.id}`)).toBeDefined();
+    expect(manager.getProvider(`endpoint_${b.id}`)).toBeDefined();
+    expect(manager.getProvider("custom")).toBeDefined();
+
+    await deleteCustomEndpoint(a.id);
+    await syncCustomEndpoints();
+    expect(manager.getProvider(`endpoint_${a.id}`)).toBeUndefined();
+    expect(manager.getProvider(`endpoint_${b.id}`)).toBeDefined();
+  });
+
+  it("keeps the stored key when an update omits it", async () => {
+    const endpoint = await createCustomEndpoint({ name: "vLLM", baseUrl: rootUrl, apiKey: "secret", headers: {}, modelFilter: [] });
+    const updated = await updateCustomEndpoint(endpoint.id, { name: "vLLM box" });
+    expect(updated?.apiKey).toBe("secret");
+    expect(updated?.name).toBe("vLLM box");
+  });
+
+  it("probes every endpoint and reports each one as an agent", async () => {
+    const vllm = await createCustomEndpoint({
+      name: "vLLM", baseUrl: `${rootUrl}/vllm`, apiKey: "", headers: { "X-Team": "web" }, modelFilter: ["*coder*"],
+    });
+    const llama = await createCustomEndpoint({
+      name: "llama.cpp", baseUrl: `${rootUrl}/llamacpp`, apiKey: "", headers: {}, modelFilter: [],
+    });
+
+    const agents = await discoverAgents({
+      ollamaUrl: "http://127.0.0.1:1",
+      lmStudioUrl: "http://127.0.0.1:1",
+      endpoints: [vllm, llama],
+    });
+
+    const vllmAgent = agents.find((a) => a.id === `endpoint_${vllm.id}`);
+    expect(vllmAgent?.name).toBe("vLLM");
+    expect(vllmAgent?.status).toBe("online");
+    expect(vllmAgent?.models).toEqual([{ id: "Qwen/Qwen3-Coder-30B", name: "Qwen/Qwen3-Coder-30B", contextLength: 65536 }]);
+    expect(agents.find((a) => a.id === `endpoint_${llama.id}`)?.models.map((m) => m.id)).toEqual(["gemma-3-12b"]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { assemblePreviewHtml } from "~/lib/utils/htmlAssembler";
+
+const VUE_APP = `<script setup lang="ts">
+import Counter from "./components/Counter.vue";
+</script>
+<template><Counter /></template>`;
+
+describe("assemblePreviewHtml — vue", () => {
+  it("builds an in-browser SFC compiler page for Vue projects", () => {
+    const html = assemblePreviewHtml({
+      "main.ts": `import { createApp } from "vue";\nimport App from "./App.vue";\ncreateApp(App).mount("#app");`,
+      "App.vue": VUE_APP,
+      "components/Counter.vue": `<template><button>0</button></template>`,
+      "style.css": "body { color: red; }",
+    });
+
+    expect(html).toContain('<div id="app"></div>');
+    expect(html).toContain("compiler-sfc");
+    expect(html).toContain('"components/Counter.vue"');
+    expect(html).toContain('"path":"main.ts","mountApp":false');
+    expect(html).toContain("body { color: red; }");
+    expect(html).toContain("preview-error");
+  });
+
+  it("mounts App.vue directly when there is no main entry", () => {
+    const html = assemblePreviewHtml({ "App.vue": VUE_APP });
+    expect(html).toContain('"path":"App.vue","mountApp":true');
+  });
+
+  it("escapes closing script tags inside embedded sources", () => {
+    const html = assemblePreviewHtml({ "App.vue": VUE_APP });
+    const dataLine = html.split("\n").find((l) => l.includes("__NIT_VUE_FILES__="))!;
+    expect(dataLine).not.toMatch(/<\/script>.*<\/script>/);
+  });
+
+  it("still routes .tsx projects to the React assembler", () => {
+    const html = assemblePreviewHtml({ "App.tsx": "export default function App() { return <div />; }" });
+    expect(html).toContain('<div id="root"></div>');
+    expect(html).not.toContain("compiler-sfc");
+  });
+});
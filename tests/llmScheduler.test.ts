@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { LLMScheduler, parseConcurrencyLimits, withModelSlot } from "~/lib/llm/scheduler";
+
+describe("parseConcurrencyLimits", () => {
+  it("reads provider and model limits, skipping invalid entries", () => {
+    expect(parseConcurrencyLimits("ollama=1, openai/gpt-4o=4,lmstudio=0,bad,x=abc")).toEqual({
+      providers: { ollama: 1 },
+      models: { "openai/gpt-4o": 4 },
+    });
+    expect(parseConcurrencyLimits(undefined)).toEqual({ providers: {}, models: {} });
+  });
+});
+
+describe("LLMScheduler", () => {
+  it("grants requests at once without limits", () => {
+    const scheduler = new LLMScheduler(parseConcurrencyLimits(""));
+    expect(scheduler.enqueue("ollama", "mistral").granted).toBe(true);
+    expect(scheduler.enqueue("ollama", "llama3").granted).toBe(true);
+  });
+
+  it("queues over the provider limit in arrival order", async () => {
+    const scheduler = new LLMScheduler(parseConcurrencyLimits("ollama=1"));
+    const first = scheduler.enqueue("ollama", "mistral");
+    const second = scheduler.enqueue("ollama", "llama3");
+    const third = scheduler.enqueue("ollama", "mistral");
+
+    expect(first.granted).toBe(true);
+    expect([second.position, third.position]).toEqual([1, 2]);
+
+    const moved = third.changed(2);
+    first.release();
+    await moved;
+    expect(second.granted).toBe(true);
+    expect(third).toMatchObject({ granted: false, position: 1 });
+
+    second.release();
+    expect(third.granted).toBe(true);
+    expect(scheduler.stats()).toEqual({ active: { ollama: 1, "ollama/mistral": 1 }, queued: 0 });
+  });
+
+  it("limits one model while others on the provider run", () => {
+    const scheduler = new LLMScheduler(parseConcurrencyLimits("openai/gpt-4o=1"));
+    const first = scheduler.enqueue("openai", "gpt-4o");
+    const sameModel = scheduler.enqueue("openai", "gpt-4o");
+    const otherModel = scheduler.enqueue("openai", "gpt-4o-mini");
+
+    expect(first.granted).toBe(true);
+    expect(sameModel.granted).toBe(false);
+    expect(otherModel.granted).toBe(true);
+  });
+
+  it("does not let a later request overtake one waiting for the same provider", () => {
+    const scheduler = new LLMScheduler(parseConcurrencyLimits("ollama=2,ollama/mistral=1"));
+    const running = scheduler.enqueue("ollama", "mistral");
+    const waiting = scheduler.enqueue("ollama", "mistral");   // model full
+    const other = scheduler.enqueue("ollama", "llama3");      // provider has room
+    const late = scheduler.enqueue("ollama", "mistral");
+
+    expect(running.granted).toBe(true);
+    expect(waiting.granted).toBe(false);
+    expect(other.granted).toBe(true);
+    expect(late.position).toBe(2);
+
+    // The freed model slot goes to the earlier waiter
+    running.release();
+    expect(waiting.granted).toBe(true);
+    expect(late).toMatchObject({ granted: false, position: 1 });
+  });
+
+  it("estimates the wait from finished request durations", async () => {
+    const scheduler = new LLMScheduler(parseConcurrencyLimits("ollama=1"));
+    const first = scheduler.enqueue("ollama", "mistral");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    first.release();
+
+    const second = scheduler.enqueue("ollama", "mistral");
+    const third = scheduler.enqueue("ollama", "mistral");
+    expect(second.granted).toBe(true);
+    expect(third.estimatedWaitMs).toBeGreaterThanOrEqual(15);
+    expect(third.estimatedWaitMs).toBeLessThan(1_000);
+  });
+
+  it("leaves the queue when a waiting request is released", () => {
+    const scheduler = new LLMScheduler(parseConcurrencyLimits("ollama=1"));
+    const first = scheduler.enqueue("ollama", "mistral");
+    const second = scheduler.enqueue("ollama", "mistral");
+    const third = scheduler.enqueue("ollama", "mistral");
+
+    second.release();
+    expect(third.position).toBe(1);
+    first.release();
+    expect(third.granted).toBe(true);
+    second.release(); // twice is harmless
+    expect(scheduler.stats().active).toEqual({ ollama: 1, "ollama/mistral": 1 });
+  });
+
+  it("runs withModelSlot work one at a time", async () => {
+    LLMScheduler.resetInstance();
+    process.env.LLM_MAX_CONCURRENCY = "ollama=1";
+    try {
+      const order: string[] = [];
+      const job = (name: string) => withModelSlot("ollama", "mistral", async () => {
+        order.push(`${name}:start`);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        order.push(`${name}:end`);
+      });
+      await Promise.all([job("a"), job("b")]);
+      expect(order).toEqual(["a:start", "a:end", "b:start", "b:end"]);
+    } finally {
+      delete process.env.LLM_MAX_CONCURRENCY;
+      LLMScheduler.resetInstance();
+    }
+  });
+});
@@ -36,79 +36,15 @@ vi.mock("~/lib/services/roleService", () => ({
   getPromptHistory: vi.fn(async () => []),
 }));
 
-import { planPipeline } from "~/lib/services/orchestrator";
+import { planPipeline, previewPlan } from "~/lib/services/orchestrator";
 import { getOrCreateSession } from "~/lib/services/agentPipeline";
 import { getAllRoles } from "~/lib/services/roleService";
 import { generateText } from "ai";
 import { LLMManager } from "~/lib/llm/manager";
 
-describe("testerFoundCriticalErrors detection patterns", () => {
-  function hasCritical(output: string): boolean {
-    const lower = output.toLowerCase();
-    if (lower.includes("итого: pass") || lower.includes("итого:pass")) return false;
-    const noError = [
-      "нет ошибок", "без ошибок", "ошибок не обнаружено", "ошибок нет",
-      "критических ошибок нет", "критических нет", "0 критических",
-    ];
-    for (const pat of noError) { if (lower.includes(pat)) return false; }
-    if (lower.includes("итого: fail") || lower.includes("итого:fail")) return true;
-    const critical = ["критическ", "блокирующ", "critical"];
-    for (const pat of critical) { if (lower.includes(pat)) return true; }
-    return false;
-  }
-
-  it("detects FAIL verdict", () => {
-    expect(hasCritical("ИТОГО: FAIL\nНайдены проблемы.")).toBe(true);
-  });
-
-  it("detects PASS verdict", () => {
-    expect(hasCritical("ИТОГО: PASS\nВсё хорошо.")).toBe(false);
-  });
-
-  it("detects критические ошибки", () => {
-    expect(hasCritical("КРИТИЧЕСКИЕ ошибки:\n1. Незакрытый тег")).toBe(true);
-  });
-
-  it("detects блокирующие", () => {
-    expect(hasCritical("Найдены блокирующие проблемы")).toBe(true);
-  });
-
-  it("handles 'нет ошибок'", () => {
-    expect(hasCritical("Проверка завершена. Нет ошибок.")).toBe(false);
-  });
-
-  it("handles 'без ошибок'", () => {
-    expect(hasCritical("Код без ошибок, всё работает.")).toBe(false);
-  });
-
-  it("handles 'критических ошибок нет'", () => {
-    expect(hasCritical("Критических ошибок нет. Только рекомендации.")).toBe(false);
-  });
-
-  it("handles '0 критических'", () => {
-    expect(hasCritical("0 критических, 2 предупреждения")).toBe(false);
-  });
-
-  it("handles 'ошибок не обнаружено'", () => {
-    expect(hasCritical("Ошибок не обнаружено при проверке.")).toBe(false);
-  });
-
-  it("handles mixed — PASS with warnings", () => {
-    expect(hasCritical("Предупреждения: 3\nИТОГО: PASS")).toBe(false);
-  });
-
-  it("handles no verdict — no critical patterns → false", () => {
-    expect(hasCritical("Рекомендации:\n1. Добавить alt к img\n2. Улучшить контраст")).toBe(false);
-  });
-
-  it("handles 'critical' in English", () => {
-    expect(hasCritical("Found 2 critical issues")).toBe(true);
-  });
-});
-
 describe("planPipeline", () => {
   it("returns full chain for new session", async () => {
-    const memory = getOrCreateSession(`plan-new-${Date.now()}`, "p1");
+    const memory = await getOrCreateSession(`plan-new-${Date.now()}`, "p1");
     const plan = await planPipeline(memory, "Создай лендинг");
     expect(plan.steps.length).toBeGreaterThanOrEqual(6);
     expect(plan.steps[0]!.name).toBe("Аналитик");
@@ -116,7 +52,7 @@ describe("planPipeline", () => {
   });
 
   it("falls back to full chain on LLM error", async () => {
-    const memory = getOrCreateSession(`plan-err-${Date.now()}`, "p1");
+    const memory = await getOrCreateSession(`plan-err-${Date.now()}`, "p1");
     memory.steps.push({
       order: 1, agentName: "prev", agentRoleId: "r", input: "", output: "x",
       modelUsed: "m", providerId: "p", durationMs: 0, selectedBy: "hardcoded",
@@ -133,7 +69,7 @@ describe("planPipeline", () => {
   });
 
   it("uses LLM-selected subset for existing session", async () => {
-    const memory = getOrCreateSession(`plan-llm-${Date.now()}`, "p1");
+    const memory = await getOrCreateSession(`plan-llm-${Date.now()}`, "p1");
     memory.steps.push({
       order: 1, agentName: "Кодер", agentRoleId: "role_coder",
       input: "", output: "code...", modelUsed: "m", providerId: "p",
@@ -158,7 +94,7 @@ describe("planPipeline", () => {
   });
 
   it("force-adds Кодер when Architect selected but Coder missing", async () => {
-    const memory = getOrCreateSession(`plan-force-${Date.now()}`, "p1");
+    const memory = await getOrCreateSession(`plan-force-${Date.now()}`, "p1");
     memory.steps.push({
       order: 1, agentName: "prev", agentRoleId: "r", input: "", output: "x",
       modelUsed: "m", providerId: "p", durationMs: 0, selectedBy: "user",
@@ -180,3 +116,62 @@ describe("planPipeline", () => {
     expect(plan.steps.some((r) => r.id === "role_coder")).toBe(true);
   });
 });
+
+describe("previewPlan", () => {
+  it("plans like planPipeline when no chain is paused", async () => {
+    const memory = await getOrCreateSession(`preview-new-${Date.now()}`, "p1");
+    const plan = await previewPlan(memory, "Создай лендинг");
+    expect(plan.steps.map((r) => r.id)).toEqual(SEED_ROLES.map((r) => r.id));
+    expect(memory.steps).toHaveLength(0);
+  });
+
+  it("previews the resumed queue of a paused chain without clearing it", async () => {
+    const memory = await getOrCreateSession(`preview-cp-${Date.now()}`, "p1");
+    memory.chainCheckpoint = {
+      userMessage: "Создай лендинг",
+      localContext: "",
+      rerunRoleIds: ["role_architect"],
+      remainingRoleIds: ["role_coder", "role_tester"],
+      completedCount: 2,
+      fixCycleCount: 0,
+      fixInstructions: "",
+      reasoning: "Новая сессия",
+      createdAt: new Date().toISOString(),
+    };
+
+    const plan = await previewPlan(memory, "Минимализм");
+    expect(plan.steps.map((r) => r.id)).toEqual(["role_architect", "role_coder", "role_tester"]);
+    expect(memory.chainCheckpoint).toBeDefined();
+  });
+
+  it("ignores an expired paused chain", async () => {
+    const memory = await getOrCreateSession(`preview-expired-${Date.now()}`, "p1");
+    memory.chainCheckpoint = {
+      userMessage: "Создай лендинг",
+      localContext: "",
+      rerunRoleIds: ["role_architect"],
+      remainingRoleIds: [],
+      completedCount: 1,
+      fixCycleCount: 0,
+      fixInstructions: "",
+      reasoning: "Новая сессия",
+      createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+    };
+
+    const plan = await previewPlan(memory, "Поменяй цвет");
+    expect(plan.steps.map((r) => r.id)).toEqual(SEED_ROLES.map((r) => r.id));
+  });
+
+  it("previews a stored definition's steps instead of planning", async () => {
+    const memory = await getOrCreateSession(`preview-def-${Date.now()}`, "p1");
+    vi.mocked(generateText).mockClear();
+    const plan = await previewPlan(memory, "Поменяй цвет", undefined, {
+      id: "def1", name: "Быстрый", description: "", isDefault: true, createdAt: "", updatedAt: "",
+      nodes: [{ id: "n1", roleId: "role_coder" }, { id: "n2", roleId: "role_unknown" }, { id: "n3", roleId: "role_tester" }],
+      edges: [{ from: "n1", to: "n3", condition: "always" }],
+    });
+    expect(plan.steps.map((r) => r.id)).toEqual(["role_coder", "role_tester"]);
+    expect(plan.reasoning).toContain("Быстрый");
+    expect(generateText).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from "vitest";
+import {
+  detectTruncation,
+  buildContinuationPrompt,
+  stitchContinuation,
+} from "~/lib/services/outputContinuation";
+
+const CUT = '<nitArtifact id="p" title="P">\n<nitAction type="file" filePath="index.css">body {}\n</nitAction>\n<nitAction type="file" filePath="App.tsx">\nexport default function App() {\n  return <div className="p-4">';
+
+describe("outputContinuation", () => {
+  describe("detectTruncation", () => {
+    it("detects an unclosed nitAction and names its file", () => {
+      expect(detectTruncation(CUT)).toEqual({ reason: "unclosed", filePath: "App.tsx" });
+      expect(detectTruncation(CUT, "length")).toEqual({ reason: "length", filePath: "App.tsx" });
+    });
+
+    it("detects an artifact left open between files", () => {
+      expect(detectTruncation('<nitArtifact id="p">\n<nitAction type="file" filePath="a.ts">x</nitAction>\n'))
+        .toEqual({ reason: "unclosed" });
+    });
+
+    it("treats a length finish without an artifact as truncated", () => {
+      expect(detectTruncation("// === FILE: App.tsx ===\nexport", "length")).toEqual({ reason: "length" });
+    });
+
+    it("accepts complete output", () => {
+      const done = `${CUT}</div>;\n}\n</nitAction>\n</nitArtifact>`;
+      expect(detectTruncation(done)).toBeNull();
+      expect(detectTruncation(done, "length")).toBeNull();
+      expect(detectTruncation("Готово", "stop")).toBeNull();
+    });
+  });
+
+  describe("buildContinuationPrompt", () => {
+    it("names the cut file, lists finished ones and quotes the tail", () => {
+      const prompt = buildContinuationPrompt("== ЗАПРОС ==\nСоздай сайт", CUT, { reason: "length", filePath: "App.tsx" });
+      expect(prompt).toContain("Создай сайт");
+      expect(prompt).toContain("на середине файла App.tsx");
+      expect(prompt).toContain("Уже готовые файлы (не повторяй их): index.css");
+      expect(prompt.endsWith('return <div className="p-4">')).toBe(true);
+    });
+  });
+
+  describe("stitchContinuation", () => {
+    const truncation = { reason: "unclosed" as const, filePath: "App.tsx" };
+
+    it("appends a clean continuation as-is", () => {
+      expect(stitchContinuation(CUT, "Hi</div>;\n}", truncation)).toBe("Hi</div>;\n}");
+    });
+
+    it("cuts the repeated end of the previous part", () => {
+      expect(stitchContinuation(CUT, '  return <div className="p-4">Hi</div>;', truncation)).toBe("Hi</div>;");
+    });
+
+    it("drops restarted artifact and file tags", () => {
+      const restarted = '<nitArtifact id="p" title="P">\n<nitAction type="file" filePath="App.tsx">\nHi</div>;';
+      expect(stitchContinuation(CUT, restarted, truncation)).toBe("Hi</div>;");
+    });
+
+    it("drops a markdown fence the model opened", () => {
+      expect(stitchContinuation(CUT, "```tsx\nHi</div>;", truncation)).toBe("Hi</div>;");
+    });
+  });
+});
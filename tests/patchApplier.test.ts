@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { applyPatch, isUnifiedDiff } from "~/lib/utils/patchApplier";
+
+const APP = [
+  "export default function App() {",
+  "  return (",
+  '    <div className="bg-blue-600">',
+  "      Hello",
+  "    </div>",
+  "  );",
+  "}",
+].join("\n");
+
+describe("patchApplier", () => {
+  describe("search/replace", () => {
+    it("replaces the SEARCH fragment", () => {
+      const patch = [
+        "<<<<<<< SEARCH",
+        '    <div className="bg-blue-600">',
+        "=======",
+        '    <div className="bg-green-600">',
+        ">>>>>>> REPLACE",
+      ].join("\n");
+      const result = applyPatch(APP, patch);
+      expect(result.ok).toBe(true);
+      if (result.ok) expect(result.content).toContain("bg-green-600");
+    });
+
+    it("tolerates indentation differences", () => {
+      const patch = "<<<<<<< SEARCH\nHello\n=======\nWorld\n>>>>>>> REPLACE";
+      const result = applyPatch(APP, patch);
+      expect(result.ok && result.content.includes("World")).toBe(true);
+    });
+
+    it("applies several blocks in order", () => {
+      const patch = [
+        "<<<<<<< SEARCH", "      Hello", "=======", "      Hi", ">>>>>>> REPLACE",
+        "<<<<<<< SEARCH", "      Hi", "=======", "      Hi there", ">>>>>>> REPLACE",
+      ].join("\n");
+      const result = applyPatch(APP, patch);
+      expect(result.ok && result.content.includes("Hi there")).toBe(true);
+    });
+
+    it("fails when SEARCH is missing even if the REPLACE text is present", () => {
+      const result = applyPatch(APP, "<<<<<<< SEARCH\nreturn 42;\n=======\n      Hello\n>>>>>>> REPLACE");
+      expect(result.ok).toBe(false);
+    });
+
+    it("fails with a clear message when SEARCH is missing", () => {
+      const result = applyPatch(APP, "<<<<<<< SEARCH\nnot in file\n=======\nx\n>>>>>>> REPLACE");
+      expect(result.ok).toBe(false);
+      if (!result.ok) expect(result.error).toContain("#1");
+    });
+
+    it("fails when the patch has no recognizable blocks", () => {
+      expect(applyPatch(APP, "just some text").ok).toBe(false);
+    });
+  });
+
+  describe("unified diff", () => {
+    const diff = [
+      "--- a/App.tsx",
+      "+++ b/App.tsx",
+      "@@ -3,3 +3,3 @@",
+      '     <div className="bg-blue-600">',
+      "-      Hello",
+      "+      Goodbye",
+      "     </div>",
+    ].join("\n");
+
+    it("detects unified diffs", () => {
+      expect(isUnifiedDiff(diff)).toBe(true);
+      expect(isUnifiedDiff("<<<<<<< SEARCH\na\n=======\nb\n>>>>>>> REPLACE")).toBe(false);
+    });
+
+    it("applies hunks by context, ignoring line numbers", () => {
+      const result = applyPatch(APP, diff.replace("@@ -3,3 +3,3 @@", "@@ -40,3 +40,3 @@"));
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        expect(result.content).toContain("Goodbye");
+        expect(result.content).not.toContain("Hello");
+      }
+    });
+
+    it("fails on a hunk that was already applied", () => {
+      const first = applyPatch(APP, diff);
+      expect(first.ok).toBe(true);
+      if (!first.ok) return;
+      expect(applyPatch(first.content, diff).ok).toBe(false);
+    });
+
+    it("creates a new file from an addition-only hunk", () => {
+      const result = applyPatch("", "--- /dev/null\n+++ b/new.ts\n@@ -0,0 +1,2 @@\n+export const a = 1;\n+export const b = 2;");
+      expect(result).toEqual({ ok: true, content: "export const a = 1;\nexport const b = 2;" });
+    });
+
+    it("fails when context does not match", () => {
+      const result = applyPatch(APP, "@@ -1,2 +1,2 @@\n-nothing like this\n+x");
+      expect(result.ok).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from "vitest";
+import type { PipelineLog } from "@shared/types/agentRole";
+import { aggregatePipelineLogs, percentile } from "~/lib/services/pipelineAnalytics";
+
+let seq = 0;
+function makeLog(overrides: Partial<PipelineLog> = {}): PipelineLog {
+  seq++;
+  return {
+    sessionId: "sess-1",
+    projectId: "proj-1",
+    agentName: "Кодер",
+    agentRoleId: "role_coder",
+    providerId: "ollama",
+    modelName: "qwen2.5-coder",
+    inputLength: 100,
+    outputLength: 500,
+    durationMs: 1000,
+    selectedBy: "hardcoded",
+    status: "success",
+    errorMessage: "",
+    retryCount: 0,
+    timestamp: `2025-06-01T10:00:${String(seq % 60).padStart(2, "0")}Z`,
+    ...overrides,
+  };
+}
+
+describe("percentile", () => {
+  it("uses the nearest rank", () => {
+    const values = [100, 200, 300, 400, 500, 600, 700, 800, 900, 1000];
+    expect(percentile(values, 50)).toBe(500);
+    expect(percentile(values, 95)).toBe(1000);
+    expect(percentile([42], 95)).toBe(42);
+    expect(percentile([], 50)).toBeNull();
+  });
+});
+
+describe("aggregatePipelineLogs", () => {
+  it("computes outcome rates, retries and duration percentiles per role", () => {
+    const logs = [
+      makeLog({ durationMs: 1000, tokensPerSecond: 20 }),
+      makeLog({ durationMs: 3000, retryCount: 1, tokensPerSecond: 40 }),
+      makeLog({ status: "timeout", durationMs: 0, errorMessage: "Кодер: qwen2.5-coder@ollama не ответила за 60 с" }),
+      makeLog({ status: "error", durationMs: 0, retryCount: 2, errorMessage: "ECONNREFUSED" }),
+      makeLog({ agentName: "Архитектор", agentRoleId: "role_architect", modelName: "mistral", durationMs: 2000 }),
+    ];
+
+    const result = aggregatePipelineLogs(logs);
+    expect(result.totalLogs).toBe(5);
+    expect(result.truncated).toBe(false);
+
+    const coder = result.byRole.find(g => g.key === "role_coder")!;
+    expect(coder).toMatchObject({
+      label: "Кодер",
+      total: 4,
+      success: 2,
+      error: 1,
+      timeout: 1,
+      successRate: 0.5,
+      errorRate: 0.25,
+      timeoutRate: 0.25,
+      retries: 3,
+      p50DurationMs: 1000,
+      p95DurationMs: 3000,
+      avgTokensPerSecond: 30,
+    });
+
+    expect(result.byModel.map(g => g.key)).toEqual(["qwen2.5-coder@ollama", "mistral@ollama"]);
+    expect(result.byProvider).toHaveLength(1);
+    expect(result.byProvider[0]!.total).toBe(5);
+  });
+
+  it("counts router selections and ranks frequent errors", () => {
+    const logs = [
+      makeLog({ selectedBy: "router_llm" }),
+      makeLog({ selectedBy: "user", status: "error", errorMessage: "ECONNREFUSED" }),
+      makeLog({ status: "error", errorMessage: "ECONNREFUSED" }),
+      makeLog({ status: "timeout", errorMessage: "timeout" }),
+    ];
+
+    const result = aggregatePipelineLogs(logs, 10);
+    expect(result.selectedBy).toEqual({ hardcoded: 2, user: 1, router_llm: 1 });
+    expect(result.topErrors).toEqual([
+      { message: "ECONNREFUSED", count: 2 },
+      { message: "timeout", count: 1 },
+    ]);
+    expect(result.truncated).toBe(true);
+  });
+
+  it("leaves percentiles empty when a group has no successful steps", () => {
+    const result = aggregatePipelineLogs([makeLog({ status: "error", errorMessage: "boom" })]);
+    expect(result.byRole[0]!.p50DurationMs).toBeNull();
+    expect(result.byRole[0]!.avgTokensPerSecond).toBeNull();
+  });
+});
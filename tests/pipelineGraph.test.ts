@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import type { PipelineEdge, PipelineNode } from "@shared/types/pipelineDefinition";
+import { PipelineScheduler, validatePipelineGraph } from "~/lib/services/pipelineGraph";
+
+const nodes: PipelineNode[] = [
+  { id: "architect", roleId: "role_architect" },
+  { id: "designer", roleId: "role_designer" },
+  { id: "copywriter", roleId: "role_copywriter" },
+  { id: "coder", roleId: "role_coder" },
+  { id: "tester", roleId: "role_tester" },
+];
+
+const edges: PipelineEdge[] = [
+  { from: "architect", to: "designer", condition: "always" },
+  { from: "architect", to: "copywriter", condition: "always" },
+  { from: "designer", to: "coder", condition: "always" },
+  { from: "copywriter", to: "coder", condition: "always" },
+  { from: "coder", to: "tester", condition: "always" },
+  { from: "tester", to: "coder", condition: "on_fail", maxIterations: 2 },
+];
+
+describe("pipelineGraph", () => {
+  describe("validatePipelineGraph", () => {
+    it("accepts a DAG with a conditional back edge", () => {
+      expect(validatePipelineGraph({ nodes, edges })).toEqual([]);
+    });
+
+    it("rejects cycles of unconditional edges", () => {
+      const issues = validatePipelineGraph({
+        nodes,
+        edges: [...edges, { from: "tester", to: "architect", condition: "always" }],
+      });
+      expect(issues[0]).toContain("цикл");
+    });
+
+    it("rejects unknown nodes and duplicate ids", () => {
+      const issues = validatePipelineGraph({
+        nodes: [...nodes, { id: "coder", roleId: "role_coder" }],
+        edges: [{ from: "ghost", to: "coder", condition: "always" }],
+      });
+      expect(issues).toHaveLength(2);
+    });
+
+    it("rejects graphs without a starting step", () => {
+      const issues = validatePipelineGraph({
+        nodes: [{ id: "a", roleId: "r" }, { id: "b", roleId: "r" }],
+        edges: [
+          { from: "a", to: "b", condition: "on_pass" },
+          { from: "b", to: "a", condition: "on_fail" },
+        ],
+      });
+      expect(issues[0]).toContain("стартового");
+    });
+  });
+
+  describe("PipelineScheduler", () => {
+    function runOrder(outcomes: Record<string, Array<"pass" | "fail">>): string[] {
+      const scheduler = new PipelineScheduler({ nodes, edges });
+      const order: string[] = [];
+      while (scheduler.pendingCount > 0) {
+        const id = scheduler.ready()[0]!;
+        order.push(id);
+        const outcome = outcomes[id]?.shift() ?? "pass";
+        scheduler.complete(id, outcome);
+      }
+      return order;
+    }
+
+    it("runs independent steps once their dependencies are done", () => {
+      const scheduler = new PipelineScheduler({ nodes, edges });
+      expect(scheduler.ready()).toEqual(["architect"]);
+      scheduler.complete("architect", "pass");
+      expect(scheduler.ready()).toEqual(["designer", "copywriter"]);
+    });
+
+    it("re-runs the target and its dependents on a failing edge", () => {
+      expect(runOrder({ tester: ["fail", "pass"] })).toEqual([
+        "architect", "designer", "copywriter", "coder", "tester", "coder", "tester",
+      ]);
+    });
+
+    it("caps loops with maxIterations", () => {
+      const order = runOrder({ tester: ["fail", "fail", "fail", "fail"] });
+      expect(order.filter((id) => id === "coder")).toHaveLength(3);
+    });
+
+    it("runs on_pass targets only when triggered", () => {
+      const scheduler = new PipelineScheduler({
+        nodes: [{ id: "tester", roleId: "role_tester" }, { id: "deploy", roleId: "role_deploy" }],
+        edges: [{ from: "tester", to: "deploy", condition: "on_pass" }],
+      });
+      expect(scheduler.ready()).toEqual(["tester"]);
+      expect(scheduler.complete("tester", "fail")).toEqual([]);
+      expect(scheduler.pendingCount).toBe(0);
+    });
+
+    it("goes on from a snapshot taken mid-run", () => {
+      const scheduler = new PipelineScheduler({ nodes, edges });
+      scheduler.complete("architect", "pass");
+      scheduler.complete("designer", "pass");
+
+      const resumed = new PipelineScheduler({ nodes, edges }, scheduler.snapshot());
+      expect(resumed.ready()).toEqual(["copywriter"]);
+      expect(resumed.pendingCount).toBe(scheduler.pendingCount);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from "vitest";
+import type { PipelineEvent } from "@shared/types/agentRole";
+
+vi.mock("~/lib/utils/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  startPipelineJob,
+  cancelPipelineJob,
+  getPipelineJob,
+  listPipelineJobs,
+  followPipelineJob,
+  pipelineJobStream,
+} from "~/lib/services/pipelineJobs";
+
+const init = (projectId: string) => ({ projectId, sessionId: "sess", roleId: "role_coder", message: "Создай сайт" });
+
+/** A run that yields one event per release() call. */
+function gatedRun(events: PipelineEvent[]) {
+  let release: () => void = () => {};
+  const run = async function* () {
+    for (const event of events) {
+      await new Promise<void>((resolve) => { release = resolve; });
+      yield event;
+    }
+  };
+  return { run, release: () => release() };
+}
+
+async function collect(jobId: string, lastEventId = 0) {
+  const seen: Array<{ id: number; event: PipelineEvent }> = [];
+  for await (const item of followPipelineJob(jobId, lastEventId)) seen.push(item);
+  return seen;
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe("pipelineJobs", () => {
+  it("keeps running without a reader and replays events after Last-Event-ID", async () => {
+    const job = startPipelineJob(init("proj-replay"), async function* (job) {
+      yield { type: "session_init", sessionId: job.sessionId, jobId: job.id };
+      yield { type: "text", text: "a" };
+      yield { type: "text", text: "b" };
+    });
+    await tick();
+
+    expect(getPipelineJob(job.id)).toMatchObject({ status: "done", eventCount: 3, error: null });
+    const replay = await collect(job.id, 1);
+    expect(replay).toEqual([{ id: 3, event: { type: "text", text: "ab" } }]);
+  });
+
+  it("compacts text deltas per step and replays a run from the first delta not seen", async () => {
+    const job = startPipelineJob(init("proj-compact"), async function* () {
+      yield { type: "text", text: "a", stepId: "s1" };
+      yield { type: "text", text: "b", stepId: "s1" };
+      yield { type: "text", text: "x", stepId: "s2" };
+      yield { type: "text", text: "c", stepId: "s2" };
+      yield { type: "reasoning", text: "hm", stepId: "s2" };
+      yield { type: "step_complete", roleName: "Кодер", durationMs: 5, stepId: "s2" };
+      yield { type: "text", text: "d", stepId: "s2" };
+    });
+    await tick();
+
+    expect(getPipelineJob(job.id)?.eventCount).toBe(7);
+    expect(await collect(job.id)).toEqual([
+      { id: 2, event: { type: "text", text: "ab", stepId: "s1" } },
+      { id: 4, event: { type: "text", text: "xc", stepId: "s2" } },
+      { id: 5, event: { type: "reasoning", text: "hm", stepId: "s2" } },
+      { id: 6, event: { type: "step_complete", roleName: "Кодер", durationMs: 5, stepId: "s2" } },
+      { id: 7, event: { type: "text", text: "d", stepId: "s2" } },
+    ]);
+    expect((await collect(job.id, 3))[0]).toEqual({ id: 4, event: { type: "text", text: "c", stepId: "s2" } });
+  });
+
+  it("follows new events as they arrive", async () => {
+    const { run, release } = gatedRun([{ type: "text", text: "1" }, { type: "text", text: "2" }]);
+    const job = startPipelineJob(init("proj-follow"), run);
+
+    const following = collect(job.id);
+    await tick();
+    release();
+    await tick();
+    release();
+
+    expect((await following).map((e) => e.event)).toEqual([{ type: "text", text: "1" }, { type: "text", text: "2" }]);
+    expect(getPipelineJob(job.id)?.status).toBe("done");
+  });
+
+  it("stops following when the reader goes away", async () => {
+    const { run, release } = gatedRun([{ type: "text", text: "1" }]);
+    const job = startPipelineJob(init("proj-reader"), run);
+    const reader = new AbortController();
+
+    const following = (async () => {
+      const seen: PipelineEvent[] = [];
+      for await (const { event } of followPipelineJob(job.id, 0, reader.signal)) seen.push(event);
+      return seen;
+    })();
+    await tick();
+    reader.abort();
+    await expect(following).resolves.toEqual([]);
+
+    // The job itself goes on
+    expect(getPipelineJob(job.id)?.status).toBe("running");
+    release();
+    await tick();
+    expect(getPipelineJob(job.id)?.status).toBe("done");
+  });
+
+  it("cancels a running job through its abort signal", async () => {
+    const job = startPipelineJob(init("proj-cancel"), async function* (_job, abortSignal) {
+      yield { type: "text", text: "1" };
+      await new Promise((_, reject) => abortSignal.addEventListener("abort", () =>
+        reject(Object.assign(new Error("aborted"), { name: "AbortError" }))));
+    });
+    await tick();
+
+    expect(cancelPipelineJob(job.id)).toBe(true);
+    await tick();
+    expect(getPipelineJob(job.id)).toMatchObject({ status: "cancelled", eventCount: 1 });
+    expect(cancelPipelineJob(job.id)).toBe(false);
+    expect(cancelPipelineJob("unknown")).toBe(false);
+  });
+
+  it("marks jobs failed on an error event or a thrown error", async () => {
+    const reported = startPipelineJob(init("proj-error"), async function* () {
+      yield { type: "error", message: "Модель недоступна" };
+    });
+    const thrown = startPipelineJob(init("proj-error"), async function* () {
+      yield { type: "text", text: "1" };
+      throw new Error("boom");
+    });
+    await tick();
+
+    expect(getPipelineJob(reported.id)).toMatchObject({ status: "error", error: "Модель недоступна" });
+    expect(getPipelineJob(thrown.id)).toMatchObject({ status: "error", error: "boom", eventCount: 2 });
+    expect((await collect(thrown.id, 1))[0]!.event).toEqual({ type: "error", message: "boom" });
+  });
+
+  it("lists the jobs of a project, newest first", async () => {
+    const first = startPipelineJob(init("proj-list"), async function* () {});
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = startPipelineJob(init("proj-list"), async function* () {});
+    startPipelineJob(init("proj-other"), async function* () {});
+
+    expect(listPipelineJobs("proj-list").map((job) => job.id)).toEqual([second.id, first.id]);
+  });
+
+  it("streams SSE with event ids and [DONE] once finished", async () => {
+    const job = startPipelineJob(init("proj-sse"), async function* () {
+      yield { type: "text", text: "a" };
+      yield { type: "text", text: "b" };
+    });
+    await tick();
+
+    const body = await new Response(pipelineJobStream(job.id, 1)).text();
+    expect(body).toBe('id: 2\ndata: {"type":"text","text":"b"}\n\ndata: [DONE]\n\n');
+  });
+});
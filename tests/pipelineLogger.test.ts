@@ -13,16 +13,19 @@ vi.mock("~/lib/db/appwrite", () => ({
     listDocuments: async (dbId: string, collId: string, queries: QOp[] = []) => {
       const col = store[dbId]?.[collId] ?? [];
       let result = [...col];
+      let total: number | undefined; // like Appwrite: matches before limit/offset
       for (const q of queries) {
         switch (q.type) {
           case "equal": result = result.filter(d => d[q.field!] === q.value); break;
+          case "gte": result = result.filter(d => String(d[q.field!]) >= String(q.value)); break;
+          case "lte": result = result.filter(d => String(d[q.field!]) <= String(q.value)); break;
           case "orderAsc": result.sort((a, b) => String(a[q.field!] ?? "").localeCompare(String(b[q.field!] ?? ""))); break;
           case "orderDesc": result.sort((a, b) => String(b[q.field!] ?? "").localeCompare(String(a[q.field!] ?? ""))); break;
-          case "limit": result = result.slice(0, q.n); break;
-          case "offset": result = result.slice(q.n); break;
+          case "limit": total ??= result.length; result = result.slice(0, q.n); break;
+          case "offset": total ??= result.length; result = result.slice(q.n); break;
         }
       }
-      return { total: result.length, documents: result.map(d => ({ ...d })) };
+      return { total: total ?? result.length, documents: result.map(d => ({ ...d })) };
     },
     createDocument: async (dbId: string, collId: string, docId: string, data: Record<string, unknown>) => {
       if (!store[dbId]) store[dbId] = {};
@@ -53,10 +56,12 @@ vi.mock("~/lib/db/appwrite", () => ({
     orderAsc: (field: string): QOp => ({ type: "orderAsc", field }),
     orderDesc: (field: string): QOp => ({ type: "orderDesc", field }),
     equal: (field: string, value: unknown): QOp => ({ type: "equal", field, value }),
+    greaterThanEqual: (field: string, value: unknown): QOp => ({ type: "gte", field, value }),
+    lessThanEqual: (field: string, value: unknown): QOp => ({ type: "lte", field, value }),
   },
 }));
 
-import { logPipelineStep } from "~/lib/services/pipelineLogger";
+import { logPipelineStep, listPipelineLogs } from "~/lib/services/pipelineLogger";
 
 describe("pipelineLogger", () => {
   beforeEach(async () => {
@@ -86,5 +91,48 @@ describe("pipelineLogger", () => {
     it("logs a step without throwing", async () => {
       await expect(logPipelineStep(makelog())).resolves.toBeUndefined();
     });
+
+    it("stores token usage and throughput", async () => {
+      await logPipelineStep(makelog({
+        promptTokens: 900,
+        completionTokens: 300,
+        tokensEstimated: true,
+        timeToFirstTokenMs: 1200,
+        tokensPerSecond: 37.5,
+      }));
+
+      const doc = store["test-master-db"]!["pipeline_logs"]!.at(-1)!;
+      expect(doc).toMatchObject({
+        prompt_tokens: 900,
+        completion_tokens: 300,
+        tokens_estimated: true,
+        time_to_first_token_ms: 1200,
+        tokens_per_second: 37.5,
+      });
+    });
+  });
+
+  describe("listPipelineLogs", () => {
+    it("filters by date range and project, newest first", async () => {
+      await logPipelineStep(makelog({ timestamp: "2025-05-31T23:59:00Z" }));
+      await logPipelineStep(makelog({ timestamp: "2025-06-01T08:00:00Z", tokensPerSecond: 12.5 }));
+      await logPipelineStep(makelog({ timestamp: "2025-06-02T09:00:00Z", status: "timeout" }));
+      await logPipelineStep(makelog({ timestamp: "2025-06-02T10:00:00Z", projectId: "proj-2" }));
+
+      const { logs, total } = await listPipelineLogs({ from: "2025-06-01", to: "2025-06-02", projectId: "proj-1" });
+      expect(total).toBe(2);
+      expect(logs.map(l => l.timestamp)).toEqual(["2025-06-02T09:00:00Z", "2025-06-01T08:00:00Z"]);
+      expect(logs[0]!.status).toBe("timeout");
+      expect(logs[1]!.tokensPerSecond).toBe(12.5);
+    });
+
+    it("stops at the limit but reports the full match count", async () => {
+      for (let i = 0; i < 5; i++) {
+        await logPipelineStep(makelog({ timestamp: `2025-06-01T10:00:0${i}Z` }));
+      }
+      const { logs, total } = await listPipelineLogs({}, 3);
+      expect(logs).toHaveLength(3);
+      expect(total).toBe(5);
+    });
   });
 });
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import type { AgentStep } from "@shared/types/agentRole";
+import { reserveOutputTokens, selectContextSteps } from "~/lib/services/promptBudget";
+
+function step(order: number, agentRoleId: string, agentName: string, output: string): AgentStep {
+  return {
+    order, agentName, agentRoleId, input: "", output,
+    modelUsed: "mistral", providerId: "ollama", durationMs: 1, selectedBy: "hardcoded",
+    status: "success", timestamp: `t${order}`,
+  };
+}
+
+const CODE = '<nitArtifact id="a" title="t"><nitAction type="file" filePath="src/App.tsx">export default function App() {}</nitAction></nitArtifact>';
+
+describe("promptBudget", () => {
+  it("reserves a quarter of the window for output within bounds", () => {
+    expect(reserveOutputTokens(2048)).toBe(1024);
+    expect(reserveOutputTokens(16384)).toBe(4096);
+    expect(reserveOutputTokens(200000)).toBe(8192);
+  });
+
+  it("keeps every step in chronological order when the budget allows", () => {
+    const steps = [step(1, "role_architect", "Архитектор", "{}"), step(2, "role_copywriter", "Копирайтер", "Тексты")];
+    const selection = selectContextSteps(steps, 10000);
+    expect(selection.includedSteps).toBe(2);
+    expect(selection.text.indexOf("[Архитектор")).toBeLessThan(selection.text.indexOf("[Копирайтер"));
+    expect(selection.summarizedSteps + selection.droppedSteps).toBe(0);
+  });
+
+  it("summarizes older artifacts to their file list", () => {
+    const oldCode = CODE.replace("export default function App() {}", "x".repeat(4000));
+    const steps = [step(1, "role_coder", "Кодер", oldCode), step(2, "role_coder", "Кодер", CODE)];
+    const selection = selectContextSteps(steps, 200);
+    expect(selection.summarizedSteps).toBe(1);
+    expect(selection.text).toContain("Сгенерированные файлы: src/App.tsx");
+    expect(selection.text).toContain("export default function App() {}");
+  });
+
+  it("pins the latest full artifact and the patches after it, not just the last patch", () => {
+    const fullSet = CODE.replace("export default function App() {}", `export default function App() { return 1; } // full set ${"y".repeat(400)}`);
+    const patch = '<nitArtifact id="a" title="t"><nitAction type="patch" filePath="src/App.tsx">@@\n-return 1;\n+return 2;</nitAction></nitArtifact>';
+    const steps = [
+      step(1, "role_coder", "Кодер", CODE + "x".repeat(2000)),
+      step(2, "role_coder", "Кодер", fullSet),
+      step(3, "role_copywriter", "Копирайтер", "Текст ".repeat(500)),
+      step(4, "role_coder", "Кодер", patch),
+    ];
+    const selection = selectContextSteps(steps, 260);
+    expect(selection.text).toContain("// full set");
+    expect(selection.text).toContain("+return 2;");
+    expect(selection.text).not.toContain("x".repeat(100));
+  });
+
+  it("pins the latest Architect output over newer free text", () => {
+    const steps = [
+      step(1, "role_architect", "Архитектор", '{"pages":["home"]}'),
+      step(2, "role_copywriter", "Копирайтер", "Текст ".repeat(500)),
+    ];
+    const selection = selectContextSteps(steps, 150);
+    expect(selection.text).toContain('{"pages":["home"]}');
+    expect(selection.summarizedSteps + selection.droppedSteps).toBe(1);
+  });
+
+  it("drops steps when even the summary does not fit", () => {
+    const steps = [step(1, "role_copywriter", "Копирайтер", "Текст ".repeat(500))];
+    const selection = selectContextSteps(steps, 10);
+    expect(selection.droppedSteps).toBe(1);
+    expect(selection.text).toBe("");
+  });
+});
@@ -40,7 +40,7 @@ describe("buildAgentPrompt", () => {
   it("builds correct system prompt with role only (no NIT prompt for seed roles)", async () => {
     const roles = await getAllRoles(true);
     const role = roles[1]!;
-    const memory = getOrCreateSession(`prompt-test-${Date.now()}`, "p1");
+    const memory = await getOrCreateSession(`prompt-test-${Date.now()}`, "p1");
 
     const { system, user } = buildAgentPrompt(role, memory, "Создай лендинг", "", "react");
 
@@ -56,7 +56,7 @@ describe("buildAgentPrompt", () => {
   it("includes previous agent context", async () => {
     const roles = await getAllRoles(true);
     const role = roles[1]!;
-    const memory = getOrCreateSession(`prompt-ctx-${Date.now()}`, "p1");
+    const memory = await getOrCreateSession(`prompt-ctx-${Date.now()}`, "p1");
     memory.steps.push({
       order: 1, agentName: "Архитектор", agentRoleId: "role_architect",
       input: "", output: '{"project_name":"Test","pages":[]}', modelUsed: "mistral",
@@ -74,7 +74,7 @@ describe("buildAgentPrompt", () => {
   it("includes local context", async () => {
     const roles = await getAllRoles(true);
     const role = roles[0]!;
-    const memory = getOrCreateSession(`prompt-local-${Date.now()}`, "p1");
+    const memory = await getOrCreateSession(`prompt-local-${Date.now()}`, "p1");
 
     const { user } = buildAgentPrompt(role, memory, "Сайт", "Стиль: минимализм", "react");
     expect(user).toContain("ДОПОЛНИТЕЛЬНЫЙ КОНТЕКСТ");
@@ -84,7 +84,7 @@ describe("buildAgentPrompt", () => {
   it("skips empty local context", async () => {
     const roles = await getAllRoles(true);
     const role = roles[0]!;
-    const memory = getOrCreateSession(`prompt-empty-${Date.now()}`, "p1");
+    const memory = await getOrCreateSession(`prompt-empty-${Date.now()}`, "p1");
 
     const { user } = buildAgentPrompt(role, memory, "Сайт", "   ", "react");
     expect(user).not.toContain("ДОПОЛНИТЕЛЬНЫЙ КОНТЕКСТ");
@@ -93,7 +93,7 @@ describe("buildAgentPrompt", () => {
   it("includes multiple agent contexts in chain", async () => {
     const roles = await getAllRoles(true);
     const role = roles[2]!;
-    const memory = getOrCreateSession(`prompt-chain-${Date.now()}`, "p1");
+    const memory = await getOrCreateSession(`prompt-chain-${Date.now()}`, "p1");
     memory.steps.push(
       {
         order: 1, agentName: "Архитектор", agentRoleId: "r1", input: "", output: "Структура сайта",
@@ -113,14 +113,84 @@ describe("buildAgentPrompt", () => {
     expect(user).toContain("---");
   });
 
+  it("leaves out the steps of omitted roles", async () => {
+    const roles = await getAllRoles(true);
+    const memory = await getOrCreateSession(`prompt-omit-${Date.now()}`, "p1");
+    memory.steps.push(
+      {
+        order: 1, agentName: "Кодер", agentRoleId: "role_coder", input: "", output: "Код страницы",
+        modelUsed: "m", providerId: "p", durationMs: 0, selectedBy: "user", status: "success", timestamp: "t1",
+      },
+      {
+        order: 2, agentName: "Тестировщик", agentRoleId: "role_tester", input: "", output: "Полный отчёт",
+        modelUsed: "m", providerId: "p", durationMs: 0, selectedBy: "user", status: "success", timestamp: "t2",
+      },
+    );
+
+    const { user } = buildAgentPrompt(roles[4]!, memory, "Исправь", "1. [App.tsx] ошибка", "react", undefined, ["role_tester"]);
+    expect(user).toContain("Код страницы");
+    expect(user).not.toContain("Полный отчёт");
+  });
+
   it("includes NIT prompt when includeNitPrompt is true", async () => {
     const roles = await getAllRoles(true);
     const role = { ...roles[4]!, includeNitPrompt: true };
-    const memory = getOrCreateSession(`prompt-nit-${Date.now()}`, "p1");
+    const memory = await getOrCreateSession(`prompt-nit-${Date.now()}`, "p1");
 
     const { system } = buildAgentPrompt(role, memory, "Создай сайт", "", "react");
 
     expect(system).toContain("MOCK");
     expect(system).toContain("РОЛЬ АГЕНТА: Кодер");
   });
+
+  it("trims older steps to fit a small context window and keeps the latest Coder artifact", async () => {
+    const roles = await getAllRoles(true);
+    const role = roles[5]!;
+    const memory = await getOrCreateSession(`prompt-budget-${Date.now()}`, "p1");
+    const longText = "Очень длинный текст копирайтера. ".repeat(400);
+    const code = '<nitArtifact id="a" title="t"><nitAction type="file" filePath="src/App.tsx">export default function App() {}</nitAction></nitArtifact>';
+    memory.steps.push(
+      {
+        order: 1, agentName: "Копирайтер", agentRoleId: "role_copywriter", input: "", output: longText,
+        modelUsed: "m", providerId: "p", durationMs: 0, selectedBy: "hardcoded", status: "success", timestamp: "t1",
+      },
+      {
+        order: 2, agentName: "Кодер", agentRoleId: "role_coder", input: "", output: code,
+        modelUsed: "m", providerId: "p", durationMs: 0, selectedBy: "hardcoded", status: "success", timestamp: "t2",
+      },
+    );
+
+    const { user, budget } = buildAgentPrompt(role, memory, "Проверь", "", "react", 4096);
+
+    expect(user).toContain("src/App.tsx");
+    expect(user).toContain("export default function App");
+    expect(user).not.toContain(longText);
+    expect(budget.summarizedSteps + budget.droppedSteps).toBe(1);
+    expect(budget.contextWindow).toBe(4096);
+    expect(budget.maxTokens).toBeLessThanOrEqual(4096 - budget.inputTokens);
+  });
+
+  it("uses the English pack for an English session", async () => {
+    const roles = await getAllRoles(true);
+    const memory = await getOrCreateSession(`prompt-en-${Date.now()}`, "p1");
+    memory.locale = "en";
+
+    const { system, user } = buildAgentPrompt(roles[1]!, memory, "Build a landing page", "Style: minimal", "react");
+    expect(system).toContain("OUTPUT PROTOCOL");
+    expect(system).toContain("=== ROLE: Архитектор ===");
+    expect(system).not.toContain("ПРОТОКОЛ ВЫВОДА");
+    expect(user).toContain("== USER REQUEST ==");
+    expect(user).toContain("== ADDITIONAL CONTEXT ==");
+  });
+
+  it("reports no trimming when everything fits", async () => {
+    const roles = await getAllRoles(true);
+    const memory = await getOrCreateSession(`prompt-fit-${Date.now()}`, "p1");
+
+    const { budget } = buildAgentPrompt(roles[0]!, memory, "Сайт", "", "react");
+    expect(budget.summarizedSteps).toBe(0);
+    expect(budget.droppedSteps).toBe(0);
+    expect(budget.overflow).toBe(false);
+    expect(budget.maxTokens).toBe(8192);
+  });
 });
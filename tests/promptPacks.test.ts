@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import { PROMPT_LOCALES, isPromptLocale } from "@shared/types/promptLocale";
+import { getPromptPack, roleNamesOf, SEED_ROLE_IDS } from "~/lib/server/llm/promptPacks";
+import { buildSystemPrompt } from "~/lib/server/llm/prompts";
+import { buildFixInstructions } from "~/lib/services/testerVerdict";
+import { buildDiagnosticsFixInstructions } from "~/lib/services/codeDiagnostics";
+import { buildContinuationPrompt } from "~/lib/services/outputContinuation";
+import { questionsProtocol } from "~/lib/services/clarifyingQuestions";
+import type { AgentRole } from "@shared/types/agentRole";
+
+function role(id: string, name: string): AgentRole {
+  return {
+    id, name, description: "", systemPrompt: "", providerId: "ollama", modelName: "mistral",
+    order: 1, isActive: true, isLocked: false, timeoutMs: 60000, maxRetries: 2,
+    outputFormat: "freetext", includeNitPrompt: false, temperature: 0.3, createdAt: "", updatedAt: "",
+  };
+}
+
+describe("prompt packs", () => {
+  it("has every seeded role in every locale", () => {
+    for (const locale of PROMPT_LOCALES) {
+      const pack = getPromptPack(locale);
+      for (const roleId of SEED_ROLE_IDS) {
+        expect(pack.roles[roleId].name).toBeTruthy();
+        expect(pack.roles[roleId].description).toBeTruthy();
+        expect(pack.roles[roleId].systemPrompt.length).toBeGreaterThan(200);
+      }
+    }
+  });
+
+  it("keeps the English pack free of Cyrillic", () => {
+    const pack = getPromptPack("en");
+    const roles = SEED_ROLE_IDS.map((id) => role(id, pack.roles[id].name));
+    const input = { agents: "- Coder (role_coder): code", lastSteps: [], userMessage: "hi", roleName: roleNamesOf(roles) };
+
+    const texts = [
+      ...Object.values(pack.roles).flatMap((r) => [r.name, r.description, r.systemPrompt]),
+      pack.sharedProtocol,
+      ...Object.values(pack.agent),
+      pack.router(input),
+      pack.planner(input),
+      pack.testerVerdictProtocol,
+      ...Object.values(pack.fixes),
+      ...Object.values(pack.rejection),
+      pack.clarificationAnswer,
+      pack.budget.generatedFiles("App.tsx"),
+      pack.budget.shortened(1000),
+      pack.budget.cut,
+      ...Object.values(pack.diagnostics.forbiddenImportHints),
+      pack.diagnostics.forbiddenImport("axios", "x"),
+      pack.diagnostics.unresolvedImport("./a"),
+      pack.diagnostics.invalidJson("x"),
+      ...Object.values(pack.validation).map((text) => (typeof text === "string" ? text : text("App.tsx"))),
+      questionsProtocol("en"),
+      buildSystemPrompt("react", "en"),
+      buildFixInstructions([{ file: "App.tsx", line: 3, severity: "critical", message: "x", suggestedFix: "y" }], "en"),
+      buildDiagnosticsFixInstructions([{ file: "App.tsx", kind: "syntax", message: "x" }], "en"),
+      buildContinuationPrompt("hi", '<nitAction type="file" filePath="a.css">a{}</nitAction><nitAction type="file" filePath="App.tsx">', { reason: "length", filePath: "App.tsx" }, "en"),
+    ];
+    for (const text of texts) expect(text).not.toMatch(/[А-Яа-яЁё]/);
+  });
+
+  it("names roles in router and planner rules by their current name", () => {
+    const roles = [role("role_architect", "Structure Guru"), role("role_coder", "Dev")];
+    const input = { agents: "", lastSteps: [], userMessage: "hi", roleName: roleNamesOf(roles) };
+
+    const router = getPromptPack("ru").router(input);
+    expect(router).toContain("→ Structure Guru");
+    expect(router).toContain("→ Dev");
+    expect(router).not.toContain("Копирайтер"); // no such role — its rule is dropped
+
+    const planner = getPromptPack("en").planner(input);
+    expect(planner).toContain("structure/design → Structure Guru + Dev");
+    expect(planner).not.toContain("visual style"); // designer missing
+    expect(planner).toContain("- Dev is ALWAYS needed");
+  });
+
+  it("falls back to the default pack and validates locales", () => {
+    expect(getPromptPack()).toBe(getPromptPack("ru"));
+    expect(isPromptLocale("en")).toBe(true);
+    expect(isPromptLocale("de")).toBe(false);
+    expect(isPromptLocale(undefined)).toBe(false);
+  });
+});
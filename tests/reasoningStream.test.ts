@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import type { PipelineEvent } from "@shared/types/agentRole";
+import { ReasoningStream } from "~/lib/services/reasoningStream";
+
+function run(stream: ReasoningStream, chunks: string[]): PipelineEvent[] {
+  return [...chunks.flatMap((chunk) => stream.push(chunk)), ...stream.flush()];
+}
+
+function textOf(events: PipelineEvent[], type: "text" | "reasoning"): string {
+  return events.map((e) => (e.type === type ? e.text : "")).join("");
+}
+
+describe("ReasoningStream", () => {
+  it("passes plain text through untouched", () => {
+    const events = run(new ReasoningStream(), ["Hello ", "<template>", " world"]);
+    expect(events.every((e) => e.type === "text")).toBe(true);
+    expect(textOf(events, "text")).toBe("Hello <template> world");
+  });
+
+  it("splits a think block from the answer", () => {
+    const stream = new ReasoningStream();
+    const events = run(stream, ["<think>plan the app</think>\n\nHere is the code"]);
+    expect(textOf(events, "reasoning")).toBe("plan the app");
+    expect(textOf(events, "text")).toBe("Here is the code");
+    expect(stream.reasoning).toBe("plan the app");
+  });
+
+  it("finds tags split across chunks, in any case", () => {
+    const events = run(new ReasoningStream(), ["<thi", "nking>ste", "p one</THINK", "ING>", "Answer"]);
+    expect(textOf(events, "reasoning")).toBe("step one");
+    expect(textOf(events, "text")).toBe("Answer");
+  });
+
+  it("closes a block with its duration", () => {
+    let now = 1000;
+    const stream = new ReasoningStream(() => now);
+    stream.push("<think>a");
+    now = 3500;
+    const events = stream.push("</think>b");
+    expect(events).toEqual([
+      { type: "reasoning", text: "", durationMs: 2500 },
+      { type: "text", text: "b" },
+    ]);
+    expect(stream.durationMs).toBe(2500);
+  });
+
+  it("ends an unclosed block on flush", () => {
+    const stream = new ReasoningStream(() => 0);
+    const events = run(stream, ["<think>never closed", " <thi"]);
+    expect(textOf(events, "reasoning")).toBe("never closed <thi");
+    expect(events.at(-1)).toEqual({ type: "reasoning", text: "", durationMs: 0 });
+    expect(textOf(events, "text")).toBe("");
+  });
+});
@@ -253,6 +253,16 @@ describe("roleService", () => {
       expect(updated!.name).toBe("Копирайтер");
     });
 
+    it("stores fallback models as an ordered list", async () => {
+      const fallbacks = [
+        { providerId: "anthropic", modelName: "claude-sonnet-4-20250514" },
+        { providerId: "lm-studio", modelName: "qwen2.5-coder" },
+      ];
+      const updated = await updateRole("role_copywriter", { fallbacks });
+      expect(updated!.fallbacks).toEqual(fallbacks);
+      expect((await getRoleById("role_architect"))!.fallbacks).toEqual([]);
+    });
+
     it("tracks prompt history on systemPrompt change", async () => {
       const before = await getPromptHistory("role_copywriter");
       const beforeCount = before.length;
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+vi.mock("~/lib/utils/logger", () => ({
+  logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+vi.mock("~/lib/server/llm/prompts", () => ({
+  buildSystemPrompt: vi.fn(() => "MOCK"),
+}));
+vi.mock("~/lib/llm/manager", () => ({
+  LLMManager: { getInstance: vi.fn(() => ({ getProvider: vi.fn(() => null) })) },
+}));
+vi.mock("ai", () => ({ streamText: vi.fn() }));
+vi.mock("~/lib/services/pipelineLogger", () => ({ logPipelineStep: vi.fn(async () => {}) }));
+vi.mock("~/lib/services/agentRouter", () => ({ routeToAgent: vi.fn() }));
+vi.mock("~/lib/services/roleService", () => ({
+  getAllRoles: vi.fn(async () => []),
+  getRoleById: vi.fn(async () => null),
+  getLockedRole: vi.fn(async () => null),
+}));
+
+import type { AgentMemory } from "@shared/types/agentRole";
+import type { ChatMessage } from "@shared/types/message";
+import { FileSessionStore, MemorySessionStore } from "~/lib/services/sessionStore";
+import { getOrCreateSession, getSession, resumeSessionFromHistory, forkSession, rewindSession } from "~/lib/services/agentPipeline";
+
+function makeMemory(sessionId: string): AgentMemory {
+  return {
+    sessionId,
+    projectId: "proj-1",
+    steps: [{
+      order: 1, agentName: "Архитектор", agentRoleId: "role_architect", input: "сайт", output: "{}",
+      modelUsed: "mistral", providerId: "ollama", durationMs: 10, selectedBy: "hardcoded",
+      status: "success", timestamp: "2025-01-01T00:00:00.000Z",
+    }],
+    createdAt: "2025-01-01T00:00:00.000Z",
+    lastActivity: "2025-01-01T00:00:00.000Z",
+  };
+}
+
+describe("FileSessionStore", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "nit-sessions-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips a session through disk", async () => {
+    await new FileSessionStore(dir).save(makeMemory("s-1"));
+    const loaded = await new FileSessionStore(dir).load("s-1");
+    expect(loaded?.projectId).toBe("proj-1");
+    expect(loaded?.steps[0]!.agentName).toBe("Архитектор");
+  });
+
+  it("round-trips a chain checkpoint", async () => {
+    const memory = makeMemory("s-cp");
+    memory.chainCheckpoint = {
+      userMessage: "Создай сайт",
+      localContext: "",
+      rerunRoleIds: ["role_architect"],
+      remainingRoleIds: ["role_coder", "role_tester"],
+      completedCount: 2,
+      fixCycleCount: 0,
+      fixInstructions: "",
+      reasoning: "Новая сессия",
+      createdAt: "2025-01-01T00:00:00.000Z",
+    };
+    await new FileSessionStore(dir).save(memory);
+    const loaded = await new FileSessionStore(dir).load("s-cp");
+    expect(loaded?.chainCheckpoint).toEqual(memory.chainCheckpoint);
+  });
+
+  it("returns null for unknown or deleted sessions", async () => {
+    const store = new FileSessionStore(dir);
+    expect(await store.load("missing")).toBeNull();
+    await store.save(makeMemory("s-2"));
+    await store.delete("s-2");
+    expect(await store.load("s-2")).toBeNull();
+  });
+
+  it("lands overlapping saves in call order without leaving temp files", async () => {
+    const store = new FileSessionStore(dir);
+    const saves = Array.from({ length: 5 }, (_, i) => {
+      const memory = makeMemory("s-race");
+      memory.lastActivity = `2025-01-01T00:00:0${i}.000Z`;
+      return store.save(memory);
+    });
+    await Promise.all(saves);
+
+    expect((await store.load("s-race"))?.lastActivity).toBe("2025-01-01T00:00:04.000Z");
+    expect(await readdir(dir)).toEqual(["s-race.json"]);
+  });
+
+  it("sanitizes session ids used as file names", async () => {
+    const store = new FileSessionStore(dir);
+    await store.save(makeMemory("../escape"));
+    expect((await store.load("../escape"))?.sessionId).toBe("../escape");
+  });
+});
+
+describe("MemorySessionStore", () => {
+  it("stores copies, not references", async () => {
+    const store = new MemorySessionStore();
+    const memory = makeMemory("m-1");
+    await store.save(memory);
+    memory.steps.length = 0;
+    expect((await store.load("m-1"))?.steps).toHaveLength(1);
+  });
+});
+
+describe("session persistence in agentPipeline", () => {
+  it("getSession returns a session created via getOrCreateSession", async () => {
+    const memory = await getOrCreateSession(`persist-${Date.now()}`, "proj-1");
+    expect(await getSession(memory.sessionId)).toBe(memory);
+  });
+
+  it("resumeSessionFromHistory rebuilds steps from agent messages", async () => {
+    const memory = await getOrCreateSession(`resume-${Date.now()}`, "proj-1");
+    const history: ChatMessage[] = [
+      { id: "1", role: "user", content: "Сделай лендинг", timestamp: 1_700_000_000_000 },
+      { id: "2", role: "assistant", content: "{\"pages\":[]}", timestamp: 1_700_000_001_000, agentRoleId: "role_architect", agentRoleName: "Архитектор", model: "mistral", agentId: "ollama", selectedBy: "hardcoded" },
+      { id: "3", role: "assistant", content: "plain reply without agent", timestamp: 1_700_000_002_000 },
+    ];
+
+    resumeSessionFromHistory(memory, history);
+
+    expect(memory.steps).toHaveLength(1);
+    expect(memory.steps[0]!.agentRoleId).toBe("role_architect");
+    expect(memory.steps[0]!.input).toBe("Сделай лендинг");
+    expect(memory.steps[0]!.providerId).toBe("ollama");
+    expect(memory.lastActivity).toBe(new Date(1_700_000_001_000).toISOString());
+  });
+
+  it("resumeSessionFromHistory leaves memory untouched without agent messages", async () => {
+    const memory = await getOrCreateSession(`resume-empty-${Date.now()}`, "proj-1");
+    resumeSessionFromHistory(memory, [{ id: "1", role: "user", content: "привет", timestamp: 1 }]);
+    expect(memory.steps).toEqual([]);
+  });
+
+  it("forkSession copies the steps answering the kept messages", async () => {
+    const memory = await getOrCreateSession(`fork-${Date.now()}`, "proj-1");
+    resumeSessionFromHistory(memory, [
+      { id: "1", role: "user", content: "Сделай лендинг", timestamp: 1_700_000_000_000 },
+      { id: "2", role: "assistant", content: "{}", timestamp: 1_700_000_001_000, agentRoleId: "role_architect", agentRoleName: "Архитектор" },
+      { id: "3", role: "user", content: "Добавь форму", timestamp: 1_700_000_002_000 },
+      { id: "4", role: "assistant", content: "<nitArtifact/>", timestamp: 1_700_000_003_000, agentRoleId: "role_coder", agentRoleName: "Кодер" },
+    ]);
+
+    const forkedId = await forkSession(memory.sessionId, "proj-1", ["3"], new Map([["1", "1b"], ["2", "2b"]]));
+    expect(forkedId).toBeTruthy();
+    expect(forkedId).not.toBe(memory.sessionId);
+
+    const forked = await getSession(forkedId!);
+    expect(forked?.steps.map((s) => s.agentRoleId)).toEqual(["role_architect"]);
+    // Steps follow the renamed messages of the branch
+    expect(forked?.steps[0]!.requestId).toBe("1b");
+    // The source branch keeps its memory
+    expect(memory.steps).toHaveLength(2);
+    forked!.steps[0]!.output = "changed";
+    expect(memory.steps[0]!.output).toBe("{}");
+  });
+
+  it("rewindSession drops the answers to an edited message and everything after", async () => {
+    const memory = await getOrCreateSession(`rewind-${Date.now()}`, "proj-1");
+    resumeSessionFromHistory(memory, [
+      { id: "1", role: "user", content: "Сделай лендинг", timestamp: 1_700_000_000_000 },
+      { id: "2", role: "assistant", content: "{}", timestamp: 1_700_000_001_000, agentRoleId: "role_architect", agentRoleName: "Архитектор" },
+      { id: "3", role: "user", content: "Добавь фрому", timestamp: 1_700_000_002_000 },
+      { id: "4", role: "assistant", content: "<nitArtifact/>", timestamp: 1_700_000_003_000, agentRoleId: "role_coder", agentRoleName: "Кодер" },
+    ]);
+    memory.chainCheckpoint = {
+      userMessage: "Добавь фрому", localContext: "", rerunRoleIds: [], remainingRoleIds: ["role_tester"],
+      completedCount: 1, fixCycleCount: 0, fixInstructions: "", reasoning: "", requestId: "3", createdAt: "2023-11-14T22:13:23.000Z",
+    };
+
+    expect(rewindSession(memory, ["3"])).toBe(1);
+    expect(memory.steps.map((s) => s.agentRoleId)).toEqual(["role_architect"]);
+    expect(memory.chainCheckpoint).toBeUndefined();
+    expect(rewindSession(memory, ["3"])).toBe(0);
+  });
+
+  it("rewindSession cuts at the first answer to a dropped message", async () => {
+    const memory = await getOrCreateSession(`rewind-order-${Date.now()}`, "proj-1");
+    const step = makeMemory("x").steps[0]!;
+    memory.steps = [
+      { ...step, agentRoleId: "role_architect", requestId: "u1" },
+      { ...step, agentRoleId: "role_coder", requestId: "u3" },
+      { ...step, agentRoleId: "role_tester", requestId: "u3" },
+    ];
+
+    // u2 got no answer of its own — the answers to u3 after it still go
+    expect(rewindSession(memory, ["u2", "u3"])).toBe(2);
+    expect(memory.steps.map((s) => s.agentRoleId)).toEqual(["role_architect"]);
+  });
+
+  it("forkSession returns null for unknown sessions or nothing to copy", async () => {
+    expect(await forkSession("no-such-session", "proj-1", [])).toBeNull();
+    const memory = await getOrCreateSession(`fork-empty-${Date.now()}`, "proj-1");
+    expect(await forkSession(memory.sessionId, "proj-1", [])).toBeNull();
+  });
+});
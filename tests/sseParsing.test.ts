@@ -11,10 +11,12 @@ type PipelineEvent = {
 function parsePipelineSSE(
   buffer: string,
   onEvent: (event: PipelineEvent) => void,
-): { remaining: string; done: boolean; pipelineError: string | null } {
+): { remaining: string; done: boolean; pipelineError: string | null; lastEventId: string | null } {
   let remaining = buffer;
   let done = false;
   let pipelineError: string | null = null;
+  let pendingId: string | null = null;
+  let lastEventId: string | null = null;
 
   while (true) {
     const newlineIdx = remaining.indexOf("\n");
@@ -24,6 +26,10 @@ function parsePipelineSSE(
     remaining = remaining.slice(newlineIdx + 1);
 
     const trimmed = line.trim();
+    if (trimmed.startsWith("id: ")) {
+      pendingId = trimmed.slice(4).trim();
+      continue;
+    }
     if (!trimmed.startsWith("data: ")) continue;
 
     const payload = trimmed.slice(6).trim();
@@ -32,6 +38,10 @@ function parsePipelineSSE(
       break;
     }
 
+    // The id belongs to this event even when it is malformed — it is not replayed either way
+    if (pendingId !== null) lastEventId = pendingId;
+    pendingId = null;
+
     try {
       const parsed = JSON.parse(payload) as PipelineEvent;
       if (parsed.type === "error") {
@@ -45,7 +55,7 @@ function parsePipelineSSE(
     }
   }
 
-  return { remaining, done, pipelineError };
+  return { remaining, done, pipelineError, lastEventId };
 }
 
 describe("SSE parsing", () => {
@@ -81,6 +91,20 @@ describe("SSE parsing", () => {
     ]);
   });
 
+  it("tracks the id of the last event for Last-Event-ID", () => {
+    const events: PipelineEvent[] = [];
+    const result = parsePipelineSSE(
+      'id: 1\ndata: {"type":"text","text":"a"}\n\nid: 2\ndata: {"type":"text","text":"b"}\n\nid: 3\ndata: {"type":"te',
+      (e) => events.push(e),
+    );
+    expect(events.map((e) => e.text)).toEqual(["a", "b"]);
+    expect(result.lastEventId).toBe("2");
+    expect(result.remaining).toBe('data: {"type":"te');
+
+    // Streams without ids leave it unknown
+    expect(parsePipelineSSE('data: {"type":"text","text":"c"}\n', () => {}).lastEventId).toBeNull();
+  });
+
   it("handles [DONE] signal", () => {
     const events: PipelineEvent[] = [];
     const result = parsePipelineSSE(
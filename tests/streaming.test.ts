@@ -1,5 +1,5 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import type { AgentRole, AgentMemory, PipelineEvent } from "@shared/types/agentRole";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type { AgentRole, AgentMemory, ChainCommand, PipelineEvent } from "@shared/types/agentRole";
 
 vi.mock("~/lib/utils/logger", () => ({
   logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
@@ -61,6 +61,9 @@ import {
   getOrCreateSession,
 } from "~/lib/services/agentPipeline";
 import { executeOrchestrated } from "~/lib/services/orchestrator";
+import { resolveApproval } from "~/lib/services/approvalGates";
+import { LLMScheduler } from "~/lib/llm/scheduler";
+import { openChainControl, closeChainControl, sendChainCommand } from "~/lib/services/chainControl";
 
 async function collectEvents(gen: AsyncGenerator<PipelineEvent>): Promise<PipelineEvent[]> {
   const events: PipelineEvent[] = [];
@@ -80,7 +83,7 @@ function makeTextStream(chunks: string[]): { textStream: AsyncIterable<string> }
   };
 }
 
-function freshMemory(suffix: string): AgentMemory {
+async function freshMemory(suffix: string): Promise<AgentMemory> {
   return getOrCreateSession(`stream-${suffix}-${Date.now()}`, "proj-test");
 }
 
@@ -98,7 +101,7 @@ describe("executeStepStreaming", () => {
   it("streams text chunks and yields step_complete on success", async () => {
     mockStreamText.mockReturnValue(makeTextStream(["Hello", " world"]));
 
-    const memory = freshMemory("step-ok");
+    const memory = await freshMemory("step-ok");
     const events = await collectEvents(
       executeStepStreaming(role, memory, "Создай кнопку", "", "react", "user"),
     );
@@ -117,10 +120,47 @@ describe("executeStepStreaming", () => {
     expect(memory.steps[0]!.output).toBe("Hello world");
   });
 
+  it("reports token usage from the provider in step_complete and the pipeline log", async () => {
+    mockStreamText.mockReturnValue({
+      ...makeTextStream(["Hello", " world"]),
+      usage: Promise.resolve({ promptTokens: 321, completionTokens: 12, totalTokens: 333 }),
+    });
+
+    const memory = await freshMemory("step-usage");
+    const events = await collectEvents(
+      executeStepStreaming(role, memory, "Создай кнопку", "", "react", "user"),
+    );
+
+    const complete = events.find(e => e.type === "step_complete") as { usage?: Record<string, unknown> };
+    expect(complete.usage).toMatchObject({ promptTokens: 321, completionTokens: 12, estimated: false });
+    expect(complete.usage!.tokensPerSecond).toBeGreaterThan(0);
+
+    const { logPipelineStep } = await import("~/lib/services/pipelineLogger");
+    expect(vi.mocked(logPipelineStep)).toHaveBeenCalledWith(expect.objectContaining({
+      status: "success",
+      promptTokens: 321,
+      completionTokens: 12,
+      tokensEstimated: false,
+    }));
+  });
+
+  it("estimates token usage when the provider does not report it", async () => {
+    mockStreamText.mockReturnValue(makeTextStream(["a".repeat(35)]));
+
+    const memory = await freshMemory("step-usage-estimated");
+    const events = await collectEvents(
+      executeStepStreaming(role, memory, "Создай кнопку", "", "react", "user"),
+    );
+
+    const complete = events.find(e => e.type === "step_complete") as { usage?: Record<string, unknown> };
+    expect(complete.usage).toMatchObject({ completionTokens: 10, estimated: true });
+    expect(complete.usage!.promptTokens).toBeGreaterThan(0);
+  });
+
   it("yields error when provider not found", async () => {
     mockGetProvider.mockReturnValue(null);
 
-    const memory = freshMemory("step-no-provider");
+    const memory = await freshMemory("step-no-provider");
     const events = await collectEvents(
       executeStepStreaming(role, memory, "test", "", "react", "user"),
     );
@@ -135,7 +175,7 @@ describe("executeStepStreaming", () => {
   it("yields error when model returns empty response", async () => {
     mockStreamText.mockReturnValue(makeTextStream(["", "  "]));
 
-    const memory = freshMemory("step-empty");
+    const memory = await freshMemory("step-empty");
     const events = await collectEvents(
       executeStepStreaming(role, memory, "test", "", "react", "user"),
     );
@@ -156,7 +196,7 @@ describe("executeStepStreaming", () => {
     });
 
     const singleRetryRole = { ...role, maxRetries: 1 };
-    const memory = freshMemory("step-retry");
+    const memory = await freshMemory("step-retry");
     const events = await collectEvents(
       executeStepStreaming(singleRetryRole, memory, "test", "", "react", "user"),
     );
@@ -179,7 +219,7 @@ describe("executeStepStreaming", () => {
     });
 
     const noRetryRole = { ...role, maxRetries: 0 };
-    const memory = freshMemory("step-exhaust");
+    const memory = await freshMemory("step-exhaust");
     const events = await collectEvents(
       executeStepStreaming(noRetryRole, memory, "test", "", "react", "user"),
     );
@@ -194,7 +234,7 @@ describe("executeStepStreaming", () => {
     const controller = new AbortController();
     controller.abort();
 
-    const memory = freshMemory("step-abort");
+    const memory = await freshMemory("step-abort");
     const events = await collectEvents(
       executeStepStreaming(role, memory, "test", "", "react", "user", controller.signal),
     );
@@ -211,7 +251,7 @@ describe("executeStepStreaming", () => {
       throw err;
     });
 
-    const memory = freshMemory("step-abort-err");
+    const memory = await freshMemory("step-abort-err");
     const events = await collectEvents(
       executeStepStreaming(role, memory, "test", "", "react", "user"),
     );
@@ -226,7 +266,7 @@ describe("executeStepStreaming", () => {
     const jsonPayload = '{"pages": [{"name": "home"}]}';
     mockStreamText.mockReturnValue(makeTextStream([jsonPayload]));
 
-    const memory = freshMemory("step-json");
+    const memory = await freshMemory("step-json");
     await collectEvents(
       executeStepStreaming(architectRole, memory, "plan", "", "react", "hardcoded"),
     );
@@ -237,7 +277,7 @@ describe("executeStepStreaming", () => {
   it("does not set outputParsed for freetext roles", async () => {
     mockStreamText.mockReturnValue(makeTextStream(["<nitArtifact>code</nitArtifact>"]));
 
-    const memory = freshMemory("step-freetext");
+    const memory = await freshMemory("step-freetext");
     await collectEvents(
       executeStepStreaming(role, memory, "code", "", "react", "user"),
     );
@@ -246,13 +286,249 @@ describe("executeStepStreaming", () => {
   });
 });
 
+// ─── Provider concurrency limits ─────────────────────────
+
+describe("executeStepStreaming request queue", () => {
+  const role = SEED_ROLES[2]!; // Кодер
+
+  beforeEach(() => {
+    process.env.LLM_MAX_CONCURRENCY = "ollama=1";
+    LLMScheduler.resetInstance();
+  });
+  afterEach(() => {
+    delete process.env.LLM_MAX_CONCURRENCY;
+    LLMScheduler.resetInstance();
+  });
+
+  it("reports the queue position and runs once the slot is free", async () => {
+    mockStreamText.mockReturnValue(makeTextStream(["OK"]));
+    const busy = LLMScheduler.getInstance().enqueue("ollama", "other-model");
+
+    const memory = await freshMemory("queued");
+    const events: PipelineEvent[] = [];
+    for await (const ev of executeStepStreaming(role, memory, "test", "", "react", "user")) {
+      events.push(ev);
+      if (ev.type === "queued") {
+        expect(mockStreamText).not.toHaveBeenCalled();
+        setTimeout(() => busy.release(), 0);
+      }
+    }
+
+    expect(events[0]).toMatchObject({ type: "queued", roleName: "Кодер", provider: "ollama", model: "mistral", position: 1 });
+    expect((events[0] as { estimatedWaitMs: number }).estimatedWaitMs).toBeGreaterThan(0);
+    expect(memory.steps[0]!.status).toBe("success");
+    expect(LLMScheduler.getInstance().stats()).toEqual({ active: {}, queued: 0 });
+  });
+
+  it("leaves the queue when cancelled while waiting", async () => {
+    const busy = LLMScheduler.getInstance().enqueue("ollama", "other-model");
+    const controller = new AbortController();
+
+    const memory = await freshMemory("queued-abort");
+    const events: PipelineEvent[] = [];
+    for await (const ev of executeStepStreaming(role, memory, "test", "", "react", "user", controller.signal)) {
+      events.push(ev);
+      if (ev.type === "queued") setTimeout(() => controller.abort(), 0);
+    }
+
+    expect(events.at(-1)).toEqual({ type: "error", message: "Отменено" });
+    expect(mockStreamText).not.toHaveBeenCalled();
+    expect(LLMScheduler.getInstance().stats().queued).toBe(0);
+    busy.release();
+  });
+
+  it("does not count the queue wait against the step's total limit", async () => {
+    const slowStream = {
+      textStream: {
+        async *[Symbol.asyncIterator]() {
+          for (let i = 0; i < 6; i++) {
+            await new Promise((r) => setTimeout(r, 40));
+            yield `${i}`;
+          }
+        },
+      },
+    };
+    mockStreamText.mockReturnValue(slowStream);
+    const busy = LLMScheduler.getInstance().enqueue("ollama", "other-model");
+    setTimeout(() => busy.release(), 300);
+
+    const memory = await freshMemory("queued-budget");
+    await collectEvents(executeStepStreaming({ ...role, timeoutMs: 100, maxRetries: 0 }, memory, "test", "", "react", "user"));
+
+    expect(memory.steps[0]!.status).toBe("success");
+    expect(memory.steps[0]!.output).toBe("012345");
+  });
+
+  it("gives up on a queue that does not move within the limit", async () => {
+    const busy = LLMScheduler.getInstance().enqueue("ollama", "other-model");
+
+    const memory = await freshMemory("queued-timeout");
+    const events = await collectEvents(
+      executeStepStreaming({ ...role, timeoutMs: 20, maxRetries: 0, fallbacks: [] }, memory, "test", "", "react", "user"),
+    );
+
+    const errorEv = events.find(e => e.type === "error");
+    expect((errorEv as { message: string }).message).toContain("очереди");
+    expect(mockStreamText).not.toHaveBeenCalled();
+    expect(memory.steps[0]!.status).toBe("timeout");
+    expect(LLMScheduler.getInstance().stats().queued).toBe(0);
+    busy.release();
+  });
+});
+
+describe("executeStepStreaming reasoning", () => {
+  const role = SEED_ROLES[2]!; // Кодер
+
+  it("streams <think> text as reasoning and keeps it out of the output", async () => {
+    mockStreamText.mockReturnValue(makeTextStream(["<think>Нужна ", "кнопка</thi", "nk>\n", "Готово"]));
+
+    const memory = await freshMemory("reasoning");
+    const events: PipelineEvent[] = [];
+    for await (const ev of executeStepStreaming(role, memory, "test", "", "react", "user")) events.push(ev);
+
+    const reasoning = events.filter((e) => e.type === "reasoning");
+    expect(reasoning.map((e) => (e as { text: string }).text).join("")).toBe("Нужна кнопка");
+    expect(reasoning.at(-1)).toMatchObject({ text: "", durationMs: expect.any(Number) });
+    expect(events.filter((e) => e.type === "text").map((e) => (e as { text: string }).text).join("")).toBe("Готово");
+    expect(memory.steps[0]!.output).toBe("Готово");
+  });
+});
+
+// ─── Timeouts and fallback models ───────────────────────
+
+function makeStallingStream(chunks: string[]): { textStream: AsyncIterable<string> } {
+  return {
+    textStream: {
+      async *[Symbol.asyncIterator]() {
+        for (const c of chunks) yield c;
+        await new Promise(() => {});
+      },
+    },
+  };
+}
+
+describe("executeStepStreaming timeouts and fallbacks", () => {
+  const role: AgentRole = {
+    ...SEED_ROLES[2]!,
+    timeoutMs: 30,
+    maxRetries: 0,
+    fallbacks: [{ providerId: "anthropic", modelName: "claude-sonnet-4-20250514" }],
+  };
+
+  it("switches to the fallback model when the first token never arrives", async () => {
+    mockStreamText
+      .mockReturnValueOnce(makeStallingStream([]))
+      .mockReturnValueOnce(makeTextStream(["From fallback"]));
+
+    const memory = await freshMemory("fallback-first-token");
+    const events = await collectEvents(executeStepStreaming(role, memory, "test", "", "react", "user"));
+
+    const warning = events.find(e => e.type === "warning" && e.message.includes("резервную модель"));
+    expect(warning).toBeDefined();
+    expect((warning as { message: string }).message).toContain("не ответила");
+    expect(events.some(e => e.type === "step_complete")).toBe(true);
+    expect(memory.steps).toHaveLength(1);
+    expect(memory.steps[0]!.modelUsed).toBe("claude-sonnet-4-20250514");
+    expect(memory.steps[0]!.providerId).toBe("anthropic");
+    expect(mockGetProvider).toHaveBeenCalledWith("anthropic");
+
+    const { logPipelineStep } = await import("~/lib/services/pipelineLogger");
+    expect(vi.mocked(logPipelineStep)).toHaveBeenCalledWith(expect.objectContaining({
+      status: "timeout", modelName: "mistral", providerId: "ollama",
+    }));
+  });
+
+  it("resets partial text when a stream stalls mid-answer", async () => {
+    mockStreamText
+      .mockReturnValueOnce(makeStallingStream(["Partial"]))
+      .mockReturnValueOnce(makeTextStream(["Full answer"]));
+
+    const memory = await freshMemory("fallback-stall");
+    const events = await collectEvents(executeStepStreaming(role, memory, "test", "", "react", "user"));
+
+    const resetIndex = events.findIndex(e => e.type === "retry_reset");
+    const partialIndex = events.findIndex(e => e.type === "text" && e.text === "Partial");
+    expect(partialIndex).toBeGreaterThanOrEqual(0);
+    expect(resetIndex).toBeGreaterThan(partialIndex);
+    expect(events.some(e => e.type === "warning" && e.message.includes("перестала отвечать"))).toBe(true);
+    expect(memory.steps[0]!.output).toBe("Full answer");
+  });
+
+  it("records a timeout step when no fallback is left", async () => {
+    mockStreamText.mockReturnValue(makeStallingStream([]));
+
+    const memory = await freshMemory("timeout-final");
+    const events = await collectEvents(
+      executeStepStreaming({ ...role, fallbacks: [] }, memory, "test", "", "react", "user"),
+    );
+
+    const errorEv = events.find(e => e.type === "error");
+    expect((errorEv as { message: string }).message).toContain("не ответила");
+    expect(memory.steps).toHaveLength(1);
+    expect(memory.steps[0]!.status).toBe("timeout");
+  });
+
+  it("counts the total limit from the step start across fallbacks", async () => {
+    const tricklingStream = {
+      textStream: {
+        async *[Symbol.asyncIterator]() {
+          for (;;) {
+            await new Promise((r) => setTimeout(r, 10));
+            yield ".";
+          }
+        },
+      },
+    };
+    mockStreamText
+      .mockReturnValueOnce(tricklingStream)
+      .mockReturnValueOnce(makeStallingStream([]));
+
+    const memory = await freshMemory("timeout-total");
+    const events = await collectEvents(executeStepStreaming(role, memory, "test", "", "react", "user"));
+
+    // The fallback starts with the step's budget already spent
+    const errorEv = events.find(e => e.type === "error");
+    expect((errorEv as { message: string }).message).toContain("не уложилась");
+    expect(memory.steps[0]!.status).toBe("timeout");
+  });
+
+  it("uses the fallback when the primary provider is offline", async () => {
+    mockGetProvider.mockImplementation(((id: string) =>
+      id === "ollama" ? null : { getModelInstance: mockGetModelInstance }) as never);
+    mockStreamText.mockReturnValue(makeTextStream(["OK"]));
+
+    const memory = await freshMemory("fallback-offline");
+    const events = await collectEvents(executeStepStreaming(role, memory, "test", "", "react", "user"));
+
+    expect(events.some(e => e.type === "error")).toBe(false);
+    expect(memory.steps[0]!.status).toBe("success");
+    expect(memory.steps[0]!.providerId).toBe("anthropic");
+    expect(mockStreamText).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry an unreachable provider", async () => {
+    mockStreamText
+      .mockImplementationOnce(() => { throw new Error("connect ECONNREFUSED 127.0.0.1:11434"); })
+      .mockReturnValueOnce(makeTextStream(["OK"]));
+
+    const memory = await freshMemory("fallback-refused");
+    const events = await collectEvents(
+      executeStepStreaming({ ...role, maxRetries: 2 }, memory, "test", "", "react", "user"),
+    );
+
+    expect(events.some(e => e.type === "warning" && e.message.includes("Повтор"))).toBe(false);
+    expect(events.some(e => e.type === "warning" && e.message.includes("недоступна"))).toBe(true);
+    expect(memory.steps[0]!.providerId).toBe("anthropic");
+  });
+});
+
 // ─── executeOrchestrated ─────────────────────────────────
 
 describe("executeOrchestrated", () => {
   it("plans and executes steps for new session (full chain)", async () => {
     mockStreamText.mockReturnValue(makeTextStream(["result"]));
 
-    const memory = freshMemory("orch-new");
+    const memory = await freshMemory("orch-new");
     const events = await collectEvents(
       executeOrchestrated(memory, "Создай лендинг", "ctx", "react"),
     );
@@ -270,7 +546,7 @@ describe("executeOrchestrated", () => {
     const { getAllRoles: mockGetAllRoles } = await import("~/lib/services/roleService");
     vi.mocked(mockGetAllRoles).mockResolvedValueOnce([]);
 
-    const memory = freshMemory("orch-empty");
+    const memory = await freshMemory("orch-empty");
     const events = await collectEvents(
       executeOrchestrated(memory, "test", "", "react"),
     );
@@ -284,7 +560,7 @@ describe("executeOrchestrated", () => {
     const controller = new AbortController();
     controller.abort();
 
-    const memory = freshMemory("orch-abort");
+    const memory = await freshMemory("orch-abort");
     const events = await collectEvents(
       executeOrchestrated(memory, "test", "", "react", controller.signal),
     );
@@ -303,11 +579,11 @@ describe("executeOrchestrated", () => {
 
       if (sys.includes("Тестировщик") && stepCallIdx <= 5) {
         roleOrder.push("tester-fail");
-        return makeTextStream(["ИТОГО: FAIL\nКритическая ошибка"]);
+        return makeTextStream([JSON.stringify({ verdict: "fail", summary: "Сломано", issues: [{ file: "App.tsx", line: 3, severity: "critical", message: "Незакрытый тег", suggestedFix: "Закрой div" }] })]);
       }
       if (sys.includes("Тестировщик")) {
         roleOrder.push("tester-pass");
-        return makeTextStream(["ИТОГО: PASS\nВсё хорошо"]);
+        return makeTextStream([JSON.stringify({ verdict: "pass", summary: "Всё хорошо", issues: [] })]);
       }
 
       if (sys.includes("Кодер") || sys.includes("MOCK_SYSTEM_PROMPT")) {
@@ -319,7 +595,7 @@ describe("executeOrchestrated", () => {
       return makeTextStream(["output"]);
     });
 
-    const memory = freshMemory("orch-fix");
+    const memory = await freshMemory("orch-fix");
     const events = await collectEvents(
       executeOrchestrated(memory, "Создай сайт", "", "react"),
     );
@@ -329,6 +605,17 @@ describe("executeOrchestrated", () => {
     );
     expect(fixWarnings.length).toBeGreaterThanOrEqual(1);
 
+    const verdicts = events.filter(e => e.type === "tester_verdict");
+    expect(verdicts.length).toBeGreaterThanOrEqual(1);
+
+    // The fix run of the Coder receives only the failing issues
+    const fixCall = mockStreamText.mock.calls.find(
+      ([opts]) => JSON.stringify(opts).includes("ИСПРАВЬ КРИТИЧЕСКИЕ ОШИБКИ"),
+    );
+    expect(JSON.stringify(fixCall?.[0])).toContain("App.tsx:3");
+    // ...and not the Tester's full review among the previous steps
+    expect(JSON.stringify(fixCall?.[0])).not.toContain("Сломано");
+
     expect(events.find(e => e.type === "done")).toBeDefined();
   });
 
@@ -336,7 +623,7 @@ describe("executeOrchestrated", () => {
     mockStreamText.mockImplementation((opts: { system: string }) => {
       const sys = opts.system ?? "";
       if (sys.includes("Тестировщик")) {
-        return makeTextStream(["ИТОГО: FAIL\nКритическая ошибка: всё сломано"]);
+        return makeTextStream([JSON.stringify({ verdict: "fail", summary: "Сломано", issues: [{ file: "App.tsx", line: 3, severity: "critical", message: "Незакрытый тег", suggestedFix: "Закрой div" }] })]);
       }
       if (sys.includes("MOCK_SYSTEM_PROMPT") || sys.includes("Кодер")) {
         return makeTextStream(["<nitArtifact>code</nitArtifact>"]);
@@ -344,7 +631,7 @@ describe("executeOrchestrated", () => {
       return makeTextStream(["output"]);
     });
 
-    const memory = freshMemory("orch-max-fix");
+    const memory = await freshMemory("orch-max-fix");
     const events = await collectEvents(
       executeOrchestrated(memory, "Создай сайт", "", "react"),
     );
@@ -357,6 +644,140 @@ describe("executeOrchestrated", () => {
     expect(events.find(e => e.type === "done")).toBeDefined();
   });
 
+  it("runs headless diagnostics after the coder and feeds them into a fix cycle", async () => {
+    let coderCalls = 0;
+    mockStreamText.mockImplementation((opts: { system: string }) => {
+      const sys = opts.system ?? "";
+      if (sys.includes("Тестировщик")) {
+        return makeTextStream([JSON.stringify({ verdict: "pass", summary: "", issues: [] })]);
+      }
+      if (sys.includes("MOCK_SYSTEM_PROMPT") || sys.includes("Кодер")) {
+        coderCalls++;
+        const imports = coderCalls === 1 ? 'import axios from "axios";\n' : "";
+        return makeTextStream([
+          `<nitArtifact id="a" title="a"><nitAction type="file" filePath="App.tsx">${imports}export default function App() { return <div />; }</nitAction></nitArtifact>`,
+        ]);
+      }
+      return makeTextStream(["output"]);
+    });
+
+    const memory = await freshMemory("orch-diagnostics");
+    const events = await collectEvents(
+      executeOrchestrated(memory, "Создай сайт", "", "react"),
+    );
+
+    const reports = events.filter(e => e.type === "diagnostics") as Array<Extract<PipelineEvent, { type: "diagnostics" }>>;
+    expect(reports[0]?.diagnostics[0]?.kind).toBe("forbidden_import");
+    expect(reports.at(-1)?.diagnostics).toEqual([]);
+    expect(coderCalls).toBe(2);
+
+    const fixCall = mockStreamText.mock.calls.find(
+      ([opts]) => JSON.stringify(opts).includes("АВТОМАТИЧЕСКАЯ ПРОВЕРКА"),
+    );
+    expect(fixCall).toBeDefined();
+    expect(events.find(e => e.type === "done")).toBeDefined();
+  });
+
+  it("executes a stored pipeline definition instead of the implicit order", async () => {
+    mockStreamText.mockImplementation((opts: { system: string }) => {
+      const sys = opts.system ?? "";
+      if (sys.includes("Тестировщик")) {
+        return makeTextStream([JSON.stringify({ verdict: "fail", summary: "", issues: [{ file: "App.tsx", severity: "critical", message: "Сломано" }] })]);
+      }
+      return makeTextStream(["output"]);
+    });
+
+    const memory = await freshMemory("orch-definition");
+    const events = await collectEvents(
+      executeOrchestrated(memory, "Создай сайт", "", "react", undefined, undefined, {
+        id: "p1", name: "Без архитектора", description: "", isDefault: false, createdAt: "", updatedAt: "",
+        nodes: [
+          { id: "copy", roleId: "role_copywriter" },
+          { id: "code", roleId: "role_coder" },
+          { id: "qa", roleId: "role_tester" },
+        ],
+        edges: [
+          { from: "copy", to: "code", condition: "always" },
+          { from: "code", to: "qa", condition: "always" },
+          { from: "qa", to: "code", condition: "on_fail", maxIterations: 1 },
+        ],
+      }),
+    );
+
+    const started = events
+      .filter(e => e.type === "step_start")
+      .map(e => (e as { roleName: string }).roleName);
+    expect(started).toEqual(["Копирайтер", "Кодер", "Тестировщик", "Кодер", "Тестировщик"]);
+    expect(mockGenerateText).not.toHaveBeenCalled();
+    expect(events.some(e => e.type === "warning" && e.message.includes("итерация 1/1"))).toBe(true);
+    expect(events.at(-1)?.type).toBe("done");
+  });
+
+  it("runs independent roles concurrently with step ids on their events", async () => {
+    const delayedStream = (chunks: string[]) => ({
+      textStream: {
+        async *[Symbol.asyncIterator]() {
+          for (const c of chunks) {
+            await new Promise((r) => setTimeout(r, 5));
+            yield c;
+          }
+        },
+      },
+    });
+
+    mockStreamText.mockImplementation((opts: { system: string }) => {
+      const sys = opts.system ?? "";
+      if (sys.includes("Архитектор")) return delayedStream(['{"project_name":', '"Сайт"}']);
+      if (sys.includes("Копирайтер")) return delayedStream(["Текст ", "героя"]);
+      if (sys.includes("Тестировщик")) return makeTextStream([JSON.stringify({ verdict: "pass", summary: "", issues: [] })]);
+      return makeTextStream(["<nitArtifact>code</nitArtifact>"]);
+    });
+
+    const memory = await freshMemory("orch-parallel");
+    const events = await collectEvents(
+      executeOrchestrated(memory, "Создай сайт", "", "react"),
+    );
+
+    const texts = events.filter(e => e.type === "text") as Array<Extract<PipelineEvent, { type: "text" }>>;
+    const firstFour = texts.slice(0, 4).map(e => e.stepId);
+    expect(new Set(firstFour).size).toBe(2);
+    // Interleaved: the second step starts streaming before the first one finishes
+    expect(firstFour[0]).not.toBe(firstFour[1]);
+
+    const starts = events.filter(e => e.type === "step_start") as Array<Extract<PipelineEvent, { type: "step_start" }>>;
+    expect(starts.every(e => e.stepId)).toBe(true);
+    expect(events.find(e => e.type === "chain_progress")).toEqual({ type: "chain_progress", current: 2, total: 4 });
+    expect(events.at(-1)?.type).toBe("done");
+  });
+
+  it("aborts and closes parallel siblings once a step fails", async () => {
+    let copywriterSignal: AbortSignal | undefined;
+    mockStreamText.mockImplementation((opts: { system: string; abortSignal: AbortSignal }) => {
+      const sys = opts.system ?? "";
+      if (sys.includes("Архитектор")) {
+        return { textStream: { async *[Symbol.asyncIterator]() { throw new Error("fetch failed"); } } };
+      }
+      copywriterSignal = opts.abortSignal;
+      return {
+        textStream: {
+          async *[Symbol.asyncIterator]() {
+            yield "Текст ";
+            await new Promise((_, reject) => opts.abortSignal.addEventListener("abort", () =>
+              reject(Object.assign(new Error("aborted"), { name: "AbortError" }))));
+          },
+        },
+      };
+    });
+
+    const memory = await freshMemory("orch-parallel-stop");
+    const events = await collectEvents(executeOrchestrated(memory, "Создай сайт", "", "react"));
+
+    expect(events.some(e => e.type === "error" && e.message.includes("недоступна"))).toBe(true);
+    expect(copywriterSignal?.aborted).toBe(true);
+    expect(events.filter(e => e.type === "step_start").map(e => (e as { roleName: string }).roleName))
+      .toEqual(["Архитектор", "Копирайтер"]);
+  });
+
   it("emits validation warnings for invalid step output", async () => {
     mockStreamText.mockImplementation((opts: { system: string }) => {
       const sys = opts.system ?? "";
@@ -366,7 +787,7 @@ describe("executeOrchestrated", () => {
       return makeTextStream(["output"]);
     });
 
-    const memory = freshMemory("orch-validate");
+    const memory = await freshMemory("orch-validate");
     const events = await collectEvents(
       executeOrchestrated(memory, "Создай сайт", "", "react"),
     );
@@ -376,4 +797,568 @@ describe("executeOrchestrated", () => {
     );
     expect(validationWarnings.length).toBeGreaterThanOrEqual(1);
   });
+
+  it("writes validation warnings in the session's language", async () => {
+    mockStreamText.mockImplementation(() => makeTextStream(["not valid json at all"]));
+
+    const memory = await freshMemory("orch-validate-en");
+    memory.locale = "en";
+    const events = await collectEvents(executeOrchestrated(memory, "Build a site", "", "react"));
+
+    const warnings = events.flatMap(e => (e.type === "warning" ? [e.message] : []));
+    expect(warnings.some(m => m.includes("The JSON could not be parsed"))).toBe(true);
+    expect(warnings.some(m => m.includes("The Coder did not produce code"))).toBe(true);
+    expect(warnings.some(m => m.includes("JSON не удалось распарсить"))).toBe(false);
+  });
+});
+
+// ─── Approval gates ──────────────────────────────────────
+
+describe("executeOrchestrated approval gates", () => {
+  const architect = SEED_ROLES[0]!;
+
+  /** Collects events, answering each approval_required with the next decision. */
+  async function collectWithDecisions(
+    gen: AsyncGenerator<PipelineEvent>,
+    sessionId: string,
+    decisions: Parameters<typeof resolveApproval>[2][],
+  ): Promise<PipelineEvent[]> {
+    const events: PipelineEvent[] = [];
+    for await (const ev of gen) {
+      events.push(ev);
+      if (ev.type === "approval_required") {
+        const decision = decisions.shift()!;
+        // The gate opens once the generator resumes past this yield
+        setTimeout(() => resolveApproval(sessionId, ev.stepId, decision), 0);
+      }
+    }
+    return events;
+  }
+
+  function architectAware(outputs: string[]) {
+    mockStreamText.mockImplementation((opts: { system: string }) => {
+      if ((opts.system ?? "").includes("Архитектор")) return makeTextStream([outputs.shift() ?? "{}"]);
+      if ((opts.system ?? "").includes("Тестировщик")) {
+        return makeTextStream([JSON.stringify({ verdict: "pass", summary: "ok", issues: [] })]);
+      }
+      return makeTextStream(["<nitArtifact>code</nitArtifact>"]);
+    });
+  }
+
+  beforeEach(() => {
+    architect.requiresApproval = true;
+  });
+  afterEach(() => {
+    architect.requiresApproval = undefined;
+  });
+
+  it("continues with the edited output stored in memory", async () => {
+    architectAware(['{"project_name":"original"}']);
+    const memory = await freshMemory("approval-edit");
+
+    const events = await collectWithDecisions(
+      executeOrchestrated(memory, "Создай сайт", "", "react"),
+      memory.sessionId,
+      [{ action: "edit", output: '{"project_name":"EDITED_PLAN"}' }],
+    );
+
+    const gate = events.find(e => e.type === "approval_required") as Extract<PipelineEvent, { type: "approval_required" }>;
+    expect(gate).toMatchObject({ roleName: "Архитектор", output: '{"project_name":"original"}', outputFormat: "json" });
+    expect(events).toContainEqual(expect.objectContaining({ type: "approval_resolved", action: "edit", stepId: gate.stepId }));
+
+    const architectStep = memory.steps.find(s => s.agentRoleId === "role_architect")!;
+    expect(architectStep.output).toBe('{"project_name":"EDITED_PLAN"}');
+    expect(architectStep.outputParsed).toEqual({ project_name: "EDITED_PLAN" });
+
+    const coderCall = mockStreamText.mock.calls.find(([opts]) => (opts as { system: string }).system.includes("MOCK_SYSTEM_PROMPT"));
+    expect((coderCall![0] as { prompt: string }).prompt).toContain("EDITED_PLAN");
+    expect((coderCall![0] as { prompt: string }).prompt).not.toContain("original");
+    expect(events.at(-1)?.type).toBe("done");
+  });
+
+  it("runs the Designer only after the gated Architect's decision", async () => {
+    architectAware(['{"project_name":"original"}']);
+    const designer: AgentRole = { ...SEED_ROLES[1]!, id: "role_designer", name: "Дизайнер", systemPrompt: "Ты Дизайнер." };
+    SEED_ROLES.push(designer);
+    try {
+      const memory = await freshMemory("approval-batch");
+      const events = await collectWithDecisions(
+        executeOrchestrated(
+          memory, "Создай сайт", "", "react", undefined, undefined, null,
+          { roleIds: ["role_architect", "role_designer"], reasoning: "" },
+        ),
+        memory.sessionId,
+        [{ action: "edit", output: '{"project_name":"EDITED_PLAN"}' }],
+      );
+
+      const types = events.map(e => e.type === "step_start" ? `start:${(e as { roleName: string }).roleName}` : e.type);
+      expect(types.indexOf("start:Дизайнер")).toBeGreaterThan(types.indexOf("approval_resolved"));
+
+      const designerCall = mockStreamText.mock.calls.find(([opts]) => (opts as { system: string }).system.includes("Ты Дизайнер."));
+      expect((designerCall![0] as { prompt: string }).prompt).toContain("EDITED_PLAN");
+      expect(events.at(-1)?.type).toBe("done");
+    } finally {
+      SEED_ROLES.splice(SEED_ROLES.indexOf(designer), 1);
+    }
+  });
+
+  it("re-runs a rejected step with the feedback and drops the rejected output", async () => {
+    architectAware(['{"project_name":"v1"}', '{"project_name":"v2"}']);
+    const memory = await freshMemory("approval-reject");
+
+    const events = await collectWithDecisions(
+      executeOrchestrated(memory, "Создай сайт", "", "react"),
+      memory.sessionId,
+      [{ action: "reject", feedback: "Добавь страницу контактов" }, { action: "approve" }],
+    );
+
+    expect(events.filter(e => e.type === "approval_required")).toHaveLength(2);
+    const architectCalls = mockStreamText.mock.calls.filter(([opts]) => (opts as { system: string }).system.includes("Архитектор"));
+    expect(architectCalls).toHaveLength(2);
+    expect((architectCalls[1]![0] as { prompt: string }).prompt).toContain("Добавь страницу контактов");
+
+    const architectSteps = memory.steps.filter(s => s.agentRoleId === "role_architect");
+    expect(architectSteps.map(s => s.output)).toEqual(['{"project_name":"v2"}']);
+    expect(events.at(-1)?.type).toBe("done");
+  });
+
+  it("stops the chain when the request is aborted at the gate", async () => {
+    architectAware(['{"project_name":"v1"}']);
+    const memory = await freshMemory("approval-abort");
+    const controller = new AbortController();
+
+    const events: PipelineEvent[] = [];
+    for await (const ev of executeOrchestrated(memory, "Создай сайт", "", "react", controller.signal)) {
+      events.push(ev);
+      if (ev.type === "approval_required") setTimeout(() => controller.abort(), 0);
+    }
+
+    expect(events.at(-1)).toMatchObject({ type: "error", message: "Отменено пользователем" });
+    expect(mockStreamText.mock.calls.some(([opts]) => (opts as { system: string }).system.includes("MOCK_SYSTEM_PROMPT"))).toBe(false);
+  });
+});
+
+// ─── Chain checkpoints ───────────────────────────────────
+
+describe("executeOrchestrated checkpoints", () => {
+  it("resumes a chain stopped by clarifying questions with the answer", async () => {
+    let architectCalls = 0;
+    mockStreamText.mockImplementation((opts: { system: string }) => {
+      const sys = opts.system ?? "";
+      if (sys.includes("Архитектор")) {
+        architectCalls++;
+        return makeTextStream([architectCalls === 1 ? "Какой стиль сайта вы предпочитаете?" : '{"project_name":"site"}']);
+      }
+      if (sys.includes("Тестировщик")) {
+        return makeTextStream([JSON.stringify({ verdict: "pass", summary: "ok", issues: [] })]);
+      }
+      if (sys.includes("Копирайтер")) return makeTextStream(["Тексты"]);
+      return makeTextStream(["<nitArtifact>code</nitArtifact>"]);
+    });
+
+    const memory = await freshMemory("checkpoint");
+    const first = await collectEvents(executeOrchestrated(memory, "Создай лендинг", "ctx", "react"));
+
+    expect(first.some(e => e.type === "awaiting_user")).toBe(true);
+    expect(first.some(e => e.type === "done")).toBe(false);
+    expect(memory.chainCheckpoint).toMatchObject({
+      userMessage: "Создай лендинг",
+      localContext: "ctx",
+      rerunRoleIds: ["role_architect"],
+      remainingRoleIds: ["role_coder", "role_tester"],
+      fixCycleCount: 0,
+    });
+
+    mockStreamText.mockClear();
+    const second = await collectEvents(executeOrchestrated(memory, "Минимализм", "", "react"));
+
+    // No re-planning: the questioning role runs again, then the original remaining steps
+    expect(mockGenerateText).not.toHaveBeenCalled();
+    const roles = (second.filter(e => e.type === "role_selected") as Array<{ roleId: string }>).map(e => e.roleId);
+    expect(roles).toEqual(["role_architect", "role_coder", "role_tester"]);
+
+    const rerun = mockStreamText.mock.calls[0]![0] as { prompt: string };
+    expect(rerun.prompt).toContain("Создай лендинг");
+    expect(rerun.prompt).toContain("Минимализм");
+    expect(rerun.prompt).toContain("ctx");
+
+    expect(memory.chainCheckpoint).toBeUndefined();
+    expect(second.at(-1)?.type).toBe("done");
+  });
+
+  it("plans from scratch when the paused chain has expired", async () => {
+    mockStreamText.mockImplementation(() => makeTextStream(["<nitArtifact>code</nitArtifact>"]));
+    const memory = await freshMemory("checkpoint-expired");
+    memory.chainCheckpoint = {
+      userMessage: "Создай лендинг",
+      localContext: "",
+      rerunRoleIds: ["role_architect"],
+      remainingRoleIds: ["role_coder"],
+      completedCount: 1,
+      fixCycleCount: 0,
+      fixInstructions: "",
+      reasoning: "",
+      createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
+    };
+
+    const events = await collectEvents(executeOrchestrated(memory, "Поменяй цвет", "", "react"));
+
+    expect(events.some(e => e.type === "warning" && e.message.startsWith("Продолжение цепочки"))).toBe(false);
+    expect(events.some(e => e.type === "warning" && e.message.startsWith("Оркестратор:"))).toBe(true);
+    expect(memory.chainCheckpoint).toBeUndefined();
+  });
+
+  it("pauses a stored pipeline and resumes its graph with the answer", async () => {
+    let copyCalls = 0;
+    mockStreamText.mockImplementation((opts: { system: string }) => {
+      const sys = opts.system ?? "";
+      if (sys.includes("Копирайтер")) {
+        copyCalls++;
+        return makeTextStream([copyCalls === 1 ? "Какой тон текстов вам нужен?" : "Тексты"]);
+      }
+      if (sys.includes("Архитектор")) return makeTextStream(['{"project_name":"site"}']);
+      return makeTextStream(["<nitArtifact>code</nitArtifact>"]);
+    });
+    const definition = {
+      id: "def-pause", name: "Параллельный", description: "", isDefault: false, createdAt: "", updatedAt: "",
+      nodes: [
+        { id: "arch", roleId: "role_architect" },
+        { id: "copy", roleId: "role_copywriter" },
+        { id: "code", roleId: "role_coder" },
+      ],
+      edges: [
+        { from: "arch", to: "code", condition: "always" as const },
+        { from: "copy", to: "code", condition: "always" as const },
+      ],
+    };
+
+    const memory = await freshMemory("checkpoint-definition");
+    const first = await collectEvents(executeOrchestrated(memory, "Создай лендинг", "", "react", undefined, undefined, definition));
+
+    expect(first.some(e => e.type === "awaiting_user")).toBe(true);
+    expect(memory.chainCheckpoint).toMatchObject({
+      rerunRoleIds: ["role_copywriter"],
+      remainingRoleIds: ["role_coder"],
+      definition: { pipelineId: "def-pause", pending: expect.arrayContaining(["copy", "code"]) },
+    });
+
+    mockStreamText.mockClear();
+    const second = await collectEvents(executeOrchestrated(memory, "Дружелюбный", "", "react", undefined, undefined, definition));
+
+    // The Architect finished next to the question and is not run again
+    const roles = (second.filter(e => e.type === "role_selected") as Array<{ roleId: string }>).map(e => e.roleId);
+    expect(roles).toEqual(["role_copywriter", "role_coder"]);
+    expect((mockStreamText.mock.calls[0]![0] as { prompt: string }).prompt).toContain("Дружелюбный");
+    expect(memory.chainCheckpoint).toBeUndefined();
+    expect(second.at(-1)?.type).toBe("done");
+  });
+
+  it("does not checkpoint a chain that stopped on an error", async () => {
+    mockStreamText.mockImplementation(() => makeTextStream([""]));
+    const memory = await freshMemory("checkpoint-error");
+    await collectEvents(executeOrchestrated(memory, "Создай лендинг", "", "react"));
+    expect(memory.chainCheckpoint).toBeUndefined();
+  });
+});
+
+// ─── Structured clarifying questions ─────────────────────
+
+describe("executeOrchestrated clarifying questions", () => {
+  it("detects plain-text questions in the session's language", async () => {
+    mockStreamText.mockImplementation(() => makeTextStream(["Which visual style would you like for the site?"]));
+
+    const memory = await freshMemory("questions-plain-en");
+    memory.locale = "en";
+    const events = await collectEvents(executeOrchestrated(memory, "Build a landing page", "", "react"));
+
+    expect(events.some(e => e.type === "awaiting_user")).toBe(true);
+    expect(events.some(e => e.type === "clarifying_questions")).toBe(false);
+    expect(memory.chainCheckpoint?.rerunRoleIds).toContain("role_architect");
+  });
+
+  it("forwards a questions block as a typed event, regardless of language", async () => {
+    const block = '<nitQuestions>[{"id":"style","question":"Which style do you prefer?","kind":"single","options":["Dark","Light"]}]</nitQuestions>';
+    mockStreamText.mockImplementation(() => makeTextStream([block]));
+
+    const memory = await freshMemory("questions");
+    const events = await collectEvents(executeOrchestrated(memory, "Build a landing page", "", "react"));
+
+    // Architect and Copywriter run in parallel — both ask here
+    const questions = events.find(e => e.type === "clarifying_questions") as
+      | Extract<PipelineEvent, { type: "clarifying_questions" }>
+      | undefined;
+    expect(questions?.roleName).toBe("Архитектор");
+    expect(questions?.questions).toEqual([
+      { id: "style", question: "Which style do you prefer?", kind: "single", options: ["Dark", "Light"] },
+    ]);
+    expect(questions?.stepId).toBeTruthy();
+
+    const types = events.map(e => e.type);
+    expect(types.indexOf("awaiting_user")).toBeGreaterThan(types.indexOf("clarifying_questions"));
+    expect(memory.chainCheckpoint?.rerunRoleIds).toContain("role_architect");
+  });
+});
+
+// ─── Confirmed plans ─────────────────────────────────────
+
+describe("executeOrchestrated confirmed plan", () => {
+  it("runs the confirmed roles in the given order without planning", async () => {
+    mockStreamText.mockImplementation((opts: { system: string }) => {
+      const sys = opts.system ?? "";
+      if (sys.includes("Тестировщик")) {
+        return makeTextStream([JSON.stringify({ verdict: "pass", summary: "ok", issues: [] })]);
+      }
+      if (sys.includes("Архитектор")) return makeTextStream(['{"project_name":"site"}']);
+      return makeTextStream(["<nitArtifact>code</nitArtifact>"]);
+    });
+
+    const memory = await freshMemory("confirmed-plan");
+    memory.steps.push({
+      order: 1, agentName: "prev", agentRoleId: "role_coder", input: "", output: "x",
+      modelUsed: "m", providerId: "p", durationMs: 0, selectedBy: "user",
+      status: "success", timestamp: new Date().toISOString(),
+    });
+
+    const events = await collectEvents(executeOrchestrated(
+      memory, "Поменяй цвет", "", "react", undefined, undefined, null,
+      { roleIds: ["role_coder", "role_unknown", "role_tester", "role_coder"], reasoning: "" },
+    ));
+
+    expect(mockGenerateText).not.toHaveBeenCalled();
+    const roles = (events.filter(e => e.type === "role_selected") as Array<{ roleId: string }>).map(e => e.roleId);
+    expect(roles).toEqual(["role_coder", "role_tester"]);
+    expect(events.some(e => e.type === "warning" && e.message.includes("План изменён пользователем"))).toBe(true);
+    expect(events.at(-1)?.type).toBe("done");
+  });
+
+  it("runs the definition graph when the confirmed plan is its unchanged preview", async () => {
+    mockStreamText.mockImplementation((opts: { system: string }) => {
+      if ((opts.system ?? "").includes("Тестировщик")) {
+        return makeTextStream([JSON.stringify({ verdict: "pass", summary: "ok", issues: [] })]);
+      }
+      return makeTextStream(["<nitArtifact>code</nitArtifact>"]);
+    });
+    const definition = {
+      id: "def1", name: "Быстрый", description: "", isDefault: true, createdAt: "", updatedAt: "",
+      nodes: [{ id: "n1", roleId: "role_coder" }, { id: "n2", roleId: "role_tester" }],
+      edges: [{ from: "n1", to: "n2", condition: "always" as const }],
+    };
+
+    const memory = await freshMemory("confirmed-definition");
+    const events = await collectEvents(executeOrchestrated(
+      memory, "Поменяй цвет", "", "react", undefined, undefined, definition,
+      { roleIds: ["role_coder", "role_tester"], reasoning: "Пайплайн \"Быстрый\"" },
+    ));
+
+    expect(events.some(e => e.type === "warning" && e.message.startsWith("Пайплайн \"Быстрый\":"))).toBe(true);
+    expect(events.some(e => e.type === "warning" && e.message.startsWith("План:"))).toBe(false);
+  });
+
+  it("runs an edited plan instead of the definition", async () => {
+    mockStreamText.mockReturnValue(makeTextStream(["<nitArtifact>code</nitArtifact>"]));
+    const definition = {
+      id: "def1", name: "Быстрый", description: "", isDefault: true, createdAt: "", updatedAt: "",
+      nodes: [{ id: "n1", roleId: "role_coder" }, { id: "n2", roleId: "role_tester" }],
+      edges: [{ from: "n1", to: "n2", condition: "always" as const }],
+    };
+
+    const memory = await freshMemory("edited-definition");
+    const events = await collectEvents(executeOrchestrated(
+      memory, "Поменяй цвет", "", "react", undefined, undefined, definition,
+      { roleIds: ["role_coder"], reasoning: "" },
+    ));
+
+    const roles = (events.filter(e => e.type === "role_selected") as Array<{ roleId: string }>).map(e => e.roleId);
+    expect(roles).toEqual(["role_coder"]);
+  });
+
+  it("errors when no confirmed role is active", async () => {
+    const memory = await freshMemory("confirmed-empty");
+    const events = await collectEvents(executeOrchestrated(
+      memory, "Поменяй цвет", "", "react", undefined, undefined, null,
+      { roleIds: ["role_unknown"], reasoning: "" },
+    ));
+    expect(events).toEqual([{ type: "error", message: "Нет активных ролей для выполнения." }]);
+  });
+});
+
+// ─── Chain control ───────────────────────────────────────
+
+describe("executeOrchestrated chain control", () => {
+  /** Answers by role; the first call of failOnce throws as an unreachable provider would. */
+  function roleAware(failOnce?: string) {
+    mockStreamText.mockImplementation((opts: { system: string }) => {
+      if (failOnce && (opts.system ?? "").includes(failOnce)) {
+        failOnce = undefined;
+        throw new Error("connect ECONNREFUSED 127.0.0.1:11434");
+      }
+      if ((opts.system ?? "").includes("Тестировщик")) {
+        return makeTextStream([JSON.stringify({ verdict: "pass", summary: "ok", issues: [] })]);
+      }
+      if ((opts.system ?? "").includes("Копирайтер")) return makeTextStream(["Тексты"]);
+      return makeTextStream(["<nitArtifact>code</nitArtifact>"]);
+    });
+  }
+
+  /** Collects events, sending the command built for each matching event. */
+  async function collectWithCommands(
+    gen: AsyncGenerator<PipelineEvent>,
+    sessionId: string,
+    onEvent: (ev: PipelineEvent) => ChainCommand | null,
+  ): Promise<PipelineEvent[]> {
+    const events: PipelineEvent[] = [];
+    for await (const ev of gen) {
+      events.push(ev);
+      const command = onEvent(ev);
+      // Waits and step signals open once the generator resumes past this yield
+      if (command) setTimeout(() => sendChainCommand(sessionId, command), 0);
+    }
+    return events;
+  }
+
+  it("reruns a failed step on retry", async () => {
+    roleAware("MOCK_SYSTEM_PROMPT");
+    const memory = await freshMemory("control-retry");
+    const control = openChainControl(memory.sessionId);
+
+    const events = await collectWithCommands(
+      executeOrchestrated(memory, "Создай сайт", "", "react", undefined, undefined, null,
+        { roleIds: ["role_coder"], reasoning: "" }, control),
+      memory.sessionId,
+      (ev) => ev.type === "step_failed" ? { action: "retry", stepId: ev.stepId } : null,
+    );
+    closeChainControl(control);
+
+    expect(events.find(e => e.type === "step_failed")).toMatchObject({ roleName: "Кодер" });
+    expect(events.some(e => e.type === "error")).toBe(false);
+    expect(events.filter(e => e.type === "step_complete")).toHaveLength(1);
+    expect(memory.steps.at(-1)).toMatchObject({ agentRoleId: "role_coder", status: "success" });
+    expect(events.at(-1)?.type).toBe("done");
+  });
+
+  it("continues past a failed step on skip", async () => {
+    roleAware("Копирайтер");
+    const memory = await freshMemory("control-skip-failed");
+    const control = openChainControl(memory.sessionId);
+
+    const events = await collectWithCommands(
+      executeOrchestrated(memory, "Создай сайт", "", "react", undefined, undefined, null,
+        { roleIds: ["role_copywriter", "role_coder"], reasoning: "" }, control),
+      memory.sessionId,
+      (ev) => ev.type === "step_failed" ? { action: "skip", stepId: ev.stepId } : null,
+    );
+    closeChainControl(control);
+
+    expect(events).toContainEqual(expect.objectContaining({ type: "step_skipped", roleName: "Копирайтер" }));
+    expect(memory.steps.some(s => s.agentRoleId === "role_coder" && s.status === "success")).toBe(true);
+    expect(events.at(-1)?.type).toBe("done");
+  });
+
+  it("skips a running step", async () => {
+    mockStreamText.mockImplementation((opts: { system: string; abortSignal?: AbortSignal }) => {
+      if (!(opts.system ?? "").includes("Копирайтер")) return makeTextStream(["<nitArtifact>code</nitArtifact>"]);
+      return {
+        textStream: {
+          async *[Symbol.asyncIterator]() {
+            yield "Начало";
+            await new Promise((_, reject) => opts.abortSignal?.addEventListener("abort", () =>
+              reject(Object.assign(new Error("aborted"), { name: "AbortError" }))));
+          },
+        },
+      };
+    });
+    const memory = await freshMemory("control-skip-running");
+    const control = openChainControl(memory.sessionId);
+
+    let stepId = "";
+    const events = await collectWithCommands(
+      executeOrchestrated(memory, "Создай сайт", "", "react", undefined, undefined, null,
+        { roleIds: ["role_copywriter", "role_coder"], reasoning: "" }, control),
+      memory.sessionId,
+      (ev) => {
+        if (ev.type === "role_selected" && ev.roleId === "role_copywriter") stepId = ev.stepId ?? "";
+        return ev.type === "text" && ev.text === "Начало" ? { action: "skip", stepId } : null;
+      },
+    );
+    closeChainControl(control);
+
+    expect(events).toContainEqual(expect.objectContaining({ type: "step_skipped", roleName: "Копирайтер" }));
+    expect(events.some(e => e.type === "step_failed" || e.type === "error")).toBe(false);
+    expect(memory.steps.some(s => s.agentRoleId === "role_coder" && s.status === "success")).toBe(true);
+    expect(events.at(-1)?.type).toBe("done");
+  });
+
+  it("runs an inserted role after the current step", async () => {
+    roleAware();
+    const memory = await freshMemory("control-insert");
+    const control = openChainControl(memory.sessionId);
+
+    const events: PipelineEvent[] = [];
+    for await (const ev of executeOrchestrated(memory, "Создай сайт", "", "react", undefined, undefined, null,
+      { roleIds: ["role_copywriter", "role_coder"], reasoning: "" }, control)) {
+      events.push(ev);
+      if (ev.type === "step_start" && ev.roleName === "Копирайтер") {
+        sendChainCommand(memory.sessionId, { action: "insert", roleId: "role_tester" });
+      }
+    }
+    closeChainControl(control);
+
+    const roles = (events.filter(e => e.type === "role_selected") as Array<{ roleId: string }>).map(e => e.roleId);
+    expect(roles.slice(0, 3)).toEqual(["role_copywriter", "role_tester", "role_coder"]);
+    expect(events.some(e => e.type === "warning" && e.message.includes("Добавлены шаги"))).toBe(true);
+    expect(events.at(-1)?.type).toBe("done");
+  });
+});
+
+// ─── Continuation of truncated code ──────────────────────
+
+describe("executeStepStreaming continuation", () => {
+  const coder = SEED_ROLES[2]!;
+  const head = '<nitArtifact id="p" title="P">\n<nitAction type="file" filePath="App.tsx">\nexport default function App() {\n';
+  const tail = "  return null;\n}\n</nitAction>\n</nitArtifact>";
+
+  it("continues an output cut off mid-file and stitches it together", async () => {
+    mockStreamText
+      .mockReturnValueOnce({ ...makeTextStream([head]), finishReason: Promise.resolve("length") })
+      .mockReturnValueOnce({ ...makeTextStream(["export default function App() {\n", tail]), finishReason: Promise.resolve("stop") });
+
+    const memory = await freshMemory("continue-ok");
+    const events = await collectEvents(executeStepStreaming(coder, memory, "Создай сайт", "", "react", "user"));
+
+    const continuation = events.find(e => e.type === "continuation");
+    expect(continuation).toMatchObject({ roleName: "Кодер", attempt: 1, maxAttempts: 3, reason: "length", filePath: "App.tsx" });
+
+    // The continuation request quotes the cut and the repeated line is not streamed twice
+    const second = mockStreamText.mock.calls[1]![0] as { prompt: string };
+    expect(second.prompt).toContain("на середине файла App.tsx");
+    const streamed = events.filter(e => e.type === "text").map(e => (e as { text: string }).text).join("");
+    expect(streamed).toBe(head + tail);
+
+    expect(memory.steps[0]!.output).toBe(head + tail);
+    expect(events.at(-1)?.type).toBe("step_complete");
+  });
+
+  it("stops after the continuation cap with a warning", async () => {
+    let line = 0;
+    mockStreamText.mockImplementation(() => makeTextStream([`  const line${++line} = ${line};\n`]));
+    mockStreamText.mockReturnValueOnce(makeTextStream([head]));
+
+    const memory = await freshMemory("continue-cap");
+    const events = await collectEvents(executeStepStreaming(coder, memory, "Создай сайт", "", "react", "user"));
+
+    expect(events.filter(e => e.type === "continuation")).toHaveLength(3);
+    expect(mockStreamText).toHaveBeenCalledTimes(4);
+    expect(events.some(e => e.type === "warning" && e.message.includes("после 3 продолжений"))).toBe(true);
+    expect(memory.steps[0]!.status).toBe("success");
+  });
+
+  it("does not continue roles that do not write code", async () => {
+    mockStreamText.mockReturnValue({ ...makeTextStream(["Тексты для"]), finishReason: Promise.resolve("length") });
+
+    const memory = await freshMemory("continue-text");
+    const events = await collectEvents(executeStepStreaming(SEED_ROLES[1]!, memory, "Тексты", "", "react", "user"));
+
+    expect(events.some(e => e.type === "continuation")).toBe(false);
+    expect(mockStreamText).toHaveBeenCalledTimes(1);
+  });
 });
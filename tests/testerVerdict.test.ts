@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseTesterVerdict,
+  getFailingIssues,
+  buildFixInstructions,
+} from "~/lib/services/testerVerdict";
+
+describe("testerVerdict", () => {
+  describe("parseTesterVerdict", () => {
+    it("parses a plain JSON verdict", () => {
+      const verdict = parseTesterVerdict(JSON.stringify({
+        verdict: "pass",
+        summary: "Всё хорошо",
+        issues: [{ file: "App.tsx", severity: "info", message: "Можно добавить alt" }],
+      }));
+      expect(verdict?.verdict).toBe("pass");
+      expect(verdict?.issues).toHaveLength(1);
+    });
+
+    it("extracts JSON from a markdown fence", () => {
+      const output = 'Вот результат:\n```json\n{"verdict":"fail","summary":"","issues":[{"file":"App.tsx","line":"12","severity":"critical","message":"Сломан импорт"}]}\n```';
+      const verdict = parseTesterVerdict(output);
+      expect(verdict?.verdict).toBe("fail");
+      expect(verdict?.issues[0]?.line).toBe(12);
+    });
+
+    it("normalizes severity aliases", () => {
+      const verdict = parseTesterVerdict('{"issues":[{"file":"a.ts","severity":"Error","message":"x"},{"file":"b.ts","severity":"minor","message":"y"}]}');
+      expect(verdict?.issues.map((i) => i.severity)).toEqual(["critical", "info"]);
+    });
+
+    it("forces fail when a pass verdict contains critical issues", () => {
+      const verdict = parseTesterVerdict('{"verdict":"pass","issues":[{"file":"a.ts","severity":"critical","message":"x"}]}');
+      expect(verdict?.verdict).toBe("fail");
+    });
+
+    it("returns null for free text", () => {
+      expect(parseTesterVerdict("ИТОГО: FAIL\nКритическая ошибка")).toBeNull();
+    });
+
+    it("returns null for an unknown severity", () => {
+      expect(parseTesterVerdict('{"issues":[{"file":"a.ts","severity":"fatal?","message":"x"}]}')).toBeNull();
+    });
+  });
+
+  describe("fix instructions", () => {
+    const verdict = parseTesterVerdict(JSON.stringify({
+      verdict: "fail",
+      summary: "",
+      issues: [
+        { file: "App.tsx", line: 7, severity: "critical", message: "Незакрытый тег div", suggestedFix: "Закрой div" },
+        { file: "App.tsx", severity: "warning", message: "Низкий контраст" },
+      ],
+    }))!;
+
+    it("keeps only critical issues", () => {
+      expect(getFailingIssues(verdict)).toHaveLength(1);
+    });
+
+    it("lists location, message and suggested fix", () => {
+      const text = buildFixInstructions(getFailingIssues(verdict));
+      expect(text).toContain("[App.tsx:7] Незакрытый тег div");
+      expect(text).toContain("Исправление: Закрой div");
+      expect(text).not.toContain("Низкий контраст");
+    });
+  });
+});
@@ -3,6 +3,7 @@ import {
   estimateTokens,
   estimateMessagesTokens,
   computeTokenBudget,
+  computeStepUsage,
 } from "~/lib/utils/tokenEstimator";
 
 describe("tokenEstimator", () => {
@@ -70,4 +71,28 @@ describe("tokenEstimator", () => {
       expect(budget.availableOutput).toBeGreaterThanOrEqual(0);
     });
   });
+
+  describe("computeStepUsage", () => {
+    const timing = { startedAt: 1000, firstTokenAt: 1500, finishedAt: 3500 };
+
+    it("uses reported counts and measures throughput after the first token", () => {
+      const usage = computeStepUsage({ promptTokens: 120, completionTokens: 80 }, "prompt", "out", timing);
+      expect(usage).toEqual({
+        promptTokens: 120,
+        completionTokens: 80,
+        estimated: false,
+        timeToFirstTokenMs: 500,
+        tokensPerSecond: 40,
+      });
+    });
+
+    it("estimates counts the provider did not report", () => {
+      const output = "a".repeat(70);
+      const usage = computeStepUsage({ promptTokens: NaN, completionTokens: NaN }, "b".repeat(35), output, timing);
+      expect(usage.estimated).toBe(true);
+      expect(usage.promptTokens).toBe(10);
+      expect(usage.completionTokens).toBe(20);
+      expect(usage.tokensPerSecond).toBe(10);
+    });
+  });
 });
@@ -22,6 +22,7 @@ vi.mock("~/lib/db/appwrite", () => {
     let result = [...docs];
     for (const q of queries) {
       switch (q.type) {
+        case "branch": result = result.filter(d => ((d.branch_id as string | null | undefined) || "main") === q.value); break;
         case "orderAsc": result.sort((a, b) => ((a[q.field!] as number) ?? 0) - ((b[q.field!] as number) ?? 0)); break;
         case "orderDesc": result.sort((a, b) => ((b[q.field!] as number) ?? 0) - ((a[q.field!] as number) ?? 0)); break;
         case "limit": result = result.slice(0, q.n); break;
@@ -52,6 +53,8 @@ vi.mock("~/lib/db/appwrite", () => {
       },
     }),
     COLLECTIONS: { VERSIONS: "versions" },
+    ensureProjectBranchesSchema: async () => {},
+    branchQuery: (branchId: string) => ({ type: "branch", value: branchId }),
     ID: { unique: () => `ver_${++idCounter}` },
     Query: {
       orderAsc: (field: string) => ({ type: "orderAsc", field }),
@@ -180,6 +183,27 @@ describe("versionService", () => {
       const lastDoc = col[col.length - 1]!;
       expect(lastDoc["code"]).toBe(JSON.stringify({ "a.ts": "content" }));
     });
+
+    it("should keep versions of a branch apart from main", async () => {
+      const version = await createVersion({
+        databaseId: DB_ID,
+        code: { "App.tsx": "<div>Fork</div>" },
+        prompt: "Fork",
+        model: "m",
+        agentId: "a",
+        temperature: 0.5,
+        branchId: "fork-1",
+      });
+
+      expect(version.branchId).toBe("fork-1");
+      expect(version.versionNumber).toBe(3);
+
+      const fork = await listVersions(DB_ID, "fork-1");
+      expect(fork.map((v) => v.id)).toEqual([version.id]);
+      const main = await listVersions(DB_ID);
+      expect(main.map((v) => v.id)).toEqual(["v2", "v1"]);
+      expect(main[0]!.branchId).toBe("main");
+    });
   });
 
   describe("deleteVersion", () => {
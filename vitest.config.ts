@@ -9,6 +9,9 @@ export default defineConfig({
     include: ["tests/**/*.test.ts", "tests/**/*.test.tsx"],
     environment: "node",
     globals: true,
+    env: {
+      SESSION_STORE: "memory",
+    },
   },
   resolve: {
     alias: {